@@ -7,6 +7,13 @@ import { ScheduleModule } from '@nestjs/schedule';
 import { UsersModule } from './modules/users/users.module';
 import { TasksModule } from './modules/tasks/tasks.module';
 import { AuthModule } from './modules/auth/auth.module';
+import { TaskCommentsModule } from './modules/task-comments/task-comments.module';
+import { TagsModule } from './modules/tags/tags.module';
+import { ProjectsModule } from './modules/projects/projects.module';
+import { OrganizationsModule } from './modules/organizations/organizations.module';
+import { TeamsModule } from './modules/teams/teams.module';
+import { SavedViewsModule } from './modules/saved-views/saved-views.module';
+import { CalendarModule } from './modules/calendar/calendar.module';
 import { TaskProcessorModule } from './queues/task-processor/task-processor.module';
 import { ScheduledTasksModule } from './queues/scheduled-tasks/scheduled-tasks.module';
 import { HealthModule } from './health/health.module';
@@ -71,6 +78,13 @@ import bullConfig from './config/bull.config';
     // Feature modules
     UsersModule,
     TasksModule,
+    TaskCommentsModule,
+    TagsModule,
+    ProjectsModule,
+    OrganizationsModule,
+    TeamsModule,
+    SavedViewsModule,
+    CalendarModule,
     AuthModule,
 
     // Queue processing modules
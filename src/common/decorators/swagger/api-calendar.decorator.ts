@@ -0,0 +1,114 @@
+import { applyDecorators, Type } from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiOkResponse,
+  ApiCreatedResponse,
+  ApiBadRequestResponse,
+  ApiUnauthorizedResponse,
+  ApiNotFoundResponse,
+  ApiProduces,
+} from '@nestjs/swagger';
+import {
+  ValidationErrorResponseDto,
+  UnauthorizedErrorResponseDto,
+  NotFoundErrorResponseDto,
+} from '../../dto/error-response.dto';
+
+/**
+ * Swagger decorator for Get Calendar Feed endpoint
+ */
+export function ApiCalendarFeedGet() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'iCalendar feed of due tasks (no bearer token; the feed token authenticates)',
+      description:
+        'One entry per task the feed owner owns or is assigned to that has a due date and is neither completed nor cancelled, soonest first. Rendered on every request, so changes show up on the next refresh; unchanged feeds are answered with 304 when the client sends its ETag.',
+    }),
+    ApiProduces('text/calendar'),
+    ApiOkResponse({
+      description: 'iCalendar document',
+      schema: { type: 'string', example: 'BEGIN:VCALENDAR\r\nVERSION:2.0\r\n...' },
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid component',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Unknown or rotated token',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Get Calendar Feed Token endpoint
+ */
+export function ApiCalendarFeedTokenGet<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get the state of your calendar feed',
+      description:
+        'The token is stored hashed and cannot be shown again; rotate it to get a new URL.',
+    }),
+    ApiOkResponse({
+      description: 'Calendar feed retrieved successfully',
+      type: responseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'No calendar feed issued yet',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Rotate Calendar Feed Token endpoint
+ */
+export function ApiCalendarFeedTokenRotate<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Issue or rotate your calendar feed token',
+      description:
+        'Creates the feed for the active organization on first use. Rotating invalidates the previous URL immediately.',
+    }),
+    ApiCreatedResponse({
+      description: 'Token issued; this is the only response that contains it',
+      type: responseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Revoke Calendar Feed Token endpoint
+ */
+export function ApiCalendarFeedTokenRevoke() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Revoke your calendar feed',
+    }),
+    ApiOkResponse({
+      description: 'Calendar feed revoked successfully',
+      schema: {
+        properties: {
+          message: { type: 'string', example: 'Calendar feed revoked successfully' },
+        },
+      },
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'No calendar feed issued yet',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
@@ -0,0 +1,347 @@
+import { applyDecorators, Type } from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiOkResponse,
+  ApiCreatedResponse,
+  ApiBadRequestResponse,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+} from '@nestjs/swagger';
+import {
+  ValidationErrorResponseDto,
+  UnauthorizedErrorResponseDto,
+  ForbiddenErrorResponseDto,
+  NotFoundErrorResponseDto,
+  ConflictErrorResponseDto,
+} from '../../dto/error-response.dto';
+
+const MEMBER_SCHEMA = {
+  properties: {
+    organizationId: { type: 'string', format: 'uuid' },
+    userId: { type: 'string', format: 'uuid' },
+    role: { type: 'string', enum: ['owner', 'admin', 'member'] },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+/**
+ * Swagger decorator for Create Organization endpoint
+ */
+export function ApiOrganizationCreate<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Create an organization',
+      description:
+        'Creates an organization with the authenticated user as its owner. Send its ID in the X-Organization-Id header to work in it.',
+    }),
+    ApiCreatedResponse({
+      description: 'Organization created successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Validation failed or invalid data',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for List Organizations endpoint
+ */
+export function ApiOrganizationList<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: "List the current user's organizations",
+      description:
+        'Returns the memberships of the authenticated user, oldest first. The first one is used when a request has no X-Organization-Id header.',
+    }),
+    ApiOkResponse({
+      description: 'Organizations retrieved successfully',
+      type: [responseDto],
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for List Organization Members endpoint
+ */
+export function ApiOrganizationMemberList<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List the members of an organization (members only)',
+    }),
+    ApiOkResponse({
+      description: 'Members retrieved successfully',
+      type: [responseDto],
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - not a member of this organization',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Organization not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+const INVITATION_SCHEMA = {
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    organizationId: { type: 'string', format: 'uuid' },
+    userId: { type: 'string', format: 'uuid' },
+    role: { type: 'string', enum: ['owner', 'admin', 'member'] },
+    invitedBy: { type: 'string', format: 'uuid', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+/**
+ * Swagger decorator for Invite Organization Member endpoint
+ */
+export function ApiOrganizationInvite() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Invite an existing user to an organization (owners and admins)',
+      description:
+        'The user joins only by accepting the invitation. Only owners may invite another owner.',
+    }),
+    ApiCreatedResponse({
+      description: 'Invitation created successfully',
+      schema: INVITATION_SCHEMA,
+    }),
+    ApiBadRequestResponse({
+      description: 'Validation failed or invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - caller is not an owner or admin of this organization',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Organization or user not found',
+      type: NotFoundErrorResponseDto,
+    }),
+    ApiConflictResponse({
+      description: 'User is already a member or already invited',
+      type: ConflictErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for List Organization Invitations endpoint
+ */
+export function ApiOrganizationInvitationList<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List the pending invitations of an organization (owners and admins)',
+    }),
+    ApiOkResponse({
+      description: 'Invitations retrieved successfully',
+      type: [responseDto],
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - caller is not an owner or admin of this organization',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Organization not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for List My Invitations endpoint
+ */
+export function ApiOrganizationMyInvitations<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: "List the current user's pending invitations",
+    }),
+    ApiOkResponse({
+      description: 'Invitations retrieved successfully',
+      type: [responseDto],
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Accept Invitation endpoint
+ */
+export function ApiOrganizationInvitationAccept() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Accept an invitation and join the organization (invited user only)',
+    }),
+    ApiOkResponse({
+      description: 'Invitation accepted; the membership is returned',
+      schema: MEMBER_SCHEMA,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Invitation not found',
+      type: NotFoundErrorResponseDto,
+    }),
+    ApiConflictResponse({
+      description: 'User is already a member',
+      type: ConflictErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Delete Invitation endpoint
+ */
+export function ApiOrganizationInvitationDelete() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Decline or revoke an invitation',
+      description:
+        'The invited user declines; owners and admins of the organization revoke. Only owners revoke an invitation to become owner.',
+    }),
+    ApiOkResponse({
+      description: 'Invitation deleted successfully',
+      schema: {
+        properties: {
+          message: { type: 'string', example: 'Invitation deleted successfully' },
+        },
+      },
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - caller may not revoke this invitation',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Invitation not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Update Organization Member endpoint
+ */
+export function ApiOrganizationMemberUpdate() {
+  return applyDecorators(
+    ApiOperation({
+      summary: "Change a member's role (owners and admins)",
+      description: 'Only owners grant or revoke the owner role; the last owner cannot be demoted.',
+    }),
+    ApiOkResponse({
+      description: 'Member updated successfully',
+      schema: MEMBER_SCHEMA,
+    }),
+    ApiBadRequestResponse({
+      description: 'Validation failed or invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - caller may not change this role',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Organization or member not found',
+      type: NotFoundErrorResponseDto,
+    }),
+    ApiConflictResponse({
+      description: 'The organization would be left without an owner',
+      type: ConflictErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Remove Organization Member endpoint
+ */
+export function ApiOrganizationMemberRemove() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Remove a member from an organization',
+      description:
+        'Owners and admins remove members; anyone may remove themselves. Tasks of a removed member stay in the organization.',
+    }),
+    ApiOkResponse({
+      description: 'Member removed successfully',
+      schema: {
+        properties: {
+          message: { type: 'string', example: 'Member removed successfully' },
+        },
+      },
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - caller may not remove this member',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Organization or member not found',
+      type: NotFoundErrorResponseDto,
+    }),
+    ApiConflictResponse({
+      description: 'The organization would be left without an owner',
+      type: ConflictErrorResponseDto,
+    }),
+  );
+}
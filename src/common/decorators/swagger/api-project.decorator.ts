@@ -0,0 +1,207 @@
+import { applyDecorators, Type } from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiOkResponse,
+  ApiCreatedResponse,
+  ApiBadRequestResponse,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+} from '@nestjs/swagger';
+import {
+  ValidationErrorResponseDto,
+  UnauthorizedErrorResponseDto,
+  ForbiddenErrorResponseDto,
+  NotFoundErrorResponseDto,
+  ConflictErrorResponseDto,
+} from '../../dto/error-response.dto';
+
+/**
+ * Swagger decorator for Create Project endpoint
+ */
+export function ApiProjectCreate<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Create a project',
+      description: 'Creates a project owned by the authenticated user. Names are unique per user.',
+    }),
+    ApiCreatedResponse({
+      description: 'Project created successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Validation failed or invalid data',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiConflictResponse({
+      description: 'A project with this name already exists',
+      type: ConflictErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for List Projects endpoint
+ */
+export function ApiProjectList<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: "List the current user's projects",
+      description:
+        'Returns the projects owned by the authenticated user, ordered by name. Archived projects are only included with includeArchived=true.',
+    }),
+    ApiOkResponse({
+      description: 'Projects retrieved successfully',
+      type: [responseDto],
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid query parameters',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Get Project endpoint
+ */
+export function ApiProjectGet<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get a project by ID (ownership enforced for regular users)',
+    }),
+    ApiOkResponse({
+      description: 'Project retrieved successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - project belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Project not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Project Stats endpoint
+ */
+export function ApiProjectStats<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get task statistics of a project',
+      description:
+        'Same shape as GET /tasks/stats, counted over the non-deleted tasks of the project.',
+    }),
+    ApiOkResponse({
+      description: 'Statistics retrieved successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - project belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Project not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Update Project endpoint
+ */
+export function ApiProjectUpdate<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Rename, describe or archive a project',
+    }),
+    ApiOkResponse({
+      description: 'Project updated successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Validation failed or invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - project belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Project not found',
+      type: NotFoundErrorResponseDto,
+    }),
+    ApiConflictResponse({
+      description: 'A project with this name already exists',
+      type: ConflictErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Delete Project endpoint
+ */
+export function ApiProjectDelete<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Delete a project',
+      description:
+        'taskAction=move moves every task of the project to targetProjectId, which must be another non-archived project of the same owner. taskAction=delete moves the tasks to the trash.',
+    }),
+    ApiOkResponse({
+      description: 'Project deleted successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format, missing taskAction or invalid move target',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - project or one of its tasks belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Project or target project not found',
+      type: NotFoundErrorResponseDto,
+    }),
+    ApiConflictResponse({
+      description: 'Target project is archived',
+      type: ConflictErrorResponseDto,
+    }),
+  );
+}
@@ -0,0 +1,207 @@
+import { applyDecorators, Type } from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiOkResponse,
+  ApiCreatedResponse,
+  ApiBadRequestResponse,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+  ApiExtraModels,
+  getSchemaPath,
+} from '@nestjs/swagger';
+import {
+  ValidationErrorResponseDto,
+  UnauthorizedErrorResponseDto,
+  ForbiddenErrorResponseDto,
+  NotFoundErrorResponseDto,
+  ConflictErrorResponseDto,
+} from '../../dto/error-response.dto';
+
+/**
+ * Swagger decorator for Create Saved View endpoint
+ */
+export function ApiSavedViewCreate<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Save a task list query as a named view',
+      description:
+        'filters takes the GET /tasks query parameters except paging. View names are unique per user. Marking a view as default replaces your previous default.',
+    }),
+    ApiCreatedResponse({
+      description: 'View created successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Validation failed or invalid data',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiConflictResponse({
+      description: 'You already have a view with this name',
+      type: ConflictErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for List Saved Views endpoint
+ */
+export function ApiSavedViewList<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List your views and the views shared in the organization',
+      description: 'Your default view comes first, the rest are ordered by name.',
+    }),
+    ApiOkResponse({
+      description: 'Views retrieved successfully',
+      type: [responseDto],
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Get Saved View endpoint
+ */
+export function ApiSavedViewGet<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get a view by ID (owner, shared views and admins)',
+    }),
+    ApiOkResponse({
+      description: 'View retrieved successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - private view of another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'View not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Run Saved View endpoint
+ */
+export function ApiSavedViewRun<T, C>(responseDto: Type<T>, cursorResponseDto: Type<C>) {
+  return applyDecorators(
+    ApiExtraModels(responseDto, cursorResponseDto),
+    ApiOperation({
+      summary: "List the tasks matching a view's filters",
+      description:
+        "Same result as GET /tasks with the view's filters and page size. Tasks are scoped to what you can see, and `assignee=me` means you, also on views shared by others. Paging works as on GET /tasks with `page`, or `pagination=cursor`, `cursor` and `includeTotal`.",
+    }),
+    ApiOkResponse({
+      description: 'Tasks retrieved successfully with pagination',
+      schema: {
+        oneOf: [{ $ref: getSchemaPath(responseDto) }, { $ref: getSchemaPath(cursorResponseDto) }],
+      },
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format, query parameters or cursor',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - private view of another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'View not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Update Saved View endpoint
+ */
+export function ApiSavedViewUpdate<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Update a view (owner and admins)',
+      description: 'filters replaces the stored filters as a whole.',
+    }),
+    ApiOkResponse({
+      description: 'View updated successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Validation failed or invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - view belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'View not found',
+      type: NotFoundErrorResponseDto,
+    }),
+    ApiConflictResponse({
+      description: 'The owner already has a view with this name',
+      type: ConflictErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Delete Saved View endpoint
+ */
+export function ApiSavedViewDelete() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Delete a view (owner and admins)',
+    }),
+    ApiOkResponse({
+      description: 'View deleted successfully',
+      schema: {
+        properties: {
+          message: { type: 'string', example: 'View deleted successfully' },
+        },
+      },
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - view belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'View not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
@@ -0,0 +1,232 @@
+import { applyDecorators, Type } from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiOkResponse,
+  ApiCreatedResponse,
+  ApiBadRequestResponse,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+} from '@nestjs/swagger';
+import {
+  ValidationErrorResponseDto,
+  UnauthorizedErrorResponseDto,
+  ForbiddenErrorResponseDto,
+  NotFoundErrorResponseDto,
+  ConflictErrorResponseDto,
+} from '../../dto/error-response.dto';
+
+/**
+ * Swagger decorator for Create Tag endpoint
+ */
+export function ApiTagCreate<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Create a tag',
+      description: 'Creates a tag owned by the authenticated user. Names are unique per user.',
+    }),
+    ApiCreatedResponse({
+      description: 'Tag created successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Validation failed or invalid data',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiConflictResponse({
+      description: 'A tag with this name already exists',
+      type: ConflictErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for List Tags endpoint
+ */
+export function ApiTagList<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: "List the current user's tags",
+      description: 'Returns the tags owned by the authenticated user, ordered by name.',
+    }),
+    ApiOkResponse({
+      description: 'Tags retrieved successfully',
+      type: [responseDto],
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Get Tag endpoint
+ */
+export function ApiTagGet<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get a tag by ID (ownership enforced for regular users)',
+    }),
+    ApiOkResponse({
+      description: 'Tag retrieved successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - tag belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Tag not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Update Tag endpoint
+ */
+export function ApiTagUpdate<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Rename or recolor a tag',
+    }),
+    ApiOkResponse({
+      description: 'Tag updated successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Validation failed or invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - tag belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Tag not found',
+      type: NotFoundErrorResponseDto,
+    }),
+    ApiConflictResponse({
+      description: 'A tag with this name already exists',
+      type: ConflictErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Delete Tag endpoint
+ */
+export function ApiTagDelete() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Delete a tag',
+      description: 'Deletes the tag and removes it from every task carrying it.',
+    }),
+    ApiOkResponse({
+      description: 'Tag deleted successfully',
+      schema: {
+        properties: {
+          message: { type: 'string', example: 'Tag deleted successfully' },
+        },
+      },
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - tag belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Tag not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for List Task Tags endpoint
+ */
+export function ApiTaskTagList<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List the tags of a task (ownership enforced for regular users)',
+    }),
+    ApiOkResponse({
+      description: 'Tags retrieved successfully',
+      type: [responseDto],
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - task belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Set Task Tags endpoint
+ */
+export function ApiTaskTagSet<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Replace the tags of a task',
+      description:
+        "Sets the complete tag list of the task. Tags must belong to the task's owner; an empty list removes all tags.",
+    }),
+    ApiOkResponse({
+      description: 'Tags assigned successfully',
+      type: [responseDto],
+    }),
+    ApiBadRequestResponse({
+      description: 'Validation failed or tag belongs to a different user',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - task belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task or tag not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
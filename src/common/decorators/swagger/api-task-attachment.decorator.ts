@@ -0,0 +1,169 @@
+import { applyDecorators, Type } from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiOkResponse,
+  ApiCreatedResponse,
+  ApiBadRequestResponse,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiPayloadTooLargeResponse,
+  ApiConsumes,
+  ApiBody,
+  ApiProduces,
+} from '@nestjs/swagger';
+import {
+  ValidationErrorResponseDto,
+  UnauthorizedErrorResponseDto,
+  ForbiddenErrorResponseDto,
+  NotFoundErrorResponseDto,
+} from '../../dto/error-response.dto';
+
+/**
+ * Swagger decorator for Upload Task Attachment endpoint
+ */
+export function ApiTaskAttachmentUpload<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Attach a file to a task',
+      description:
+        'Multipart upload with the file in the "file" field. Size and MIME type are limited (ATTACHMENT_MAX_SIZE_BYTES, ATTACHMENT_ALLOWED_MIME_TYPES). The SHA-256 checksum of the content is recorded. Any user who can read the task may upload.',
+    }),
+    ApiConsumes('multipart/form-data'),
+    ApiBody({
+      schema: {
+        type: 'object',
+        required: ['file'],
+        properties: {
+          file: { type: 'string', format: 'binary' },
+        },
+      },
+    }),
+    ApiCreatedResponse({
+      description: 'File attached successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format, missing or empty file, or MIME type not allowed',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - task belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task not found',
+      type: NotFoundErrorResponseDto,
+    }),
+    ApiPayloadTooLargeResponse({
+      description: 'File exceeds the maximum attachment size',
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for List Task Attachments endpoint
+ */
+export function ApiTaskAttachmentList<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List the files attached to a task',
+      description: 'Returns attachment metadata, oldest first.',
+    }),
+    ApiOkResponse({
+      description: 'Attachments retrieved successfully',
+      type: [responseDto],
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - task belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Download Task Attachment endpoint
+ */
+export function ApiTaskAttachmentDownload() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Download an attachment',
+      description:
+        'Streams the file with its stored Content-Type, Content-Length and a Content-Disposition carrying the original file name.',
+    }),
+    ApiProduces('application/octet-stream'),
+    ApiOkResponse({
+      description: 'File content',
+      schema: { type: 'string', format: 'binary' },
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - task belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task or attachment not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Delete Task Attachment endpoint
+ */
+export function ApiTaskAttachmentDelete() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Delete an attachment',
+      description:
+        'Removes the file and its metadata. Allowed for the uploader, the task owner and admins.',
+    }),
+    ApiOkResponse({
+      description: 'Attachment deleted successfully',
+      schema: {
+        properties: {
+          message: { type: 'string', example: 'Attachment deleted successfully' },
+        },
+      },
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - neither uploader, task owner nor admin',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task or attachment not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
@@ -0,0 +1,184 @@
+import { applyDecorators, Type } from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiOkResponse,
+  ApiCreatedResponse,
+  ApiBadRequestResponse,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+import {
+  ValidationErrorResponseDto,
+  UnauthorizedErrorResponseDto,
+  ForbiddenErrorResponseDto,
+  NotFoundErrorResponseDto,
+} from '../../dto/error-response.dto';
+
+/**
+ * Swagger decorator for Create Task Comment endpoint
+ */
+export function ApiTaskCommentCreate<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Add a comment to a task (task access enforced)',
+      description:
+        'Adds a comment to a task. Regular users can only comment on their own tasks. Admins and super-admins can comment on any task.',
+    }),
+    ApiCreatedResponse({
+      description: 'Comment created successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format or validation failed',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - task belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for List Task Comments endpoint
+ */
+export function ApiTaskCommentList<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List comments on a task (task access enforced)',
+      description: 'Returns a paginated list of comments on a task, oldest first.',
+    }),
+    ApiOkResponse({
+      description: 'Comments retrieved successfully with pagination',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format or query parameters',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - task belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Update Task Comment endpoint
+ */
+export function ApiTaskCommentUpdate<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Edit a comment (author only)',
+      description:
+        'Edits the body of a comment. Only the author can edit a comment. The previous body is kept as a revision.',
+    }),
+    ApiOkResponse({
+      description: 'Comment updated successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format or validation failed',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - task or comment belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task or comment not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Task Comment Revisions endpoint
+ */
+export function ApiTaskCommentRevisions<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get the edit history of a comment (task access enforced)',
+      description: 'Returns earlier versions of a comment, most recent edit first.',
+    }),
+    ApiOkResponse({
+      description: 'Revisions retrieved successfully',
+      type: responseDto,
+      isArray: true,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - task belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task or comment not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Delete Task Comment endpoint
+ */
+export function ApiTaskCommentDelete() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Delete a comment (author or admin)',
+      description:
+        'Deletes a comment and its edit history. Regular users can only delete their own comments. Admins and super-admins can delete any comment.',
+    }),
+    ApiOkResponse({
+      description: 'Comment deleted successfully',
+      schema: {
+        properties: {
+          message: { type: 'string', example: 'Comment deleted successfully' },
+        },
+      },
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - task or comment belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task or comment not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
@@ -0,0 +1,123 @@
+import { applyDecorators, Type } from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiOkResponse,
+  ApiCreatedResponse,
+  ApiBadRequestResponse,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+} from '@nestjs/swagger';
+import {
+  ValidationErrorResponseDto,
+  UnauthorizedErrorResponseDto,
+  ForbiddenErrorResponseDto,
+  NotFoundErrorResponseDto,
+  ConflictErrorResponseDto,
+} from '../../dto/error-response.dto';
+
+/**
+ * Swagger decorator for List Task Dependencies endpoint
+ */
+export function ApiTaskDependencyList<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List blockers and blocked tasks (ownership enforced for regular users)',
+      description: 'Returns the tasks that block this task and the tasks that are waiting on it.',
+    }),
+    ApiOkResponse({
+      description: 'Dependencies retrieved successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - task belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Add Task Dependency endpoint
+ */
+export function ApiTaskDependencyCreate<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Mark a task as blocked by another task',
+      description:
+        'Links the task to a blocker. The caller needs access to both tasks. Links that would create a cycle are rejected.',
+    }),
+    ApiCreatedResponse({
+      description: 'Dependency created successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format, self-reference or cycle detected',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - one of the tasks belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task or blocker not found',
+      type: NotFoundErrorResponseDto,
+    }),
+    ApiConflictResponse({
+      description: 'Dependency already exists',
+      type: ConflictErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Remove Task Dependency endpoint
+ */
+export function ApiTaskDependencyDelete() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Remove a blocker from a task',
+      description: 'Deletes the "blocked by" link between two tasks.',
+    }),
+    ApiOkResponse({
+      description: 'Dependency removed successfully',
+      schema: {
+        properties: {
+          message: { type: 'string', example: 'Dependency removed successfully' },
+        },
+      },
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - task belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task or dependency not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
@@ -0,0 +1,138 @@
+import { applyDecorators, Type } from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiOkResponse,
+  ApiBadRequestResponse,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+} from '@nestjs/swagger';
+import {
+  ValidationErrorResponseDto,
+  UnauthorizedErrorResponseDto,
+  ForbiddenErrorResponseDto,
+  NotFoundErrorResponseDto,
+  ConflictErrorResponseDto,
+} from '../../dto/error-response.dto';
+
+/**
+ * Swagger decorator for List Task Series endpoint
+ */
+export function ApiTaskSeriesList<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List recurring task series (users see their own, admins see all)',
+      description: 'Returns the recurring series together with their schedule state.',
+    }),
+    ApiOkResponse({
+      description: 'Series retrieved successfully',
+      type: [responseDto],
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Get Task Series endpoint
+ */
+export function ApiTaskSeriesGet<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get a recurring task series by ID (ownership enforced for regular users)',
+    }),
+    ApiOkResponse({
+      description: 'Series retrieved successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - series belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Series not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Update Task Series endpoint
+ */
+export function ApiTaskSeriesUpdate<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Edit all future occurrences of a recurring task',
+      description:
+        'Updates the series template and every pending occurrence that is not yet due. A new RRULE takes effect after the latest existing occurrence.',
+    }),
+    ApiOkResponse({
+      description: 'Series updated successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Validation failed (invalid RRULE, UUID format, etc.)',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - series belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Series not found',
+      type: NotFoundErrorResponseDto,
+    }),
+    ApiConflictResponse({
+      description: 'Series has been stopped',
+      type: ConflictErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Stop Task Series endpoint
+ */
+export function ApiTaskSeriesStop<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Stop all future occurrences of a recurring task',
+      description:
+        'Stops the schedule and removes pending occurrences that are not yet due. Past and started occurrences are kept.',
+    }),
+    ApiOkResponse({
+      description: 'Series stopped successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - series belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Series not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
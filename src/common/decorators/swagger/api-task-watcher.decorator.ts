@@ -0,0 +1,113 @@
+import { applyDecorators, Type } from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiOkResponse,
+  ApiCreatedResponse,
+  ApiBadRequestResponse,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+} from '@nestjs/swagger';
+import {
+  ValidationErrorResponseDto,
+  UnauthorizedErrorResponseDto,
+  ForbiddenErrorResponseDto,
+  NotFoundErrorResponseDto,
+  ConflictErrorResponseDto,
+} from '../../dto/error-response.dto';
+
+/**
+ * Swagger decorator for Watch Task endpoint
+ */
+export function ApiTaskWatch<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Watch a task',
+      description:
+        'Subscribes the current user to the task. Watchers are notified whenever its status, due date or priority changes. Any user who can read the task may watch it.',
+    }),
+    ApiCreatedResponse({
+      description: 'Task is now watched',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - task belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task not found',
+      type: NotFoundErrorResponseDto,
+    }),
+    ApiConflictResponse({
+      description: 'Task is already watched',
+      type: ConflictErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Unwatch Task endpoint
+ */
+export function ApiTaskUnwatch() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Stop watching a task',
+      description:
+        'Unsubscribes the current user from the task. Works even after the user lost access to it.',
+    }),
+    ApiOkResponse({
+      description: 'Task is no longer watched',
+      schema: {
+        properties: {
+          message: { type: 'string', example: 'Stopped watching task' },
+        },
+      },
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'The current user is not watching this task',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for List Watched Tasks endpoint
+ */
+export function ApiTaskWatchedList<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List tasks watched by the current user',
+      description:
+        'Returns watched tasks, most recently watched first. Trashed tasks are left out, and so are tasks a regular user can no longer read (e.g. after being unassigned).',
+    }),
+    ApiOkResponse({
+      description: 'Watched tasks retrieved successfully with pagination',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid query parameters',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+  );
+}
@@ -0,0 +1,63 @@
+import { applyDecorators, Type } from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiOkResponse,
+  ApiBadRequestResponse,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+} from '@nestjs/swagger';
+import {
+  ValidationErrorResponseDto,
+  UnauthorizedErrorResponseDto,
+  ForbiddenErrorResponseDto,
+} from '../../dto/error-response.dto';
+
+/**
+ * Swagger decorator for Get Task Workflow endpoint
+ */
+export function ApiTaskWorkflowGet<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get the task status workflow',
+      description:
+        'Returns every task status with the statuses a task may move to next. Updates that change a status outside these transitions are rejected with TASK_STATUS_TRANSITION_INVALID.',
+    }),
+    ApiOkResponse({
+      description: 'Workflow retrieved successfully',
+      type: responseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Update Task Workflow endpoint
+ */
+export function ApiTaskWorkflowUpdate<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Replace the task status workflow (super-admins only)',
+      description:
+        'Replaces the whole transition table. Statuses without outgoing transitions become final. Existing tasks keep their status. The workflow applies to every organization.',
+    }),
+    ApiOkResponse({
+      description: 'Workflow updated successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Validation failed or a transition points to its own status',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Only super-admins can change the workflow',
+      type: ForbiddenErrorResponseDto,
+    }),
+  );
+}
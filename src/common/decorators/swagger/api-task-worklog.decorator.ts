@@ -0,0 +1,179 @@
+import { applyDecorators, Type } from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiOkResponse,
+  ApiCreatedResponse,
+  ApiBadRequestResponse,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+} from '@nestjs/swagger';
+import {
+  ValidationErrorResponseDto,
+  UnauthorizedErrorResponseDto,
+  ForbiddenErrorResponseDto,
+  NotFoundErrorResponseDto,
+  ConflictErrorResponseDto,
+} from '../../dto/error-response.dto';
+
+/**
+ * Swagger decorator for Start Timer endpoint
+ */
+export function ApiTimerStart<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Start a timer on a task',
+      description:
+        'Starts tracking time of the current user on the task. Each user can have only one running timer. Any user who can read the task may track time on it.',
+    }),
+    ApiCreatedResponse({
+      description: 'Timer started; the worklog has no endedAt until it is stopped',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format or invalid input data',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - task belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task not found',
+      type: NotFoundErrorResponseDto,
+    }),
+    ApiConflictResponse({
+      description: 'The current user already has a running timer',
+      type: ConflictErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Stop Timer endpoint
+ */
+export function ApiTimerStop<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Stop the running timer on a task',
+      description:
+        "Stops the current user's timer and records the duration. Works even after the user lost access to the task. Completing a task stops its running timers automatically.",
+    }),
+    ApiOkResponse({
+      description: 'Timer stopped',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'The current user has no running timer on this task',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Create Worklog endpoint
+ */
+export function ApiWorklogCreate<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Log time on a task manually',
+      description:
+        'Records time the current user spent on the task without a timer. The entry must not end in the future.',
+    }),
+    ApiCreatedResponse({
+      description: 'Worklog entry created',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format, invalid input data or entry ending in the future',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - task belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for List Worklogs endpoint
+ */
+export function ApiWorklogList<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List time logged on a task',
+      description:
+        'Returns worklog entries of all users, including running timers, most recently started first.',
+    }),
+    ApiOkResponse({
+      description: 'Worklog entries retrieved successfully with pagination',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format or query parameters',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - task belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Timesheet endpoint
+ */
+export function ApiTimesheet<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Timesheet report grouped by day and task',
+      description:
+        'Sums finished worklog entries of a user per UTC day and task. Entries count towards the day they started on. The range is inclusive and limited to 92 days. Only admins can report on other users.',
+    }),
+    ApiOkResponse({
+      description: 'Timesheet generated successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid dates or range too large',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: "Access denied - only admins can view other users' timesheets",
+      type: ForbiddenErrorResponseDto,
+    }),
+  );
+}
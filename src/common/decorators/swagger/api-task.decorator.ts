@@ -7,13 +7,22 @@ import {
   ApiUnauthorizedResponse,
   ApiForbiddenResponse,
   ApiNotFoundResponse,
+  ApiConflictResponse,
+  ApiQuery,
   ApiResponse,
+  ApiExtraModels,
+  ApiConsumes,
+  ApiBody,
+  ApiProduces,
+  ApiPayloadTooLargeResponse,
+  getSchemaPath,
 } from '@nestjs/swagger';
 import {
   ValidationErrorResponseDto,
   UnauthorizedErrorResponseDto,
   ForbiddenErrorResponseDto,
   NotFoundErrorResponseDto,
+  ConflictErrorResponseDto,
 } from '../../dto/error-response.dto';
 
 /**
@@ -24,7 +33,7 @@ export function ApiTaskCreate<T>(responseDto: Type<T>) {
     ApiOperation({
       summary: 'Create a new task',
       description:
-        'Creates a new task for the authenticated user. Task is automatically assigned to the current user.',
+        'Creates a new task for the authenticated user. Task is automatically assigned to the current user. Passing an RRULE in `recurrence` starts a recurring series with this task as its first occurrence.',
     }),
     ApiCreatedResponse({
       description: 'Task created successfully',
@@ -44,19 +53,22 @@ export function ApiTaskCreate<T>(responseDto: Type<T>) {
 /**
  * Swagger decorator for List Tasks endpoint
  */
-export function ApiTaskList<T>(responseDto: Type<T>) {
+export function ApiTaskList<T, C>(responseDto: Type<T>, cursorResponseDto: Type<C>) {
   return applyDecorators(
+    ApiExtraModels(responseDto, cursorResponseDto),
     ApiOperation({
       summary: 'Find all tasks with optional filtering (scoped by role)',
       description:
-        'Returns paginated list of tasks. Regular users see only their own tasks. Admins and super-admins see all tasks. Supports filtering by status and priority.',
+        'Returns paginated list of tasks. Regular users see only their own tasks, or the tasks assigned to them with `assignee=me`. Admins and super-admins see all tasks. Supports filtering by one or more statuses and priorities (comma-separated), tags (`tagMatch=any|all`), due and creation date ranges (`dueBefore`/`dueAfter`, `createdBefore`/`createdAfter`), `overdue` and `hasDueDate`. `sortBy` (createdAt, updatedAt, dueDate, priority by rank, title) with `sortOrder=asc|desc` controls ordering. Full-text search with `q` orders by relevance unless `sortBy` is given and returns highlighted snippets. `pagination=cursor` switches to keyset pagination ordered by creation time: pass the returned `nextCursor` as `cursor` for the next page, and `includeTotal=false` to skip the count. Cursor mode cannot be combined with `q`.',
     }),
     ApiOkResponse({
       description: 'Tasks retrieved successfully with pagination',
-      type: responseDto,
+      schema: {
+        oneOf: [{ $ref: getSchemaPath(responseDto) }, { $ref: getSchemaPath(cursorResponseDto) }],
+      },
     }),
     ApiBadRequestResponse({
-      description: 'Invalid query parameters',
+      description: 'Invalid query parameters or cursor',
       type: ValidationErrorResponseDto,
     }),
     ApiUnauthorizedResponse({
@@ -74,7 +86,7 @@ export function ApiTaskGet<T>(responseDto: Type<T>) {
     ApiOperation({
       summary: 'Find a task by ID (ownership enforced for regular users)',
       description:
-        'Retrieves a task by its ID. Regular users can only access their own tasks. Admins and super-admins can access any task.',
+        'Retrieves a task by its ID. Regular users can only access tasks they own or are assigned to. Admins and super-admins can access any task.',
     }),
     ApiOkResponse({
       description: 'Task retrieved successfully',
@@ -107,7 +119,13 @@ export function ApiTaskUpdate<T>(responseDto: Type<T>) {
     ApiOperation({
       summary: 'Update a task (ownership enforced for regular users)',
       description:
-        'Updates an existing task. Regular users can only update their own tasks. Admins and super-admins can update any task.',
+        'Updates an existing task. Regular users can only update their own tasks; assignees can only change the status. Admins and super-admins can update any task. Status changes must follow the configured workflow (see `GET /task-workflow`). Completing a task with open subtasks fails unless cascade=true, which completes the whole subtree.',
+    }),
+    ApiQuery({
+      name: 'cascade',
+      required: false,
+      type: Boolean,
+      description: 'Also complete every open subtask when completing a parent task',
     }),
     ApiOkResponse({
       description: 'Task updated successfully',
@@ -129,6 +147,207 @@ export function ApiTaskUpdate<T>(responseDto: Type<T>) {
       description: 'Task not found',
       type: NotFoundErrorResponseDto,
     }),
+    ApiConflictResponse({
+      description:
+        'Status transition not allowed by the workflow, or task still has open subtasks and cascade was not requested',
+      type: ConflictErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for List Subtasks endpoint
+ */
+export function ApiTaskChildren<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List the direct subtasks of a task (ownership enforced for regular users)',
+      description:
+        'Returns the direct children of a task, oldest first, each with its own child count and roll-up completion percentage.',
+    }),
+    ApiOkResponse({
+      description: 'Subtasks retrieved successfully',
+      type: responseDto,
+      isArray: true,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - task belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Move Subtree endpoint
+ */
+export function ApiTaskMoveSubtree<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Move a task and its subtasks under another parent',
+      description:
+        'Re-parents a task together with its whole subtree. Pass parentId null to make the task top-level. The new parent must belong to the same user and cannot be inside the moved subtree.',
+    }),
+    ApiOkResponse({
+      description: 'Subtree moved successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format, cycle detected or parent owned by another user',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - task belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task or parent task not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Task Board endpoint
+ */
+export function ApiTaskBoard<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get the Kanban board: tasks grouped by status in rank order',
+      description:
+        'Accepts the GET /tasks filters, without paging and sorting, and returns one column per status (only the filtered statuses when status is given) with its total and its top tasks up to limit. Users see the tasks GET /tasks would list for them; admins the whole organization.',
+    }),
+    ApiOkResponse({
+      description: 'Board retrieved successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid filter values or limit',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Move Task endpoint
+ */
+export function ApiTaskMove<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Move a task on the board',
+      description:
+        'Places the task directly below beforeId and/or directly above afterId in the column of status (default: its current status), or at the bottom of the column without neighbours. A new status goes through the workflow, blocker and subtask checks of PATCH /tasks/:id and queues the same task-status-update job. Assignees and team members may move the tasks they can read.',
+    }),
+    ApiOkResponse({
+      description: 'Task moved successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format or neighbours that are not in the target column',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - task not visible to the user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task not found',
+      type: NotFoundErrorResponseDto,
+    }),
+    ApiConflictResponse({
+      description:
+        'Status change not allowed (workflow, open blockers or subtasks), or the neighbours moved in the meantime',
+      type: ConflictErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Assign Task endpoint
+ */
+export function ApiTaskAssign<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Assign a task to a user (owner or admin)',
+      description:
+        'Sets the user who works on the task, or removes the assignee when assigneeId is null. The assignee can read the task and change its status; the owner keeps every other permission. Reassignment queues a notification.',
+    }),
+    ApiOkResponse({
+      description: 'Task assigned successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - only the owner or an admin can assign the task',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task or assignee not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Task Activity endpoint
+ */
+export function ApiTaskActivity<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get the change history of a task (ownership enforced for regular users)',
+      description:
+        'Returns a paginated list of activity entries, newest first. Each entry records who made the change, whether it came from an API request, a queue job or a scheduler, and the field-level diff.',
+    }),
+    ApiOkResponse({
+      description: 'Task activity retrieved successfully with pagination',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format or query parameters',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - task belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task not found',
+      type: NotFoundErrorResponseDto,
+    }),
   );
 }
 
@@ -138,9 +357,9 @@ export function ApiTaskUpdate<T>(responseDto: Type<T>) {
 export function ApiTaskDelete() {
   return applyDecorators(
     ApiOperation({
-      summary: 'Delete a task (ownership enforced for regular users)',
+      summary: 'Move a task to the trash (ownership enforced for regular users)',
       description:
-        'Deletes a task permanently. Regular users can only delete their own tasks. Admins and super-admins can delete any task.',
+        'Moves a task to the trash, from where it can be restored until it is purged. Regular users can only delete their own tasks. Admins and super-admins can delete any task.',
     }),
     ApiOkResponse({
       description: 'Task deleted successfully',
@@ -169,6 +388,101 @@ export function ApiTaskDelete() {
   );
 }
 
+/**
+ * Swagger decorator for Task Trash endpoint
+ */
+export function ApiTaskTrash<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List trashed tasks (scoped by role)',
+      description:
+        'Returns deleted tasks, most recently deleted first. Regular users see only their own trash. Admins and super-admins see all trashed tasks. Trashed tasks are purged automatically once they are older than the retention period.',
+    }),
+    ApiOkResponse({
+      description: 'Trashed tasks retrieved successfully with pagination',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid query parameters',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Restore Task endpoint
+ */
+export function ApiTaskRestore<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Restore a task from the trash (ownership enforced for regular users)',
+      description:
+        'Brings a trashed task back with its tags, comments and dependencies. Subtasks deleted separately stay in the trash.',
+    }),
+    ApiOkResponse({
+      description: 'Task restored successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - task belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task not found in trash',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Purge Task endpoint
+ */
+export function ApiTaskPurge() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Permanently delete a trashed task (ownership enforced for regular users)',
+      description:
+        'Deletes a task that is already in the trash, together with its comments, tags and dependencies. This cannot be undone. Its subtasks become top-level tasks.',
+    }),
+    ApiOkResponse({
+      description: 'Task purged successfully',
+      schema: {
+        properties: {
+          message: { type: 'string', example: 'Task permanently deleted successfully' },
+        },
+      },
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - task belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Task not found in trash',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
 /**
  * Swagger decorator for Task Statistics endpoint
  */
@@ -190,6 +504,31 @@ export function ApiTaskStats<T>(responseDto: Type<T>) {
   );
 }
 
+/**
+ * Swagger decorator for Estimate Report endpoint
+ */
+export function ApiTaskEstimateReport<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Compare estimates with actual time of completed tasks (scoped by role)',
+      description:
+        'Covers completed tasks with estimateMinutes. Actual time is the elapsed time from creation or the first move to IN_PROGRESS (measureFrom) until the last move to COMPLETED, taken from the activity log. Returns accuracy figures overall and per priority, plus the compared tasks, most recently completed first. Regular users see tasks they own or are assigned to.',
+    }),
+    ApiOkResponse({
+      description: 'Report generated successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid query parameters',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+  );
+}
+
 /**
  * Swagger decorator for Batch Create Tasks endpoint
  */
@@ -249,7 +588,7 @@ export function ApiTaskBatchDelete<T>(responseDto: Type<T>) {
     ApiOperation({
       summary: 'Batch delete multiple tasks (scoped by role)',
       description:
-        'Deletes multiple tasks in a single operation. Regular users can only delete their own tasks. Admins and super-admins can delete any tasks.',
+        'Moves multiple tasks to the trash in a single operation. Regular users can only delete their own tasks. Admins and super-admins can delete any tasks.',
     }),
     ApiOkResponse({
       description: 'Tasks deleted successfully',
@@ -299,3 +638,202 @@ export function ApiTaskBatchDeleteAsync<T>(responseDto: Type<T>) {
     }),
   );
 }
+
+/**
+ * Swagger decorator for Batch Update Tasks endpoint
+ */
+export function ApiTaskBatchUpdate<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Set status, priority, due date or assignee on multiple tasks (scoped by role)',
+      description:
+        'Writes the given fields to up to 1000 tasks in one transaction. Regular users can update their own tasks, and only the status of tasks assigned to them; admins and super-admins can update any task of the organization. Missing tasks, access and an unknown assignee fail the whole batch. A task that fails the workflow, blocker or open subtask checks is reported as failed and left alone while the others are updated. The response has one result per task ID.',
+    }),
+    ApiOkResponse({
+      description: 'Batch processed; see the per-task results',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Validation failed or no field to update',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - some tasks belong to other users',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'One or more tasks, or the assignee, not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Async Batch Update Tasks endpoint
+ */
+export function ApiTaskBatchUpdateAsync<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Batch update multiple tasks asynchronously via queue',
+      description:
+        'Queues a tasks-bulk-update job that applies PATCH /tasks/batch with the same checks. Returns immediately with job ID for tracking.',
+    }),
+    ApiResponse({
+      status: 202,
+      description: 'Tasks queued for update',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Validation failed',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Import Tasks endpoint
+ */
+export function ApiTaskImport<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Import tasks from a CSV or JSON Lines file',
+      description:
+        'Multipart upload with the file in the "file" field: a .csv file whose header names CreateTaskDto fields, or a .jsonl/.ndjson file with one task object per line. Every row is validated like POST /tasks (including past due dates) and checked like POST /tasks/batch; rows that fail are reported with per-field errors and the rest are imported. Up to 100 valid rows are created right away; larger files are queued on tasks-bulk-create in jobs of 500 rows. At most TASK_IMPORT_MAX_ROWS rows per file. The response is a downloadable report, JSON by default or CSV with `report=csv`.',
+    }),
+    ApiConsumes('multipart/form-data'),
+    ApiBody({
+      schema: {
+        type: 'object',
+        required: ['file'],
+        properties: {
+          file: { type: 'string', format: 'binary' },
+        },
+      },
+    }),
+    ApiProduces('application/json', 'text/csv'),
+    ApiCreatedResponse({
+      description: 'Import report with the outcome of every row',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description:
+        'Missing or empty file, unsupported format, malformed CSV, unknown columns or too many rows',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiPayloadTooLargeResponse({
+      description: 'File exceeds the maximum upload size',
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Export Tasks endpoint
+ */
+export function ApiTaskExport<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Export tasks as CSV or JSON Lines',
+      description:
+        'Accepts every GET /tasks filter and sort, without paging, and exports all matching tasks the user can see (admins: the whole organization). Rows are read through a database cursor and streamed as they arrive. Exports of up to TASK_EXPORT_SYNC_MAX_ROWS tasks are returned directly; larger ones are queued and answered with 202 and an export to poll at GET /tasks/exports/:exportId and download once completed.',
+    }),
+    ApiProduces('text/csv', 'application/jsonl', 'application/x-ndjson', 'application/json'),
+    ApiOkResponse({
+      description: 'Exported tasks, one per line after the CSV header',
+      schema: { type: 'string', format: 'binary' },
+    }),
+    ApiResponse({
+      status: 202,
+      description: 'Export queued; the file is written in the background',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid format or filter values',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Get Task Export endpoint
+ */
+export function ApiTaskExportGet<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get the status of a queued export',
+      description: 'Visible to the user who requested it and to admins.',
+    }),
+    ApiOkResponse({
+      description: 'Export retrieved successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - export belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Export not found or expired',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Download Task Export endpoint
+ */
+export function ApiTaskExportDownload() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Download a completed export',
+      description: 'Files are kept for TASK_EXPORT_RETENTION_HOURS after the export was requested.',
+    }),
+    ApiProduces('text/csv', 'application/jsonl', 'application/x-ndjson'),
+    ApiOkResponse({
+      description: 'Export file',
+      schema: { type: 'string', format: 'binary' },
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - export belongs to another user',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Export not found or expired',
+      type: NotFoundErrorResponseDto,
+    }),
+    ApiConflictResponse({
+      description: 'Export is not completed yet',
+      type: ConflictErrorResponseDto,
+    }),
+  );
+}
@@ -0,0 +1,282 @@
+import { applyDecorators, Type } from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiOkResponse,
+  ApiCreatedResponse,
+  ApiBadRequestResponse,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+} from '@nestjs/swagger';
+import {
+  ValidationErrorResponseDto,
+  UnauthorizedErrorResponseDto,
+  ForbiddenErrorResponseDto,
+  NotFoundErrorResponseDto,
+  ConflictErrorResponseDto,
+} from '../../dto/error-response.dto';
+
+/**
+ * Swagger decorator for Create Team endpoint
+ */
+export function ApiTeamCreate<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Create a team (admins only)',
+      description: 'Team names are unique within the organization.',
+    }),
+    ApiCreatedResponse({
+      description: 'Team created successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Validation failed or invalid data',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - admins only',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiConflictResponse({
+      description: 'A team with this name already exists',
+      type: ConflictErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for List Teams endpoint
+ */
+export function ApiTeamList<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List teams',
+      description:
+        'Admins see every team of the organization; regular users see the teams they belong to. Ordered by name.',
+    }),
+    ApiOkResponse({
+      description: 'Teams retrieved successfully',
+      type: [responseDto],
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Get Team endpoint
+ */
+export function ApiTeamGet<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Get a team by ID (members and admins)',
+    }),
+    ApiOkResponse({
+      description: 'Team retrieved successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - not a member of this team',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Team not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Update Team endpoint
+ */
+export function ApiTeamUpdate<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Rename or describe a team (admins only)',
+    }),
+    ApiOkResponse({
+      description: 'Team updated successfully',
+      type: responseDto,
+    }),
+    ApiBadRequestResponse({
+      description: 'Validation failed or invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - admins only',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Team not found',
+      type: NotFoundErrorResponseDto,
+    }),
+    ApiConflictResponse({
+      description: 'A team with this name already exists',
+      type: ConflictErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Delete Team endpoint
+ */
+export function ApiTeamDelete() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Delete a team (admins only)',
+      description: 'Tasks shared with the team are unshared and stay with their owners.',
+    }),
+    ApiOkResponse({
+      description: 'Team deleted successfully',
+      schema: {
+        properties: {
+          message: { type: 'string', example: 'Team deleted successfully' },
+        },
+      },
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - admins only',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Team not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for List Team Members endpoint
+ */
+export function ApiTeamMemberList<T>(responseDto: Type<T>) {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List the members of a team (members and admins)',
+    }),
+    ApiOkResponse({
+      description: 'Members retrieved successfully',
+      type: [responseDto],
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - not a member of this team',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Team not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Add Team Member endpoint
+ */
+export function ApiTeamMemberAdd() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Add a member of the organization to a team (admins only)',
+    }),
+    ApiCreatedResponse({
+      description: 'Member added successfully',
+      schema: {
+        properties: {
+          teamId: { type: 'string', format: 'uuid' },
+          userId: { type: 'string', format: 'uuid' },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+    }),
+    ApiBadRequestResponse({
+      description: 'Validation failed or invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - admins only',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Team not found or user is not in the organization',
+      type: NotFoundErrorResponseDto,
+    }),
+    ApiConflictResponse({
+      description: 'User is already a member',
+      type: ConflictErrorResponseDto,
+    }),
+  );
+}
+
+/**
+ * Swagger decorator for Remove Team Member endpoint
+ */
+export function ApiTeamMemberRemove() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Remove a member from a team',
+      description:
+        'Admins remove members; anyone may remove themselves. Tasks the member shared with the team stay shared.',
+    }),
+    ApiOkResponse({
+      description: 'Member removed successfully',
+      schema: {
+        properties: {
+          message: { type: 'string', example: 'Member removed successfully' },
+        },
+      },
+    }),
+    ApiBadRequestResponse({
+      description: 'Invalid UUID format',
+      type: ValidationErrorResponseDto,
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Authentication required',
+      type: UnauthorizedErrorResponseDto,
+    }),
+    ApiForbiddenResponse({
+      description: 'Access denied - caller may not remove this member',
+      type: ForbiddenErrorResponseDto,
+    }),
+    ApiNotFoundResponse({
+      description: 'Team or member not found',
+      type: NotFoundErrorResponseDto,
+    }),
+  );
+}
@@ -0,0 +1,35 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+export class PaginationQueryDto {
+  @ApiProperty({
+    required: false,
+    type: Number,
+    minimum: 1,
+    default: 1,
+    description: 'Page number for pagination',
+    example: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'page must be an integer' })
+  @Min(1, { message: 'page must be at least 1' })
+  page?: number = 1;
+
+  @ApiProperty({
+    required: false,
+    type: Number,
+    minimum: 1,
+    maximum: 100,
+    default: 20,
+    description: 'Number of items per page',
+    example: 20,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'limit must be an integer' })
+  @Min(1, { message: 'limit must be at least 1' })
+  @Max(100, { message: 'limit cannot exceed 100' })
+  limit?: number = 20;
+}
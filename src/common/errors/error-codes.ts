@@ -18,12 +18,127 @@ export enum ErrorCode {
   USER_EMAIL_ALREADY_EXISTS = 'USER_EMAIL_ALREADY_EXISTS',
   USER_PASSWORD_INVALID = 'USER_PASSWORD_INVALID',
   USER_EMAIL_VERIFICATION_NOT_IMPLEMENTED = 'USER_EMAIL_VERIFICATION_NOT_IMPLEMENTED',
+  USER_PLATFORM_ROLE_FORBIDDEN = 'USER_PLATFORM_ROLE_FORBIDDEN',
+  USER_CREDENTIALS_SELF_ONLY = 'USER_CREDENTIALS_SELF_ONLY',
+
+  // Organization errors
+  ORGANIZATION_NOT_FOUND = 'ORGANIZATION_NOT_FOUND',
+  ORGANIZATION_ACCESS_DENIED = 'ORGANIZATION_ACCESS_DENIED',
+  ORGANIZATION_MEMBERSHIP_REQUIRED = 'ORGANIZATION_MEMBERSHIP_REQUIRED',
+  ORGANIZATION_ADMIN_REQUIRED = 'ORGANIZATION_ADMIN_REQUIRED',
+  ORGANIZATION_OWNER_REQUIRED = 'ORGANIZATION_OWNER_REQUIRED',
+  ORGANIZATION_MEMBER_EXISTS = 'ORGANIZATION_MEMBER_EXISTS',
+  ORGANIZATION_MEMBER_NOT_FOUND = 'ORGANIZATION_MEMBER_NOT_FOUND',
+  ORGANIZATION_LAST_OWNER = 'ORGANIZATION_LAST_OWNER',
+  ORGANIZATION_INVITATION_EXISTS = 'ORGANIZATION_INVITATION_EXISTS',
+  ORGANIZATION_INVITATION_NOT_FOUND = 'ORGANIZATION_INVITATION_NOT_FOUND',
 
   // Task errors
   TASK_NOT_FOUND = 'TASK_NOT_FOUND',
   TASK_NOT_OWNED = 'TASK_NOT_OWNED',
   TASKS_NOT_FOUND = 'TASKS_NOT_FOUND',
   TASKS_DELETE_PERMISSION_DENIED = 'TASKS_DELETE_PERMISSION_DENIED',
+  TASK_PARENT_INVALID = 'TASK_PARENT_INVALID',
+  TASK_PARENT_OWNER_MISMATCH = 'TASK_PARENT_OWNER_MISMATCH',
+  TASK_HAS_OPEN_SUBTASKS = 'TASK_HAS_OPEN_SUBTASKS',
+  TASK_BLOCKED = 'TASK_BLOCKED',
+  TASK_RECURRENCE_REQUIRES_DUE_DATE = 'TASK_RECURRENCE_REQUIRES_DUE_DATE',
+  TASK_RECURRENCE_BATCH_UNSUPPORTED = 'TASK_RECURRENCE_BATCH_UNSUPPORTED',
+  TASK_CURSOR_INVALID = 'TASK_CURSOR_INVALID',
+  TASK_CURSOR_SEARCH_UNSUPPORTED = 'TASK_CURSOR_SEARCH_UNSUPPORTED',
+  TASK_CURSOR_SORT_UNSUPPORTED = 'TASK_CURSOR_SORT_UNSUPPORTED',
+  TASK_NOT_IN_TRASH = 'TASK_NOT_IN_TRASH',
+  TASK_ASSIGNEE_NOT_FOUND = 'TASK_ASSIGNEE_NOT_FOUND',
+  TASK_ASSIGNEE_STATUS_ONLY = 'TASK_ASSIGNEE_STATUS_ONLY',
+  TASKS_DELETE_ASSIGNEE_DENIED = 'TASKS_DELETE_ASSIGNEE_DENIED',
+  TASKS_UPDATE_EMPTY = 'TASKS_UPDATE_EMPTY',
+  TASKS_UPDATE_PERMISSION_DENIED = 'TASKS_UPDATE_PERMISSION_DENIED',
+  TASKS_UPDATE_ASSIGNEE_DENIED = 'TASKS_UPDATE_ASSIGNEE_DENIED',
+
+  // Task import errors
+  TASK_IMPORT_FILE_REQUIRED = 'TASK_IMPORT_FILE_REQUIRED',
+  TASK_IMPORT_FORMAT_UNSUPPORTED = 'TASK_IMPORT_FORMAT_UNSUPPORTED',
+  TASK_IMPORT_MALFORMED = 'TASK_IMPORT_MALFORMED',
+  TASK_IMPORT_UNKNOWN_COLUMNS = 'TASK_IMPORT_UNKNOWN_COLUMNS',
+  TASK_IMPORT_EMPTY = 'TASK_IMPORT_EMPTY',
+  TASK_IMPORT_TOO_MANY_ROWS = 'TASK_IMPORT_TOO_MANY_ROWS',
+
+  // Task export errors
+  TASK_EXPORT_NOT_FOUND = 'TASK_EXPORT_NOT_FOUND',
+  TASK_EXPORT_NOT_OWNED = 'TASK_EXPORT_NOT_OWNED',
+  TASK_EXPORT_NOT_READY = 'TASK_EXPORT_NOT_READY',
+
+  // Task board errors
+  TASK_MOVE_NEIGHBOUR_INVALID = 'TASK_MOVE_NEIGHBOUR_INVALID',
+  TASK_MOVE_NEIGHBOURS_CHANGED = 'TASK_MOVE_NEIGHBOURS_CHANGED',
+
+  // Task workflow errors
+  TASK_STATUS_TRANSITION_INVALID = 'TASK_STATUS_TRANSITION_INVALID',
+  TASK_STATUS_TRANSITION_SELF = 'TASK_STATUS_TRANSITION_SELF',
+  TASK_STATUS_CHANGED = 'TASK_STATUS_CHANGED',
+
+  // Task series errors
+  TASK_SERIES_NOT_FOUND = 'TASK_SERIES_NOT_FOUND',
+  TASK_SERIES_NOT_OWNED = 'TASK_SERIES_NOT_OWNED',
+  TASK_SERIES_STOPPED = 'TASK_SERIES_STOPPED',
+
+  // Task dependency errors
+  TASK_DEPENDENCY_SELF = 'TASK_DEPENDENCY_SELF',
+  TASK_DEPENDENCY_CYCLE = 'TASK_DEPENDENCY_CYCLE',
+  TASK_DEPENDENCY_EXISTS = 'TASK_DEPENDENCY_EXISTS',
+  TASK_DEPENDENCY_NOT_FOUND = 'TASK_DEPENDENCY_NOT_FOUND',
+
+  // Task watcher errors
+  TASK_WATCHER_EXISTS = 'TASK_WATCHER_EXISTS',
+  TASK_WATCHER_NOT_FOUND = 'TASK_WATCHER_NOT_FOUND',
+
+  // Task attachment errors
+  ATTACHMENT_NOT_FOUND = 'ATTACHMENT_NOT_FOUND',
+  ATTACHMENT_FILE_REQUIRED = 'ATTACHMENT_FILE_REQUIRED',
+  ATTACHMENT_TYPE_NOT_ALLOWED = 'ATTACHMENT_TYPE_NOT_ALLOWED',
+  ATTACHMENT_DELETE_FORBIDDEN = 'ATTACHMENT_DELETE_FORBIDDEN',
+
+  // Time tracking errors
+  TIMER_ALREADY_RUNNING = 'TIMER_ALREADY_RUNNING',
+  TIMER_NOT_RUNNING = 'TIMER_NOT_RUNNING',
+  WORKLOG_IN_FUTURE = 'WORKLOG_IN_FUTURE',
+  TIMESHEET_RANGE_TOO_LARGE = 'TIMESHEET_RANGE_TOO_LARGE',
+  TIMESHEET_FORBIDDEN = 'TIMESHEET_FORBIDDEN',
+
+  // Project errors
+  PROJECT_NOT_FOUND = 'PROJECT_NOT_FOUND',
+  PROJECT_NOT_OWNED = 'PROJECT_NOT_OWNED',
+  PROJECT_NAME_EXISTS = 'PROJECT_NAME_EXISTS',
+  PROJECT_ARCHIVED = 'PROJECT_ARCHIVED',
+  PROJECT_OWNER_MISMATCH = 'PROJECT_OWNER_MISMATCH',
+  PROJECT_MOVE_TARGET_INVALID = 'PROJECT_MOVE_TARGET_INVALID',
+
+  // Team errors
+  TEAM_NOT_FOUND = 'TEAM_NOT_FOUND',
+  TEAM_ACCESS_DENIED = 'TEAM_ACCESS_DENIED',
+  TEAM_NAME_EXISTS = 'TEAM_NAME_EXISTS',
+  TEAM_MEMBER_EXISTS = 'TEAM_MEMBER_EXISTS',
+  TEAM_MEMBER_NOT_FOUND = 'TEAM_MEMBER_NOT_FOUND',
+  TEAM_OWNER_NOT_MEMBER = 'TEAM_OWNER_NOT_MEMBER',
+
+  // Saved view errors
+  SAVED_VIEW_NOT_FOUND = 'SAVED_VIEW_NOT_FOUND',
+  SAVED_VIEW_NOT_OWNED = 'SAVED_VIEW_NOT_OWNED',
+  SAVED_VIEW_NAME_EXISTS = 'SAVED_VIEW_NAME_EXISTS',
+
+  // Calendar errors
+  CALENDAR_FEED_NOT_FOUND = 'CALENDAR_FEED_NOT_FOUND',
+
+  // Tag errors
+  TAG_NOT_FOUND = 'TAG_NOT_FOUND',
+  TAG_NOT_OWNED = 'TAG_NOT_OWNED',
+  TAG_NAME_EXISTS = 'TAG_NAME_EXISTS',
+  TAG_OWNER_MISMATCH = 'TAG_OWNER_MISMATCH',
+
+  // Task comment errors
+  TASK_COMMENT_NOT_FOUND = 'TASK_COMMENT_NOT_FOUND',
+  TASK_COMMENT_EDIT_FORBIDDEN = 'TASK_COMMENT_EDIT_FORBIDDEN',
+  TASK_COMMENT_DELETE_FORBIDDEN = 'TASK_COMMENT_DELETE_FORBIDDEN',
 
   // Authorization errors
   FORBIDDEN_INSUFFICIENT_PERMISSIONS = 'FORBIDDEN_INSUFFICIENT_PERMISSIONS',
@@ -22,6 +22,24 @@ export const ERROR_MESSAGES: Record<ErrorCode, string> = {
   [ErrorCode.USER_PASSWORD_INVALID]: 'Invalid password',
   [ErrorCode.USER_EMAIL_VERIFICATION_NOT_IMPLEMENTED]:
     'Email verification flow not fully implemented. Please contact an administrator to change your email.',
+  [ErrorCode.USER_PLATFORM_ROLE_FORBIDDEN]:
+    'Only super admins can grant platform roles; use organization roles instead',
+  [ErrorCode.USER_CREDENTIALS_SELF_ONLY]:
+    "Only super admins can change another account's email or password",
+
+  // Organization errors
+  [ErrorCode.ORGANIZATION_NOT_FOUND]: 'Organization not found',
+  [ErrorCode.ORGANIZATION_ACCESS_DENIED]: 'You are not a member of this organization',
+  [ErrorCode.ORGANIZATION_MEMBERSHIP_REQUIRED]: 'Your account does not belong to any organization',
+  [ErrorCode.ORGANIZATION_ADMIN_REQUIRED]:
+    'Only organization owners and admins can manage its members',
+  [ErrorCode.ORGANIZATION_OWNER_REQUIRED]:
+    'Only organization owners can grant or revoke the owner role',
+  [ErrorCode.ORGANIZATION_MEMBER_EXISTS]: 'User is already a member of this organization',
+  [ErrorCode.ORGANIZATION_MEMBER_NOT_FOUND]: 'User is not a member of this organization',
+  [ErrorCode.ORGANIZATION_LAST_OWNER]: 'An organization needs at least one owner',
+  [ErrorCode.ORGANIZATION_INVITATION_EXISTS]: 'User has already been invited to this organization',
+  [ErrorCode.ORGANIZATION_INVITATION_NOT_FOUND]: 'Invitation not found',
 
   // Task errors
   [ErrorCode.TASK_NOT_FOUND]: 'Task not found',
@@ -29,6 +47,128 @@ export const ERROR_MESSAGES: Record<ErrorCode, string> = {
   [ErrorCode.TASKS_NOT_FOUND]: 'Some tasks were not found',
   [ErrorCode.TASKS_DELETE_PERMISSION_DENIED]:
     'You do not have permission to delete some of these tasks',
+  [ErrorCode.TASK_PARENT_INVALID]: 'A task cannot be moved under itself or one of its subtasks',
+  [ErrorCode.TASK_PARENT_OWNER_MISMATCH]: 'A subtask must belong to the same user as its parent',
+  [ErrorCode.TASK_HAS_OPEN_SUBTASKS]:
+    'Task has {count} open subtasks. Complete them first or pass cascade=true',
+  [ErrorCode.TASK_BLOCKED]:
+    'Task is blocked by {count} open tasks. Complete them before starting or completing this task',
+  [ErrorCode.TASK_RECURRENCE_REQUIRES_DUE_DATE]:
+    'A recurring task needs a dueDate, which becomes its first occurrence',
+  [ErrorCode.TASK_RECURRENCE_BATCH_UNSUPPORTED]:
+    'Recurring tasks cannot be created in a batch. Create them one at a time',
+  [ErrorCode.TASK_CURSOR_INVALID]: 'Invalid or expired cursor. Restart from the first page',
+  [ErrorCode.TASK_CURSOR_SEARCH_UNSUPPORTED]:
+    'Cursor pagination cannot be combined with q. Use page/limit for search results',
+  [ErrorCode.TASK_CURSOR_SORT_UNSUPPORTED]:
+    'Cursor pagination only supports newest-first order. Use page/limit with sortBy',
+  [ErrorCode.TASK_NOT_IN_TRASH]: 'Task not found in trash',
+  [ErrorCode.TASK_ASSIGNEE_NOT_FOUND]: 'Assignee not found',
+  [ErrorCode.TASK_ASSIGNEE_STATUS_ONLY]:
+    'Assignees and team members can only change the status of a task. Ask the owner to change anything else',
+  [ErrorCode.TASKS_DELETE_ASSIGNEE_DENIED]:
+    'Some of these tasks are only assigned to you. Only their owner can delete them',
+  [ErrorCode.TASKS_UPDATE_EMPTY]: 'Pass at least one of status, priority, dueDate or assigneeId',
+  [ErrorCode.TASKS_UPDATE_PERMISSION_DENIED]:
+    'You do not have permission to update some of these tasks',
+  [ErrorCode.TASKS_UPDATE_ASSIGNEE_DENIED]:
+    'Some of these tasks are only assigned to you. You can only change their status',
+
+  // Task import errors
+  [ErrorCode.TASK_IMPORT_FILE_REQUIRED]: 'A non-empty file is required in the "file" field',
+  [ErrorCode.TASK_IMPORT_FORMAT_UNSUPPORTED]:
+    'Only CSV (.csv) and JSON Lines (.jsonl, .ndjson) files can be imported',
+  [ErrorCode.TASK_IMPORT_MALFORMED]:
+    'The CSV file is malformed: a quoted field is not closed properly',
+  [ErrorCode.TASK_IMPORT_UNKNOWN_COLUMNS]: 'Unknown columns in the CSV header: {columns}',
+  [ErrorCode.TASK_IMPORT_EMPTY]: 'The file contains no rows to import',
+  [ErrorCode.TASK_IMPORT_TOO_MANY_ROWS]: 'Cannot import more than {max} rows at once',
+
+  // Task export errors
+  [ErrorCode.TASK_EXPORT_NOT_FOUND]: 'Export not found',
+  [ErrorCode.TASK_EXPORT_NOT_OWNED]: 'You do not have permission to access this export',
+  [ErrorCode.TASK_EXPORT_NOT_READY]: 'The export is not ready for download (status: {status})',
+
+  // Task board errors
+  [ErrorCode.TASK_MOVE_NEIGHBOUR_INVALID]:
+    'beforeId and afterId must be two different tasks of the {status} column, other than the moved task',
+  [ErrorCode.TASK_MOVE_NEIGHBOURS_CHANGED]:
+    'The task or its neighbours changed column or order. Reload the board and try again',
+
+  // Task workflow errors
+  [ErrorCode.TASK_STATUS_TRANSITION_INVALID]:
+    'Cannot move a task from {from} to {to}. Allowed next statuses: {allowed}',
+  [ErrorCode.TASK_STATUS_TRANSITION_SELF]: 'A status cannot transition to itself ({status})',
+  [ErrorCode.TASK_STATUS_CHANGED]:
+    'The task changed status while the update was applied. Reload it and try again',
+
+  // Task series errors
+  [ErrorCode.TASK_SERIES_NOT_FOUND]: 'Task series not found',
+  [ErrorCode.TASK_SERIES_NOT_OWNED]: 'You do not have permission to access this task series',
+  [ErrorCode.TASK_SERIES_STOPPED]: 'Task series has been stopped and can no longer be edited',
+
+  // Task dependency errors
+  [ErrorCode.TASK_DEPENDENCY_SELF]: 'A task cannot be blocked by itself',
+  [ErrorCode.TASK_DEPENDENCY_CYCLE]: 'This dependency would create a cycle',
+  [ErrorCode.TASK_DEPENDENCY_EXISTS]: 'This dependency already exists',
+  [ErrorCode.TASK_DEPENDENCY_NOT_FOUND]: 'Dependency not found',
+
+  // Task watcher errors
+  [ErrorCode.TASK_WATCHER_EXISTS]: 'You are already watching this task',
+  [ErrorCode.TASK_WATCHER_NOT_FOUND]: 'You are not watching this task',
+
+  // Task attachment errors
+  [ErrorCode.ATTACHMENT_NOT_FOUND]: 'Attachment not found',
+  [ErrorCode.ATTACHMENT_FILE_REQUIRED]: 'Upload a non-empty file in the "file" field',
+  [ErrorCode.ATTACHMENT_TYPE_NOT_ALLOWED]:
+    'Files of type {mimeType} are not allowed. Allowed types: {allowed}',
+  [ErrorCode.ATTACHMENT_DELETE_FORBIDDEN]:
+    'Only the uploader, the task owner or an admin can delete this attachment',
+
+  // Time tracking errors
+  [ErrorCode.TIMER_ALREADY_RUNNING]:
+    'You already have a running timer on task {taskId}. Stop it before starting another one',
+  [ErrorCode.TIMER_NOT_RUNNING]: 'You have no running timer on this task',
+  [ErrorCode.WORKLOG_IN_FUTURE]: 'Worklog entries cannot end in the future',
+  [ErrorCode.TIMESHEET_RANGE_TOO_LARGE]: 'Timesheet range cannot exceed {max} days',
+  [ErrorCode.TIMESHEET_FORBIDDEN]: "You do not have permission to view other users' timesheets",
+
+  // Project errors
+  [ErrorCode.PROJECT_NOT_FOUND]: 'Project not found',
+  [ErrorCode.PROJECT_NOT_OWNED]: 'You do not have permission to access this project',
+  [ErrorCode.PROJECT_NAME_EXISTS]: 'A project named "{name}" already exists',
+  [ErrorCode.PROJECT_ARCHIVED]: 'Project is archived; unarchive it before adding tasks',
+  [ErrorCode.PROJECT_OWNER_MISMATCH]: "Tasks can only be added to projects of the task's owner",
+  [ErrorCode.PROJECT_MOVE_TARGET_INVALID]:
+    'Tasks must be moved to a different project of the same owner',
+
+  // Team errors
+  [ErrorCode.TEAM_NOT_FOUND]: 'Team not found',
+  [ErrorCode.TEAM_ACCESS_DENIED]: 'You are not a member of this team',
+  [ErrorCode.TEAM_NAME_EXISTS]: 'A team named "{name}" already exists',
+  [ErrorCode.TEAM_MEMBER_EXISTS]: 'User is already a member of this team',
+  [ErrorCode.TEAM_MEMBER_NOT_FOUND]: 'User is not a member of this team',
+  [ErrorCode.TEAM_OWNER_NOT_MEMBER]:
+    "Tasks can only be shared with teams the task's owner belongs to",
+
+  // Saved view errors
+  [ErrorCode.SAVED_VIEW_NOT_FOUND]: 'View not found',
+  [ErrorCode.SAVED_VIEW_NOT_OWNED]: 'You do not have permission to access this view',
+  [ErrorCode.SAVED_VIEW_NAME_EXISTS]: 'You already have a view named "{name}"',
+
+  // Calendar errors
+  [ErrorCode.CALENDAR_FEED_NOT_FOUND]: 'Calendar feed not found',
+
+  // Tag errors
+  [ErrorCode.TAG_NOT_FOUND]: 'Tag not found',
+  [ErrorCode.TAG_NOT_OWNED]: 'You do not have permission to access this tag',
+  [ErrorCode.TAG_NAME_EXISTS]: 'A tag named "{name}" already exists',
+  [ErrorCode.TAG_OWNER_MISMATCH]: "Tags can only be assigned to tasks of the tag's owner",
+
+  // Task comment errors
+  [ErrorCode.TASK_COMMENT_NOT_FOUND]: 'Comment not found',
+  [ErrorCode.TASK_COMMENT_EDIT_FORBIDDEN]: 'You can only edit your own comments',
+  [ErrorCode.TASK_COMMENT_DELETE_FORBIDDEN]: 'You do not have permission to delete this comment',
 
   // Authorization errors
   [ErrorCode.FORBIDDEN_INSUFFICIENT_PERMISSIONS]: 'Insufficient permissions',
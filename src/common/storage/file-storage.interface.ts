@@ -0,0 +1,18 @@
+import { Readable } from 'stream';
+
+/**
+ * Where uploaded file contents live. Keys are generated by the caller and treated as opaque
+ * paths, so a backend can map them to files, object keys or anything else
+ */
+export interface IFileStorage {
+  /** Streams are consumed to the end; a failed write may leave a partial file behind */
+  save(key: string, content: Buffer | Readable): Promise<void>;
+
+  /** Resolves to null when nothing is stored under the key */
+  read(key: string): Promise<Readable | null>;
+
+  /** Deleting a missing key is not an error */
+  delete(key: string): Promise<void>;
+}
+
+export const FILE_STORAGE = Symbol('FILE_STORAGE');
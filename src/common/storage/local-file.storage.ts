@@ -0,0 +1,48 @@
+import { Injectable } from '@nestjs/common';
+import { createReadStream } from 'fs';
+import { access, mkdir, rm, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { IFileStorage } from './file-storage.interface';
+
+/**
+ * Default storage backend: one file per key below FILE_STORAGE_DIR. Only suitable for a
+ * single instance or a shared volume
+ */
+@Injectable()
+export class LocalFileStorage implements IFileStorage {
+  private readonly rootDir = resolve(process.env.FILE_STORAGE_DIR ?? 'storage');
+
+  async save(key: string, content: Buffer | Readable): Promise<void> {
+    const filePath = this.resolveKey(key);
+
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, content, { flag: 'wx' });
+  }
+
+  async read(key: string): Promise<Readable | null> {
+    const filePath = this.resolveKey(key);
+
+    try {
+      await access(filePath);
+    } catch {
+      return null;
+    }
+
+    return createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolveKey(key), { force: true });
+  }
+
+  private resolveKey(key: string): string {
+    const filePath = resolve(this.rootDir, key);
+
+    if (!filePath.startsWith(this.rootDir + sep)) {
+      throw new Error(`Storage key escapes the storage directory: ${key}`);
+    }
+
+    return filePath;
+  }
+}
@@ -1,6 +1,9 @@
 export interface AuthUser {
   id: string;
+  /** Effective role in the active organization (platform roles take precedence) */
   role: string;
+  /** Active organization (tenant); every task and user query is scoped to it */
+  organizationId: string;
 }
 
 export interface AuthUserWithEmail extends AuthUser {
@@ -17,6 +17,14 @@ export interface PaginatedResponse<T> {
   totalPages: number;
 }
 
+export interface CursorPaginatedResponse<T> {
+  data: T[];
+  limit: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+  total?: number;
+}
+
 export interface ApiResponse<T = any> {
   success: boolean;
   message?: string;
@@ -14,12 +14,12 @@ const logger = new Logger('CacheUtil');
  * This invalidates all cache keys within that namespace without explicit deletion
  *
  * @param cacheService - The cache service instance
- * @param scope - The scope identifier (e.g., 'user:123', 'org:456')
+ * @param scope - The scope identifier (e.g., 'org:456:user:123', 'org:456')
  * @param ttl - TTL for the namespace key in seconds (default: 24 hours)
  *
  * @example
  * // User created a task → invalidate their task lists
- * await bumpCacheNamespace(cacheService, `user:${userId}`);
+ * await bumpCacheNamespace(cacheService, buildUserScope(organizationId, userId));
  */
 export async function bumpCacheNamespace(
   cacheService: CacheService,
@@ -36,6 +36,23 @@ export async function bumpCacheNamespace(
   logger.debug(`Bumped cache namespace for ${scope}: v${currentVersion} → v${newVersion}`);
 }
 
+/**
+ * Build the namespace scope for a user's lists within an organization
+ * The same user gets separate namespaces per organization, so switching tenants never
+ * serves lists cached for another one
+ *
+ * @param organizationId - The organization the lists belong to
+ * @param userId - The user the lists are cached for
+ * @returns A tenant-qualified scope identifier
+ *
+ * @example
+ * const scope = buildUserScope(organizationId, userId);
+ * // Returns: 'org:456:user:123'
+ */
+export function buildUserScope(organizationId: string, userId: string): string {
+  return `org:${organizationId}:user:${userId}`;
+}
+
 /**
  * Get the current namespace version for a given scope
  * Returns 0 if namespace doesn't exist yet
@@ -80,12 +97,12 @@ export function buildCacheHash(data: Record<string, any>, length: number = 12):
  *
  * @example
  * const cacheKey = await buildNamespacedCacheKey(cacheService, {
- *   scope: `user:${userId}`,
+ *   scope: buildUserScope(organizationId, userId),
  *   resource: 'tasks',
  *   identifier: 'list',
  *   params: { status: 'PENDING', page: 1, limit: 10 }
  * });
- * // Returns: 'ns:v3:user:123:tasks:list:a3f4b2c1d5e6'
+ * // Returns: 'ns:v3:org:456:user:123:tasks:list:a3f4b2c1d5e6'
  */
 export async function buildNamespacedCacheKey(
   cacheService: CacheService,
@@ -128,6 +145,7 @@ export function buildEntityCacheKey(resource: string, id: string): string {
 /**
  * Build a list cache key with pagination parameters
  * Useful for building consistent cache keys for paginated lists
+ * Keyset-paginated lists pass `cursor` (null for the first page) instead of `page`
  *
  * @param cacheService - The cache service instance
  * @param options - Configuration for the list cache key
@@ -135,11 +153,18 @@ export function buildEntityCacheKey(resource: string, id: string): string {
  *
  * @example
  * const cacheKey = await buildListCacheKey(cacheService, {
- *   scope: `user:${userId}`,
+ *   scope: buildUserScope(organizationId, userId),
  *   resource: 'tasks',
  *   filters: { status: 'PENDING', priority: 'HIGH' },
  *   pagination: { page: 1, limit: 10 }
  * });
+ *
+ * @example
+ * const cacheKey = await buildListCacheKey(cacheService, {
+ *   scope: buildUserScope(organizationId, userId),
+ *   resource: 'tasks',
+ *   pagination: { cursor: nextCursor, limit: 20, includeTotal: false }
+ * });
  */
 export async function buildListCacheKey(
   cacheService: CacheService,
@@ -147,7 +172,7 @@ export async function buildListCacheKey(
     scope: string;
     resource: string;
     filters?: Record<string, any>;
-    pagination?: { page?: number; limit?: number };
+    pagination?: { page?: number; limit?: number; cursor?: string | null; includeTotal?: boolean };
   },
 ): Promise<string> {
   const { scope, resource, filters = {}, pagination = {} } = options;
@@ -157,9 +182,16 @@ export async function buildListCacheKey(
   const limit = pagination.limit || 10;
 
   // Combine filters and pagination for hash
-  const params = { ...filters, page, limit };
+  const params =
+    pagination.cursor !== undefined
+      ? {
+          ...filters,
+          cursor: pagination.cursor,
+          limit,
+          includeTotal: pagination.includeTotal ?? true,
+        }
+      : { ...filters, page, limit };
   const paramsHash = buildCacheHash(params);
 
   return `ns:v${version}:${scope}:${resource}:list:${paramsHash}`;
 }
-
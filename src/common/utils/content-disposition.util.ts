@@ -0,0 +1,16 @@
+/**
+ * Builds a Content-Disposition header (RFC 6266). Non-ASCII names are sent in `filename*`,
+ * with an ASCII-only `filename` fallback for clients that do not understand it
+ */
+export function buildContentDisposition(
+  fileName: string,
+  type: 'attachment' | 'inline' = 'attachment',
+): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName).replace(
+    /['()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
@@ -0,0 +1,101 @@
+/**
+ * CSV helpers (RFC 4180): comma-separated, fields optionally quoted with `"`, quotes inside
+ * quoted fields doubled, records separated by CRLF or LF
+ */
+
+export interface CsvRecord {
+  /** 1-based line the record starts on, so reports match what spreadsheets show */
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Parse CSV text into records. Blank lines are skipped and a leading byte order mark is ignored
+ * Returns null for malformed input (an unterminated quoted field or text after a closing quote)
+ *
+ * @example
+ * parseCsv('title,priority\n"Ship it, now",HIGH\n')
+ * // Returns: [{ line: 1, fields: ['title', 'priority'] }, { line: 2, fields: ['Ship it, now', 'HIGH'] }]
+ */
+export function parseCsv(text: string): CsvRecord[] | null {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const records: CsvRecord[] = [];
+
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let afterQuote = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== '') {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = '';
+    afterQuote = false;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+        afterQuote = true;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === ',') {
+      fields.push(field);
+      field = '';
+      afterQuote = false;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else if (afterQuote) {
+      return null;
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    return null;
+  }
+
+  endRecord();
+  return records;
+}
+
+/**
+ * Format one CSV line (without the line break). Fields containing separators, quotes or line
+ * breaks are quoted; null and undefined become empty fields. Strings starting with `=`, `+`, `-`,
+ * `@`, a tab or a carriage return get a leading `'` so spreadsheets show them as text instead of
+ * evaluating a formula
+ */
+export function formatCsvRow(values: (string | number | boolean | null | undefined)[]): string {
+  return values
+    .map(value => {
+      let text = value === null || value === undefined ? '' : String(value);
+      if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+      }
+
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(',');
+}
@@ -0,0 +1,28 @@
+/**
+ * Opaque cursor helpers for keyset pagination
+ * Cursors are base64url-encoded JSON so clients treat them as tokens, not as data to build themselves
+ */
+
+/**
+ * Encode a cursor payload into an opaque, URL-safe token
+ *
+ * @example
+ * encodeCursor({ c: '2025-10-01 10:30:00.123456', i: '123e4567-...' })
+ * // Returns: 'eyJjIjoiMjAyNS0xMC0wMSAxMDozMDowMC4xMjM0NTYiLCJpIjoiMTIzZTQ1NjctLi4uIn0'
+ */
+export function encodeCursor(payload: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ * Returns null for anything that is not a base64url-encoded JSON object; callers validate the fields
+ */
+export function decodeCursor(cursor: string): Record<string, unknown> | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return payload && typeof payload === 'object' && !Array.isArray(payload) ? payload : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * iCalendar (RFC 5545) helpers: content lines are `NAME;PARAMS:value`, separated by CRLF and
+ * folded so no line exceeds 75 octets
+ */
+
+/**
+ * Escape a TEXT value: backslashes, semicolons and commas are escaped, line breaks become `\n`
+ *
+ * @example
+ * escapeICalText('Ship v2; then, rest\nmaybe')
+ * // Returns: 'Ship v2\\; then\\, rest\\nmaybe'
+ */
+export function escapeICalText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Format a UTC DATE-TIME value
+ *
+ * @example
+ * formatICalDateTime(new Date('2025-10-01T10:30:00.000Z'))
+ * // Returns: '20251001T103000Z'
+ */
+export function formatICalDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * Fold a content line into chunks of at most 75 octets, continued with CRLF and a space.
+ * Multi-byte characters are never split
+ */
+export function foldICalLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  let chunkBytes = 0;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts towards their 75 octets
+    const limit = chunks.length === 0 ? 75 : 74;
+
+    if (chunkBytes + charBytes > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      chunkBytes = 0;
+    }
+
+    chunk += char;
+    chunkBytes += charBytes;
+  }
+
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+}
+
+/**
+ * Serialize content lines into an iCalendar object. Lines are folded and every line, the last
+ * included, ends with CRLF
+ *
+ * @example
+ * serializeICalendar(['BEGIN:VCALENDAR', 'VERSION:2.0', 'END:VCALENDAR'])
+ * // Returns: 'BEGIN:VCALENDAR\r\nVERSION:2.0\r\nEND:VCALENDAR\r\n'
+ */
+export function serializeICalendar(lines: string[]): string {
+  return lines.map(line => `${foldICalLine(line)}\r\n`).join('');
+}
@@ -0,0 +1,342 @@
+/**
+ * Minimal iCalendar RRULE (RFC 5545) support for recurring tasks.
+ *
+ * Supported parts: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, COUNT, UNTIL,
+ * BYDAY, BYMONTHDAY, BYMONTH and WKST=MO. Anything else is rejected rather than
+ * silently ignored, so a schedule never drifts from what the user asked for.
+ * All calculations are done in UTC and keep the time of day of the first occurrence.
+ */
+
+const FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as const;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Give up on rules that can never match (e.g. BYMONTHDAY=31 with BYMONTH=2)
+const MAX_EMPTY_PERIODS = 1000;
+const MAX_PERIODS = 100000;
+
+export type RecurrenceFrequency = (typeof FREQUENCIES)[number];
+
+export interface RecurrenceWeekday {
+  day: number;
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay: RecurrenceWeekday[];
+  byMonthDay: number[];
+  byMonth: number[];
+}
+
+export function parseRecurrenceRule(value: string): RecurrenceRule {
+  const body = value.trim().replace(/^RRULE:/i, '');
+  const parts = new Map<string, string>();
+
+  for (const part of body.split(';').filter(Boolean)) {
+    const [key, val, ...rest] = part.split('=');
+    const normalizedKey = key?.trim().toUpperCase();
+
+    if (!normalizedKey || !val || rest.length > 0 || parts.has(normalizedKey)) {
+      throw new Error(`Malformed RRULE part "${part}"`);
+    }
+
+    parts.set(normalizedKey, val.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new Error(`FREQ must be one of ${FREQUENCIES.join(', ')}`);
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1, byDay: [], byMonthDay: [], byMonth: [] };
+
+  for (const [key, val] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parseInteger(key, val, 1, 1000);
+        break;
+      case 'COUNT':
+        rule.count = parseInteger(key, val, 1, 10000);
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(val);
+        break;
+      case 'BYDAY':
+        rule.byDay = val.split(',').map(parseWeekday);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = val.split(',').map(day => parseInteger(key, day, -31, 31));
+        if (rule.byMonthDay.includes(0)) {
+          throw new Error('BYMONTHDAY cannot contain 0');
+        }
+        break;
+      case 'BYMONTH':
+        rule.byMonth = val.split(',').map(month => parseInteger(key, month, 1, 12));
+        break;
+      case 'WKST':
+        if (val !== 'MO') {
+          throw new Error('Only WKST=MO is supported');
+        }
+        break;
+      default:
+        throw new Error(`Unsupported RRULE part ${key}`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until) {
+    throw new Error('COUNT and UNTIL cannot be combined');
+  }
+
+  if (rule.freq !== 'MONTHLY' && rule.byDay.some(weekday => weekday.ordinal !== undefined)) {
+    throw new Error('Numbered BYDAY values (e.g. 1MO) are only supported with FREQ=MONTHLY');
+  }
+
+  if (rule.freq === 'YEARLY' && rule.byDay.length > 0) {
+    throw new Error('BYDAY is not supported with FREQ=YEARLY');
+  }
+
+  return rule;
+}
+
+export function isValidRecurrenceRule(value: unknown): boolean {
+  if (typeof value !== 'string') {
+    return false;
+  }
+
+  try {
+    parseRecurrenceRule(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the first occurrence strictly after `after`, or null once the rule is exhausted.
+ * `start` is always the first occurrence and counts towards COUNT.
+ */
+export function nextOccurrence(rule: RecurrenceRule, start: Date, after: Date): Date | null {
+  let index = 0;
+
+  for (const occurrence of iterateOccurrences(rule, start)) {
+    index++;
+
+    if (rule.count !== undefined && index > rule.count) {
+      return null;
+    }
+
+    if (occurrence.getTime() > after.getTime()) {
+      return occurrence;
+    }
+  }
+
+  return null;
+}
+
+function* iterateOccurrences(rule: RecurrenceRule, start: Date): Generator<Date> {
+  yield start;
+
+  let emptyPeriods = 0;
+
+  for (let period = 0; period < MAX_PERIODS && emptyPeriods < MAX_EMPTY_PERIODS; period++) {
+    const candidates = periodCandidates(rule, start, period).filter(
+      candidate => candidate.getTime() > start.getTime(),
+    );
+
+    emptyPeriods = candidates.length === 0 ? emptyPeriods + 1 : 0;
+
+    for (const candidate of candidates) {
+      if (rule.until && candidate.getTime() > rule.until.getTime()) {
+        return;
+      }
+
+      yield candidate;
+    }
+  }
+}
+
+function periodCandidates(rule: RecurrenceRule, start: Date, period: number): Date[] {
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = new Date(start.getTime() + step * DAY_MS);
+      return matchesFilters(rule, day) ? [day] : [];
+    }
+
+    case 'WEEKLY': {
+      const mondayOffset = (start.getUTCDay() + 6) % 7;
+      const weekStart = start.getTime() - mondayOffset * DAY_MS + step * 7 * DAY_MS;
+      const days = rule.byDay.length > 0 ? rule.byDay.map(w => w.day) : [start.getUTCDay()];
+
+      return [...new Set(days)]
+        .map(day => (day + 6) % 7)
+        .sort((a, b) => a - b)
+        .map(offset => new Date(weekStart + offset * DAY_MS))
+        .filter(day => rule.byMonth.length === 0 || rule.byMonth.includes(day.getUTCMonth() + 1));
+    }
+
+    case 'MONTHLY': {
+      const monthIndex = start.getUTCMonth() + step;
+      const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = monthIndex % 12;
+
+      if (rule.byMonth.length > 0 && !rule.byMonth.includes(month + 1)) {
+        return [];
+      }
+
+      return monthDays(rule, start, year, month);
+    }
+
+    case 'YEARLY': {
+      const year = start.getUTCFullYear() + step;
+      const months = rule.byMonth.length > 0 ? rule.byMonth.map(m => m - 1) : [start.getUTCMonth()];
+
+      return [...new Set(months)]
+        .sort((a, b) => a - b)
+        .flatMap(month => monthDays(rule, start, year, month));
+    }
+  }
+}
+
+function monthDays(rule: RecurrenceRule, start: Date, year: number, month: number): Date[] {
+  const length = daysInMonth(year, month);
+  let days: number[];
+
+  if (rule.byDay.length > 0) {
+    days = rule.byDay.flatMap(weekday => weekdayDaysInMonth(weekday, year, month, length));
+    if (rule.byMonthDay.length > 0) {
+      const allowed = resolveMonthDays(rule.byMonthDay, length);
+      days = days.filter(day => allowed.includes(day));
+    }
+  } else if (rule.byMonthDay.length > 0) {
+    days = resolveMonthDays(rule.byMonthDay, length);
+  } else {
+    // Months without the start day (e.g. the 31st) are skipped, as RFC 5545 requires
+    days = start.getUTCDate() <= length ? [start.getUTCDate()] : [];
+  }
+
+  return [...new Set(days)].sort((a, b) => a - b).map(day => atTimeOfDay(start, year, month, day));
+}
+
+function weekdayDaysInMonth(
+  weekday: RecurrenceWeekday,
+  year: number,
+  month: number,
+  length: number,
+): number[] {
+  const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  const firstMatch = 1 + ((weekday.day - firstWeekday + 7) % 7);
+
+  const matches: number[] = [];
+  for (let day = firstMatch; day <= length; day += 7) {
+    matches.push(day);
+  }
+
+  if (weekday.ordinal === undefined) {
+    return matches;
+  }
+
+  const picked =
+    weekday.ordinal > 0 ? matches[weekday.ordinal - 1] : matches[matches.length + weekday.ordinal];
+  return picked ? [picked] : [];
+}
+
+function resolveMonthDays(byMonthDay: number[], length: number): number[] {
+  return byMonthDay
+    .map(day => (day > 0 ? day : length + day + 1))
+    .filter(day => day >= 1 && day <= length);
+}
+
+function matchesFilters(rule: RecurrenceRule, date: Date): boolean {
+  if (rule.byMonth.length > 0 && !rule.byMonth.includes(date.getUTCMonth() + 1)) {
+    return false;
+  }
+
+  if (rule.byDay.length > 0 && !rule.byDay.some(weekday => weekday.day === date.getUTCDay())) {
+    return false;
+  }
+
+  if (rule.byMonthDay.length > 0) {
+    const length = daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+    if (!resolveMonthDays(rule.byMonthDay, length).includes(date.getUTCDate())) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function atTimeOfDay(start: Date, year: number, month: number, day: number): Date {
+  return new Date(
+    Date.UTC(
+      year,
+      month,
+      day,
+      start.getUTCHours(),
+      start.getUTCMinutes(),
+      start.getUTCSeconds(),
+      start.getUTCMilliseconds(),
+    ),
+  );
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function parseInteger(key: string, value: string, min: number, max: number): number {
+  if (!/^[+-]?\d+$/.test(value)) {
+    throw new Error(`${key} must be an integer`);
+  }
+
+  const parsed = parseInt(value, 10);
+  if (parsed < min || parsed > max) {
+    throw new Error(`${key} must be between ${min} and ${max}`);
+  }
+
+  return parsed;
+}
+
+function parseWeekday(value: string): RecurrenceWeekday {
+  const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid BYDAY value "${value}"`);
+  }
+
+  const weekday: RecurrenceWeekday = { day: WEEKDAYS.indexOf(match[2]) };
+
+  if (match[1] !== undefined) {
+    const ordinal = parseInt(match[1], 10);
+    if (ordinal === 0 || Math.abs(ordinal) > 5) {
+      throw new Error(`Invalid BYDAY value "${value}"`);
+    }
+    weekday.ordinal = ordinal;
+  }
+
+  return weekday;
+}
+
+function parseUntil(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) {
+    throw new Error('UNTIL must be a date (YYYYMMDD) or UTC date-time (YYYYMMDDTHHMMSSZ)');
+  }
+
+  const [, year, month, day, hours, minutes, seconds] = match;
+  const until = hours
+    ? new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds))
+    : new Date(Date.UTC(+year, +month - 1, +day, 23, 59, 59, 999));
+
+  if (isNaN(until.getTime())) {
+    throw new Error('UNTIL is not a valid date');
+  }
+
+  return until;
+}
@@ -59,7 +59,7 @@ export class IsReasonableFutureDateConstraint implements ValidatorConstraintInte
 }
 
 export function IsNotPastDate(validationOptions?: ValidationOptions) {
-  return function (object: Object, propertyName: string) {
+  return function (object: object, propertyName: string) {
     registerDecorator({
       target: object.constructor,
       propertyName: propertyName,
@@ -71,7 +71,7 @@ export function IsNotPastDate(validationOptions?: ValidationOptions) {
 }
 
 export function IsReasonableFutureDate(validationOptions?: ValidationOptions) {
-  return function (object: Object, propertyName: string) {
+  return function (object: object, propertyName: string) {
     registerDecorator({
       target: object.constructor,
       propertyName: propertyName,
@@ -81,3 +81,41 @@ export function IsReasonableFutureDate(validationOptions?: ValidationOptions) {
     });
   };
 }
+
+@ValidatorConstraint({ name: 'isNotBeforeProperty', async: false })
+export class IsNotBeforePropertyConstraint implements ValidatorConstraintInterface {
+  validate(dateValue: unknown, args: ValidationArguments) {
+    const [relatedProperty] = args.constraints;
+    const relatedValue = (args.object as Record<string, unknown>)[relatedProperty];
+
+    // Either side missing or unparseable is left to the other validators
+    if (!dateValue || !relatedValue) {
+      return true;
+    }
+
+    const date = new Date(dateValue as string);
+    const relatedDate = new Date(relatedValue as string);
+
+    if (isNaN(date.getTime()) || isNaN(relatedDate.getTime())) {
+      return true;
+    }
+
+    return date >= relatedDate;
+  }
+
+  defaultMessage(args: ValidationArguments) {
+    return `${args.property} cannot be earlier than ${args.constraints[0]}`;
+  }
+}
+
+export function IsNotBeforeProperty(property: string, validationOptions?: ValidationOptions) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      target: object.constructor,
+      propertyName: propertyName,
+      options: validationOptions,
+      constraints: [property],
+      validator: IsNotBeforePropertyConstraint,
+    });
+  };
+}
@@ -0,0 +1,43 @@
+import {
+  registerDecorator,
+  ValidationOptions,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+} from 'class-validator';
+import { parseRecurrenceRule } from '../utils/rrule.util';
+
+@ValidatorConstraint({ name: 'isRecurrenceRule', async: false })
+export class IsRecurrenceRuleConstraint implements ValidatorConstraintInterface {
+  private lastError = 'Invalid recurrence rule';
+
+  validate(value: unknown) {
+    if (typeof value !== 'string') {
+      this.lastError = 'Recurrence rule must be a string';
+      return false;
+    }
+
+    try {
+      parseRecurrenceRule(value);
+      return true;
+    } catch (error) {
+      this.lastError = `Invalid recurrence rule: ${error instanceof Error ? error.message : 'unknown error'}`;
+      return false;
+    }
+  }
+
+  defaultMessage() {
+    return this.lastError;
+  }
+}
+
+export function IsRecurrenceRule(validationOptions?: ValidationOptions) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      target: object.constructor,
+      propertyName: propertyName,
+      options: validationOptions,
+      constraints: [],
+      validator: IsRecurrenceRuleConstraint,
+    });
+  };
+}
@@ -1,6 +1,29 @@
 import { DataSource, DataSourceOptions } from 'typeorm';
 import * as dotenv from 'dotenv';
 import { CreateInitialSchema1710752400000 } from './migrations/1710752400000-CreateInitialSchema';
+import { AddIndexes1710752500000 } from './migrations/1710752500000-AddIndexes';
+import { CreateTaskComments1710752600000 } from './migrations/1710752600000-CreateTaskComments';
+import { AddTaskHierarchy1710752700000 } from './migrations/1710752700000-AddTaskHierarchy';
+import { CreateTaskDependencies1710752800000 } from './migrations/1710752800000-CreateTaskDependencies';
+import { CreateTaskSeries1710752900000 } from './migrations/1710752900000-CreateTaskSeries';
+import { CreateTags1710753000000 } from './migrations/1710753000000-CreateTags';
+import { AddTaskSearchVector1710753100000 } from './migrations/1710753100000-AddTaskSearchVector';
+import { AddTaskSoftDelete1710753200000 } from './migrations/1710753200000-AddTaskSoftDelete';
+import { CreateTaskActivities1710753300000 } from './migrations/1710753300000-CreateTaskActivities';
+import { CreateTaskStatusTransitions1710753400000 } from './migrations/1710753400000-CreateTaskStatusTransitions';
+import { AddTaskAssignee1710753500000 } from './migrations/1710753500000-AddTaskAssignee';
+import { CreateTaskWatchers1710753600000 } from './migrations/1710753600000-CreateTaskWatchers';
+import { CreateTaskAttachments1710753700000 } from './migrations/1710753700000-CreateTaskAttachments';
+import { CreateTaskWorklogs1710753800000 } from './migrations/1710753800000-CreateTaskWorklogs';
+import { AddTaskEstimates1710753900000 } from './migrations/1710753900000-AddTaskEstimates';
+import { CreateProjects1710754000000 } from './migrations/1710754000000-CreateProjects';
+import { CreateOrganizations1710754100000 } from './migrations/1710754100000-CreateOrganizations';
+import { CreateTeams1710754200000 } from './migrations/1710754200000-CreateTeams';
+import { CreateSavedViews1710754300000 } from './migrations/1710754300000-CreateSavedViews';
+import { CreateTaskExports1710754400000 } from './migrations/1710754400000-CreateTaskExports';
+import { CreateCalendarFeeds1710754500000 } from './migrations/1710754500000-CreateCalendarFeeds';
+import { AddTaskRank1710754600000 } from './migrations/1710754600000-AddTaskRank';
+import { CreateOrganizationInvitations1710754700000 } from './migrations/1710754700000-CreateOrganizationInvitations';
 
 // Load environment variables
 dotenv.config();
@@ -13,7 +36,32 @@ export const dataSourceOptions: DataSourceOptions = {
   password: process.env.DB_PASSWORD || 'postgres',
   database: process.env.DB_DATABASE || 'taskflow',
   entities: [__dirname + '/../**/*.entity{.ts,.js}'],
-  migrations: [CreateInitialSchema1710752400000],
+  migrations: [
+    CreateInitialSchema1710752400000,
+    AddIndexes1710752500000,
+    CreateTaskComments1710752600000,
+    AddTaskHierarchy1710752700000,
+    CreateTaskDependencies1710752800000,
+    CreateTaskSeries1710752900000,
+    CreateTags1710753000000,
+    AddTaskSearchVector1710753100000,
+    AddTaskSoftDelete1710753200000,
+    CreateTaskActivities1710753300000,
+    CreateTaskStatusTransitions1710753400000,
+    AddTaskAssignee1710753500000,
+    CreateTaskWatchers1710753600000,
+    CreateTaskAttachments1710753700000,
+    CreateTaskWorklogs1710753800000,
+    AddTaskEstimates1710753900000,
+    CreateProjects1710754000000,
+    CreateOrganizations1710754100000,
+    CreateTeams1710754200000,
+    CreateSavedViews1710754300000,
+    CreateTaskExports1710754400000,
+    CreateCalendarFeeds1710754500000,
+    AddTaskRank1710754600000,
+    CreateOrganizationInvitations1710754700000,
+  ],
   migrationsTableName: 'migrations',
   synchronize: false, // Important: Set to false for production
   logging: process.env.NODE_ENV === 'development',
@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskHierarchy1710752700000 implements MigrationInterface {
+  name = 'AddTaskHierarchy1710752700000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Deleting a parent detaches its subtasks instead of removing them
+    await queryRunner.query(`
+      ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "parent_id" uuid
+        CONSTRAINT "fk_tasks_parent_id" REFERENCES "tasks" ("id") ON DELETE SET NULL
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_tasks_parent_id" ON "tasks" ("parent_id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_tasks_parent_id"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "parent_id"`);
+  }
+}
@@ -0,0 +1,53 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskSeries1710752900000 implements MigrationInterface {
+  name = 'CreateTaskSeries1710752900000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_series" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "title" varchar NOT NULL,
+        "description" text,
+        "priority" varchar NOT NULL DEFAULT 'MEDIUM',
+        "rrule" text NOT NULL,
+        "starts_at" TIMESTAMP NOT NULL,
+        "last_occurrence_at" TIMESTAMP NOT NULL,
+        "occurrence_count" integer NOT NULL DEFAULT 1,
+        "active" boolean NOT NULL DEFAULT true,
+        "user_id" uuid NOT NULL,
+        "version" integer NOT NULL DEFAULT 1,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_task_series_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_task_series_user_id" ON "task_series" ("user_id")
+    `);
+
+    // The scheduler scans active series whose latest occurrence is due
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_task_series_active_last" ON "task_series" ("active", "last_occurrence_at")
+    `);
+
+    // Deleting a series keeps its occurrences as regular tasks
+    await queryRunner.query(`
+      ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "series_id" uuid
+        CONSTRAINT "fk_tasks_series_id" REFERENCES "task_series" ("id") ON DELETE SET NULL
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_tasks_series_id" ON "tasks" ("series_id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_tasks_series_id"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "series_id"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_series_active_last"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_series_user_id"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_series"`);
+  }
+}
@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTags1710753000000 implements MigrationInterface {
+  name = 'CreateTags1710753000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "tags" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "name" varchar(50) NOT NULL,
+        "color" varchar(7),
+        "user_id" uuid NOT NULL,
+        "version" integer NOT NULL DEFAULT 1,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_tags_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "idx_tags_user_name" ON "tags" ("user_id", "name")
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_tags" (
+        "task_id" uuid NOT NULL,
+        "tag_id" uuid NOT NULL,
+        CONSTRAINT "pk_task_tags" PRIMARY KEY ("task_id", "tag_id"),
+        CONSTRAINT "fk_task_tags_task_id" FOREIGN KEY ("task_id") REFERENCES "tasks" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_tags_tag_id" FOREIGN KEY ("tag_id") REFERENCES "tags" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    // Tag filters look up tasks by tag, the primary key covers the other direction
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_task_tags_tag_id" ON "task_tags" ("tag_id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_tags_tag_id"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_tags"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_tags_user_name"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "tags"`);
+  }
+}
@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskActivities1710753300000 implements MigrationInterface {
+  name = 'CreateTaskActivities1710753300000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_activities" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "actor_id" uuid,
+        "action" varchar(20) NOT NULL,
+        "source" varchar(10) NOT NULL,
+        "changes" jsonb NOT NULL DEFAULT '{}',
+        "task_version" integer,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_task_activities_task_id" FOREIGN KEY ("task_id") REFERENCES "tasks" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_activities_actor_id" FOREIGN KEY ("actor_id") REFERENCES "users" ("id") ON DELETE SET NULL
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_task_activities_task_created" ON "task_activities" ("task_id", "created_at")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_task_activities_actor_id" ON "task_activities" ("actor_id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_activities_actor_id"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_activities_task_created"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_activities"`);
+  }
+}
@@ -0,0 +1,50 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+const DEFAULT_TRANSITIONS: [string, string][] = [
+  ['PENDING', 'IN_PROGRESS'],
+  ['PENDING', 'BLOCKED'],
+  ['PENDING', 'COMPLETED'],
+  ['PENDING', 'CANCELLED'],
+  ['IN_PROGRESS', 'PENDING'],
+  ['IN_PROGRESS', 'BLOCKED'],
+  ['IN_PROGRESS', 'IN_REVIEW'],
+  ['IN_PROGRESS', 'COMPLETED'],
+  ['IN_PROGRESS', 'CANCELLED'],
+  ['BLOCKED', 'PENDING'],
+  ['BLOCKED', 'IN_PROGRESS'],
+  ['BLOCKED', 'CANCELLED'],
+  ['IN_REVIEW', 'IN_PROGRESS'],
+  ['IN_REVIEW', 'COMPLETED'],
+  ['IN_REVIEW', 'CANCELLED'],
+  ['COMPLETED', 'IN_PROGRESS'],
+  ['CANCELLED', 'PENDING'],
+];
+
+export class CreateTaskStatusTransitions1710753400000 implements MigrationInterface {
+  name = 'CreateTaskStatusTransitions1710753400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_status_transitions" (
+        "from_status" varchar(20) NOT NULL,
+        "to_status" varchar(20) NOT NULL,
+        "created_by" uuid,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "pk_task_status_transitions" PRIMARY KEY ("from_status", "to_status"),
+        CONSTRAINT "fk_task_status_transitions_created_by" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE SET NULL,
+        CONSTRAINT "chk_task_status_transitions_not_self" CHECK ("from_status" <> "to_status")
+      )
+    `);
+
+    const values = DEFAULT_TRANSITIONS.map(([from, to]) => `('${from}', '${to}')`).join(', ');
+    await queryRunner.query(`
+      INSERT INTO "task_status_transitions" ("from_status", "to_status")
+      VALUES ${values}
+      ON CONFLICT DO NOTHING
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_status_transitions"`);
+  }
+}
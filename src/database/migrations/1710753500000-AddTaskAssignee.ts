@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskAssignee1710753500000 implements MigrationInterface {
+  name = 'AddTaskAssignee1710753500000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Removing a user unassigns their tasks; the tasks stay with their owners
+    await queryRunner.query(`
+      ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "assignee_id" uuid
+        CONSTRAINT "fk_tasks_assignee_id" REFERENCES "users" ("id") ON DELETE SET NULL
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_tasks_assignee_id" ON "tasks" ("assignee_id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_tasks_assignee_id"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "assignee_id"`);
+  }
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskWatchers1710753600000 implements MigrationInterface {
+  name = 'CreateTaskWatchers1710753600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_watchers" (
+        "task_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "pk_task_watchers" PRIMARY KEY ("task_id", "user_id"),
+        CONSTRAINT "fk_task_watchers_task_id" FOREIGN KEY ("task_id") REFERENCES "tasks" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_watchers_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    // "Which tasks does this user watch?"
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_task_watchers_user_id" ON "task_watchers" ("user_id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_watchers_user_id"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_watchers"`);
+  }
+}
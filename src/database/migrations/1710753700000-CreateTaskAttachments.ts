@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskAttachments1710753700000 implements MigrationInterface {
+  name = 'CreateTaskAttachments1710753700000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_attachments" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "uploaded_by" uuid,
+        "file_name" character varying(255) NOT NULL,
+        "mime_type" character varying(127) NOT NULL,
+        "size" integer NOT NULL,
+        "checksum" character varying(64) NOT NULL,
+        "storage_key" character varying(512) NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "pk_task_attachments" PRIMARY KEY ("id"),
+        CONSTRAINT "fk_task_attachments_task_id" FOREIGN KEY ("task_id") REFERENCES "tasks" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_attachments_uploaded_by" FOREIGN KEY ("uploaded_by") REFERENCES "users" ("id") ON DELETE SET NULL,
+        CONSTRAINT "chk_task_attachments_size" CHECK ("size" >= 0)
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_task_attachments_task_id" ON "task_attachments" ("task_id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_attachments_task_id"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_attachments"`);
+  }
+}
@@ -0,0 +1,51 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskWorklogs1710753800000 implements MigrationInterface {
+  name = 'CreateTaskWorklogs1710753800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_worklogs" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "started_at" TIMESTAMP NOT NULL,
+        "ended_at" TIMESTAMP,
+        "duration_seconds" integer,
+        "description" text,
+        "source" character varying(10) NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "pk_task_worklogs" PRIMARY KEY ("id"),
+        CONSTRAINT "fk_task_worklogs_task_id" FOREIGN KEY ("task_id") REFERENCES "tasks" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_worklogs_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE,
+        CONSTRAINT "chk_task_worklogs_source" CHECK ("source" IN ('timer', 'manual')),
+        CONSTRAINT "chk_task_worklogs_ended" CHECK (
+          ("ended_at" IS NULL AND "duration_seconds" IS NULL)
+          OR ("ended_at" >= "started_at" AND "duration_seconds" >= 0)
+        )
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_task_worklogs_task_started" ON "task_worklogs" ("task_id", "started_at")
+    `);
+
+    // Timesheets: a user's entries in a date range
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_task_worklogs_user_started" ON "task_worklogs" ("user_id", "started_at")
+    `);
+
+    // One running timer per user, also under concurrent starts
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "uq_task_worklogs_running_timer" ON "task_worklogs" ("user_id") WHERE ended_at IS NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "uq_task_worklogs_running_timer"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_worklogs_user_started"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_worklogs_task_started"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_worklogs"`);
+  }
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskEstimates1710753900000 implements MigrationInterface {
+  name = 'AddTaskEstimates1710753900000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+        ADD COLUMN IF NOT EXISTS "estimate_minutes" integer
+          CONSTRAINT "chk_tasks_estimate_minutes" CHECK ("estimate_minutes" > 0),
+        ADD COLUMN IF NOT EXISTS "story_points" integer
+          CONSTRAINT "chk_tasks_story_points" CHECK ("story_points" >= 0)
+    `);
+
+    // The estimate report looks up the first IN_PROGRESS and last COMPLETED entry per task
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_task_activities_status_to"
+        ON "task_activities" ("task_id", ((changes -> 'status' ->> 'to')), "created_at")
+        WHERE changes ? 'status'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_activities_status_to"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "story_points"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "estimate_minutes"`);
+  }
+}
@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateProjects1710754000000 implements MigrationInterface {
+  name = 'CreateProjects1710754000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "projects" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "name" varchar(100) NOT NULL,
+        "description" text,
+        "user_id" uuid NOT NULL,
+        "archived" boolean NOT NULL DEFAULT false,
+        "version" integer NOT NULL DEFAULT 1,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_projects_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "idx_projects_user_name" ON "projects" ("user_id", "name")
+    `);
+
+    // Deleting a project moves or trashes its tasks first; trashed tasks just lose the link
+    await queryRunner.query(`
+      ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "project_id" uuid
+        CONSTRAINT "fk_tasks_project_id" REFERENCES "projects" ("id") ON DELETE SET NULL
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_tasks_project_id" ON "tasks" ("project_id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_tasks_project_id"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "project_id"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_projects_user_name"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "projects"`);
+  }
+}
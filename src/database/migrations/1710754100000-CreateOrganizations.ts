@@ -0,0 +1,109 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+const DEFAULT_ORGANIZATION_ID = '00000000-0000-4000-8000-000000000001';
+
+const TENANT_TABLES = ['tasks', 'task_series', 'projects', 'tags'];
+
+export class CreateOrganizations1710754100000 implements MigrationInterface {
+  name = 'CreateOrganizations1710754100000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "organizations" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "name" varchar(100) NOT NULL,
+        "version" integer NOT NULL DEFAULT 1,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "organization_members" (
+        "organization_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "role" character varying(10) NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "pk_organization_members" PRIMARY KEY ("organization_id", "user_id"),
+        CONSTRAINT "fk_organization_members_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_organization_members_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE,
+        CONSTRAINT "chk_organization_members_role" CHECK ("role" IN ('owner', 'admin', 'member'))
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_organization_members_user_id" ON "organization_members" ("user_id")
+    `);
+
+    // Everything that exists today becomes the default organization's data
+    await queryRunner.query(
+      `INSERT INTO "organizations" ("id", "name") VALUES ($1, 'Default') ON CONFLICT DO NOTHING`,
+      [DEFAULT_ORGANIZATION_ID],
+    );
+
+    await queryRunner.query(
+      `
+      INSERT INTO "organization_members" ("organization_id", "user_id", "role")
+      SELECT $1, "id", CASE WHEN "role" = 'user' THEN 'member' ELSE 'admin' END FROM "users"
+      ON CONFLICT DO NOTHING
+      `,
+      [DEFAULT_ORGANIZATION_ID],
+    );
+
+    for (const table of TENANT_TABLES) {
+      await queryRunner.query(
+        `ALTER TABLE "${table}" ADD COLUMN IF NOT EXISTS "organization_id" uuid`,
+      );
+      await queryRunner.query(
+        `UPDATE "${table}" SET "organization_id" = $1 WHERE "organization_id" IS NULL`,
+        [DEFAULT_ORGANIZATION_ID],
+      );
+      await queryRunner.query(`ALTER TABLE "${table}" ALTER COLUMN "organization_id" SET NOT NULL`);
+      await queryRunner.query(`
+        ALTER TABLE "${table}" ADD CONSTRAINT "fk_${table}_organization_id"
+          FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id") ON DELETE CASCADE
+      `);
+    }
+
+    // Tenant-scoped lists are ordered newest first
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_tasks_organization_created" ON "tasks" ("organization_id", "created_at")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_task_series_organization_id" ON "task_series" ("organization_id")
+    `);
+
+    // Names stay unique per user, now within each organization
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_projects_user_name"`);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "idx_projects_organization_user_name" ON "projects" ("organization_id", "user_id", "name")
+    `);
+
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_tags_user_name"`);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "idx_tags_organization_user_name" ON "tags" ("organization_id", "user_id", "name")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_tags_organization_user_name"`);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "idx_tags_user_name" ON "tags" ("user_id", "name")
+    `);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_projects_organization_user_name"`);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "idx_projects_user_name" ON "projects" ("user_id", "name")
+    `);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_series_organization_id"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_tasks_organization_created"`);
+
+    for (const table of [...TENANT_TABLES].reverse()) {
+      await queryRunner.query(`ALTER TABLE "${table}" DROP COLUMN IF EXISTS "organization_id"`);
+    }
+
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_organization_members_user_id"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "organization_members"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "organizations"`);
+  }
+}
@@ -0,0 +1,58 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTeams1710754200000 implements MigrationInterface {
+  name = 'CreateTeams1710754200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "teams" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "organization_id" uuid NOT NULL,
+        "name" varchar(100) NOT NULL,
+        "description" text,
+        "version" integer NOT NULL DEFAULT 1,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_teams_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "idx_teams_organization_name" ON "teams" ("organization_id", "name")
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "team_members" (
+        "team_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "pk_team_members" PRIMARY KEY ("team_id", "user_id"),
+        CONSTRAINT "fk_team_members_team_id" FOREIGN KEY ("team_id") REFERENCES "teams" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_team_members_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_team_members_user_id" ON "team_members" ("user_id")
+    `);
+
+    // Deleting a team unshares its tasks; they stay with their owners
+    await queryRunner.query(`
+      ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "team_id" uuid
+        CONSTRAINT "fk_tasks_team_id" REFERENCES "teams" ("id") ON DELETE SET NULL
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_tasks_team_id" ON "tasks" ("team_id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_tasks_team_id"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "team_id"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_team_members_user_id"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "team_members"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_teams_organization_name"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "teams"`);
+  }
+}
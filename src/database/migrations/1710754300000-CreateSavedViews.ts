@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateSavedViews1710754300000 implements MigrationInterface {
+  name = 'CreateSavedViews1710754300000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "saved_views" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "name" varchar(100) NOT NULL,
+        "organization_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "filters" jsonb NOT NULL DEFAULT '{}',
+        "page_size" integer NOT NULL DEFAULT 10,
+        "visibility" character varying(10) NOT NULL DEFAULT 'private',
+        "is_default" boolean NOT NULL DEFAULT false,
+        "version" integer NOT NULL DEFAULT 1,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_saved_views_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_saved_views_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE,
+        CONSTRAINT "chk_saved_views_visibility" CHECK ("visibility" IN ('private', 'shared')),
+        CONSTRAINT "chk_saved_views_page_size" CHECK ("page_size" BETWEEN 1 AND 100)
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "idx_saved_views_organization_user_name" ON "saved_views" ("organization_id", "user_id", "name")
+    `);
+
+    // A user has at most one default view per organization
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "idx_saved_views_user_default" ON "saved_views" ("organization_id", "user_id") WHERE "is_default"
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_saved_views_user_default"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_saved_views_organization_user_name"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "saved_views"`);
+  }
+}
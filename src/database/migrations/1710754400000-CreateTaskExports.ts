@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskExports1710754400000 implements MigrationInterface {
+  name = 'CreateTaskExports1710754400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_exports" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "organization_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "format" character varying(10) NOT NULL,
+        "filters" jsonb NOT NULL DEFAULT '{}',
+        "status" character varying(20) NOT NULL DEFAULT 'queued',
+        "row_count" integer,
+        "error" text,
+        "storage_key" character varying(512),
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "completed_at" TIMESTAMP,
+        CONSTRAINT "fk_task_exports_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_exports_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE,
+        CONSTRAINT "chk_task_exports_format" CHECK ("format" IN ('csv', 'jsonl', 'ndjson')),
+        CONSTRAINT "chk_task_exports_status" CHECK ("status" IN ('queued', 'processing', 'completed', 'failed'))
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_task_exports_user_id" ON "task_exports" ("user_id")
+    `);
+
+    // Expired exports are found by age
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_task_exports_created_at" ON "task_exports" ("created_at")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_exports_created_at"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_exports_user_id"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_exports"`);
+  }
+}
@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateCalendarFeeds1710754500000 implements MigrationInterface {
+  name = 'CreateCalendarFeeds1710754500000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "calendar_feeds" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "organization_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "token_hash" character varying(64) NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_calendar_feeds_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_calendar_feeds_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    // One feed per user and organization; rotating replaces its token
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "idx_calendar_feeds_organization_user" ON "calendar_feeds" ("organization_id", "user_id")
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "idx_calendar_feeds_token_hash" ON "calendar_feeds" ("token_hash")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_calendar_feeds_token_hash"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_calendar_feeds_organization_user"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "calendar_feeds"`);
+  }
+}
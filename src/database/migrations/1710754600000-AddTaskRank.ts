@@ -0,0 +1,44 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskRank1710754600000 implements MigrationInterface {
+  name = 'AddTaskRank1710754600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // New tasks take the next value, so they land at the bottom of their board column
+    await queryRunner.query(`CREATE SEQUENCE IF NOT EXISTS "task_rank_seq"`);
+
+    await queryRunner.query(`
+      ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "rank" double precision
+    `);
+
+    // Existing tasks are ranked oldest first
+    await queryRunner.query(`
+      UPDATE "tasks" SET "rank" = "ranked"."position"
+      FROM (
+        SELECT "id", ROW_NUMBER() OVER (ORDER BY "created_at", "id") AS "position" FROM "tasks"
+      ) "ranked"
+      WHERE "tasks"."id" = "ranked"."id" AND "tasks"."rank" IS NULL
+    `);
+
+    await queryRunner.query(`
+      SELECT setval('task_rank_seq', GREATEST((SELECT COUNT(*) FROM "tasks"), 1))
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+        ALTER COLUMN "rank" SET DEFAULT nextval('task_rank_seq'),
+        ALTER COLUMN "rank" SET NOT NULL
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_tasks_organization_status_rank"
+        ON "tasks" ("organization_id", "status", "rank")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_tasks_organization_status_rank"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "rank"`);
+    await queryRunner.query(`DROP SEQUENCE IF EXISTS "task_rank_seq"`);
+  }
+}
@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateOrganizationInvitations1710754700000 implements MigrationInterface {
+  name = 'CreateOrganizationInvitations1710754700000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "organization_invitations" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "organization_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "role" character varying(10) NOT NULL,
+        "invited_by" uuid,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_organization_invitations_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_organization_invitations_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_organization_invitations_invited_by" FOREIGN KEY ("invited_by") REFERENCES "users" ("id") ON DELETE SET NULL,
+        CONSTRAINT "chk_organization_invitations_role" CHECK ("role" IN ('owner', 'admin', 'member'))
+      )
+    `);
+
+    // One pending invitation per user and organization
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "idx_organization_invitations_organization_user" ON "organization_invitations" ("organization_id", "user_id")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_organization_invitations_user_id" ON "organization_invitations" ("user_id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_organization_invitations_user_id"`);
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "idx_organization_invitations_organization_user"`,
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS "organization_invitations"`);
+  }
+}
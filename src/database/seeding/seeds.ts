@@ -2,6 +2,13 @@ import { DataSource } from 'typeorm';
 import { config } from 'dotenv';
 import { User } from '../../modules/users/entities/user.entity';
 import { Task } from '../../modules/tasks/entities/task.entity';
+import {
+  Organization,
+  DEFAULT_ORGANIZATION_ID,
+} from '../../modules/organizations/entities/organization.entity';
+import { OrganizationMember } from '../../modules/organizations/entities/organization-member.entity';
+import { OrganizationRole } from '../../modules/organizations/enums/organization-role.enum';
+import { UserRole } from '../../modules/users/enum/user-role.enum';
 import { users } from './seed-data/users.seed';
 import { tasks } from './seed-data/tasks.seed';
 
@@ -16,7 +23,7 @@ const AppDataSource = new DataSource({
   username: process.env.DB_USERNAME || 'postgres',
   password: process.env.DB_PASSWORD || 'postgres',
   database: process.env.DB_DATABASE || 'taskflow',
-  entities: [User, Task],
+  entities: [User, Task, Organization, OrganizationMember],
   synchronize: false,
 });
 
@@ -36,8 +43,20 @@ async function main() {
     await AppDataSource.getRepository(User).save(users);
     console.log('Users seeded successfully');
 
+    // Seed memberships of the default organization (created by the migrations)
+    await AppDataSource.getRepository(OrganizationMember).save(
+      users.map(user => ({
+        organizationId: DEFAULT_ORGANIZATION_ID,
+        userId: user.id,
+        role: user.role === UserRole.USER ? OrganizationRole.MEMBER : OrganizationRole.ADMIN,
+      })),
+    );
+    console.log('Memberships seeded successfully');
+
     // Seed tasks
-    await AppDataSource.getRepository(Task).save(tasks);
+    await AppDataSource.getRepository(Task).save(
+      tasks.map(task => ({ ...task, organizationId: DEFAULT_ORGANIZATION_ID })),
+    );
     console.log('Tasks seeded successfully');
 
     console.log('Database seeding completed');
@@ -51,4 +70,4 @@ async function main() {
 }
 
 // Run the seeding
-main(); 
\ No newline at end of file
+main();
@@ -1,6 +1,9 @@
 import { Injectable } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { UsersService } from '../users/users.service';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { OrganizationRole } from '../organizations/enums/organization-role.enum';
+import { DEFAULT_ORGANIZATION_ID } from '../organizations/entities/organization.entity';
 import { LoginDto } from './dto/login.dto';
 import { RegisterDto } from './dto/register.dto';
 import * as bcrypt from 'bcrypt';
@@ -11,6 +14,7 @@ import { ErrorCode, unauthorized, conflict } from '../../common/errors';
 export class AuthService {
   constructor(
     private readonly usersService: UsersService,
+    private readonly organizationsService: OrganizationsService,
     private readonly jwtService: JwtService,
   ) {}
 
@@ -48,7 +52,15 @@ export class AuthService {
       conflict(ErrorCode.USER_EMAIL_ALREADY_EXISTS);
     }
 
-    const user = await this.usersService.create({ ...registerDto, role: UserRole.USER });
+    const { organizationName, ...userData } = registerDto;
+    const membership = organizationName
+      ? {
+          organizationId: (await this.organizationsService.create({ name: organizationName })).id,
+          role: OrganizationRole.OWNER,
+        }
+      : { organizationId: DEFAULT_ORGANIZATION_ID, role: OrganizationRole.MEMBER };
+
+    const user = await this.usersService.create({ ...userData, role: UserRole.USER }, membership);
 
     const tokens = this.generateTokens(user);
 
@@ -100,10 +112,7 @@ export class AuthService {
         unauthorized(ErrorCode.AUTH_TOKEN_INVALID_TYPE);
       }
 
-      const user = await this.usersService.findOne(payload.sub, {
-        id: payload.sub,
-        role: 'user',
-      });
+      const user = await this.usersService.findAccount(payload.sub);
 
       if (!user) {
         unauthorized(ErrorCode.AUTH_USER_NOT_FOUND);
@@ -120,7 +129,7 @@ export class AuthService {
   }
 
   async validateUser(userId: string): Promise<any> {
-    const user = await this.usersService.findOne(userId, { id: userId, role: 'user' });
+    const user = await this.usersService.findAccount(userId);
 
     if (!user) {
       return null;
@@ -1,5 +1,5 @@
-import { IsEmail, IsNotEmpty, IsString, MinLength } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsNotEmpty, IsOptional, IsString, MaxLength, MinLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class RegisterDto {
   @ApiProperty({ example: 'john.doe@example.com' })
@@ -17,4 +17,15 @@ export class RegisterDto {
   @IsNotEmpty()
   @MinLength(6)
   password: string;
-} 
\ No newline at end of file
+
+  @ApiPropertyOptional({
+    example: 'Acme Corp',
+    description:
+      'Creates a new organization owned by the user. Without it the user joins the default one',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  organizationName?: string;
+}
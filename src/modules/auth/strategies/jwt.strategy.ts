@@ -2,7 +2,9 @@ import { Injectable } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
+import type { Request } from 'express';
 import { UsersService } from '../../users/users.service';
+import { OrganizationsService } from '../../organizations/organizations.service';
 import { ErrorCode, unauthorized } from '../../../common/errors';
 
 @Injectable()
@@ -10,26 +12,36 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
     private configService: ConfigService,
     private usersService: UsersService,
+    private organizationsService: OrganizationsService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
       secretOrKey: configService.get('jwt.secret'),
+      passReqToCallback: true,
     });
   }
 
-  async validate(payload: any) {
-    const user = await this.usersService.findOne(payload.sub, { id: payload.sub, role: 'user' });
+  /** Requests act in the organization named by the X-Organization-Id header, if any */
+  async validate(request: Request, payload: any) {
+    const user = await this.usersService.findAccount(payload.sub);
 
     if (!user) {
       unauthorized(ErrorCode.AUTH_USER_NOT_FOUND);
     }
 
+    const requestedOrganizationId = request.headers['x-organization-id'];
+    const activeOrganization = await this.organizationsService.resolveActiveOrganization(
+      user,
+      typeof requestedOrganizationId === 'string' ? requestedOrganizationId : undefined,
+    );
+
     return {
       id: user.id,
       email: user.email,
       name: user.name,
-      role: user.role,
+      role: activeOrganization.role,
+      organizationId: activeOrganization.organizationId,
     };
   }
 }
@@ -0,0 +1,62 @@
+import { Controller, Delete, Get, Post, Req, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import type { Request } from 'express';
+import { CalendarService } from './calendar.service';
+import {
+  CalendarFeedResponseDto,
+  CalendarFeedTokenResponseDto,
+} from './dto/calendar-feed-response.dto';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../users/enum/user-role.enum';
+import type { AuthUser } from '../../common/types';
+import {
+  ApiCalendarFeedTokenGet,
+  ApiCalendarFeedTokenRotate,
+  ApiCalendarFeedTokenRevoke,
+} from '../../common/decorators/swagger/api-calendar.decorator';
+
+/** The caller's feed in the active organization */
+@ApiTags('calendar')
+@Controller('calendar/feed')
+@UseGuards(JwtAuthGuard, RolesGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class CalendarFeedsController {
+  constructor(private readonly calendarService: CalendarService) {}
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiCalendarFeedTokenGet(CalendarFeedResponseDto)
+  async findOne(@CurrentUser() user: AuthUser) {
+    const { organizationId, createdAt, updatedAt } = await this.calendarService.findFeed(user);
+    return { organizationId, createdAt, updatedAt };
+  }
+
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiCalendarFeedTokenRotate(CalendarFeedTokenResponseDto)
+  async rotate(@CurrentUser() user: AuthUser, @Req() request: Request) {
+    const { feed, token } = await this.calendarService.rotateToken(user);
+
+    return {
+      organizationId: feed.organizationId,
+      createdAt: feed.createdAt,
+      updatedAt: feed.updatedAt,
+      token,
+      url: `${request.protocol}://${request.get('host')}/calendar/${token}.ics`,
+    };
+  }
+
+  @Delete()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiCalendarFeedTokenRevoke()
+  async revoke(@CurrentUser() user: AuthUser) {
+    await this.calendarService.revoke(user);
+    return { message: 'Calendar feed revoked successfully' };
+  }
+}
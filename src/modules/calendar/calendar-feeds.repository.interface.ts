@@ -0,0 +1,14 @@
+import { CalendarFeed } from './entities/calendar-feed.entity';
+
+export interface ICalendarFeedsRepository {
+  findByUser(userId: string, organizationId: string): Promise<CalendarFeed | null>;
+
+  findByTokenHash(tokenHash: string): Promise<CalendarFeed | null>;
+
+  /** Creates the user's feed or replaces its token; the previous token stops working */
+  saveToken(userId: string, organizationId: string, tokenHash: string): Promise<CalendarFeed>;
+
+  delete(userId: string, organizationId: string): Promise<number>;
+}
+
+export const CALENDAR_FEEDS_REPOSITORY = Symbol('CALENDAR_FEEDS_REPOSITORY');
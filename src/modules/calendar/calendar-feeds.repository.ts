@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { CalendarFeed } from './entities/calendar-feed.entity';
+import { ICalendarFeedsRepository } from './calendar-feeds.repository.interface';
+
+@Injectable()
+export class CalendarFeedsRepository implements ICalendarFeedsRepository {
+  constructor(
+    @InjectRepository(CalendarFeed)
+    private readonly feedsRepo: Repository<CalendarFeed>,
+  ) {}
+
+  async findByUser(userId: string, organizationId: string): Promise<CalendarFeed | null> {
+    return this.feedsRepo.findOne({ where: { userId, organizationId } });
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<CalendarFeed | null> {
+    return this.feedsRepo.findOne({ where: { tokenHash } });
+  }
+
+  async saveToken(
+    userId: string,
+    organizationId: string,
+    tokenHash: string,
+  ): Promise<CalendarFeed> {
+    await this.feedsRepo
+      .createQueryBuilder()
+      .insert()
+      .values({ userId, organizationId, tokenHash })
+      .orUpdate(['token_hash', 'updated_at'], ['organization_id', 'user_id'])
+      .execute();
+
+    return (await this.findByUser(userId, organizationId)) as CalendarFeed;
+  }
+
+  async delete(userId: string, organizationId: string): Promise<number> {
+    const result = await this.feedsRepo.delete({ userId, organizationId });
+    return result.affected || 0;
+  }
+}
@@ -0,0 +1,26 @@
+import { Controller, Get, Header, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { CalendarService } from './calendar.service';
+import { CalendarFeedQueryDto } from './dto/calendar-feed-query.dto';
+import { CalendarComponent } from './enums/calendar-component.enum';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { ApiCalendarFeedGet } from '../../common/decorators/swagger/api-calendar.decorator';
+
+/** Calendar apps cannot send a bearer token, so the feed token in the URL is the credential */
+@ApiTags('calendar')
+@Controller('calendar')
+@UseGuards(RateLimitGuard)
+@RateLimit({ limit: 60, windowMs: 60000 })
+export class CalendarController {
+  constructor(private readonly calendarService: CalendarService) {}
+
+  @Get(':token.ics')
+  // Clients revalidate on every refresh; the ETag turns unchanged feeds into a 304
+  @Header('Content-Type', 'text/calendar; charset=utf-8')
+  @Header('Cache-Control', 'private, no-cache')
+  @ApiCalendarFeedGet()
+  getFeed(@Param('token') token: string, @Query() query: CalendarFeedQueryDto) {
+    return this.calendarService.renderFeed(token, query.component ?? CalendarComponent.EVENT);
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CalendarService } from './calendar.service';
+import { CalendarController } from './calendar.controller';
+import { CalendarFeedsController } from './calendar-feeds.controller';
+import { CalendarFeed } from './entities/calendar-feed.entity';
+import { CalendarFeedsRepository } from './calendar-feeds.repository';
+import { CALENDAR_FEEDS_REPOSITORY } from './calendar-feeds.repository.interface';
+import { TasksModule } from '../tasks/tasks.module';
+import { UsersModule } from '../users/users.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([CalendarFeed]), TasksModule, UsersModule],
+  controllers: [CalendarFeedsController, CalendarController],
+  providers: [
+    CalendarService,
+    {
+      provide: CALENDAR_FEEDS_REPOSITORY,
+      useClass: CalendarFeedsRepository,
+    },
+  ],
+})
+export class CalendarModule {}
@@ -0,0 +1,134 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { CalendarFeed } from './entities/calendar-feed.entity';
+import { CalendarComponent } from './enums/calendar-component.enum';
+import type { ICalendarFeedsRepository } from './calendar-feeds.repository.interface';
+import { CALENDAR_FEEDS_REPOSITORY } from './calendar-feeds.repository.interface';
+import { TasksService } from '../tasks/tasks.service';
+import { Task } from '../tasks/entities/task.entity';
+import { TaskStatus } from '../tasks/enums/task-status.enum';
+import { TaskPriority } from '../tasks/enums/task-priority.enum';
+import { UsersService } from '../users/users.service';
+import {
+  escapeICalText,
+  formatICalDateTime,
+  serializeICalendar,
+} from '../../common/utils/ical.util';
+import { ErrorCode, notFound } from '../../common/errors';
+import type { AuthUser } from '../../common/types';
+
+// RFC 5545 priorities run from 1 (highest) to 9 (lowest)
+const ICAL_PRIORITIES: Record<TaskPriority, number> = {
+  [TaskPriority.HIGH]: 1,
+  [TaskPriority.MEDIUM]: 5,
+  [TaskPriority.LOW]: 9,
+};
+
+/**
+ * Per-user iCalendar feeds of open tasks with a due date. Feeds are rendered on every request,
+ * so calendar apps see task changes on their next refresh
+ */
+@Injectable()
+export class CalendarService {
+  private readonly logger = new Logger(CalendarService.name);
+
+  constructor(
+    @Inject(CALENDAR_FEEDS_REPOSITORY)
+    private readonly feedsRepository: ICalendarFeedsRepository,
+    private readonly tasksService: TasksService,
+    private readonly usersService: UsersService,
+  ) {}
+
+  async findFeed(currentUser: AuthUser): Promise<CalendarFeed> {
+    const feed = await this.feedsRepository.findByUser(currentUser.id, currentUser.organizationId);
+
+    if (!feed) {
+      notFound(ErrorCode.CALENDAR_FEED_NOT_FOUND);
+    }
+
+    return feed;
+  }
+
+  /** Issues the user's feed token, replacing any previous one */
+  async rotateToken(currentUser: AuthUser): Promise<{ feed: CalendarFeed; token: string }> {
+    const token = randomBytes(32).toString('base64url');
+
+    const feed = await this.feedsRepository.saveToken(
+      currentUser.id,
+      currentUser.organizationId,
+      this.hashToken(token),
+    );
+
+    this.logger.log(
+      `Issued calendar feed token for user ${currentUser.id} in organization ${currentUser.organizationId}`,
+    );
+
+    return { feed, token };
+  }
+
+  async revoke(currentUser: AuthUser): Promise<void> {
+    const deleted = await this.feedsRepository.delete(currentUser.id, currentUser.organizationId);
+
+    if (deleted === 0) {
+      notFound(ErrorCode.CALENDAR_FEED_NOT_FOUND);
+    }
+  }
+
+  /**
+   * Renders the feed a token belongs to. Unknown tokens and users who left the organization
+   * get the same not-found error
+   */
+  async renderFeed(token: string, component: CalendarComponent): Promise<string> {
+    const feed = await this.feedsRepository.findByTokenHash(this.hashToken(token));
+
+    if (!feed || !(await this.usersService.exists(feed.userId, feed.organizationId))) {
+      notFound(ErrorCode.CALENDAR_FEED_NOT_FOUND);
+    }
+
+    const tasks = await this.tasksService.findOpenDueTasksForUser(feed.userId, feed.organizationId);
+
+    return serializeICalendar([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//TaskFlow//Task Due Dates//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:TaskFlow tasks',
+      // Refresh hints for clients that honor them
+      'REFRESH-INTERVAL;VALUE=DURATION:PT15M',
+      'X-PUBLISHED-TTL:PT15M',
+      ...tasks.flatMap(task => this.toComponent(task, component)),
+      'END:VCALENDAR',
+    ]);
+  }
+
+  /** UID stays the same for a task; SEQUENCE and LAST-MODIFIED tell clients it changed */
+  private toComponent(task: Task, component: CalendarComponent): string[] {
+    const dueDate = formatICalDateTime(task.dueDate);
+    const lines = [
+      `UID:${task.id}@taskflow`,
+      `DTSTAMP:${formatICalDateTime(task.updatedAt)}`,
+      `LAST-MODIFIED:${formatICalDateTime(task.updatedAt)}`,
+      `SEQUENCE:${task.version - 1}`,
+      `SUMMARY:${escapeICalText(task.title)}`,
+      ...(task.description ? [`DESCRIPTION:${escapeICalText(task.description)}`] : []),
+      `PRIORITY:${ICAL_PRIORITIES[task.priority]}`,
+    ];
+
+    if (component === CalendarComponent.TODO) {
+      return [
+        'BEGIN:VTODO',
+        ...lines,
+        `DUE:${dueDate}`,
+        `STATUS:${task.status === TaskStatus.PENDING ? 'NEEDS-ACTION' : 'IN-PROCESS'}`,
+        'END:VTODO',
+      ];
+    }
+
+    return ['BEGIN:VEVENT', ...lines, `DTSTART:${dueDate}`, 'TRANSP:TRANSPARENT', 'END:VEVENT'];
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
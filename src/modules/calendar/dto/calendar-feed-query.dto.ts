@@ -0,0 +1,20 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { CalendarComponent } from '../enums/calendar-component.enum';
+
+export class CalendarFeedQueryDto {
+  @ApiProperty({
+    enum: CalendarComponent,
+    required: false,
+    default: CalendarComponent.EVENT,
+    description:
+      'VEVENT entries show up in most calendar apps; VTODO entries in apps with task lists',
+  })
+  @IsOptional()
+  @Transform(({ value }) => (value ? value.toString().toLowerCase() : undefined))
+  @IsEnum(CalendarComponent, {
+    message: `component must be one of: ${Object.values(CalendarComponent).join(', ')}`,
+  })
+  component?: CalendarComponent;
+}
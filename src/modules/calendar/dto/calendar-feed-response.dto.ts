@@ -0,0 +1,35 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CalendarFeedResponseDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Organization whose tasks the feed contains',
+  })
+  organizationId: string;
+
+  @ApiProperty({
+    example: '2025-10-01T10:30:00.000Z',
+    description: 'When the feed was first issued',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    example: '2025-10-05T14:20:00.000Z',
+    description: 'When the current token was issued',
+  })
+  updatedAt: Date;
+}
+
+export class CalendarFeedTokenResponseDto extends CalendarFeedResponseDto {
+  @ApiProperty({
+    example: 'k3J9cX0m4Wq2b8Zr6Tn1Vy5Lp7Hd0Fs3Ga9Ue2Oi4Mc',
+    description: 'Feed token; only returned when it is issued',
+  })
+  token: string;
+
+  @ApiProperty({
+    example: 'https://api.example.com/calendar/k3J9cX0m4Wq2b8Zr6Tn1Vy5Lp7Hd0Fs3Ga9Ue2Oi4Mc.ics',
+    description: 'Subscription URL for calendar apps',
+  })
+  url: string;
+}
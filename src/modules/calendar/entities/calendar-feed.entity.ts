@@ -0,0 +1,47 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * A user's iCalendar feed in one organization. Only a SHA-256 hash of the token is stored;
+ * the token itself is shown once, when it is issued
+ */
+@Entity('calendar_feeds')
+@Index('idx_calendar_feeds_organization_user', ['organizationId', 'userId'], { unique: true })
+@Index('idx_calendar_feeds_token_hash', ['tokenHash'], { unique: true })
+export class CalendarFeed {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId: string;
+
+  @ManyToOne('Organization', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization?: any;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne('User', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user?: any;
+
+  // Hex-encoded SHA-256 of the token
+  @Column({ name: 'token_hash', length: 64, select: false })
+  tokenHash: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  // Changes whenever the token is rotated
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
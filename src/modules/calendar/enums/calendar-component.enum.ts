@@ -0,0 +1,5 @@
+/** How tasks appear in the feed: as events on their due date or as to-dos due then */
+export enum CalendarComponent {
+  EVENT = 'event',
+  TODO = 'todo',
+}
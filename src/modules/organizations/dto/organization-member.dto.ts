@@ -0,0 +1,29 @@
+import { IsEmail, IsEnum, IsNotEmpty, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { OrganizationRole } from '../enums/organization-role.enum';
+
+const ROLE_MESSAGE = `role must be one of: ${Object.values(OrganizationRole).join(', ')}`;
+
+export class InviteOrganizationMemberDto {
+  @ApiProperty({ example: 'jane.doe@example.com', description: 'Email of an existing user' })
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
+
+  @ApiProperty({
+    enum: OrganizationRole,
+    required: false,
+    default: OrganizationRole.MEMBER,
+    example: OrganizationRole.MEMBER,
+    description: 'Role the user gets on accepting',
+  })
+  @IsOptional()
+  @IsEnum(OrganizationRole, { message: ROLE_MESSAGE })
+  role?: OrganizationRole;
+}
+
+export class UpdateOrganizationMemberDto {
+  @ApiProperty({ enum: OrganizationRole, example: OrganizationRole.ADMIN })
+  @IsEnum(OrganizationRole, { message: ROLE_MESSAGE })
+  role: OrganizationRole;
+}
@@ -0,0 +1,94 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { OrganizationRole } from '../enums/organization-role.enum';
+
+export class OrganizationResponseDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Unique organization identifier',
+  })
+  id: string;
+
+  @ApiProperty({ example: 'Acme Corp', description: 'Organization name' })
+  name: string;
+
+  @ApiProperty({ example: 1, description: 'Version number for optimistic locking' })
+  version: number;
+
+  @ApiProperty({
+    example: '2025-10-01T10:30:00.000Z',
+    description: 'Organization creation timestamp',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    example: '2025-10-05T14:20:00.000Z',
+    description: 'Organization last update timestamp',
+  })
+  updatedAt: Date;
+}
+
+export class OrganizationMembershipResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  organizationId: string;
+
+  @ApiProperty({ example: 'Acme Corp' })
+  organizationName: string;
+
+  @ApiProperty({ enum: OrganizationRole, example: OrganizationRole.OWNER })
+  role: OrganizationRole;
+
+  @ApiProperty({ example: '2025-10-01T10:30:00.000Z' })
+  joinedAt: Date;
+}
+
+export class OrganizationMemberResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  userId: string;
+
+  @ApiProperty({ example: 'Jane Doe' })
+  name: string;
+
+  @ApiProperty({ example: 'jane.doe@example.com' })
+  email: string;
+
+  @ApiProperty({ enum: OrganizationRole, example: OrganizationRole.MEMBER })
+  role: OrganizationRole;
+
+  @ApiProperty({ example: '2025-10-01T10:30:00.000Z' })
+  joinedAt: Date;
+}
+
+export class OrganizationInvitationResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  id: string;
+
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  organizationId: string;
+
+  @ApiProperty({ example: 'Acme Corp' })
+  organizationName: string;
+
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000', description: 'Invited user' })
+  userId: string;
+
+  @ApiProperty({ example: 'jane.doe@example.com', description: 'Email of the invited user' })
+  email: string;
+
+  @ApiProperty({
+    enum: OrganizationRole,
+    example: OrganizationRole.MEMBER,
+    description: 'Role the user gets on accepting',
+  })
+  role: OrganizationRole;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+    type: String,
+    description: 'User who sent the invitation; null once that account is deleted',
+  })
+  invitedBy: string | null;
+
+  @ApiProperty({ example: '2025-10-01T10:30:00.000Z' })
+  createdAt: Date;
+}
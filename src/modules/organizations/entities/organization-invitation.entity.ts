@@ -0,0 +1,51 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { OrganizationRole } from '../enums/organization-role.enum';
+
+/**
+ * A pending offer to join an organization. The invited user becomes a member only by
+ * accepting it; accepting or declining deletes the invitation
+ */
+@Entity('organization_invitations')
+@Index('idx_organization_invitations_organization_user', ['organizationId', 'userId'], {
+  unique: true,
+})
+@Index('idx_organization_invitations_user_id', ['userId'])
+export class OrganizationInvitation {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId: string;
+
+  @ManyToOne('Organization', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization?: any;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne('User', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user?: any;
+
+  @Column({ type: 'varchar', length: 10 })
+  role: OrganizationRole;
+
+  @Column({ name: 'invited_by', type: 'uuid', nullable: true })
+  invitedBy: string | null;
+
+  @ManyToOne('User', { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'invited_by' })
+  inviter?: any;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
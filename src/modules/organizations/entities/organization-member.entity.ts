@@ -0,0 +1,34 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryColumn,
+} from 'typeorm';
+import { OrganizationRole } from '../enums/organization-role.enum';
+
+@Entity('organization_members')
+@Index('idx_organization_members_user_id', ['userId'])
+export class OrganizationMember {
+  @PrimaryColumn({ name: 'organization_id', type: 'uuid' })
+  organizationId: string;
+
+  @ManyToOne('Organization', 'members', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization?: any;
+
+  @PrimaryColumn({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne('User', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user?: any;
+
+  @Column({ type: 'varchar', length: 10 })
+  role: OrganizationRole;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,11 @@
+/** Role of a user inside one organization; owners and admins administer it */
+export enum OrganizationRole {
+  OWNER = 'owner',
+  ADMIN = 'admin',
+  MEMBER = 'member',
+}
+
+export const ORGANIZATION_ADMIN_ROLES: readonly OrganizationRole[] = [
+  OrganizationRole.OWNER,
+  OrganizationRole.ADMIN,
+];
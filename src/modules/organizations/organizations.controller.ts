@@ -0,0 +1,151 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { OrganizationsService } from './organizations.service';
+import { CreateOrganizationDto } from './dto/create-organization.dto';
+import {
+  InviteOrganizationMemberDto,
+  UpdateOrganizationMemberDto,
+} from './dto/organization-member.dto';
+import {
+  OrganizationResponseDto,
+  OrganizationMembershipResponseDto,
+  OrganizationMemberResponseDto,
+  OrganizationInvitationResponseDto,
+} from './dto/organization-response.dto';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../users/enum/user-role.enum';
+import type { AuthUser } from '../../common/types';
+import { SanitizeInput } from '../../common/decorators/sanitize-input.decorator';
+import {
+  ApiOrganizationCreate,
+  ApiOrganizationList,
+  ApiOrganizationMemberList,
+  ApiOrganizationInvite,
+  ApiOrganizationInvitationList,
+  ApiOrganizationMyInvitations,
+  ApiOrganizationInvitationAccept,
+  ApiOrganizationInvitationDelete,
+  ApiOrganizationMemberUpdate,
+  ApiOrganizationMemberRemove,
+} from '../../common/decorators/swagger/api-organization.decorator';
+
+@ApiTags('organizations')
+@Controller('organizations')
+@UseGuards(JwtAuthGuard, RolesGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class OrganizationsController {
+  constructor(private readonly organizationsService: OrganizationsService) {}
+
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @SanitizeInput()
+  @ApiOrganizationCreate(OrganizationResponseDto)
+  create(@Body() createOrganizationDto: CreateOrganizationDto, @CurrentUser() user: AuthUser) {
+    return this.organizationsService.create(createOrganizationDto, user.id);
+  }
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiOrganizationList(OrganizationMembershipResponseDto)
+  findAll(@CurrentUser() user: AuthUser) {
+    return this.organizationsService.findAllForUser(user);
+  }
+
+  @Get('invitations')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiOrganizationMyInvitations(OrganizationInvitationResponseDto)
+  findMyInvitations(@CurrentUser() user: AuthUser) {
+    return this.organizationsService.findInvitationsForUser(user);
+  }
+
+  @Post('invitations/:invitationId/accept')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiOrganizationInvitationAccept()
+  acceptInvitation(
+    @Param('invitationId', ParseUUIDPipe) invitationId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.organizationsService.acceptInvitation(invitationId, user);
+  }
+
+  @Delete('invitations/:invitationId')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiOrganizationInvitationDelete()
+  async deleteInvitation(
+    @Param('invitationId', ParseUUIDPipe) invitationId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    await this.organizationsService.deleteInvitation(invitationId, user);
+    return { message: 'Invitation deleted successfully' };
+  }
+
+  @Get(':id/members')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiOrganizationMemberList(OrganizationMemberResponseDto)
+  findMembers(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.organizationsService.findMembers(id, user);
+  }
+
+  @Get(':id/invitations')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiOrganizationInvitationList(OrganizationInvitationResponseDto)
+  findInvitations(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.organizationsService.findInvitations(id, user);
+  }
+
+  @Post(':id/invitations')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @SanitizeInput()
+  @ApiOrganizationInvite()
+  invite(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() inviteMemberDto: InviteOrganizationMemberDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.organizationsService.inviteMember(id, inviteMemberDto, user);
+  }
+
+  @Patch(':id/members/:userId')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @SanitizeInput()
+  @ApiOrganizationMemberUpdate()
+  updateMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() updateMemberDto: UpdateOrganizationMemberDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.organizationsService.updateMember(id, userId, updateMemberDto, user);
+  }
+
+  @Delete(':id/members/:userId')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiOrganizationMemberRemove()
+  async removeMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    await this.organizationsService.removeMember(id, userId, user);
+    return { message: 'Member removed successfully' };
+  }
+}
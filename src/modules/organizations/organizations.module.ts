@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OrganizationsService } from './organizations.service';
+import { OrganizationsController } from './organizations.controller';
+import { Organization } from './entities/organization.entity';
+import { OrganizationMember } from './entities/organization-member.entity';
+import { OrganizationInvitation } from './entities/organization-invitation.entity';
+import { OrganizationsRepository } from './organizations.repository';
+import { ORGANIZATIONS_REPOSITORY } from './organizations.repository.interface';
+import { UsersModule } from '../users/users.module';
+import { CacheService } from '../../common/services/cache.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Organization, OrganizationMember, OrganizationInvitation]),
+    UsersModule,
+  ],
+  controllers: [OrganizationsController],
+  providers: [
+    OrganizationsService,
+    CacheService,
+    {
+      provide: ORGANIZATIONS_REPOSITORY,
+      useClass: OrganizationsRepository,
+    },
+  ],
+  exports: [OrganizationsService],
+})
+export class OrganizationsModule {}
@@ -0,0 +1,80 @@
+import { Organization } from './entities/organization.entity';
+import { OrganizationMember } from './entities/organization-member.entity';
+import { OrganizationInvitation } from './entities/organization-invitation.entity';
+import { OrganizationRole } from './enums/organization-role.enum';
+
+/** An organization as seen by one of its members */
+export interface OrganizationMembership {
+  organizationId: string;
+  organizationName: string;
+  role: OrganizationRole;
+  joinedAt: Date;
+}
+
+export interface OrganizationMemberSummary {
+  userId: string;
+  name: string;
+  email: string;
+  role: OrganizationRole;
+  joinedAt: Date;
+}
+
+/** A pending invitation with the names both sides need to recognise it */
+export interface OrganizationInvitationSummary {
+  id: string;
+  organizationId: string;
+  organizationName: string;
+  userId: string;
+  email: string;
+  role: OrganizationRole;
+  invitedBy: string | null;
+  createdAt: Date;
+}
+
+export interface IOrganizationsRepository {
+  /** Creates the organization and, when given, its first owner in one transaction */
+  create(organizationData: Partial<Organization>, ownerId?: string): Promise<Organization>;
+
+  findById(id: string): Promise<Organization | null>;
+
+  /** Oldest membership first; that one is the user's default organization */
+  findMembershipsByUserId(userId: string): Promise<OrganizationMembership[]>;
+
+  findMember(organizationId: string, userId: string): Promise<OrganizationMember | null>;
+
+  findMembers(organizationId: string): Promise<OrganizationMemberSummary[]>;
+
+  createInvitation(
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole,
+    invitedBy: string,
+  ): Promise<OrganizationInvitation>;
+
+  findInvitationById(id: string): Promise<OrganizationInvitation | null>;
+
+  findInvitation(organizationId: string, userId: string): Promise<OrganizationInvitation | null>;
+
+  /** Oldest first */
+  findInvitationsByUserId(userId: string): Promise<OrganizationInvitationSummary[]>;
+
+  /** Oldest first */
+  findInvitationsByOrganizationId(organizationId: string): Promise<OrganizationInvitationSummary[]>;
+
+  /** Adds the member with the invited role and deletes the invitation in one transaction */
+  acceptInvitation(invitation: OrganizationInvitation): Promise<OrganizationMember>;
+
+  deleteInvitation(id: string): Promise<void>;
+
+  updateMemberRole(
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole,
+  ): Promise<OrganizationMember>;
+
+  removeMember(organizationId: string, userId: string): Promise<void>;
+
+  countOwners(organizationId: string): Promise<number>;
+}
+
+export const ORGANIZATIONS_REPOSITORY = Symbol('ORGANIZATIONS_REPOSITORY');
@@ -0,0 +1,176 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { Organization } from './entities/organization.entity';
+import { OrganizationMember } from './entities/organization-member.entity';
+import { OrganizationInvitation } from './entities/organization-invitation.entity';
+import { OrganizationRole } from './enums/organization-role.enum';
+import {
+  IOrganizationsRepository,
+  OrganizationMembership,
+  OrganizationMemberSummary,
+  OrganizationInvitationSummary,
+} from './organizations.repository.interface';
+
+@Injectable()
+export class OrganizationsRepository implements IOrganizationsRepository {
+  constructor(
+    @InjectRepository(Organization)
+    private readonly organizationsRepo: Repository<Organization>,
+    @InjectRepository(OrganizationMember)
+    private readonly membersRepo: Repository<OrganizationMember>,
+    @InjectRepository(OrganizationInvitation)
+    private readonly invitationsRepo: Repository<OrganizationInvitation>,
+  ) {}
+
+  async create(organizationData: Partial<Organization>, ownerId?: string): Promise<Organization> {
+    return this.organizationsRepo.manager.transaction(async transactionalEntityManager => {
+      const organization = await transactionalEntityManager.save(
+        transactionalEntityManager.create(Organization, organizationData),
+      );
+
+      if (ownerId) {
+        await transactionalEntityManager.insert(OrganizationMember, {
+          organizationId: organization.id,
+          userId: ownerId,
+          role: OrganizationRole.OWNER,
+        });
+      }
+
+      return organization;
+    });
+  }
+
+  async findById(id: string): Promise<Organization | null> {
+    return this.organizationsRepo.findOne({ where: { id } });
+  }
+
+  async findMembershipsByUserId(userId: string): Promise<OrganizationMembership[]> {
+    return this.membersRepo
+      .createQueryBuilder('member')
+      .innerJoin('member.organization', 'organization')
+      .select('member.organizationId', 'organizationId')
+      .addSelect('organization.name', 'organizationName')
+      .addSelect('member.role', 'role')
+      .addSelect('member.createdAt', 'joinedAt')
+      .where('member.userId = :userId', { userId })
+      .orderBy('member.createdAt', 'ASC')
+      .addOrderBy('member.organizationId', 'ASC')
+      .getRawMany<OrganizationMembership>();
+  }
+
+  async findMember(organizationId: string, userId: string): Promise<OrganizationMember | null> {
+    return this.membersRepo.findOne({ where: { organizationId, userId } });
+  }
+
+  async findMembers(organizationId: string): Promise<OrganizationMemberSummary[]> {
+    return this.membersRepo
+      .createQueryBuilder('member')
+      .innerJoin('member.user', 'user')
+      .select('member.userId', 'userId')
+      .addSelect('user.name', 'name')
+      .addSelect('user.email', 'email')
+      .addSelect('member.role', 'role')
+      .addSelect('member.createdAt', 'joinedAt')
+      .where('member.organizationId = :organizationId', { organizationId })
+      .orderBy('member.createdAt', 'ASC')
+      .addOrderBy('member.userId', 'ASC')
+      .getRawMany<OrganizationMemberSummary>();
+  }
+
+  async createInvitation(
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole,
+    invitedBy: string,
+  ): Promise<OrganizationInvitation> {
+    const invitation = this.invitationsRepo.create({ organizationId, userId, role, invitedBy });
+    return this.invitationsRepo.save(invitation);
+  }
+
+  async findInvitationById(id: string): Promise<OrganizationInvitation | null> {
+    return this.invitationsRepo.findOne({ where: { id } });
+  }
+
+  async findInvitation(
+    organizationId: string,
+    userId: string,
+  ): Promise<OrganizationInvitation | null> {
+    return this.invitationsRepo.findOne({ where: { organizationId, userId } });
+  }
+
+  async findInvitationsByUserId(userId: string): Promise<OrganizationInvitationSummary[]> {
+    return this.createInvitationSummaryQuery()
+      .where('invitation.userId = :userId', { userId })
+      .getRawMany<OrganizationInvitationSummary>();
+  }
+
+  async findInvitationsByOrganizationId(
+    organizationId: string,
+  ): Promise<OrganizationInvitationSummary[]> {
+    return this.createInvitationSummaryQuery()
+      .where('invitation.organizationId = :organizationId', { organizationId })
+      .getRawMany<OrganizationInvitationSummary>();
+  }
+
+  async acceptInvitation(invitation: OrganizationInvitation): Promise<OrganizationMember> {
+    return this.membersRepo.manager.transaction(async transactionalEntityManager => {
+      const member = await transactionalEntityManager.save(
+        transactionalEntityManager.create(OrganizationMember, {
+          organizationId: invitation.organizationId,
+          userId: invitation.userId,
+          role: invitation.role,
+        }),
+      );
+
+      await transactionalEntityManager.delete(OrganizationInvitation, { id: invitation.id });
+
+      return member;
+    });
+  }
+
+  async deleteInvitation(id: string): Promise<void> {
+    await this.invitationsRepo.delete({ id });
+  }
+
+  async updateMemberRole(
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole,
+  ): Promise<OrganizationMember> {
+    await this.membersRepo.update({ organizationId, userId }, { role });
+
+    const updatedMember = await this.findMember(organizationId, userId);
+
+    if (!updatedMember) {
+      throw new Error(`Member ${userId} of organization ${organizationId} not found after update`);
+    }
+
+    return updatedMember;
+  }
+
+  async removeMember(organizationId: string, userId: string): Promise<void> {
+    await this.membersRepo.delete({ organizationId, userId });
+  }
+
+  async countOwners(organizationId: string): Promise<number> {
+    return this.membersRepo.count({ where: { organizationId, role: OrganizationRole.OWNER } });
+  }
+
+  private createInvitationSummaryQuery(): SelectQueryBuilder<OrganizationInvitation> {
+    return this.invitationsRepo
+      .createQueryBuilder('invitation')
+      .innerJoin('invitation.organization', 'organization')
+      .innerJoin('invitation.user', 'user')
+      .select('invitation.id', 'id')
+      .addSelect('invitation.organizationId', 'organizationId')
+      .addSelect('organization.name', 'organizationName')
+      .addSelect('invitation.userId', 'userId')
+      .addSelect('user.email', 'email')
+      .addSelect('invitation.role', 'role')
+      .addSelect('invitation.invitedBy', 'invitedBy')
+      .addSelect('invitation.createdAt', 'createdAt')
+      .orderBy('invitation.createdAt', 'ASC')
+      .addOrderBy('invitation.id', 'ASC');
+  }
+}
@@ -0,0 +1,342 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { isUUID } from 'class-validator';
+import { Organization } from './entities/organization.entity';
+import { OrganizationMember } from './entities/organization-member.entity';
+import { OrganizationInvitation } from './entities/organization-invitation.entity';
+import { OrganizationRole, ORGANIZATION_ADMIN_ROLES } from './enums/organization-role.enum';
+import { CreateOrganizationDto } from './dto/create-organization.dto';
+import {
+  InviteOrganizationMemberDto,
+  UpdateOrganizationMemberDto,
+} from './dto/organization-member.dto';
+import type {
+  IOrganizationsRepository,
+  OrganizationMembership,
+  OrganizationMemberSummary,
+  OrganizationInvitationSummary,
+} from './organizations.repository.interface';
+import { ORGANIZATIONS_REPOSITORY } from './organizations.repository.interface';
+import { UsersService } from '../users/users.service';
+import { UserRole } from '../users/enum/user-role.enum';
+import { CacheService } from '../../common/services/cache.service';
+import { buildEntityCacheKey } from '../../common/utils/cache.util';
+import { ErrorCode, conflict, forbid, notFound } from '../../common/errors';
+import type { AuthUser } from '../../common/types';
+
+/** The organization a request acts in, and the caller's role there */
+export interface ActiveOrganization {
+  organizationId: string;
+  role: string;
+}
+
+@Injectable()
+export class OrganizationsService {
+  private readonly logger = new Logger(OrganizationsService.name);
+  private readonly MEMBERSHIPS_TTL = Number(process.env.CACHE_MEMBERSHIPS_TTL_SECONDS ?? 300);
+
+  constructor(
+    @Inject(ORGANIZATIONS_REPOSITORY)
+    private readonly organizationsRepository: IOrganizationsRepository,
+    private readonly usersService: UsersService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  /** Without an owner the organization is empty until a user is created into it (sign-up) */
+  async create(
+    createOrganizationDto: CreateOrganizationDto,
+    ownerId?: string,
+  ): Promise<Organization> {
+    const organization = await this.organizationsRepository.create(createOrganizationDto, ownerId);
+
+    if (ownerId) {
+      await this.invalidateMemberships(ownerId);
+    }
+
+    this.logger.log(`Created organization ${organization.id}`);
+
+    return organization;
+  }
+
+  async findAllForUser(currentUser: AuthUser): Promise<OrganizationMembership[]> {
+    return this.organizationsRepository.findMembershipsByUserId(currentUser.id);
+  }
+
+  /**
+   * Picks the organization a request acts in: the requested one when the user belongs to
+   * it (super-admins may enter any), otherwise the user's oldest membership. The platform
+   * role carries over unchanged; organization roles only govern membership management
+   */
+  async resolveActiveOrganization(
+    account: { id: string; role: string },
+    requestedOrganizationId?: string,
+  ): Promise<ActiveOrganization> {
+    const memberships = await this.findMembershipsCached(account.id);
+
+    if (requestedOrganizationId) {
+      if (!isUUID(requestedOrganizationId)) {
+        forbid(ErrorCode.ORGANIZATION_ACCESS_DENIED);
+      }
+
+      const membership = memberships.find(
+        candidate => candidate.organizationId === requestedOrganizationId,
+      );
+
+      if (membership) {
+        return {
+          organizationId: membership.organizationId,
+          role: account.role,
+        };
+      }
+
+      if (account.role !== UserRole.SUPER_ADMIN) {
+        forbid(ErrorCode.ORGANIZATION_ACCESS_DENIED);
+      }
+
+      const organization = await this.organizationsRepository.findById(requestedOrganizationId);
+      if (!organization) {
+        notFound(ErrorCode.ORGANIZATION_NOT_FOUND);
+      }
+
+      return { organizationId: organization.id, role: UserRole.SUPER_ADMIN };
+    }
+
+    const [defaultMembership] = memberships;
+    if (!defaultMembership) {
+      forbid(ErrorCode.ORGANIZATION_MEMBERSHIP_REQUIRED);
+    }
+
+    return {
+      organizationId: defaultMembership.organizationId,
+      role: account.role,
+    };
+  }
+
+  async findMembers(
+    organizationId: string,
+    currentUser: AuthUser,
+  ): Promise<OrganizationMemberSummary[]> {
+    await this.findCallerMembership(organizationId, currentUser);
+
+    return this.organizationsRepository.findMembers(organizationId);
+  }
+
+  /** Nobody is added to an organization without their consent; they join by accepting */
+  async inviteMember(
+    organizationId: string,
+    inviteMemberDto: InviteOrganizationMemberDto,
+    currentUser: AuthUser,
+  ): Promise<OrganizationInvitation> {
+    const role = inviteMemberDto.role ?? OrganizationRole.MEMBER;
+    const callerMembership = await this.assertCanManage(organizationId, currentUser);
+    assertCanGrant(callerMembership, [role]);
+
+    const user = await this.usersService.findByEmail(inviteMemberDto.email);
+    if (!user) {
+      notFound(ErrorCode.USER_NOT_FOUND);
+    }
+
+    if (await this.organizationsRepository.findMember(organizationId, user.id)) {
+      conflict(ErrorCode.ORGANIZATION_MEMBER_EXISTS);
+    }
+
+    if (await this.organizationsRepository.findInvitation(organizationId, user.id)) {
+      conflict(ErrorCode.ORGANIZATION_INVITATION_EXISTS);
+    }
+
+    const invitation = await this.organizationsRepository.createInvitation(
+      organizationId,
+      user.id,
+      role,
+      currentUser.id,
+    );
+
+    this.logger.log(
+      `User ${currentUser.id} invited user ${user.id} to organization ${organizationId} as ${role}`,
+    );
+
+    return invitation;
+  }
+
+  async findInvitations(
+    organizationId: string,
+    currentUser: AuthUser,
+  ): Promise<OrganizationInvitationSummary[]> {
+    await this.assertCanManage(organizationId, currentUser);
+
+    return this.organizationsRepository.findInvitationsByOrganizationId(organizationId);
+  }
+
+  async findInvitationsForUser(currentUser: AuthUser): Promise<OrganizationInvitationSummary[]> {
+    return this.organizationsRepository.findInvitationsByUserId(currentUser.id);
+  }
+
+  /** Only the invited user accepts; other users get the same not-found error */
+  async acceptInvitation(invitationId: string, currentUser: AuthUser): Promise<OrganizationMember> {
+    const invitation = await this.organizationsRepository.findInvitationById(invitationId);
+
+    if (!invitation || invitation.userId !== currentUser.id) {
+      notFound(ErrorCode.ORGANIZATION_INVITATION_NOT_FOUND);
+    }
+
+    if (await this.organizationsRepository.findMember(invitation.organizationId, currentUser.id)) {
+      await this.organizationsRepository.deleteInvitation(invitation.id);
+      conflict(ErrorCode.ORGANIZATION_MEMBER_EXISTS);
+    }
+
+    const member = await this.organizationsRepository.acceptInvitation(invitation);
+
+    await this.invalidateMemberships(currentUser.id);
+
+    return member;
+  }
+
+  /** The invited user declines; owners and admins of the organization revoke */
+  async deleteInvitation(invitationId: string, currentUser: AuthUser): Promise<void> {
+    const invitation = await this.organizationsRepository.findInvitationById(invitationId);
+
+    if (!invitation) {
+      notFound(ErrorCode.ORGANIZATION_INVITATION_NOT_FOUND);
+    }
+
+    if (invitation.userId !== currentUser.id) {
+      const callerMembership = await this.assertCanManage(invitation.organizationId, currentUser);
+      assertCanGrant(callerMembership, [invitation.role]);
+    }
+
+    await this.organizationsRepository.deleteInvitation(invitation.id);
+  }
+
+  async updateMember(
+    organizationId: string,
+    userId: string,
+    updateMemberDto: UpdateOrganizationMemberDto,
+    currentUser: AuthUser,
+  ): Promise<OrganizationMember> {
+    const callerMembership = await this.assertCanManage(organizationId, currentUser);
+    const member = await this.findMemberOrFail(organizationId, userId);
+    assertCanGrant(callerMembership, [member.role, updateMemberDto.role]);
+
+    if (member.role === OrganizationRole.OWNER && updateMemberDto.role !== OrganizationRole.OWNER) {
+      await this.assertNotLastOwner(organizationId);
+    }
+
+    const updatedMember = await this.organizationsRepository.updateMemberRole(
+      organizationId,
+      userId,
+      updateMemberDto.role,
+    );
+
+    await this.invalidateMemberships(userId);
+
+    return updatedMember;
+  }
+
+  /** Members may leave on their own; their tasks stay in the organization */
+  async removeMember(organizationId: string, userId: string, currentUser: AuthUser): Promise<void> {
+    const callerMembership =
+      userId === currentUser.id ? null : await this.assertCanManage(organizationId, currentUser);
+    const member = await this.findMemberOrFail(organizationId, userId);
+    assertCanGrant(callerMembership, [member.role]);
+
+    if (member.role === OrganizationRole.OWNER) {
+      await this.assertNotLastOwner(organizationId);
+    }
+
+    await this.organizationsRepository.removeMember(organizationId, userId);
+
+    await this.invalidateMemberships(userId);
+  }
+
+  private async findMembershipsCached(userId: string): Promise<OrganizationMembership[]> {
+    const cacheKey = buildEntityCacheKey('memberships', userId);
+    const cached = await this.cacheService.get<OrganizationMembership[]>(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const memberships = await this.organizationsRepository.findMembershipsByUserId(userId);
+    await this.cacheService.set(cacheKey, memberships, this.MEMBERSHIPS_TTL);
+
+    return memberships;
+  }
+
+  private async invalidateMemberships(userId: string): Promise<void> {
+    await this.cacheService.delete(buildEntityCacheKey('memberships', userId));
+  }
+
+  /** Super-admins act in any organization without a membership */
+  private async findCallerMembership(
+    organizationId: string,
+    currentUser: AuthUser,
+  ): Promise<OrganizationMember | null> {
+    const organization = await this.organizationsRepository.findById(organizationId);
+    if (!organization) {
+      notFound(ErrorCode.ORGANIZATION_NOT_FOUND);
+    }
+
+    const membership = await this.organizationsRepository.findMember(
+      organizationId,
+      currentUser.id,
+    );
+
+    if (!membership && currentUser.role !== UserRole.SUPER_ADMIN) {
+      forbid(ErrorCode.ORGANIZATION_ACCESS_DENIED);
+    }
+
+    return membership;
+  }
+
+  /** Owners and admins manage members; returns null for super-admins acting from outside */
+  private async assertCanManage(
+    organizationId: string,
+    currentUser: AuthUser,
+  ): Promise<OrganizationMember | null> {
+    const membership = await this.findCallerMembership(organizationId, currentUser);
+
+    if (currentUser.role === UserRole.SUPER_ADMIN) {
+      return null;
+    }
+
+    if (!membership || !ORGANIZATION_ADMIN_ROLES.includes(membership.role)) {
+      forbid(ErrorCode.ORGANIZATION_ADMIN_REQUIRED);
+    }
+
+    return membership;
+  }
+
+  private async findMemberOrFail(
+    organizationId: string,
+    userId: string,
+  ): Promise<OrganizationMember> {
+    const member = await this.organizationsRepository.findMember(organizationId, userId);
+
+    if (!member) {
+      notFound(ErrorCode.ORGANIZATION_MEMBER_NOT_FOUND);
+    }
+
+    return member;
+  }
+
+  private async assertNotLastOwner(organizationId: string): Promise<void> {
+    const ownerCount = await this.organizationsRepository.countOwners(organizationId);
+
+    if (ownerCount <= 1) {
+      conflict(ErrorCode.ORGANIZATION_LAST_OWNER);
+    }
+  }
+}
+
+/** Only owners (and super-admins, who pass null) grant or revoke the owner role */
+function assertCanGrant(
+  callerMembership: OrganizationMember | null,
+  affectedRoles: OrganizationRole[],
+): void {
+  if (
+    callerMembership &&
+    callerMembership.role !== OrganizationRole.OWNER &&
+    affectedRoles.includes(OrganizationRole.OWNER)
+  ) {
+    forbid(ErrorCode.ORGANIZATION_OWNER_REQUIRED);
+  }
+}
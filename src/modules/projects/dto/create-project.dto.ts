@@ -0,0 +1,21 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+
+export class CreateProjectDto {
+  @ApiProperty({ example: 'Website relaunch' })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100, { message: 'Project name cannot exceed 100 characters' })
+  name: string;
+
+  @ApiProperty({
+    example: 'New design and CMS migration for the marketing site',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000, { message: 'Project description cannot exceed 2000 characters' })
+  description?: string;
+}
@@ -0,0 +1,27 @@
+import { IsEnum, IsUUID, ValidateIf } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { ProjectTaskAction } from '../enums/project-task-action.enum';
+
+export class DeleteProjectQueryDto {
+  @ApiProperty({
+    enum: ProjectTaskAction,
+    description:
+      'move: move the tasks to targetProjectId; delete: move the tasks to the trash along with the project',
+    example: ProjectTaskAction.MOVE,
+  })
+  @Transform(({ value }) => (value ? value.toString().toLowerCase() : undefined))
+  @IsEnum(ProjectTaskAction, {
+    message: `taskAction must be one of: ${Object.values(ProjectTaskAction).join(', ')}`,
+  })
+  taskAction: ProjectTaskAction;
+
+  @ApiProperty({
+    required: false,
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Project that receives the tasks; required when taskAction is move',
+  })
+  @ValidateIf(query => query.taskAction === ProjectTaskAction.MOVE)
+  @IsUUID('4', { message: 'targetProjectId must be a valid UUID' })
+  targetProjectId?: string;
+}
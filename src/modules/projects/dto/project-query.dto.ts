@@ -0,0 +1,18 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { toBoolean } from '../../tasks/dto/task-filter.dto';
+
+export class ProjectQueryDto {
+  @ApiProperty({
+    required: false,
+    type: Boolean,
+    default: false,
+    description: 'Include archived projects',
+    example: true,
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean({ message: 'includeArchived must be a boolean' })
+  includeArchived?: boolean;
+}
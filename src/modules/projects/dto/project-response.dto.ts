@@ -0,0 +1,58 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ProjectTaskAction } from '../enums/project-task-action.enum';
+
+export class ProjectResponseDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Unique project identifier',
+  })
+  id: string;
+
+  @ApiProperty({ example: 'Website relaunch', description: 'Project name, unique per user' })
+  name: string;
+
+  @ApiProperty({
+    example: 'New design and CMS migration for the marketing site',
+    description: 'Project description',
+    nullable: true,
+  })
+  description: string | null;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the user who owns this project',
+  })
+  userId: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the organization the project belongs to',
+  })
+  organizationId: string;
+
+  @ApiProperty({ example: false, description: 'Archived projects accept no new tasks' })
+  archived: boolean;
+
+  @ApiProperty({ example: 1, description: 'Version number for optimistic locking' })
+  version: number;
+
+  @ApiProperty({ example: '2025-10-01T10:30:00.000Z', description: 'Project creation timestamp' })
+  createdAt: Date;
+
+  @ApiProperty({
+    example: '2025-10-05T14:20:00.000Z',
+    description: 'Project last update timestamp',
+  })
+  updatedAt: Date;
+}
+
+export class DeleteProjectResponseDto {
+  @ApiProperty({ example: 'Project deleted successfully', description: 'Success message' })
+  message: string;
+
+  @ApiProperty({ enum: ProjectTaskAction, example: ProjectTaskAction.MOVE })
+  taskAction: ProjectTaskAction;
+
+  @ApiProperty({ example: 12, description: 'Number of tasks moved or deleted' })
+  taskCount: number;
+}
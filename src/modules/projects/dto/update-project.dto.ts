@@ -0,0 +1,14 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import { CreateProjectDto } from './create-project.dto';
+
+export class UpdateProjectDto extends PartialType(CreateProjectDto) {
+  @ApiProperty({
+    example: true,
+    required: false,
+    description: 'Archived projects keep their tasks but accept no new ones',
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'archived must be a boolean' })
+  archived?: boolean;
+}
@@ -0,0 +1,5 @@
+/** What happens to the tasks of a deleted project */
+export enum ProjectTaskAction {
+  MOVE = 'move',
+  DELETE = 'delete',
+}
@@ -0,0 +1,99 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { ProjectsService } from './projects.service';
+import { CreateProjectDto } from './dto/create-project.dto';
+import { UpdateProjectDto } from './dto/update-project.dto';
+import { ProjectQueryDto } from './dto/project-query.dto';
+import { DeleteProjectQueryDto } from './dto/delete-project-query.dto';
+import { ProjectResponseDto, DeleteProjectResponseDto } from './dto/project-response.dto';
+import { TaskStatsResponseDto } from '../tasks/dto/task-response.dto';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../users/enum/user-role.enum';
+import type { AuthUser } from '../../common/types';
+import { SanitizeInput } from '../../common/decorators/sanitize-input.decorator';
+import {
+  ApiProjectCreate,
+  ApiProjectList,
+  ApiProjectGet,
+  ApiProjectStats,
+  ApiProjectUpdate,
+  ApiProjectDelete,
+} from '../../common/decorators/swagger/api-project.decorator';
+
+@ApiTags('projects')
+@Controller('projects')
+@UseGuards(JwtAuthGuard, RolesGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class ProjectsController {
+  constructor(private readonly projectsService: ProjectsService) {}
+
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @SanitizeInput()
+  @ApiProjectCreate(ProjectResponseDto)
+  create(@Body() createProjectDto: CreateProjectDto, @CurrentUser() user: AuthUser) {
+    return this.projectsService.create(createProjectDto, user);
+  }
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiProjectList(ProjectResponseDto)
+  findAll(@Query() query: ProjectQueryDto, @CurrentUser() user: AuthUser) {
+    return this.projectsService.findAllForUser(query, user);
+  }
+
+  @Get(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiProjectGet(ProjectResponseDto)
+  findOne(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.projectsService.findOne(id, user);
+  }
+
+  @Get(':id/stats')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiProjectStats(TaskStatsResponseDto)
+  getStats(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.projectsService.getStats(id, user);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @SanitizeInput()
+  @ApiProjectUpdate(ProjectResponseDto)
+  update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateProjectDto: UpdateProjectDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.projectsService.update(id, updateProjectDto, user);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiProjectDelete(DeleteProjectResponseDto)
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: DeleteProjectQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const result = await this.projectsService.remove(id, query, user);
+    return { message: 'Project deleted successfully', ...result };
+  }
+}
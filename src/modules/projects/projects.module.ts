@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ProjectsService } from './projects.service';
+import { ProjectsController } from './projects.controller';
+import { Project } from './entities/project.entity';
+import { ProjectsRepository } from './projects.repository';
+import { PROJECTS_REPOSITORY } from './projects.repository.interface';
+import { TasksModule } from '../tasks/tasks.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Project]), TasksModule],
+  controllers: [ProjectsController],
+  providers: [
+    ProjectsService,
+    {
+      provide: PROJECTS_REPOSITORY,
+      useClass: ProjectsRepository,
+    },
+  ],
+  exports: [ProjectsService],
+})
+export class ProjectsModule {}
@@ -0,0 +1,27 @@
+import { Project } from './entities/project.entity';
+
+/** Reads only see projects of the given organization */
+export interface IProjectsRepository {
+  create(projectData: Partial<Project>): Promise<Project>;
+
+  findById(id: string, organizationId: string): Promise<Project | null>;
+
+  /** Ordered by name; archived projects only when asked for */
+  findByUserId(
+    userId: string,
+    organizationId: string,
+    includeArchived: boolean,
+  ): Promise<Project[]>;
+
+  findByUserIdAndName(
+    userId: string,
+    organizationId: string,
+    name: string,
+  ): Promise<Project | null>;
+
+  update(id: string, projectData: Partial<Project>): Promise<Project>;
+
+  delete(id: string): Promise<void>;
+}
+
+export const PROJECTS_REPOSITORY = Symbol('PROJECTS_REPOSITORY');
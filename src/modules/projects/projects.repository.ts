@@ -0,0 +1,66 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Project } from './entities/project.entity';
+import { IProjectsRepository } from './projects.repository.interface';
+
+@Injectable()
+export class ProjectsRepository implements IProjectsRepository {
+  constructor(
+    @InjectRepository(Project)
+    private readonly projectsRepo: Repository<Project>,
+  ) {}
+
+  async create(projectData: Partial<Project>): Promise<Project> {
+    const project = this.projectsRepo.create(projectData);
+    return this.projectsRepo.save(project);
+  }
+
+  async findById(id: string, organizationId: string): Promise<Project | null> {
+    return this.projectsRepo.findOne({ where: { id, organizationId } });
+  }
+
+  async findByUserId(
+    userId: string,
+    organizationId: string,
+    includeArchived: boolean,
+  ): Promise<Project[]> {
+    const query = this.projectsRepo
+      .createQueryBuilder('project')
+      .where('project.userId = :userId', { userId })
+      .andWhere('project.organizationId = :organizationId', { organizationId })
+      .orderBy('project.name', 'ASC');
+
+    if (!includeArchived) {
+      query.andWhere('project.archived = false');
+    }
+
+    return query.getMany();
+  }
+
+  async findByUserIdAndName(
+    userId: string,
+    organizationId: string,
+    name: string,
+  ): Promise<Project | null> {
+    return this.projectsRepo.findOne({ where: { userId, organizationId, name } });
+  }
+
+  async update(id: string, projectData: Partial<Project>): Promise<Project> {
+    return this.projectsRepo.manager.transaction(async transactionalEntityManager => {
+      await transactionalEntityManager.update(Project, id, projectData);
+
+      const updatedProject = await transactionalEntityManager.findOne(Project, { where: { id } });
+
+      if (!updatedProject) {
+        throw new Error(`Project with ID ${id} not found after update`);
+      }
+
+      return updatedProject;
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.projectsRepo.delete(id);
+  }
+}
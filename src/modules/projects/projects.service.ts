@@ -0,0 +1,137 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Project } from './entities/project.entity';
+import { CreateProjectDto } from './dto/create-project.dto';
+import { UpdateProjectDto } from './dto/update-project.dto';
+import { ProjectQueryDto } from './dto/project-query.dto';
+import { DeleteProjectQueryDto } from './dto/delete-project-query.dto';
+import { ProjectTaskAction } from './enums/project-task-action.enum';
+import type { IProjectsRepository } from './projects.repository.interface';
+import { PROJECTS_REPOSITORY } from './projects.repository.interface';
+import { TasksService } from '../tasks/tasks.service';
+import { isAdminOrSuperAdmin } from '../users/utils/users.utils';
+import { ErrorCode, badRequest, conflict, forbid, notFound } from '../../common/errors';
+import type { AuthUser } from '../../common/types';
+
+@Injectable()
+export class ProjectsService {
+  private readonly logger = new Logger(ProjectsService.name);
+
+  constructor(
+    @Inject(PROJECTS_REPOSITORY)
+    private readonly projectsRepository: IProjectsRepository,
+    private readonly tasksService: TasksService,
+  ) {}
+
+  async create(createProjectDto: CreateProjectDto, currentUser: AuthUser): Promise<Project> {
+    await this.assertNameAvailable(
+      currentUser.id,
+      currentUser.organizationId,
+      createProjectDto.name,
+    );
+
+    return this.projectsRepository.create({
+      ...createProjectDto,
+      userId: currentUser.id,
+      organizationId: currentUser.organizationId,
+    });
+  }
+
+  async findAllForUser(query: ProjectQueryDto, currentUser: AuthUser): Promise<Project[]> {
+    return this.projectsRepository.findByUserId(
+      currentUser.id,
+      currentUser.organizationId,
+      query.includeArchived ?? false,
+    );
+  }
+
+  async findOne(id: string, currentUser: AuthUser): Promise<Project> {
+    const project = await this.projectsRepository.findById(id, currentUser.organizationId);
+
+    if (!project) {
+      notFound(ErrorCode.PROJECT_NOT_FOUND);
+    }
+
+    if (!isAdminOrSuperAdmin(currentUser.role) && project.userId !== currentUser.id) {
+      forbid(ErrorCode.PROJECT_NOT_OWNED);
+    }
+
+    return project;
+  }
+
+  async update(
+    id: string,
+    updateProjectDto: UpdateProjectDto,
+    currentUser: AuthUser,
+  ): Promise<Project> {
+    const project = await this.findOne(id, currentUser);
+
+    if (updateProjectDto.name && updateProjectDto.name !== project.name) {
+      await this.assertNameAvailable(project.userId, project.organizationId, updateProjectDto.name);
+    }
+
+    return this.projectsRepository.update(id, updateProjectDto);
+  }
+
+  async getStats(id: string, currentUser: AuthUser) {
+    await this.findOne(id, currentUser);
+
+    return this.tasksService.getStatisticsForProject(id, currentUser.organizationId);
+  }
+
+  /**
+   * Tasks either follow the caller's choice into another project of the same owner or go
+   * to the trash; trashed tasks left behind lose their project through the FK
+   */
+  async remove(
+    id: string,
+    query: DeleteProjectQueryDto,
+    currentUser: AuthUser,
+  ): Promise<{ taskAction: ProjectTaskAction; taskCount: number }> {
+    const project = await this.findOne(id, currentUser);
+
+    let taskCount: number;
+
+    if (query.taskAction === ProjectTaskAction.MOVE) {
+      const targetProjectId = query.targetProjectId as string;
+      if (targetProjectId === project.id) {
+        badRequest(ErrorCode.PROJECT_MOVE_TARGET_INVALID);
+      }
+
+      const target = await this.findOne(targetProjectId, currentUser);
+      if (target.userId !== project.userId) {
+        badRequest(ErrorCode.PROJECT_MOVE_TARGET_INVALID);
+      }
+      if (target.archived) {
+        conflict(ErrorCode.PROJECT_ARCHIVED);
+      }
+
+      taskCount = await this.tasksService.moveProjectTasks(project.id, target.id, currentUser);
+    } else {
+      taskCount = await this.tasksService.trashProjectTasks(project.id, currentUser);
+    }
+
+    await this.projectsRepository.delete(id);
+
+    this.logger.log(
+      `Deleted project ${id} (${query.taskAction}: ${taskCount} tasks) by user ${currentUser.id}`,
+    );
+
+    return { taskAction: query.taskAction, taskCount };
+  }
+
+  private async assertNameAvailable(
+    userId: string,
+    organizationId: string,
+    name: string,
+  ): Promise<void> {
+    const existing = await this.projectsRepository.findByUserIdAndName(
+      userId,
+      organizationId,
+      name,
+    );
+
+    if (existing) {
+      conflict(ErrorCode.PROJECT_NAME_EXISTS, { name });
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import { TaskFilterDto } from '../../tasks/dto/task-filter.dto';
+import { SavedViewVisibility } from '../enums/saved-view-visibility.enum';
+
+/** GET /tasks query parameters a view stores; paging is chosen when the view is run */
+export class SavedViewFiltersDto extends OmitType(TaskFilterDto, [
+  'page',
+  'limit',
+  'pagination',
+  'cursor',
+  'includeTotal',
+] as const) {}
+
+export class CreateSavedViewDto {
+  @ApiProperty({ example: 'My overdue work' })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100, { message: 'View name cannot exceed 100 characters' })
+  name: string;
+
+  @ApiProperty({
+    type: SavedViewFiltersDto,
+    description: 'Same fields and values as the GET /tasks query, sortBy and sortOrder included',
+    example: { assignee: 'me', overdue: true, sortBy: 'dueDate' },
+  })
+  @ValidateNested()
+  @Type(() => SavedViewFiltersDto)
+  filters: SavedViewFiltersDto;
+
+  @ApiProperty({
+    required: false,
+    minimum: 1,
+    maximum: 100,
+    default: 10,
+    description: 'Number of tasks per page when the view is run',
+    example: 25,
+  })
+  @IsOptional()
+  @IsInt({ message: 'pageSize must be an integer' })
+  @Min(1, { message: 'pageSize must be at least 1' })
+  @Max(100, { message: 'pageSize cannot exceed 100' })
+  pageSize?: number;
+
+  @ApiProperty({
+    enum: SavedViewVisibility,
+    required: false,
+    default: SavedViewVisibility.PRIVATE,
+    description: 'shared views can be listed and run by everyone in the organization',
+  })
+  @IsOptional()
+  @IsEnum(SavedViewVisibility, {
+    message: `visibility must be one of: ${Object.values(SavedViewVisibility).join(', ')}`,
+  })
+  visibility?: SavedViewVisibility;
+
+  @ApiProperty({
+    required: false,
+    default: false,
+    description: "Make this the owner's default view, replacing the previous default",
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'isDefault must be a boolean' })
+  isDefault?: boolean;
+}
@@ -0,0 +1,10 @@
+import { PickType } from '@nestjs/swagger';
+import { TaskFilterDto } from '../../tasks/dto/task-filter.dto';
+
+/** Paging for GET /views/:id/tasks; the page size comes from the view */
+export class RunSavedViewQueryDto extends PickType(TaskFilterDto, [
+  'page',
+  'pagination',
+  'cursor',
+  'includeTotal',
+] as const) {}
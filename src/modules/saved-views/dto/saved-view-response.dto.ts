@@ -0,0 +1,55 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { SavedViewVisibility } from '../enums/saved-view-visibility.enum';
+
+export class SavedViewResponseDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Unique view identifier',
+  })
+  id: string;
+
+  @ApiProperty({ example: 'My overdue work', description: 'View name' })
+  name: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Organization the view belongs to',
+  })
+  organizationId: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the user who owns the view',
+  })
+  userId: string;
+
+  @ApiProperty({
+    example: { assignee: 'me', overdue: true, sortBy: 'dueDate' },
+    description: 'Stored GET /tasks query parameters',
+  })
+  filters: Record<string, unknown>;
+
+  @ApiProperty({ example: 25, description: 'Number of tasks per page when the view is run' })
+  pageSize: number;
+
+  @ApiProperty({ enum: SavedViewVisibility, example: SavedViewVisibility.PRIVATE })
+  visibility: SavedViewVisibility;
+
+  @ApiProperty({ example: false, description: "Whether this is the owner's default view" })
+  isDefault: boolean;
+
+  @ApiProperty({ example: 1, description: 'Version number for optimistic locking' })
+  version: number;
+
+  @ApiProperty({
+    example: '2025-10-01T10:30:00.000Z',
+    description: 'View creation timestamp',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    example: '2025-10-05T14:20:00.000Z',
+    description: 'View last update timestamp',
+  })
+  updatedAt: Date;
+}
@@ -0,0 +1,65 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+  VersionColumn,
+} from 'typeorm';
+import { SavedViewVisibility } from '../enums/saved-view-visibility.enum';
+import type { TaskFilterCriteria } from '../../tasks/utils/task-filters.utils';
+
+/** A named GET /tasks query, run through GET /views/:id/tasks */
+@Entity('saved_views')
+@Index('idx_saved_views_organization_user_name', ['organizationId', 'userId', 'name'], {
+  unique: true,
+})
+// Partial unique index, created by the CreateSavedViews migration
+@Index('idx_saved_views_user_default', { synchronize: false })
+export class SavedView {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 100 })
+  name: string;
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId: string;
+
+  @ManyToOne('Organization', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization?: any;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne('User', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user?: any;
+
+  // Query parameters of GET /tasks as validated on save, sortBy and sortOrder included
+  @Column({ type: 'jsonb', default: {} })
+  filters: TaskFilterCriteria;
+
+  @Column({ name: 'page_size', type: 'int', default: 10 })
+  pageSize: number;
+
+  @Column({ type: 'varchar', length: 10, default: SavedViewVisibility.PRIVATE })
+  visibility: SavedViewVisibility;
+
+  // At most one per user and organization
+  @Column({ name: 'is_default', default: false })
+  isDefault: boolean;
+
+  @VersionColumn()
+  version: number;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,6 @@
+/** Who can see and run a saved view */
+export enum SavedViewVisibility {
+  PRIVATE = 'private',
+  // Every member of the view's organization
+  SHARED = 'shared',
+}
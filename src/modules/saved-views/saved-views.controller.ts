@@ -0,0 +1,110 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { SavedViewsService } from './saved-views.service';
+import { CreateSavedViewDto } from './dto/create-saved-view.dto';
+import { UpdateSavedViewDto } from './dto/update-saved-view.dto';
+import { RunSavedViewQueryDto } from './dto/run-saved-view-query.dto';
+import { SavedViewResponseDto } from './dto/saved-view-response.dto';
+import {
+  PaginatedTaskResponseDto,
+  CursorPaginatedTaskResponseDto,
+} from '../tasks/dto/task-response.dto';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../users/enum/user-role.enum';
+import type { AuthUser } from '../../common/types';
+import { SanitizeInput } from '../../common/decorators/sanitize-input.decorator';
+import {
+  ApiSavedViewCreate,
+  ApiSavedViewList,
+  ApiSavedViewGet,
+  ApiSavedViewUpdate,
+  ApiSavedViewDelete,
+  ApiSavedViewRun,
+} from '../../common/decorators/swagger/api-saved-view.decorator';
+
+@ApiTags('views')
+@Controller('views')
+@UseGuards(JwtAuthGuard, RolesGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class SavedViewsController {
+  constructor(private readonly savedViewsService: SavedViewsService) {}
+
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @SanitizeInput()
+  @ApiSavedViewCreate(SavedViewResponseDto)
+  create(@Body() createSavedViewDto: CreateSavedViewDto, @CurrentUser() user: AuthUser) {
+    return this.savedViewsService.create(createSavedViewDto, user);
+  }
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiSavedViewList(SavedViewResponseDto)
+  findAll(@CurrentUser() user: AuthUser) {
+    return this.savedViewsService.findAllForUser(user);
+  }
+
+  @Get(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiSavedViewGet(SavedViewResponseDto)
+  findOne(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.savedViewsService.findOne(id, user);
+  }
+
+  @Get(':id/tasks')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiSavedViewRun(PaginatedTaskResponseDto, CursorPaginatedTaskResponseDto)
+  run(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+    @Query(
+      new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transformOptions: { enableImplicitConversion: true },
+      }),
+    )
+    query: RunSavedViewQueryDto,
+  ) {
+    return this.savedViewsService.run(id, query, user);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @SanitizeInput()
+  @ApiSavedViewUpdate(SavedViewResponseDto)
+  update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateSavedViewDto: UpdateSavedViewDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.savedViewsService.update(id, updateSavedViewDto, user);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiSavedViewDelete()
+  async remove(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    await this.savedViewsService.remove(id, user);
+    return { message: 'View deleted successfully' };
+  }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SavedViewsService } from './saved-views.service';
+import { SavedViewsController } from './saved-views.controller';
+import { SavedView } from './entities/saved-view.entity';
+import { SavedViewsRepository } from './saved-views.repository';
+import { SAVED_VIEWS_REPOSITORY } from './saved-views.repository.interface';
+import { TasksModule } from '../tasks/tasks.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([SavedView]), TasksModule],
+  controllers: [SavedViewsController],
+  providers: [
+    SavedViewsService,
+    {
+      provide: SAVED_VIEWS_REPOSITORY,
+      useClass: SavedViewsRepository,
+    },
+  ],
+})
+export class SavedViewsModule {}
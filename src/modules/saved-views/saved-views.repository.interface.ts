@@ -0,0 +1,21 @@
+import { SavedView } from './entities/saved-view.entity';
+
+/** Reads only see views of the given organization */
+export interface ISavedViewsRepository {
+  /** Clears the owner's previous default when the new view is the default */
+  create(viewData: Partial<SavedView>): Promise<SavedView>;
+
+  findById(id: string, organizationId: string): Promise<SavedView | null>;
+
+  findByName(organizationId: string, userId: string, name: string): Promise<SavedView | null>;
+
+  /** The user's own views plus the views shared in the organization; defaults first, then by name */
+  findVisibleToUser(userId: string, organizationId: string): Promise<SavedView[]>;
+
+  /** Clears the owner's previous default when the view becomes the default */
+  update(id: string, viewData: Partial<SavedView>): Promise<SavedView>;
+
+  delete(id: string): Promise<void>;
+}
+
+export const SAVED_VIEWS_REPOSITORY = Symbol('SAVED_VIEWS_REPOSITORY');
@@ -0,0 +1,94 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Not, Repository } from 'typeorm';
+import { SavedView } from './entities/saved-view.entity';
+import { SavedViewVisibility } from './enums/saved-view-visibility.enum';
+import { ISavedViewsRepository } from './saved-views.repository.interface';
+
+@Injectable()
+export class SavedViewsRepository implements ISavedViewsRepository {
+  constructor(
+    @InjectRepository(SavedView)
+    private readonly savedViewsRepo: Repository<SavedView>,
+  ) {}
+
+  async create(viewData: Partial<SavedView>): Promise<SavedView> {
+    return this.savedViewsRepo.manager.transaction(async transactionalEntityManager => {
+      const view = transactionalEntityManager.create(SavedView, viewData);
+
+      if (view.isDefault) {
+        await this.clearDefault(transactionalEntityManager, view);
+      }
+
+      return transactionalEntityManager.save(view);
+    });
+  }
+
+  async findById(id: string, organizationId: string): Promise<SavedView | null> {
+    return this.savedViewsRepo.findOne({ where: { id, organizationId } });
+  }
+
+  async findByName(
+    organizationId: string,
+    userId: string,
+    name: string,
+  ): Promise<SavedView | null> {
+    return this.savedViewsRepo.findOne({ where: { organizationId, userId, name } });
+  }
+
+  async findVisibleToUser(userId: string, organizationId: string): Promise<SavedView[]> {
+    return this.savedViewsRepo
+      .createQueryBuilder('view')
+      .where('view.organizationId = :organizationId', { organizationId })
+      .andWhere('(view.userId = :userId OR view.visibility = :shared)', {
+        userId,
+        shared: SavedViewVisibility.SHARED,
+      })
+      .orderBy('CASE WHEN view.userId = :userId AND view.isDefault THEN 0 ELSE 1 END', 'ASC')
+      .addOrderBy('view.name', 'ASC')
+      .addOrderBy('view.id', 'ASC')
+      .getMany();
+  }
+
+  async update(id: string, viewData: Partial<SavedView>): Promise<SavedView> {
+    return this.savedViewsRepo.manager.transaction(async transactionalEntityManager => {
+      const view = await transactionalEntityManager.findOne(SavedView, { where: { id } });
+
+      if (!view) {
+        throw new Error(`Saved view with ID ${id} not found before update`);
+      }
+
+      if (viewData.isDefault) {
+        await this.clearDefault(transactionalEntityManager, view);
+      }
+
+      await transactionalEntityManager.update(SavedView, id, viewData);
+
+      const updatedView = await transactionalEntityManager.findOne(SavedView, { where: { id } });
+
+      if (!updatedView) {
+        throw new Error(`Saved view with ID ${id} not found after update`);
+      }
+
+      return updatedView;
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.savedViewsRepo.delete(id);
+  }
+
+  // Runs before the write so the partial unique index on (organization_id, user_id) holds
+  private async clearDefault(manager: EntityManager, view: SavedView): Promise<void> {
+    await manager.update(
+      SavedView,
+      {
+        organizationId: view.organizationId,
+        userId: view.userId,
+        isDefault: true,
+        ...(view.id && { id: Not(view.id) }),
+      },
+      { isDefault: false },
+    );
+  }
+}
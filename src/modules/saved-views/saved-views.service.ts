@@ -0,0 +1,132 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { SavedView } from './entities/saved-view.entity';
+import { SavedViewVisibility } from './enums/saved-view-visibility.enum';
+import { CreateSavedViewDto } from './dto/create-saved-view.dto';
+import { UpdateSavedViewDto } from './dto/update-saved-view.dto';
+import { RunSavedViewQueryDto } from './dto/run-saved-view-query.dto';
+import type { ISavedViewsRepository } from './saved-views.repository.interface';
+import { SAVED_VIEWS_REPOSITORY } from './saved-views.repository.interface';
+import { TasksService } from '../tasks/tasks.service';
+import { PaginationMode } from '../tasks/enums/pagination-mode.enum';
+import { toTaskFilterOptions } from '../tasks/utils/task-filters.utils';
+import { isAdminOrSuperAdmin } from '../users/utils/users.utils';
+import { ErrorCode, conflict, forbid, notFound } from '../../common/errors';
+import type { AuthUser } from '../../common/types';
+
+@Injectable()
+export class SavedViewsService {
+  constructor(
+    @Inject(SAVED_VIEWS_REPOSITORY)
+    private readonly savedViewsRepository: ISavedViewsRepository,
+    private readonly tasksService: TasksService,
+  ) {}
+
+  async create(createSavedViewDto: CreateSavedViewDto, currentUser: AuthUser): Promise<SavedView> {
+    await this.assertNameAvailable(
+      currentUser.organizationId,
+      currentUser.id,
+      createSavedViewDto.name,
+    );
+
+    return this.savedViewsRepository.create({
+      ...createSavedViewDto,
+      organizationId: currentUser.organizationId,
+      userId: currentUser.id,
+    });
+  }
+
+  /** The caller's own views plus the ones shared in the organization */
+  async findAllForUser(currentUser: AuthUser): Promise<SavedView[]> {
+    return this.savedViewsRepository.findVisibleToUser(currentUser.id, currentUser.organizationId);
+  }
+
+  async findOne(id: string, currentUser: AuthUser): Promise<SavedView> {
+    const view = await this.findInOrganization(id, currentUser.organizationId);
+
+    if (
+      view.visibility !== SavedViewVisibility.SHARED &&
+      view.userId !== currentUser.id &&
+      !isAdminOrSuperAdmin(currentUser.role)
+    ) {
+      forbid(ErrorCode.SAVED_VIEW_NOT_OWNED);
+    }
+
+    return view;
+  }
+
+  async update(
+    id: string,
+    updateSavedViewDto: UpdateSavedViewDto,
+    currentUser: AuthUser,
+  ): Promise<SavedView> {
+    const view = await this.findOwned(id, currentUser);
+
+    if (updateSavedViewDto.name && updateSavedViewDto.name !== view.name) {
+      await this.assertNameAvailable(view.organizationId, view.userId, updateSavedViewDto.name);
+    }
+
+    return this.savedViewsRepository.update(id, updateSavedViewDto);
+  }
+
+  async remove(id: string, currentUser: AuthUser): Promise<void> {
+    await this.findOwned(id, currentUser);
+
+    await this.savedViewsRepository.delete(id);
+  }
+
+  /**
+   * Runs the stored query as GET /tasks would for the caller, so a shared view lists what the
+   * caller may see and `assignee=me` means the caller
+   */
+  async run(id: string, query: RunSavedViewQueryDto, currentUser: AuthUser) {
+    const view = await this.findOne(id, currentUser);
+    const filters = toTaskFilterOptions(view.filters, currentUser.id);
+
+    if (query.pagination === PaginationMode.CURSOR || query.cursor) {
+      return this.tasksService.findWithFiltersForUser(currentUser, filters, {
+        cursorPagination: {
+          cursor: query.cursor,
+          limit: view.pageSize,
+          includeTotal: query.includeTotal ?? true,
+        },
+      });
+    }
+
+    return this.tasksService.findWithFiltersForUser(currentUser, filters, {
+      pagination: { page: query.page ?? 1, limit: view.pageSize },
+    });
+  }
+
+  private async findInOrganization(id: string, organizationId: string): Promise<SavedView> {
+    const view = await this.savedViewsRepository.findById(id, organizationId);
+
+    if (!view) {
+      notFound(ErrorCode.SAVED_VIEW_NOT_FOUND);
+    }
+
+    return view;
+  }
+
+  /** Shared views are read-only for everyone but their owner and admins */
+  private async findOwned(id: string, currentUser: AuthUser): Promise<SavedView> {
+    const view = await this.findInOrganization(id, currentUser.organizationId);
+
+    if (view.userId !== currentUser.id && !isAdminOrSuperAdmin(currentUser.role)) {
+      forbid(ErrorCode.SAVED_VIEW_NOT_OWNED);
+    }
+
+    return view;
+  }
+
+  private async assertNameAvailable(
+    organizationId: string,
+    userId: string,
+    name: string,
+  ): Promise<void> {
+    const existing = await this.savedViewsRepository.findByName(organizationId, userId, name);
+
+    if (existing) {
+      conflict(ErrorCode.SAVED_VIEW_NAME_EXISTS, { name });
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import { IsHexColor, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+
+export class CreateTagDto {
+  @ApiProperty({ example: 'backend' })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50, { message: 'Tag name cannot exceed 50 characters' })
+  name: string;
+
+  @ApiProperty({ example: '#1e90ff', required: false, description: 'Hex color used in UIs' })
+  @IsOptional()
+  @IsHexColor()
+  color?: string;
+}
@@ -0,0 +1,14 @@
+import { ArrayMaxSize, IsArray, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SetTaskTagsDto {
+  @ApiProperty({
+    type: [String],
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+    description: 'Complete set of tag IDs for the task; an empty array removes all tags',
+  })
+  @IsArray({ message: 'tagIds must be an array' })
+  @ArrayMaxSize(20, { message: 'A task cannot have more than 20 tags' })
+  @IsUUID('4', { each: true, message: 'each tagId must be a valid UUID' })
+  tagIds: string[];
+}
@@ -0,0 +1,36 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TagResponseDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Unique tag identifier',
+  })
+  id: string;
+
+  @ApiProperty({ example: 'backend', description: 'Tag name, unique per user' })
+  name: string;
+
+  @ApiProperty({ example: '#1e90ff', description: 'Hex color', nullable: true })
+  color: string | null;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the user who owns this tag',
+  })
+  userId: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the organization the tag belongs to',
+  })
+  organizationId: string;
+
+  @ApiProperty({ example: 1, description: 'Version number for optimistic locking' })
+  version: number;
+
+  @ApiProperty({ example: '2025-10-01T10:30:00.000Z', description: 'Tag creation timestamp' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2025-10-05T14:20:00.000Z', description: 'Tag last update timestamp' })
+  updatedAt: Date;
+}
@@ -0,0 +1,83 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { TagsService } from './tags.service';
+import { CreateTagDto } from './dto/create-tag.dto';
+import { UpdateTagDto } from './dto/update-tag.dto';
+import { TagResponseDto } from './dto/tag-response.dto';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../users/enum/user-role.enum';
+import type { AuthUser } from '../../common/types';
+import { SanitizeInput } from '../../common/decorators/sanitize-input.decorator';
+import {
+  ApiTagCreate,
+  ApiTagList,
+  ApiTagGet,
+  ApiTagUpdate,
+  ApiTagDelete,
+} from '../../common/decorators/swagger/api-tag.decorator';
+
+@ApiTags('tags')
+@Controller('tags')
+@UseGuards(JwtAuthGuard, RolesGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class TagsController {
+  constructor(private readonly tagsService: TagsService) {}
+
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @SanitizeInput()
+  @ApiTagCreate(TagResponseDto)
+  create(@Body() createTagDto: CreateTagDto, @CurrentUser() user: AuthUser) {
+    return this.tagsService.create(createTagDto, user);
+  }
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTagList(TagResponseDto)
+  findAll(@CurrentUser() user: AuthUser) {
+    return this.tagsService.findAllForUser(user);
+  }
+
+  @Get(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTagGet(TagResponseDto)
+  findOne(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.tagsService.findOne(id, user);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @SanitizeInput()
+  @ApiTagUpdate(TagResponseDto)
+  update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateTagDto: UpdateTagDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.tagsService.update(id, updateTagDto, user);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTagDelete()
+  async remove(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    await this.tagsService.remove(id, user);
+    return { message: 'Tag deleted successfully' };
+  }
+}
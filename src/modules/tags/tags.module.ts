@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TagsService } from './tags.service';
+import { TagsController } from './tags.controller';
+import { TaskTagsController } from './task-tags.controller';
+import { Tag } from './entities/tag.entity';
+import { TagsRepository } from './tags.repository';
+import { TAGS_REPOSITORY } from './tags.repository.interface';
+import { TasksModule } from '../tasks/tasks.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Tag]), TasksModule],
+  controllers: [TagsController, TaskTagsController],
+  providers: [
+    TagsService,
+    {
+      provide: TAGS_REPOSITORY,
+      useClass: TagsRepository,
+    },
+  ],
+  exports: [TagsService],
+})
+export class TagsModule {}
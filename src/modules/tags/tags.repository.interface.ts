@@ -0,0 +1,33 @@
+import { Tag } from './entities/tag.entity';
+
+export interface TaggedTask {
+  id: string;
+  teamId: string | null;
+}
+
+/** Reads only see tags of the given organization; a task's tags follow the task */
+export interface ITagsRepository {
+  create(tagData: Partial<Tag>): Promise<Tag>;
+
+  findById(id: string, organizationId: string): Promise<Tag | null>;
+
+  findByIds(ids: string[], organizationId: string): Promise<Tag[]>;
+
+  findByUserId(userId: string, organizationId: string): Promise<Tag[]>;
+
+  findByTaskId(taskId: string): Promise<Tag[]>;
+
+  findByUserIdAndName(userId: string, organizationId: string, name: string): Promise<Tag | null>;
+
+  update(id: string, tagData: Partial<Tag>): Promise<Tag>;
+
+  delete(id: string): Promise<void>;
+
+  /** The tasks currently carrying the tag, with the team each one is shared with */
+  findTaggedTasks(tagId: string): Promise<TaggedTask[]>;
+
+  /** Replaces the task's tag set in one transaction */
+  setTaskTags(taskId: string, tagIds: string[]): Promise<Tag[]>;
+}
+
+export const TAGS_REPOSITORY = Symbol('TAGS_REPOSITORY');
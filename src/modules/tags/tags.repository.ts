@@ -0,0 +1,100 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Tag } from './entities/tag.entity';
+import { ITagsRepository, TaggedTask } from './tags.repository.interface';
+
+@Injectable()
+export class TagsRepository implements ITagsRepository {
+  constructor(
+    @InjectRepository(Tag)
+    private readonly tagsRepo: Repository<Tag>,
+  ) {}
+
+  async create(tagData: Partial<Tag>): Promise<Tag> {
+    const tag = this.tagsRepo.create(tagData);
+    return this.tagsRepo.save(tag);
+  }
+
+  async findById(id: string, organizationId: string): Promise<Tag | null> {
+    return this.tagsRepo.findOne({ where: { id, organizationId } });
+  }
+
+  async findByIds(ids: string[], organizationId: string): Promise<Tag[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    return this.tagsRepo.find({ where: { id: In(ids), organizationId } });
+  }
+
+  async findByUserId(userId: string, organizationId: string): Promise<Tag[]> {
+    return this.tagsRepo
+      .createQueryBuilder('tag')
+      .where('tag.userId = :userId', { userId })
+      .andWhere('tag.organizationId = :organizationId', { organizationId })
+      .orderBy('tag.name', 'ASC')
+      .getMany();
+  }
+
+  async findByTaskId(taskId: string): Promise<Tag[]> {
+    return this.tagsRepo
+      .createQueryBuilder('tag')
+      .innerJoin('tag.tasks', 'task', 'task.id = :taskId', { taskId })
+      .orderBy('tag.name', 'ASC')
+      .getMany();
+  }
+
+  async findByUserIdAndName(
+    userId: string,
+    organizationId: string,
+    name: string,
+  ): Promise<Tag | null> {
+    return this.tagsRepo.findOne({ where: { userId, organizationId, name } });
+  }
+
+  async update(id: string, tagData: Partial<Tag>): Promise<Tag> {
+    return this.tagsRepo.manager.transaction(async transactionalEntityManager => {
+      await transactionalEntityManager.update(Tag, id, tagData);
+
+      const updatedTag = await transactionalEntityManager.findOne(Tag, { where: { id } });
+
+      if (!updatedTag) {
+        throw new Error(`Tag with ID ${id} not found after update`);
+      }
+
+      return updatedTag;
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.tagsRepo.delete(id);
+  }
+
+  async findTaggedTasks(tagId: string): Promise<TaggedTask[]> {
+    return this.tagsRepo.query(
+      'SELECT tt.task_id AS id, t.team_id AS "teamId" FROM task_tags tt JOIN tasks t ON t.id = tt.task_id WHERE tt.tag_id = $1',
+      [tagId],
+    );
+  }
+
+  async setTaskTags(taskId: string, tagIds: string[]): Promise<Tag[]> {
+    return this.tagsRepo.manager.transaction(async transactionalEntityManager => {
+      await transactionalEntityManager.query('DELETE FROM task_tags WHERE task_id = $1', [taskId]);
+
+      if (tagIds.length === 0) {
+        return [];
+      }
+
+      await transactionalEntityManager.query(
+        'INSERT INTO task_tags (task_id, tag_id) SELECT $1, UNNEST($2::uuid[])',
+        [taskId, tagIds],
+      );
+
+      return transactionalEntityManager.find(Tag, {
+        where: { id: In(tagIds) },
+        order: { name: 'ASC' },
+      });
+    });
+  }
+}
@@ -0,0 +1,147 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Tag } from './entities/tag.entity';
+import { CreateTagDto } from './dto/create-tag.dto';
+import { UpdateTagDto } from './dto/update-tag.dto';
+import type { ITagsRepository, TaggedTask } from './tags.repository.interface';
+import { TAGS_REPOSITORY } from './tags.repository.interface';
+import { TasksService } from '../tasks/tasks.service';
+import { CacheService } from '../../common/services/cache.service';
+import { buildEntityCacheKey } from '../../common/utils/cache.util';
+import { isAdminOrSuperAdmin } from '../users/utils/users.utils';
+import { ErrorCode, badRequest, conflict, forbid, notFound } from '../../common/errors';
+import type { AuthUser } from '../../common/types';
+
+@Injectable()
+export class TagsService {
+  private readonly logger = new Logger(TagsService.name);
+
+  constructor(
+    @Inject(TAGS_REPOSITORY)
+    private readonly tagsRepository: ITagsRepository,
+    private readonly tasksService: TasksService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  async create(createTagDto: CreateTagDto, currentUser: AuthUser): Promise<Tag> {
+    await this.assertNameAvailable(currentUser.id, currentUser.organizationId, createTagDto.name);
+
+    return this.tagsRepository.create({
+      ...createTagDto,
+      userId: currentUser.id,
+      organizationId: currentUser.organizationId,
+    });
+  }
+
+  async findAllForUser(currentUser: AuthUser): Promise<Tag[]> {
+    return this.tagsRepository.findByUserId(currentUser.id, currentUser.organizationId);
+  }
+
+  async findOne(id: string, currentUser: AuthUser): Promise<Tag> {
+    const tag = await this.tagsRepository.findById(id, currentUser.organizationId);
+
+    if (!tag) {
+      notFound(ErrorCode.TAG_NOT_FOUND);
+    }
+
+    if (!isAdminOrSuperAdmin(currentUser.role) && tag.userId !== currentUser.id) {
+      forbid(ErrorCode.TAG_NOT_OWNED);
+    }
+
+    return tag;
+  }
+
+  async update(id: string, updateTagDto: UpdateTagDto, currentUser: AuthUser): Promise<Tag> {
+    const tag = await this.findOne(id, currentUser);
+
+    if (updateTagDto.name && updateTagDto.name !== tag.name) {
+      await this.assertNameAvailable(tag.userId, tag.organizationId, updateTagDto.name);
+    }
+
+    const updatedTag = await this.tagsRepository.update(id, updateTagDto);
+
+    await this.invalidateTaggedTasks(tag);
+
+    return updatedTag;
+  }
+
+  async remove(id: string, currentUser: AuthUser): Promise<void> {
+    const tag = await this.findOne(id, currentUser);
+
+    // Collected before the delete, which cascades through task_tags
+    const taggedTasks = await this.tagsRepository.findTaggedTasks(id);
+
+    await this.tagsRepository.delete(id);
+
+    await this.invalidateTaggedTasks(tag, taggedTasks);
+  }
+
+  async findForTask(taskId: string, currentUser: AuthUser): Promise<Tag[]> {
+    await this.tasksService.findOne(taskId, currentUser, { withRelations: false });
+
+    return this.tagsRepository.findByTaskId(taskId);
+  }
+
+  /**
+   * Tags are per-user, so a task can only carry tags of its own owner
+   */
+  async setForTask(taskId: string, tagIds: string[], currentUser: AuthUser): Promise<Tag[]> {
+    const task = await this.tasksService.findOne(taskId, currentUser, {
+      withRelations: false,
+      ownerOnly: true,
+    });
+
+    const uniqueTagIds = [...new Set(tagIds)];
+    const tags = await this.tagsRepository.findByIds(uniqueTagIds, task.organizationId);
+
+    if (tags.length !== uniqueTagIds.length) {
+      notFound(ErrorCode.TAG_NOT_FOUND);
+    }
+
+    if (tags.some(tag => tag.userId !== task.userId)) {
+      badRequest(ErrorCode.TAG_OWNER_MISMATCH);
+    }
+
+    const assignedTags = await this.tagsRepository.setTaskTags(taskId, uniqueTagIds);
+
+    await this.cacheService.delete(buildEntityCacheKey('task', taskId));
+    await this.tasksService.invalidateTaskLists([task]);
+
+    return assignedTags;
+  }
+
+  private async assertNameAvailable(
+    userId: string,
+    organizationId: string,
+    name: string,
+  ): Promise<void> {
+    const existing = await this.tagsRepository.findByUserIdAndName(userId, organizationId, name);
+
+    if (existing) {
+      conflict(ErrorCode.TAG_NAME_EXISTS, { name });
+    }
+  }
+
+  /**
+   * Tasks embed their tags, so both the cached entities and the list keys of everyone who
+   * sees them go stale. Tagged tasks always belong to the tag's owner
+   */
+  private async invalidateTaggedTasks(tag: Tag, taggedTasks?: TaggedTask[]): Promise<void> {
+    const affectedTasks = taggedTasks ?? (await this.tagsRepository.findTaggedTasks(tag.id));
+
+    if (affectedTasks.length > 0) {
+      this.logger.debug(`Invalidating ${affectedTasks.length} cached tasks tagged ${tag.id}`);
+      await this.cacheService.deleteMany(
+        affectedTasks.map(task => buildEntityCacheKey('task', task.id)),
+      );
+    }
+
+    await this.tasksService.invalidateTaskLists([
+      { userId: tag.userId, organizationId: tag.organizationId, teamId: null },
+      ...affectedTasks.map(task => ({
+        userId: tag.userId,
+        organizationId: tag.organizationId,
+        teamId: task.teamId,
+      })),
+    ]);
+  }
+}
@@ -0,0 +1,41 @@
+import { Controller, Get, Body, Put, Param, UseGuards, ParseUUIDPipe } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { TagsService } from './tags.service';
+import { SetTaskTagsDto } from './dto/set-task-tags.dto';
+import { TagResponseDto } from './dto/tag-response.dto';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../users/enum/user-role.enum';
+import type { AuthUser } from '../../common/types';
+import { ApiTaskTagList, ApiTaskTagSet } from '../../common/decorators/swagger/api-tag.decorator';
+
+@ApiTags('tags')
+@Controller('tasks/:taskId/tags')
+@UseGuards(JwtAuthGuard, RolesGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class TaskTagsController {
+  constructor(private readonly tagsService: TagsService) {}
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskTagList(TagResponseDto)
+  findAll(@Param('taskId', ParseUUIDPipe) taskId: string, @CurrentUser() user: AuthUser) {
+    return this.tagsService.findForTask(taskId, user);
+  }
+
+  @Put()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskTagSet(TagResponseDto)
+  set(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @Body() setTaskTagsDto: SetTaskTagsDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.tagsService.setForTask(taskId, setTaskTagsDto.tagIds, user);
+  }
+}
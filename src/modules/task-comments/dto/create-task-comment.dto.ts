@@ -0,0 +1,10 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateTaskCommentDto {
+  @ApiProperty({ example: 'Blocked on the API review, will pick this up tomorrow.' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5000, { message: 'Comment cannot exceed 5000 characters' })
+  body: string;
+}
@@ -0,0 +1,98 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TaskCommentResponseDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Unique comment identifier',
+  })
+  id: string;
+
+  @ApiProperty({
+    example: 'Blocked on the API review, will pick this up tomorrow.',
+    description: 'Comment body',
+  })
+  body: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the task this comment belongs to',
+  })
+  taskId: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the user who wrote the comment',
+  })
+  authorId: string;
+
+  @ApiProperty({
+    example: '2025-10-05T14:20:00.000Z',
+    description: 'Timestamp of the last edit',
+    nullable: true,
+  })
+  editedAt: Date | null;
+
+  @ApiProperty({ example: 1, description: 'Version number, incremented on every edit' })
+  version: number;
+
+  @ApiProperty({ example: '2025-10-01T10:30:00.000Z', description: 'Comment creation timestamp' })
+  createdAt: Date;
+
+  @ApiProperty({
+    example: '2025-10-05T14:20:00.000Z',
+    description: 'Comment last update timestamp',
+  })
+  updatedAt: Date;
+}
+
+export class PaginatedTaskCommentResponseDto {
+  @ApiProperty({
+    type: [TaskCommentResponseDto],
+    description: 'Array of comments for current page',
+  })
+  data: TaskCommentResponseDto[];
+
+  @ApiProperty({ example: 42, description: 'Total number of comments' })
+  total: number;
+
+  @ApiProperty({ example: 1, description: 'Current page number' })
+  page: number;
+
+  @ApiProperty({ example: 20, description: 'Number of items per page' })
+  limit: number;
+
+  @ApiProperty({ example: 3, description: 'Total number of pages' })
+  totalPages: number;
+}
+
+export class TaskCommentRevisionResponseDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Unique revision identifier',
+  })
+  id: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the edited comment',
+  })
+  commentId: string;
+
+  @ApiProperty({
+    example: 'Blocked on the API review.',
+    description: 'Comment body before the edit',
+  })
+  body: string;
+
+  @ApiProperty({ example: 1, description: 'Comment version this body belonged to' })
+  commentVersion: number;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the user who made the edit',
+  })
+  editedBy: string;
+
+  @ApiProperty({ example: '2025-10-05T14:20:00.000Z', description: 'Edit timestamp' })
+  createdAt: Date;
+}
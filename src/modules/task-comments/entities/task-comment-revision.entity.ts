@@ -0,0 +1,38 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+/**
+ * Snapshot of a comment body as it was before an edit
+ */
+@Entity('task_comment_revisions')
+@Index('idx_task_comment_revisions_comment_created', ['commentId', 'createdAt'])
+export class TaskCommentRevision {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'comment_id' })
+  commentId: string;
+
+  @ManyToOne('TaskComment', 'revisions', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'comment_id' })
+  comment?: any;
+
+  @Column({ type: 'text' })
+  body: string;
+
+  @Column({ name: 'comment_version' })
+  commentVersion: number;
+
+  @Column({ name: 'edited_by' })
+  editedBy: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
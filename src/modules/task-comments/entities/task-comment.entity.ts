@@ -0,0 +1,52 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+  VersionColumn,
+} from 'typeorm';
+
+@Entity('task_comments')
+@Index('idx_task_comments_task_created', ['taskId', 'createdAt'])
+@Index('idx_task_comments_author_id', ['authorId'])
+export class TaskComment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'text' })
+  body: string;
+
+  @Column({ name: 'task_id' })
+  taskId: string;
+
+  @ManyToOne('Task', 'comments', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task?: any;
+
+  @Column({ name: 'author_id' })
+  authorId: string;
+
+  @ManyToOne('User', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'author_id' })
+  author?: any;
+
+  @OneToMany('TaskCommentRevision', 'comment')
+  revisions?: any[];
+
+  @Column({ name: 'edited_at', nullable: true, type: 'timestamp' })
+  editedAt: Date | null;
+
+  @VersionColumn()
+  version: number;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,107 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { TaskCommentsService } from './task-comments.service';
+import { CreateTaskCommentDto } from './dto/create-task-comment.dto';
+import { UpdateTaskCommentDto } from './dto/update-task-comment.dto';
+import {
+  TaskCommentResponseDto,
+  PaginatedTaskCommentResponseDto,
+  TaskCommentRevisionResponseDto,
+} from './dto/task-comment-response.dto';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../users/enum/user-role.enum';
+import type { AuthUser } from '../../common/types';
+import { SanitizeInput } from '../../common/decorators/sanitize-input.decorator';
+import {
+  ApiTaskCommentCreate,
+  ApiTaskCommentList,
+  ApiTaskCommentUpdate,
+  ApiTaskCommentRevisions,
+  ApiTaskCommentDelete,
+} from '../../common/decorators/swagger/api-task-comment.decorator';
+
+@ApiTags('task-comments')
+@Controller('tasks/:taskId/comments')
+@UseGuards(JwtAuthGuard, RolesGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class TaskCommentsController {
+  constructor(private readonly taskCommentsService: TaskCommentsService) {}
+
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @SanitizeInput()
+  @ApiTaskCommentCreate(TaskCommentResponseDto)
+  create(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @Body() createCommentDto: CreateTaskCommentDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.taskCommentsService.create(taskId, createCommentDto, user);
+  }
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskCommentList(PaginatedTaskCommentResponseDto)
+  findAll(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @Query() paginationDto: PaginationQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const { page = 1, limit = 20 } = paginationDto;
+    return this.taskCommentsService.findAllForTask(taskId, user, { page, limit });
+  }
+
+  @Patch(':commentId')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @SanitizeInput()
+  @ApiTaskCommentUpdate(TaskCommentResponseDto)
+  update(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @Param('commentId', ParseUUIDPipe) commentId: string,
+    @Body() updateCommentDto: UpdateTaskCommentDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.taskCommentsService.update(taskId, commentId, updateCommentDto, user);
+  }
+
+  @Get(':commentId/revisions')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskCommentRevisions(TaskCommentRevisionResponseDto)
+  findRevisions(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @Param('commentId', ParseUUIDPipe) commentId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.taskCommentsService.findRevisions(taskId, commentId, user);
+  }
+
+  @Delete(':commentId')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskCommentDelete()
+  async remove(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @Param('commentId', ParseUUIDPipe) commentId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    await this.taskCommentsService.remove(taskId, commentId, user);
+    return { message: 'Comment deleted successfully' };
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TaskCommentsService } from './task-comments.service';
+import { TaskCommentsController } from './task-comments.controller';
+import { TaskComment } from './entities/task-comment.entity';
+import { TaskCommentRevision } from './entities/task-comment-revision.entity';
+import { TaskCommentsRepository } from './task-comments.repository';
+import { TASK_COMMENTS_REPOSITORY } from './task-comments.repository.interface';
+import { TasksModule } from '../tasks/tasks.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([TaskComment, TaskCommentRevision]), TasksModule],
+  controllers: [TaskCommentsController],
+  providers: [
+    TaskCommentsService,
+    {
+      provide: TASK_COMMENTS_REPOSITORY,
+      useClass: TaskCommentsRepository,
+    },
+  ],
+  exports: [TaskCommentsService],
+})
+export class TaskCommentsModule {}
@@ -0,0 +1,22 @@
+import { TaskComment } from './entities/task-comment.entity';
+import { TaskCommentRevision } from './entities/task-comment-revision.entity';
+import type { PaginatedResponse, PaginationParams } from '../../common/types';
+
+export interface ITaskCommentsRepository {
+  create(commentData: Partial<TaskComment>): Promise<TaskComment>;
+
+  findById(id: string): Promise<TaskComment | null>;
+
+  findByTaskId(
+    taskId: string,
+    pagination: PaginationParams,
+  ): Promise<PaginatedResponse<TaskComment>>;
+
+  updateWithRevision(comment: TaskComment, body: string, editedBy: string): Promise<TaskComment>;
+
+  findRevisions(commentId: string): Promise<TaskCommentRevision[]>;
+
+  delete(id: string): Promise<void>;
+}
+
+export const TASK_COMMENTS_REPOSITORY = Symbol('TASK_COMMENTS_REPOSITORY');
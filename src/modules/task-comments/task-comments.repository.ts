@@ -0,0 +1,84 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { TaskComment } from './entities/task-comment.entity';
+import { TaskCommentRevision } from './entities/task-comment-revision.entity';
+import { ITaskCommentsRepository } from './task-comments.repository.interface';
+import type { PaginatedResponse, PaginationParams } from '../../common/types';
+
+@Injectable()
+export class TaskCommentsRepository implements ITaskCommentsRepository {
+  constructor(
+    @InjectRepository(TaskComment)
+    private readonly commentsRepo: Repository<TaskComment>,
+    @InjectRepository(TaskCommentRevision)
+    private readonly revisionsRepo: Repository<TaskCommentRevision>,
+  ) {}
+
+  async create(commentData: Partial<TaskComment>): Promise<TaskComment> {
+    const comment = this.commentsRepo.create(commentData);
+    return this.commentsRepo.save(comment);
+  }
+
+  async findById(id: string): Promise<TaskComment | null> {
+    return this.commentsRepo
+      .createQueryBuilder('comment')
+      .where('comment.id = :id', { id })
+      .getOne();
+  }
+
+  async findByTaskId(
+    taskId: string,
+    pagination: PaginationParams,
+  ): Promise<PaginatedResponse<TaskComment>> {
+    const [data, total] = await this.commentsRepo
+      .createQueryBuilder('comment')
+      .leftJoin('comment.author', 'author')
+      .addSelect(['author.id', 'author.name', 'author.email'])
+      .where('comment.taskId = :taskId', { taskId })
+      .orderBy('comment.createdAt', 'ASC')
+      .skip((pagination.page - 1) * pagination.limit)
+      .take(pagination.limit)
+      .getManyAndCount();
+
+    return {
+      data,
+      total,
+      page: pagination.page,
+      limit: pagination.limit,
+      totalPages: Math.ceil(total / pagination.limit),
+    };
+  }
+
+  async updateWithRevision(
+    comment: TaskComment,
+    body: string,
+    editedBy: string,
+  ): Promise<TaskComment> {
+    return this.commentsRepo.manager.transaction(async transactionalEntityManager => {
+      await transactionalEntityManager.insert(TaskCommentRevision, {
+        commentId: comment.id,
+        body: comment.body,
+        commentVersion: comment.version,
+        editedBy,
+      });
+
+      comment.body = body;
+      comment.editedAt = new Date();
+
+      return transactionalEntityManager.save(TaskComment, comment);
+    });
+  }
+
+  async findRevisions(commentId: string): Promise<TaskCommentRevision[]> {
+    return this.revisionsRepo
+      .createQueryBuilder('revision')
+      .where('revision.commentId = :commentId', { commentId })
+      .orderBy('revision.createdAt', 'DESC')
+      .getMany();
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.commentsRepo.delete(id);
+  }
+}
@@ -0,0 +1,111 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { TaskComment } from './entities/task-comment.entity';
+import { TaskCommentRevision } from './entities/task-comment-revision.entity';
+import { CreateTaskCommentDto } from './dto/create-task-comment.dto';
+import { UpdateTaskCommentDto } from './dto/update-task-comment.dto';
+import type { ITaskCommentsRepository } from './task-comments.repository.interface';
+import { TASK_COMMENTS_REPOSITORY } from './task-comments.repository.interface';
+import { TasksService } from '../tasks/tasks.service';
+import { isAdminOrSuperAdmin } from '../users/utils/users.utils';
+import { ErrorCode, forbid, notFound } from '../../common/errors';
+import type { AuthUser, PaginatedResponse, PaginationParams } from '../../common/types';
+
+@Injectable()
+export class TaskCommentsService {
+  private readonly logger = new Logger(TaskCommentsService.name);
+
+  constructor(
+    @Inject(TASK_COMMENTS_REPOSITORY)
+    private readonly commentsRepository: ITaskCommentsRepository,
+    private readonly tasksService: TasksService,
+  ) {}
+
+  async create(
+    taskId: string,
+    createCommentDto: CreateTaskCommentDto,
+    currentUser: AuthUser,
+  ): Promise<TaskComment> {
+    const task = await this.tasksService.findOne(taskId, currentUser, { withRelations: false });
+
+    const comment = await this.commentsRepository.create({
+      body: createCommentDto.body,
+      taskId: task.id,
+      authorId: currentUser.id,
+    });
+
+    // Task lists carry a comment count, so everyone's cached lists of the task are now stale
+    await this.tasksService.invalidateTaskLists([task]);
+
+    return comment;
+  }
+
+  async findAllForTask(
+    taskId: string,
+    currentUser: AuthUser,
+    pagination: PaginationParams,
+  ): Promise<PaginatedResponse<TaskComment>> {
+    await this.tasksService.findOne(taskId, currentUser, { withRelations: false });
+
+    return this.commentsRepository.findByTaskId(taskId, pagination);
+  }
+
+  async update(
+    taskId: string,
+    commentId: string,
+    updateCommentDto: UpdateTaskCommentDto,
+    currentUser: AuthUser,
+  ): Promise<TaskComment> {
+    await this.tasksService.findOne(taskId, currentUser, { withRelations: false });
+    const comment = await this.findCommentForTask(taskId, commentId);
+
+    if (comment.authorId !== currentUser.id) {
+      forbid(ErrorCode.TASK_COMMENT_EDIT_FORBIDDEN);
+    }
+
+    if (comment.body === updateCommentDto.body) {
+      return comment;
+    }
+
+    this.logger.debug(`Editing comment ${commentId} (v${comment.version}) on task ${taskId}`);
+
+    return this.commentsRepository.updateWithRevision(
+      comment,
+      updateCommentDto.body,
+      currentUser.id,
+    );
+  }
+
+  async findRevisions(
+    taskId: string,
+    commentId: string,
+    currentUser: AuthUser,
+  ): Promise<TaskCommentRevision[]> {
+    await this.tasksService.findOne(taskId, currentUser, { withRelations: false });
+    await this.findCommentForTask(taskId, commentId);
+
+    return this.commentsRepository.findRevisions(commentId);
+  }
+
+  async remove(taskId: string, commentId: string, currentUser: AuthUser): Promise<void> {
+    const task = await this.tasksService.findOne(taskId, currentUser, { withRelations: false });
+    const comment = await this.findCommentForTask(taskId, commentId);
+
+    if (!isAdminOrSuperAdmin(currentUser.role) && comment.authorId !== currentUser.id) {
+      forbid(ErrorCode.TASK_COMMENT_DELETE_FORBIDDEN);
+    }
+
+    await this.commentsRepository.delete(commentId);
+
+    await this.tasksService.invalidateTaskLists([task]);
+  }
+
+  private async findCommentForTask(taskId: string, commentId: string): Promise<TaskComment> {
+    const comment = await this.commentsRepository.findById(commentId);
+
+    if (!comment || comment.taskId !== taskId) {
+      notFound(ErrorCode.TASK_COMMENT_NOT_FOUND);
+    }
+
+    return comment;
+  }
+}
@@ -0,0 +1,13 @@
+import { IsUUID, ValidateIf } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AssignTaskDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the user who should work on the task, or null to unassign it',
+    nullable: true,
+  })
+  @ValidateIf((_, value) => value !== null)
+  @IsUUID('4', { message: 'assigneeId must be a valid UUID or null' })
+  assigneeId: string | null;
+}
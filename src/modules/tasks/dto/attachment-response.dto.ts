@@ -0,0 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AttachmentResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000', description: 'Attachment ID' })
+  id: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174001',
+    description: 'ID of the task the file is attached to',
+  })
+  taskId: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174002',
+    description: 'ID of the uploader (null once the user is deleted)',
+    nullable: true,
+  })
+  uploadedBy: string | null;
+
+  @ApiProperty({ example: 'specification.pdf', description: 'Original file name' })
+  fileName: string;
+
+  @ApiProperty({ example: 'application/pdf', description: 'MIME type sent on download' })
+  mimeType: string;
+
+  @ApiProperty({ example: 48213, description: 'Size in bytes' })
+  size: number;
+
+  @ApiProperty({
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+    description: 'Hex-encoded SHA-256 of the content',
+  })
+  checksum: string;
+
+  @ApiProperty({ example: '2025-10-01T10:30:00.000Z', description: 'Upload timestamp' })
+  createdAt: Date;
+}
@@ -0,0 +1,56 @@
+import {
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  IsDateString,
+  IsEnum,
+  IsOptional,
+  IsUUID,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { TaskStatus } from '../enums/task-status.enum';
+import { TaskPriority } from '../enums/task-priority.enum';
+import {
+  IsNotPastDate,
+  IsReasonableFutureDate,
+} from '../../../common/validators/date-range.validator';
+
+export class BatchUpdateTasksDto {
+  @ApiProperty({
+    type: [String],
+    description: 'Array of task IDs to update',
+    example: ['123e4567-e89b-12d3-a456-426614174000', '123e4567-e89b-12d3-a456-426614174001'],
+  })
+  @IsArray({ message: 'taskIds must be an array' })
+  @ArrayMinSize(1, { message: 'At least one task ID is required' })
+  @ArrayMaxSize(1000, { message: 'Cannot update more than 1000 tasks at once' })
+  @IsUUID('4', { each: true, message: 'Each task ID must be a valid UUID' })
+  taskIds: string[];
+
+  @ApiProperty({ enum: TaskStatus, example: TaskStatus.IN_PROGRESS, required: false })
+  @IsEnum(TaskStatus)
+  @IsOptional()
+  status?: TaskStatus;
+
+  @ApiProperty({ enum: TaskPriority, example: TaskPriority.HIGH, required: false })
+  @IsEnum(TaskPriority)
+  @IsOptional()
+  priority?: TaskPriority;
+
+  @ApiProperty({ example: '2025-12-31T23:59:59.000Z', required: false })
+  @IsOptional()
+  @IsDateString()
+  @IsNotPastDate()
+  @IsReasonableFutureDate()
+  dueDate?: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    nullable: true,
+    description: 'ID of the user who should work on the tasks, or null to unassign them',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'assigneeId must be a valid UUID or null' })
+  assigneeId?: string | null;
+}
@@ -0,0 +1,11 @@
+import { IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateTaskDependencyDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the task that has to be completed first',
+  })
+  @IsUUID('4', { message: 'blockedById must be a valid UUID' })
+  blockedById: string;
+}
@@ -1,4 +1,14 @@
-import { IsDateString, IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
 import { TaskStatus } from '../enums/task-status.enum';
@@ -7,6 +17,7 @@ import {
   IsNotPastDate,
   IsReasonableFutureDate,
 } from '../../../common/validators/date-range.validator';
+import { IsRecurrenceRule } from '../../../common/validators/rrule.validator';
 
 export class CreateTaskDto {
   @ApiProperty({ example: 'Complete project documentation' })
@@ -35,4 +46,70 @@ export class CreateTaskDto {
   @IsNotPastDate()
   @IsReasonableFutureDate()
   dueDate?: string;
+
+  @ApiProperty({
+    example: 240,
+    required: false,
+    nullable: true,
+    minimum: 1,
+    description: 'Estimated effort in minutes; null clears it',
+  })
+  @IsOptional()
+  @IsInt({ message: 'estimateMinutes must be an integer' })
+  @Min(1, { message: 'estimateMinutes must be at least 1' })
+  @Max(525600, { message: 'estimateMinutes cannot exceed 525600 (one year)' })
+  estimateMinutes?: number | null;
+
+  @ApiProperty({
+    example: 5,
+    required: false,
+    nullable: true,
+    minimum: 0,
+    description: 'Relative size in story points; null clears it',
+  })
+  @IsOptional()
+  @IsInt({ message: 'storyPoints must be an integer' })
+  @Min(0, { message: 'storyPoints cannot be negative' })
+  @Max(1000, { message: 'storyPoints cannot exceed 1000' })
+  storyPoints?: number | null;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    description: 'ID of the parent task when creating a subtask',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'parentId must be a valid UUID' })
+  parentId?: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    nullable: true,
+    description: "ID of a project of the task's owner; null removes the task from its project",
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'projectId must be a valid UUID' })
+  projectId?: string | null;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    nullable: true,
+    description:
+      "ID of a team the task's owner belongs to. Its members can view the task and change its status; null unshares it",
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'teamId must be a valid UUID' })
+  teamId?: string | null;
+
+  @ApiProperty({
+    example: 'FREQ=WEEKLY;BYDAY=MO',
+    required: false,
+    description:
+      'iCalendar RRULE that makes this task recurring. Requires dueDate, which becomes the first occurrence',
+  })
+  @IsOptional()
+  @IsRecurrenceRule()
+  recurrence?: string;
 }
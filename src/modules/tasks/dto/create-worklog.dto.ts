@@ -0,0 +1,33 @@
+import { IsDateString, IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateWorklogDto {
+  @ApiProperty({
+    example: '2025-10-05T09:00:00.000Z',
+    description: 'When the work started',
+  })
+  @IsDateString({}, { message: 'startedAt must be a valid ISO 8601 date' })
+  startedAt: string;
+
+  @ApiProperty({
+    example: 90,
+    description: 'Time spent in minutes',
+    minimum: 1,
+    maximum: 1440,
+  })
+  @IsInt({ message: 'durationMinutes must be an integer' })
+  @Min(1, { message: 'durationMinutes must be at least 1' })
+  @Max(1440, { message: 'durationMinutes cannot exceed 1440 (24 hours)' })
+  durationMinutes: number;
+
+  @ApiProperty({
+    example: 'Call with the client about the requirements',
+    description: 'What the time was spent on',
+    required: false,
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500, { message: 'Description cannot exceed 500 characters' })
+  description?: string;
+}
@@ -0,0 +1,59 @@
+import { IsDateString, IsEnum, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { TaskPriority } from '../enums/task-priority.enum';
+import { EstimateMeasureFrom } from '../enums/estimate-measure-from.enum';
+import { PaginationQueryDto } from '../../../common/dto/pagination-query.dto';
+import { IsNotBeforeProperty } from '../../../common/validators/date-range.validator';
+import { toUpperCaseList } from './task-filter.dto';
+
+export class EstimateReportQueryDto extends PaginationQueryDto {
+  @ApiProperty({
+    required: false,
+    description: 'Only tasks completed at or after this date',
+    example: '2025-01-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'completedAfter must be a valid ISO 8601 date' })
+  completedAfter?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Only tasks completed at or before this date',
+    example: '2025-03-31T23:59:59.000Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'completedBefore must be a valid ISO 8601 date' })
+  @IsNotBeforeProperty('completedAfter')
+  completedBefore?: string;
+
+  @ApiProperty({
+    enum: TaskPriority,
+    isArray: true,
+    required: false,
+    description: 'Only tasks with one of these priorities (comma-separated, case-insensitive)',
+    example: 'HIGH,MEDIUM',
+  })
+  @IsOptional()
+  @Transform(toUpperCaseList)
+  @IsEnum(TaskPriority, {
+    each: true,
+    message: `priority must be one of: ${Object.values(TaskPriority).join(', ')}`,
+  })
+  priority?: TaskPriority[];
+
+  @ApiProperty({
+    enum: EstimateMeasureFrom,
+    required: false,
+    default: EstimateMeasureFrom.STARTED,
+    description:
+      'Start of the actual time: task creation, or the first move to IN_PROGRESS (creation when the task never was in progress)',
+    example: EstimateMeasureFrom.STARTED,
+  })
+  @IsOptional()
+  @Transform(({ value }) => (value ? value.toString().toLowerCase() : undefined))
+  @IsEnum(EstimateMeasureFrom, {
+    message: `measureFrom must be one of: ${Object.values(EstimateMeasureFrom).join(', ')}`,
+  })
+  measureFrom?: EstimateMeasureFrom;
+}
@@ -0,0 +1,121 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TaskPriority } from '../enums/task-priority.enum';
+import { EstimateMeasureFrom } from '../enums/estimate-measure-from.enum';
+
+export class EstimateAccuracyDto {
+  @ApiProperty({ example: 12, description: 'Number of compared tasks' })
+  taskCount: number;
+
+  @ApiProperty({ example: 2880, description: 'Sum of the estimates in minutes' })
+  totalEstimateMinutes: number;
+
+  @ApiProperty({ example: 3650, description: 'Sum of the actual elapsed time in minutes' })
+  totalActualMinutes: number;
+
+  @ApiProperty({
+    example: 1.35,
+    nullable: true,
+    type: Number,
+    description: 'Mean of actual / estimate; above 1 means tasks took longer than estimated',
+  })
+  averageRatio: number | null;
+
+  @ApiProperty({
+    example: 1.1,
+    nullable: true,
+    type: Number,
+    description: 'Median of actual / estimate',
+  })
+  medianRatio: number | null;
+
+  @ApiProperty({
+    example: 42.5,
+    nullable: true,
+    type: Number,
+    description: 'Mean of |actual - estimate| / estimate, in percent',
+  })
+  meanAbsoluteErrorPercent: number | null;
+
+  @ApiProperty({ example: 7, description: 'Tasks that took longer than estimated' })
+  underestimatedCount: number;
+
+  @ApiProperty({ example: 4, description: 'Tasks that took less time than estimated' })
+  overestimatedCount: number;
+
+  @ApiProperty({
+    example: 310.5,
+    nullable: true,
+    type: Number,
+    description: 'Actual minutes per story point, over tasks with story points',
+  })
+  minutesPerStoryPoint: number | null;
+}
+
+export class PriorityEstimateAccuracyDto extends EstimateAccuracyDto {
+  @ApiProperty({ enum: TaskPriority, example: TaskPriority.HIGH })
+  priority: TaskPriority;
+}
+
+export class EstimateComparisonDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  taskId: string;
+
+  @ApiProperty({ example: 'Implement user authentication' })
+  title: string;
+
+  @ApiProperty({ enum: TaskPriority, example: TaskPriority.HIGH })
+  priority: TaskPriority;
+
+  @ApiProperty({ example: 240 })
+  estimateMinutes: number;
+
+  @ApiProperty({ example: 5, nullable: true, type: Number })
+  storyPoints: number | null;
+
+  @ApiProperty({
+    example: '2025-10-01T09:00:00.000Z',
+    description: 'Start of the measured time (creation or first move to IN_PROGRESS)',
+  })
+  startedAt: Date;
+
+  @ApiProperty({ example: '2025-10-01T14:30:00.000Z', description: 'Last move to COMPLETED' })
+  completedAt: Date;
+
+  @ApiProperty({ example: 330, description: 'Elapsed time in minutes' })
+  actualMinutes: number;
+
+  @ApiProperty({ example: 1.38, description: 'actualMinutes / estimateMinutes' })
+  ratio: number;
+}
+
+export class EstimateReportResponseDto {
+  @ApiProperty({ enum: EstimateMeasureFrom, example: EstimateMeasureFrom.STARTED })
+  measureFrom: EstimateMeasureFrom;
+
+  @ApiProperty({ type: EstimateAccuracyDto, description: 'Accuracy over all compared tasks' })
+  summary: EstimateAccuracyDto;
+
+  @ApiProperty({
+    type: [PriorityEstimateAccuracyDto],
+    description: 'Accuracy per priority, highest first; priorities without tasks are left out',
+  })
+  byPriority: PriorityEstimateAccuracyDto[];
+
+  @ApiProperty({
+    type: [EstimateComparisonDto],
+    description: 'Compared tasks for current page, most recently completed first',
+  })
+  data: EstimateComparisonDto[];
+
+  @ApiProperty({ example: 12, description: 'Total number of compared tasks' })
+  total: number;
+
+  @ApiProperty({ example: 1, description: 'Current page number' })
+  page: number;
+
+  @ApiProperty({ example: 20, description: 'Number of items per page' })
+  limit: number;
+
+  @ApiProperty({ example: 1, description: 'Total number of pages' })
+  totalPages: number;
+}
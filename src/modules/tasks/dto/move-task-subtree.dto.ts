@@ -0,0 +1,13 @@
+import { IsUUID, ValidateIf } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MoveTaskSubtreeDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+    description: 'ID of the new parent task, or null to make the task top-level',
+  })
+  @ValidateIf((_, value) => value !== null)
+  @IsUUID('4', { message: 'parentId must be a valid UUID or null' })
+  parentId: string | null;
+}
@@ -0,0 +1,35 @@
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { TaskStatus } from '../enums/task-status.enum';
+
+/** Without neighbours the task goes to the bottom of the column */
+export class MoveTaskDto {
+  @ApiProperty({
+    enum: TaskStatus,
+    example: TaskStatus.IN_PROGRESS,
+    required: false,
+    description:
+      'Column to move the task to; defaults to its current status. A new status goes through the same checks as PATCH /tasks/:id',
+  })
+  @IsOptional()
+  @IsEnum(TaskStatus)
+  status?: TaskStatus;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    description: 'Task of the column that ends up directly above the moved task',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'beforeId must be a valid UUID' })
+  beforeId?: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174001',
+    required: false,
+    description: 'Task of the column that ends up directly below the moved task',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'afterId must be a valid UUID' })
+  afterId?: string;
+}
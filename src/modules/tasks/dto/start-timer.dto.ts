@@ -0,0 +1,15 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class StartTimerDto {
+  @ApiProperty({
+    example: 'Reviewing the pull request',
+    description: 'What the time is spent on',
+    required: false,
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500, { message: 'Description cannot exceed 500 characters' })
+  description?: string;
+}
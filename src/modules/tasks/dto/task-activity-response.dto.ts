@@ -0,0 +1,90 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TaskActivityAction } from '../enums/task-activity-action.enum';
+import { TaskActivitySource } from '../enums/task-activity-source.enum';
+
+export class TaskActivityActorDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000', description: 'User ID' })
+  id: string;
+
+  @ApiProperty({ example: 'John Doe', description: 'User name' })
+  name: string;
+
+  @ApiProperty({ example: 'john.doe@example.com', description: 'User email' })
+  email: string;
+}
+
+export class TaskActivityResponseDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Unique activity entry identifier',
+  })
+  id: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the task the entry belongs to',
+  })
+  taskId: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+    type: String,
+    description: 'ID of the user who made the change; null for system changes',
+  })
+  actorId: string | null;
+
+  @ApiProperty({
+    type: TaskActivityActorDto,
+    nullable: true,
+    description: 'The user who made the change',
+  })
+  actor: TaskActivityActorDto | null;
+
+  @ApiProperty({ enum: TaskActivityAction, example: TaskActivityAction.UPDATED })
+  action: TaskActivityAction;
+
+  @ApiProperty({
+    enum: TaskActivitySource,
+    example: TaskActivitySource.HTTP,
+    description: 'Entry point of the change: API request, queue job or scheduler',
+  })
+  source: TaskActivitySource;
+
+  @ApiProperty({
+    example: { priority: { from: 'MEDIUM', to: 'HIGH' } },
+    description: 'Changed fields with their previous and new values',
+  })
+  changes: Record<string, { from: unknown; to: unknown }>;
+
+  @ApiProperty({
+    example: 3,
+    nullable: true,
+    type: Number,
+    description: 'Task version produced by the change, when known',
+  })
+  taskVersion: number | null;
+
+  @ApiProperty({ example: '2025-10-05T14:20:00.000Z', description: 'When the change happened' })
+  createdAt: Date;
+}
+
+export class PaginatedTaskActivityResponseDto {
+  @ApiProperty({
+    type: [TaskActivityResponseDto],
+    description: 'Activity entries for current page, newest first',
+  })
+  data: TaskActivityResponseDto[];
+
+  @ApiProperty({ example: 42, description: 'Total number of activity entries' })
+  total: number;
+
+  @ApiProperty({ example: 1, description: 'Current page number' })
+  page: number;
+
+  @ApiProperty({ example: 20, description: 'Number of items per page' })
+  limit: number;
+
+  @ApiProperty({ example: 3, description: 'Total number of pages' })
+  totalPages: number;
+}
@@ -0,0 +1,31 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { TaskFilterDto } from './task-filter.dto';
+
+/** The GET /tasks filters; columns are always in rank order, so paging and sorting do not apply */
+export class TaskBoardQueryDto extends OmitType(TaskFilterDto, [
+  'page',
+  'limit',
+  'pagination',
+  'cursor',
+  'includeTotal',
+  'sortBy',
+  'sortOrder',
+] as const) {
+  @ApiProperty({
+    required: false,
+    type: Number,
+    minimum: 1,
+    maximum: 200,
+    default: 50,
+    description: 'Number of tasks returned per column, from the top',
+    example: 50,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'limit must be an integer' })
+  @Min(1, { message: 'limit must be at least 1' })
+  @Max(200, { message: 'limit cannot exceed 200' })
+  limit?: number = 50;
+}
@@ -0,0 +1,39 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TaskResponseDto } from './task-response.dto';
+
+export class TaskDependencyResponseDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the blocked task',
+  })
+  taskId: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174001',
+    description: 'ID of the blocking task',
+  })
+  blockedById: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174002',
+    description: 'ID of the user who created the link',
+  })
+  createdBy: string;
+
+  @ApiProperty({ example: '2025-10-01T10:30:00.000Z', description: 'Link creation timestamp' })
+  createdAt: Date;
+}
+
+export class TaskDependenciesResponseDto {
+  @ApiProperty({
+    type: [TaskResponseDto],
+    description: 'Tasks that have to be completed before this one',
+  })
+  blockedBy: TaskResponseDto[];
+
+  @ApiProperty({
+    type: [TaskResponseDto],
+    description: 'Tasks waiting on this one',
+  })
+  blocking: TaskResponseDto[];
+}
@@ -0,0 +1,27 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { TaskFilterDto } from './task-filter.dto';
+import { TaskExportFormat } from '../enums/task-export-format.enum';
+
+/** Every GET /tasks filter and sort; an export always covers all matching tasks */
+export class TaskExportQueryDto extends OmitType(TaskFilterDto, [
+  'page',
+  'limit',
+  'pagination',
+  'cursor',
+  'includeTotal',
+] as const) {
+  @ApiProperty({
+    enum: TaskExportFormat,
+    required: false,
+    default: TaskExportFormat.CSV,
+    description: 'csv, or one JSON object per line for jsonl and ndjson',
+  })
+  @IsOptional()
+  @Transform(({ value }) => (value ? value.toString().toLowerCase() : undefined))
+  @IsEnum(TaskExportFormat, {
+    message: `format must be one of: ${Object.values(TaskExportFormat).join(', ')}`,
+  })
+  format?: TaskExportFormat;
+}
@@ -0,0 +1,50 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TaskExportFormat } from '../enums/task-export-format.enum';
+import { TaskExportStatus } from '../enums/task-export-status.enum';
+
+export class TaskExportResponseDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Unique export identifier',
+  })
+  id: string;
+
+  @ApiProperty({ enum: TaskExportFormat, example: TaskExportFormat.CSV })
+  format: TaskExportFormat;
+
+  @ApiProperty({
+    example: { status: ['PENDING'], sortBy: 'dueDate' },
+    description: 'GET /tasks/export query parameters the export was requested with',
+  })
+  filters: Record<string, unknown>;
+
+  @ApiProperty({ enum: TaskExportStatus, example: TaskExportStatus.QUEUED })
+  status: TaskExportStatus;
+
+  @ApiProperty({
+    example: 48211,
+    nullable: true,
+    description: 'Number of exported tasks, once completed',
+  })
+  rowCount: number | null;
+
+  @ApiProperty({
+    example: null,
+    nullable: true,
+    description: 'Why the last attempt failed',
+  })
+  error: string | null;
+
+  @ApiProperty({
+    example: '2025-10-01T10:30:00.000Z',
+    description: 'When the export was requested',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    example: '2025-10-01T10:31:12.000Z',
+    nullable: true,
+    description: 'When the file became available for download, or when the export failed',
+  })
+  completedAt: Date | null;
+}
@@ -1,49 +1,241 @@
-import { IsEnum, IsOptional, IsInt, Min, Max } from 'class-validator';
+import {
+  IsEnum,
+  IsOptional,
+  IsInt,
+  Min,
+  Max,
+  IsUUID,
+  ArrayMaxSize,
+  IsString,
+  MaxLength,
+  IsBoolean,
+  IsDateString,
+  Matches,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
-import { Type, Transform } from 'class-transformer';
+import { Type, Transform, TransformFnParams } from 'class-transformer';
 import { TaskStatus } from '../enums/task-status.enum';
 import { TaskPriority } from '../enums/task-priority.enum';
+import { TagMatchMode } from '../enums/tag-match-mode.enum';
+import { PaginationMode } from '../enums/pagination-mode.enum';
+import { TaskSortField } from '../enums/task-sort-field.enum';
+import { SortOrder } from '../enums/sort-order.enum';
+import { IsNotBeforeProperty } from '../../../common/validators/date-range.validator';
+
+const ASSIGNEE_PATTERN = /^(me|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/;
+
+export const toUpperCaseList = ({ value }: TransformFnParams) => {
+  if (!value) return undefined;
+  const values = Array.isArray(value) ? value : value.toString().split(',');
+  return values.map((item: unknown) => String(item).trim().toUpperCase()).filter(Boolean);
+};
+
+// Implicit conversion turns any non-empty string (including "false") into true, so read the raw value
+export const toBoolean = ({ obj, key }: TransformFnParams) => {
+  const value = obj[key];
+  if (value === 'true' || value === true) return true;
+  if (value === 'false' || value === false) return false;
+  return value;
+};
 
 export class TaskFilterDto {
   @ApiProperty({
-    enum: TaskStatus,
     required: false,
-    description: 'Filter tasks by status (case-insensitive)',
-    example: 'PENDING',
+    description:
+      'Full-text search over title and description. Supports quoted phrases, OR and -exclusions; results are ordered by relevance',
+    example: 'api documentation',
   })
   @IsOptional()
-  @Transform(({ value }) => {
-    if (!value) return undefined;
-    const upperValue = value.toString().toUpperCase();
-    if (Object.values(TaskStatus).includes(upperValue as TaskStatus)) {
-      return upperValue as TaskStatus;
-    }
-    return value;
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() || undefined : value))
+  @IsString()
+  @MaxLength(200, { message: 'q cannot exceed 200 characters' })
+  q?: string;
+
+  @ApiProperty({
+    enum: TaskStatus,
+    isArray: true,
+    required: false,
+    description: 'Filter tasks by one or more statuses (comma-separated, case-insensitive)',
+    example: 'PENDING,IN_PROGRESS',
   })
+  @IsOptional()
+  @Transform(toUpperCaseList)
   @IsEnum(TaskStatus, {
+    each: true,
     message: `status must be one of: ${Object.values(TaskStatus).join(', ')}`,
   })
-  status?: TaskStatus;
+  status?: TaskStatus[];
 
   @ApiProperty({
     enum: TaskPriority,
+    isArray: true,
+    required: false,
+    description: 'Filter tasks by one or more priorities (comma-separated, case-insensitive)',
+    example: 'HIGH,MEDIUM',
+  })
+  @IsOptional()
+  @Transform(toUpperCaseList)
+  @IsEnum(TaskPriority, {
+    each: true,
+    message: `priority must be one of: ${Object.values(TaskPriority).join(', ')}`,
+  })
+  priority?: TaskPriority[];
+
+  @ApiProperty({
     required: false,
-    description: 'Filter tasks by priority (case-insensitive)',
-    example: 'HIGH',
+    type: [String],
+    description: 'Filter by tag IDs (comma-separated or repeated query parameter)',
+    example: '123e4567-e89b-12d3-a456-426614174000,223e4567-e89b-12d3-a456-426614174000',
   })
   @IsOptional()
   @Transform(({ value }) => {
     if (!value) return undefined;
-    const upperValue = value.toString().toUpperCase();
-    if (Object.values(TaskPriority).includes(upperValue as TaskPriority)) {
-      return upperValue as TaskPriority;
-    }
-    return value;
+    const values = Array.isArray(value) ? value : value.toString().split(',');
+    return values.map((tagId: string) => tagId.trim()).filter(Boolean);
   })
-  @IsEnum(TaskPriority, {
-    message: `priority must be one of: ${Object.values(TaskPriority).join(', ')}`,
+  @ArrayMaxSize(20, { message: 'Cannot filter by more than 20 tags' })
+  @IsUUID('4', { each: true, message: 'each tag must be a valid UUID' })
+  tags?: string[];
+
+  @ApiProperty({
+    enum: TagMatchMode,
+    required: false,
+    default: TagMatchMode.ANY,
+    description: 'Whether tasks need any or all of the given tags',
+    example: TagMatchMode.ANY,
+  })
+  @IsOptional()
+  @Transform(({ value }) => (value ? value.toString().toLowerCase() : undefined))
+  @IsEnum(TagMatchMode, {
+    message: `tagMatch must be one of: ${Object.values(TagMatchMode).join(', ')}`,
+  })
+  tagMatch?: TagMatchMode;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Only tasks assigned to this user. `me` lists the tasks assigned to you, including tasks owned by other users',
+    example: 'me',
+  })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim().toLowerCase() : value))
+  @Matches(ASSIGNEE_PATTERN, { message: 'assignee must be "me" or a valid UUID' })
+  assignee?: string;
+
+  @ApiProperty({
+    required: false,
+    type: [String],
+    description:
+      'Only tasks in one of these projects (comma-separated or repeated query parameter)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (!value) return undefined;
+    const values = Array.isArray(value) ? value : value.toString().split(',');
+    return values.map((projectId: string) => projectId.trim()).filter(Boolean);
+  })
+  @ArrayMaxSize(20, { message: 'Cannot filter by more than 20 projects' })
+  @IsUUID('4', { each: true, message: 'each projectId must be a valid UUID' })
+  projectId?: string[];
+
+  @ApiProperty({
+    required: false,
+    type: Boolean,
+    description: 'Only tasks in (true) or outside of (false) any project',
+    example: false,
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean({ message: 'hasProject must be a boolean' })
+  hasProject?: boolean;
+
+  @ApiProperty({
+    required: false,
+    description: 'Only tasks due at or before this date',
+    example: '2025-12-31T23:59:59.000Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'dueBefore must be a valid ISO 8601 date' })
+  @IsNotBeforeProperty('dueAfter')
+  dueBefore?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Only tasks due at or after this date',
+    example: '2025-01-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'dueAfter must be a valid ISO 8601 date' })
+  dueAfter?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Only tasks created at or before this date',
+    example: '2025-06-30T23:59:59.000Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'createdBefore must be a valid ISO 8601 date' })
+  @IsNotBeforeProperty('createdAfter')
+  createdBefore?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Only tasks created at or after this date',
+    example: '2025-01-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'createdAfter must be a valid ISO 8601 date' })
+  createdAfter?: string;
+
+  @ApiProperty({
+    required: false,
+    type: Boolean,
+    description: 'true: only unfinished tasks past their due date; false: everything else',
+    example: true,
   })
-  priority?: TaskPriority;
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean({ message: 'overdue must be a boolean' })
+  overdue?: boolean;
+
+  @ApiProperty({
+    required: false,
+    type: Boolean,
+    description: 'Only tasks with (true) or without (false) a due date',
+    example: true,
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean({ message: 'hasDueDate must be a boolean' })
+  hasDueDate?: boolean;
+
+  @ApiProperty({
+    enum: TaskSortField,
+    required: false,
+    default: TaskSortField.CREATED_AT,
+    description:
+      'Sort field. priority sorts by rank (HIGH > MEDIUM > LOW); tasks without a due date come last when sorting by dueDate. With q, results are ordered by relevance unless sortBy is given',
+    example: TaskSortField.DUE_DATE,
+  })
+  @IsOptional()
+  @IsEnum(TaskSortField, {
+    message: `sortBy must be one of: ${Object.values(TaskSortField).join(', ')}`,
+  })
+  sortBy?: TaskSortField;
+
+  @ApiProperty({
+    enum: SortOrder,
+    required: false,
+    description: 'Sort direction. Defaults to asc for dueDate and title, desc otherwise',
+    example: SortOrder.ASC,
+  })
+  @IsOptional()
+  @Transform(({ value }) => (value ? value.toString().toLowerCase() : undefined))
+  @IsEnum(SortOrder, {
+    message: `sortOrder must be one of: ${Object.values(SortOrder).join(', ')}`,
+  })
+  sortOrder?: SortOrder;
 
   @ApiProperty({
     required: false,
@@ -74,4 +266,40 @@ export class TaskFilterDto {
   @Min(1, { message: 'limit must be at least 1' })
   @Max(100, { message: 'limit cannot exceed 100' })
   limit?: number = 10; //TODO: Keep in env
+
+  @ApiProperty({
+    enum: PaginationMode,
+    required: false,
+    default: PaginationMode.OFFSET,
+    description:
+      'offset uses page/limit; cursor walks the list newest first with cursor/nextCursor. Passing a cursor implies cursor mode',
+    example: PaginationMode.CURSOR,
+  })
+  @IsOptional()
+  @Transform(({ value }) => (value ? value.toString().toLowerCase() : undefined))
+  @IsEnum(PaginationMode, {
+    message: `pagination must be one of: ${Object.values(PaginationMode).join(', ')}`,
+  })
+  pagination?: PaginationMode;
+
+  @ApiProperty({
+    required: false,
+    description: 'Opaque cursor from the nextCursor of the previous page',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500, { message: 'cursor cannot exceed 500 characters' })
+  cursor?: string;
+
+  @ApiProperty({
+    required: false,
+    type: Boolean,
+    default: true,
+    description: 'Set to false to skip counting matching tasks in cursor mode',
+    example: false,
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean({ message: 'includeTotal must be a boolean' })
+  includeTotal?: boolean;
 }
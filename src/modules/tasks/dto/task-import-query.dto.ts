@@ -0,0 +1,19 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { TaskImportReportFormat } from '../enums/task-import-report-format.enum';
+
+export class TaskImportQueryDto {
+  @ApiProperty({
+    enum: TaskImportReportFormat,
+    required: false,
+    default: TaskImportReportFormat.JSON,
+    description: 'Format of the downloadable import report',
+  })
+  @IsOptional()
+  @Transform(({ value }) => (value ? value.toString().toLowerCase() : undefined))
+  @IsEnum(TaskImportReportFormat, {
+    message: `report must be one of: ${Object.values(TaskImportReportFormat).join(', ')}`,
+  })
+  report?: TaskImportReportFormat;
+}
@@ -0,0 +1,63 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TaskImportRowStatus } from '../enums/task-import-row-status.enum';
+
+export class TaskImportFieldErrorDto {
+  @ApiProperty({
+    example: 'dueDate',
+    nullable: true,
+    type: String,
+    description: 'Offending field; null when the row itself could not be read',
+  })
+  field: string | null;
+
+  @ApiProperty({ example: ['Due date cannot be in the past'], type: [String] })
+  messages: string[];
+}
+
+export class TaskImportRowResultDto {
+  @ApiProperty({
+    example: 2,
+    description: 'Line of the row in the uploaded file; the CSV header is line 1',
+  })
+  row: number;
+
+  @ApiProperty({ enum: TaskImportRowStatus, example: TaskImportRowStatus.CREATED })
+  status: TaskImportRowStatus;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    description: 'ID of the created task',
+  })
+  taskId?: string;
+
+  @ApiProperty({
+    example: '1234',
+    required: false,
+    description: 'tasks-bulk-create job that creates the task',
+  })
+  jobId?: string;
+
+  @ApiProperty({ type: [TaskImportFieldErrorDto], required: false })
+  errors?: TaskImportFieldErrorDto[];
+}
+
+export class TaskImportReportDto {
+  @ApiProperty({ example: 'tasks.csv', description: 'Name of the uploaded file' })
+  fileName: string;
+
+  @ApiProperty({ example: 120, description: 'Number of rows read, header excluded' })
+  totalRows: number;
+
+  @ApiProperty({ example: 0 })
+  created: number;
+
+  @ApiProperty({ example: 117 })
+  queued: number;
+
+  @ApiProperty({ example: 3 })
+  failed: number;
+
+  @ApiProperty({ type: [TaskImportRowResultDto], description: 'One entry per row, in file order' })
+  rows: TaskImportRowResultDto[];
+}
@@ -1,6 +1,23 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { TaskStatus } from '../enums/task-status.enum';
 import { TaskPriority } from '../enums/task-priority.enum';
+import { TaskBatchUpdateResult } from '../enums/task-batch-update-result.enum';
+import { TagResponseDto } from '../../tags/dto/tag-response.dto';
+
+export class TaskSearchHighlightDto {
+  @ApiProperty({
+    example: 'Complete project <mark>documentation</mark>',
+    description: 'Title with matching terms wrapped in <mark> tags',
+  })
+  title: string;
+
+  @ApiProperty({
+    example: 'Add details about API endpoints and <mark>documentation</mark> examples',
+    description: 'Best matching fragments of the description with <mark> tags',
+    nullable: true,
+  })
+  description: string | null;
+}
 
 export class TaskResponseDto {
   @ApiProperty({
@@ -40,18 +57,123 @@ export class TaskResponseDto {
   })
   dueDate: Date | null;
 
+  @ApiProperty({
+    example: 240,
+    description: 'Estimated effort in minutes',
+    nullable: true,
+  })
+  estimateMinutes: number | null;
+
+  @ApiProperty({
+    example: 5,
+    description: 'Relative size in story points',
+    nullable: true,
+  })
+  storyPoints: number | null;
+
   @ApiProperty({
     example: '123e4567-e89b-12d3-a456-426614174000',
     description: 'ID of the user who owns this task',
   })
   userId: string;
 
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the organization the task belongs to',
+  })
+  organizationId: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the user the task is assigned to',
+    nullable: true,
+  })
+  assigneeId: string | null;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the project the task belongs to',
+    nullable: true,
+  })
+  projectId: string | null;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the team the task is shared with',
+    nullable: true,
+  })
+  teamId: string | null;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the parent task',
+    nullable: true,
+  })
+  parentId: string | null;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the recurring series this task is an occurrence of',
+    nullable: true,
+  })
+  seriesId: string | null;
+
+  @ApiProperty({
+    example: 4,
+    description: 'Number of direct subtasks',
+    required: false,
+  })
+  childCount?: number;
+
+  @ApiProperty({
+    example: 75,
+    description:
+      'Percentage of completed tasks across the whole subtree (own status when the task has no subtasks)',
+    required: false,
+  })
+  completionPercentage?: number;
+
   @ApiProperty({
     example: 1,
     description: 'Version number for optimistic locking',
   })
   version: number;
 
+  @ApiProperty({
+    type: [TagResponseDto],
+    description: 'Tags of the task (included in list and detail responses)',
+    required: false,
+  })
+  tags?: TagResponseDto[];
+
+  @ApiProperty({
+    example: 3,
+    description: 'Number of comments on the task (included in list responses)',
+    required: false,
+  })
+  commentCount?: number;
+
+  @ApiProperty({
+    example: 0.0759,
+    description: 'Relevance score (only present when searching with q)',
+    required: false,
+  })
+  searchRank?: number;
+
+  @ApiProperty({
+    type: TaskSearchHighlightDto,
+    description: 'Highlighted snippets (only present when searching with q)',
+    required: false,
+  })
+  highlight?: TaskSearchHighlightDto;
+
+  @ApiProperty({
+    example: 42.5,
+    description:
+      'Position in its status column on the board, lowest first. Use PATCH /tasks/:id/move to change it',
+  })
+  rank: number;
+
   @ApiProperty({
     example: '2025-10-01T10:30:00.000Z',
     description: 'Task creation timestamp',
@@ -63,6 +185,14 @@ export class TaskResponseDto {
     description: 'Task last update timestamp',
   })
   updatedAt: Date;
+
+  @ApiProperty({
+    example: null,
+    nullable: true,
+    type: Date,
+    description: 'When the task was moved to the trash; null for live tasks',
+  })
+  deletedAt: Date | null;
 }
 
 export class PaginatedTaskResponseDto {
@@ -85,6 +215,57 @@ export class PaginatedTaskResponseDto {
   totalPages: number;
 }
 
+export class CursorPaginatedTaskResponseDto {
+  @ApiProperty({
+    type: [TaskResponseDto],
+    description: 'Array of tasks after the given cursor, newest first',
+  })
+  data: TaskResponseDto[];
+
+  @ApiProperty({ example: 10, description: 'Number of items per page' })
+  limit: number;
+
+  @ApiProperty({
+    example: 'eyJjIjoiMjAyNC0wMS0xNSAxMDozMDowMC4xMjM0NTYiLCJpIjoiMTIzZTQ1NjcifQ',
+    nullable: true,
+    type: String,
+    description: 'Opaque cursor for the next page, null on the last page',
+  })
+  nextCursor: string | null;
+
+  @ApiProperty({ example: true, description: 'Whether more tasks follow this page' })
+  hasMore: boolean;
+
+  @ApiProperty({
+    example: 100,
+    required: false,
+    description: 'Total number of matching tasks, omitted when includeTotal=false',
+  })
+  total?: number;
+}
+
+export class TaskBoardColumnDto {
+  @ApiProperty({ enum: TaskStatus, example: TaskStatus.IN_PROGRESS, description: 'Column status' })
+  status: TaskStatus;
+
+  @ApiProperty({ example: 12, description: 'Number of matching tasks in the column' })
+  total: number;
+
+  @ApiProperty({
+    type: [TaskResponseDto],
+    description: 'Top tasks of the column in rank order, up to limit',
+  })
+  tasks: TaskResponseDto[];
+}
+
+export class TaskBoardResponseDto {
+  @ApiProperty({
+    type: [TaskBoardColumnDto],
+    description: 'One column per status, in workflow order; only the filtered statuses with status',
+  })
+  columns: TaskBoardColumnDto[];
+}
+
 export class BatchTaskResponseDto {
   @ApiProperty({
     type: [TaskResponseDto],
@@ -104,6 +285,48 @@ export class BatchDeleteResponseDto {
   deletedCount: number;
 }
 
+export class TaskBatchUpdateResultDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  taskId: string;
+
+  @ApiProperty({ enum: TaskBatchUpdateResult, example: TaskBatchUpdateResult.UPDATED })
+  result: TaskBatchUpdateResult;
+
+  @ApiProperty({
+    example: 'TASK_BLOCKED',
+    required: false,
+    description: 'Error code of the check the task failed',
+  })
+  code?: string;
+
+  @ApiProperty({
+    example:
+      'Task is blocked by 1 open tasks. Complete them before starting or completing this task',
+    required: false,
+  })
+  message?: string;
+}
+
+export class BatchUpdateResponseDto {
+  @ApiProperty({ example: '2 tasks updated, 1 failed', description: 'Success message' })
+  message: string;
+
+  @ApiProperty({ example: 2, description: 'Number of tasks updated' })
+  updatedCount: number;
+
+  @ApiProperty({
+    example: 1,
+    description: 'Number of tasks that failed a check and were left alone',
+  })
+  failedCount: number;
+
+  @ApiProperty({
+    type: [TaskBatchUpdateResultDto],
+    description: 'One entry per task ID, in request order',
+  })
+  results: TaskBatchUpdateResultDto[];
+}
+
 export class TaskStatsResponseDto {
   @ApiProperty({ example: 25, description: 'Total number of tasks' })
   total: number;
@@ -114,9 +337,18 @@ export class TaskStatsResponseDto {
   @ApiProperty({ example: 8, description: 'Number of in-progress tasks' })
   inProgress: number;
 
+  @ApiProperty({ example: 2, description: 'Number of blocked tasks' })
+  blocked: number;
+
+  @ApiProperty({ example: 1, description: 'Number of tasks in review' })
+  inReview: number;
+
   @ApiProperty({ example: 7, description: 'Number of completed tasks' })
   completed: number;
 
+  @ApiProperty({ example: 1, description: 'Number of cancelled tasks' })
+  cancelled: number;
+
   @ApiProperty({ example: 5, description: 'Number of high priority tasks' })
   highPriority: number;
 
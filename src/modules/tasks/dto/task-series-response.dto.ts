@@ -0,0 +1,83 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TaskPriority } from '../enums/task-priority.enum';
+
+export class TaskSeriesResponseDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Unique series identifier',
+  })
+  id: string;
+
+  @ApiProperty({ example: 'Weekly ops checklist', description: 'Title given to each occurrence' })
+  title: string;
+
+  @ApiProperty({
+    example: 'Rotate on-call, review alerts, patch hosts',
+    description: 'Description given to each occurrence',
+    nullable: true,
+  })
+  description: string | null;
+
+  @ApiProperty({
+    enum: TaskPriority,
+    example: TaskPriority.MEDIUM,
+    description: 'Priority given to each occurrence',
+  })
+  priority: TaskPriority;
+
+  @ApiProperty({ example: 'FREQ=WEEKLY;BYDAY=MO', description: 'iCalendar RRULE of the series' })
+  rrule: string;
+
+  @ApiProperty({
+    example: '2025-10-06T09:00:00.000Z',
+    description: 'Due date of the first occurrence the rule is anchored to',
+  })
+  startsAt: Date;
+
+  @ApiProperty({
+    example: '2025-10-13T09:00:00.000Z',
+    description: 'Due date of the latest generated occurrence',
+  })
+  lastOccurrenceAt: Date;
+
+  @ApiProperty({ example: 2, description: 'Number of occurrences generated so far' })
+  occurrenceCount: number;
+
+  @ApiProperty({
+    example: true,
+    description: 'False once the series was stopped or its rule has no further occurrences',
+  })
+  active: boolean;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the user who owns this series',
+  })
+  userId: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the organization the series belongs to',
+  })
+  organizationId: string;
+
+  @ApiProperty({ example: 1, description: 'Version number for optimistic locking' })
+  version: number;
+
+  @ApiProperty({ example: '2025-10-01T10:30:00.000Z', description: 'Series creation timestamp' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2025-10-05T14:20:00.000Z', description: 'Series last update timestamp' })
+  updatedAt: Date;
+}
+
+export class StopTaskSeriesResponseDto {
+  @ApiProperty({ example: 'Series stopped successfully', description: 'Success message' })
+  message: string;
+
+  @ApiProperty({
+    example: 1,
+    description: 'Number of pending future occurrences that were removed',
+  })
+  removedCount: number;
+}
@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TaskWatcherResponseDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the watched task',
+  })
+  taskId: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174001',
+    description: 'ID of the watching user',
+  })
+  userId: string;
+
+  @ApiProperty({
+    example: '2025-10-01T10:30:00.000Z',
+    description: 'When the user started watching',
+  })
+  createdAt: Date;
+}
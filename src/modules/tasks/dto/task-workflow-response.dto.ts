@@ -0,0 +1,31 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TaskStatus } from '../enums/task-status.enum';
+
+export class TaskWorkflowResponseDto {
+  @ApiProperty({
+    enum: TaskStatus,
+    isArray: true,
+    example: Object.values(TaskStatus),
+    description: 'Every task status, in workflow order',
+  })
+  statuses: TaskStatus[];
+
+  @ApiProperty({
+    type: 'object',
+    additionalProperties: {
+      type: 'array',
+      items: { type: 'string', enum: Object.values(TaskStatus) },
+    },
+    example: {
+      PENDING: ['IN_PROGRESS', 'BLOCKED', 'COMPLETED', 'CANCELLED'],
+      IN_PROGRESS: ['PENDING', 'BLOCKED', 'IN_REVIEW', 'COMPLETED', 'CANCELLED'],
+      BLOCKED: ['PENDING', 'IN_PROGRESS', 'CANCELLED'],
+      IN_REVIEW: ['IN_PROGRESS', 'COMPLETED', 'CANCELLED'],
+      COMPLETED: ['IN_PROGRESS'],
+      CANCELLED: ['PENDING'],
+    },
+    description:
+      'Allowed next statuses for each status. Keeping the current status is always allowed',
+  })
+  transitions: Record<TaskStatus, TaskStatus[]>;
+}
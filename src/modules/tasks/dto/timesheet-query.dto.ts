@@ -0,0 +1,33 @@
+import { IsISO8601, IsOptional, IsUUID, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotBeforeProperty } from '../../../common/validators/date-range.validator';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class TimesheetQueryDto {
+  @ApiProperty({
+    example: '2025-10-01',
+    description: 'First day of the report (YYYY-MM-DD, UTC)',
+  })
+  @Matches(DATE_PATTERN, { message: 'from must be a date in YYYY-MM-DD format' })
+  @IsISO8601({ strict: true }, { message: 'from must be a valid calendar date' })
+  from: string;
+
+  @ApiProperty({
+    example: '2025-10-31',
+    description: 'Last day of the report, inclusive (YYYY-MM-DD, UTC)',
+  })
+  @Matches(DATE_PATTERN, { message: 'to must be a date in YYYY-MM-DD format' })
+  @IsISO8601({ strict: true }, { message: 'to must be a valid calendar date' })
+  @IsNotBeforeProperty('from')
+  to: string;
+
+  @ApiProperty({
+    required: false,
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'User whose timesheet to report (admins only); defaults to the current user',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'userId must be a valid UUID' })
+  userId?: string;
+}
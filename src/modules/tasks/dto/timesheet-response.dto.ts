@@ -0,0 +1,46 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TimesheetTaskDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  taskId: string;
+
+  @ApiProperty({ example: 'Implement user authentication' })
+  title: string;
+
+  @ApiProperty({ example: 5400, description: 'Time spent on the task that day, in seconds' })
+  totalSeconds: number;
+
+  @ApiProperty({ example: 2, description: 'Number of worklog entries' })
+  entryCount: number;
+}
+
+export class TimesheetDayDto {
+  @ApiProperty({ example: '2025-10-05', description: 'UTC day the entries started on' })
+  date: string;
+
+  @ApiProperty({ example: 7200, description: 'Time spent that day, in seconds' })
+  totalSeconds: number;
+
+  @ApiProperty({ type: [TimesheetTaskDto] })
+  tasks: TimesheetTaskDto[];
+}
+
+export class TimesheetResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  userId: string;
+
+  @ApiProperty({ example: '2025-10-01' })
+  from: string;
+
+  @ApiProperty({ example: '2025-10-31' })
+  to: string;
+
+  @ApiProperty({ example: 36000, description: 'Time spent in the whole range, in seconds' })
+  totalSeconds: number;
+
+  @ApiProperty({
+    type: [TimesheetDayDto],
+    description: 'Days with tracked time, oldest first; days without entries are left out',
+  })
+  days: TimesheetDayDto[];
+}
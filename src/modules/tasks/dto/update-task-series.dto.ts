@@ -0,0 +1,31 @@
+import { IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { TaskPriority } from '../enums/task-priority.enum';
+import { IsRecurrenceRule } from '../../../common/validators/rrule.validator';
+
+export class UpdateTaskSeriesDto {
+  @ApiProperty({ example: 'Weekly ops checklist', required: false })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  title?: string;
+
+  @ApiProperty({ example: 'Rotate on-call, review alerts, patch hosts', required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ enum: TaskPriority, example: TaskPriority.HIGH, required: false })
+  @IsOptional()
+  @IsEnum(TaskPriority)
+  priority?: TaskPriority;
+
+  @ApiProperty({
+    example: 'FREQ=WEEKLY;BYDAY=MO,TH',
+    required: false,
+    description: 'New iCalendar RRULE, applied after the latest existing occurrence',
+  })
+  @IsOptional()
+  @IsRecurrenceRule()
+  rrule?: string;
+}
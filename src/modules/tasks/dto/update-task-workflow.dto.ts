@@ -0,0 +1,33 @@
+import { IsArray, IsEnum, ValidateNested, ArrayMinSize, ArrayMaxSize } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { TaskStatus } from '../enums/task-status.enum';
+
+export class TaskStatusTransitionDto {
+  @ApiProperty({ enum: TaskStatus, example: TaskStatus.IN_PROGRESS, description: 'Current status' })
+  @IsEnum(TaskStatus, { message: 'from must be a valid task status' })
+  from: TaskStatus;
+
+  @ApiProperty({ enum: TaskStatus, example: TaskStatus.IN_REVIEW, description: 'Next status' })
+  @IsEnum(TaskStatus, { message: 'to must be a valid task status' })
+  to: TaskStatus;
+}
+
+export class UpdateTaskWorkflowDto {
+  @ApiProperty({
+    type: [TaskStatusTransitionDto],
+    description: 'Complete list of allowed transitions. Replaces the current workflow',
+    example: [
+      { from: 'PENDING', to: 'IN_PROGRESS' },
+      { from: 'IN_PROGRESS', to: 'IN_REVIEW' },
+      { from: 'IN_REVIEW', to: 'COMPLETED' },
+      { from: 'IN_REVIEW', to: 'IN_PROGRESS' },
+    ],
+  })
+  @IsArray({ message: 'transitions must be an array' })
+  @ArrayMinSize(1, { message: 'At least one transition is required' })
+  @ArrayMaxSize(100, { message: 'Cannot define more than 100 transitions' })
+  @ValidateNested({ each: true })
+  @Type(() => TaskStatusTransitionDto)
+  transitions: TaskStatusTransitionDto[];
+}
@@ -1,4 +1,8 @@
-import { PartialType } from '@nestjs/swagger';
+import { OmitType, PartialType } from '@nestjs/swagger';
 import { CreateTaskDto } from './create-task.dto';
 
-export class UpdateTaskDto extends PartialType(CreateTaskDto) {}
+// Re-parenting goes through PATCH /tasks/:id/parent so cycles can be checked,
+// and recurrence is edited for the whole series through /task-series/:id
+export class UpdateTaskDto extends PartialType(
+  OmitType(CreateTaskDto, ['parentId', 'recurrence'] as const),
+) {}
@@ -0,0 +1,89 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { WorklogSource } from '../enums/worklog-source.enum';
+import { TaskActivityActorDto } from './task-activity-response.dto';
+
+export class WorklogResponseDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Unique worklog identifier',
+  })
+  id: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the task the time was spent on',
+  })
+  taskId: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of the user who spent the time',
+  })
+  userId: string;
+
+  @ApiProperty({
+    type: TaskActivityActorDto,
+    required: false,
+    description: 'The user who spent the time (included in task worklog lists)',
+  })
+  user?: TaskActivityActorDto;
+
+  @ApiProperty({ example: '2025-10-05T09:00:00.000Z', description: 'When the work started' })
+  startedAt: Date;
+
+  @ApiProperty({
+    example: '2025-10-05T10:30:00.000Z',
+    nullable: true,
+    type: Date,
+    description: 'When the work ended; null while the timer is running',
+  })
+  endedAt: Date | null;
+
+  @ApiProperty({
+    example: 5400,
+    nullable: true,
+    type: Number,
+    description: 'Time spent in seconds; null while the timer is running',
+  })
+  durationSeconds: number | null;
+
+  @ApiProperty({
+    example: 'Reviewing the pull request',
+    nullable: true,
+    type: String,
+  })
+  description: string | null;
+
+  @ApiProperty({
+    enum: WorklogSource,
+    example: WorklogSource.TIMER,
+    description: 'Whether the entry was tracked with a timer or entered manually',
+  })
+  source: WorklogSource;
+
+  @ApiProperty({ example: '2025-10-05T09:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2025-10-05T10:30:00.000Z' })
+  updatedAt: Date;
+}
+
+export class PaginatedWorklogResponseDto {
+  @ApiProperty({
+    type: [WorklogResponseDto],
+    description: 'Worklog entries for current page, most recently started first',
+  })
+  data: WorklogResponseDto[];
+
+  @ApiProperty({ example: 42, description: 'Total number of worklog entries' })
+  total: number;
+
+  @ApiProperty({ example: 1, description: 'Current page number' })
+  page: number;
+
+  @ApiProperty({ example: 20, description: 'Number of items per page' })
+  limit: number;
+
+  @ApiProperty({ example: 3, description: 'Total number of pages' })
+  totalPages: number;
+}
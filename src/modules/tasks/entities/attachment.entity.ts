@@ -0,0 +1,50 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+/** A file uploaded to a task; the content itself lives in the file storage under storageKey */
+@Entity('task_attachments')
+@Index('idx_task_attachments_task_id', ['taskId'])
+export class Attachment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'task_id', type: 'uuid' })
+  taskId: string;
+
+  @ManyToOne('Task', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task?: any;
+
+  @Column({ name: 'uploaded_by', type: 'uuid', nullable: true })
+  uploadedBy: string | null;
+
+  @ManyToOne('User', { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'uploaded_by' })
+  uploader?: any;
+
+  @Column({ name: 'file_name', length: 255 })
+  fileName: string;
+
+  @Column({ name: 'mime_type', length: 127 })
+  mimeType: string;
+
+  @Column({ type: 'int' })
+  size: number;
+
+  // Hex-encoded SHA-256 of the content
+  @Column({ length: 64 })
+  checksum: string;
+
+  @Column({ name: 'storage_key', length: 512, select: false })
+  storageKey: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,59 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { TaskActivityAction } from '../enums/task-activity-action.enum';
+import { TaskActivitySource } from '../enums/task-activity-source.enum';
+
+export interface TaskFieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export type TaskActivityChanges = Record<string, TaskFieldChange>;
+
+@Entity('task_activities')
+@Index('idx_task_activities_task_created', ['taskId', 'createdAt'])
+@Index('idx_task_activities_actor_id', ['actorId'])
+// Expression index on status transitions, created by the AddTaskEstimates migration
+@Index('idx_task_activities_status_to', { synchronize: false })
+export class TaskActivity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'task_id' })
+  taskId: string;
+
+  @ManyToOne('Task', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task?: any;
+
+  // Null for changes made by the system (queue jobs without a requesting user, schedulers)
+  @Column({ name: 'actor_id', nullable: true, type: 'uuid' })
+  actorId: string | null;
+
+  @ManyToOne('User', { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'actor_id' })
+  actor?: any;
+
+  @Column({ type: 'varchar', length: 20 })
+  action: TaskActivityAction;
+
+  @Column({ type: 'varchar', length: 10 })
+  source: TaskActivitySource;
+
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  changes: TaskActivityChanges;
+
+  // Task version the entry produced, so entries line up with optimistic-locking conflicts
+  @Column({ name: 'task_version', nullable: true, type: 'int' })
+  taskVersion: number | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,37 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryColumn,
+} from 'typeorm';
+
+/**
+ * "taskId is blocked by blockedById" — the blocker has to be completed before
+ * the blocked task can be started or completed
+ */
+@Entity('task_dependencies')
+@Index('idx_task_dependencies_blocked_by', ['blockedById'])
+export class TaskDependency {
+  @PrimaryColumn({ name: 'task_id', type: 'uuid' })
+  taskId: string;
+
+  @PrimaryColumn({ name: 'blocked_by_id', type: 'uuid' })
+  blockedById: string;
+
+  @ManyToOne('Task', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task?: any;
+
+  @ManyToOne('Task', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blocked_by_id' })
+  blockedBy?: any;
+
+  @Column({ name: 'created_by', type: 'uuid' })
+  createdBy: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
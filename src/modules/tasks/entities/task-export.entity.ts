@@ -0,0 +1,64 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { TaskExportFormat } from '../enums/task-export-format.enum';
+import { TaskExportStatus } from '../enums/task-export-status.enum';
+import type { TaskFilterCriteria } from '../utils/task-filters.utils';
+
+/**
+ * An export too large to stream during the request. The queue writes the file to the file
+ * storage under storageKey; the requester downloads it until it expires
+ */
+@Entity('task_exports')
+@Index('idx_task_exports_user_id', ['userId'])
+@Index('idx_task_exports_created_at', ['createdAt'])
+export class TaskExport {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId: string;
+
+  @ManyToOne('Organization', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization?: any;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne('User', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user?: any;
+
+  @Column({ type: 'varchar', length: 10 })
+  format: TaskExportFormat;
+
+  // Query parameters of GET /tasks/export as validated on request
+  @Column({ type: 'jsonb', default: {} })
+  filters: TaskFilterCriteria;
+
+  @Column({ type: 'varchar', length: 20, default: TaskExportStatus.QUEUED })
+  status: TaskExportStatus;
+
+  @Column({ name: 'row_count', type: 'int', nullable: true })
+  rowCount: number | null;
+
+  // Last failure; cleared when a retry succeeds
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @Column({ name: 'storage_key', type: 'varchar', length: 512, nullable: true, select: false })
+  storageKey: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @Column({ name: 'completed_at', type: 'timestamp', nullable: true })
+  completedAt: Date | null;
+}
@@ -0,0 +1,80 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+  VersionColumn,
+} from 'typeorm';
+import { TaskPriority } from '../enums/task-priority.enum';
+
+/**
+ * Template for a recurring task. Each occurrence is a regular task linked through
+ * tasks.series_id; only the latest one (due at lastOccurrenceAt) moves the series forward
+ */
+@Entity('task_series')
+@Index('idx_task_series_user_id', ['userId'])
+@Index('idx_task_series_organization_id', ['organizationId'])
+@Index('idx_task_series_active_last', ['active', 'lastOccurrenceAt'])
+export class TaskSeries {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  title: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({
+    type: 'enum',
+    enum: TaskPriority,
+    default: TaskPriority.MEDIUM,
+  })
+  priority: TaskPriority;
+
+  @Column({ type: 'text' })
+  rrule: string;
+
+  @Column({ name: 'starts_at', type: 'timestamp' })
+  startsAt: Date;
+
+  @Column({ name: 'last_occurrence_at', type: 'timestamp' })
+  lastOccurrenceAt: Date;
+
+  @Column({ name: 'occurrence_count', type: 'int', default: 1 })
+  occurrenceCount: number;
+
+  @Column({ default: true })
+  active: boolean;
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId: string;
+
+  @ManyToOne('Organization', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization?: any;
+
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  @ManyToOne('User', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user?: any;
+
+  @OneToMany('Task', 'series')
+  tasks?: any[];
+
+  @VersionColumn()
+  version: number;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,26 @@
+import { Column, CreateDateColumn, Entity, JoinColumn, ManyToOne, PrimaryColumn } from 'typeorm';
+import { TaskStatus } from '../enums/task-status.enum';
+
+/**
+ * One allowed edge of the task status workflow: a task in fromStatus may be moved to toStatus.
+ * Staying in the same status is always allowed and never stored
+ */
+@Entity('task_status_transitions')
+export class TaskStatusTransition {
+  @PrimaryColumn({ name: 'from_status', type: 'varchar', length: 20 })
+  fromStatus: TaskStatus;
+
+  @PrimaryColumn({ name: 'to_status', type: 'varchar', length: 20 })
+  toStatus: TaskStatus;
+
+  // Null for the default workflow seeded by the migration
+  @Column({ name: 'created_by', nullable: true, type: 'uuid' })
+  createdBy: string | null;
+
+  @ManyToOne('User', { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'created_by' })
+  creator?: any;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
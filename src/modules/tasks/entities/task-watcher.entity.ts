@@ -0,0 +1,26 @@
+import { CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryColumn } from 'typeorm';
+
+/**
+ * A user following a task they do not necessarily own; watchers are notified when the
+ * task's status, due date or priority changes
+ */
+@Entity('task_watchers')
+@Index('idx_task_watchers_user_id', ['userId'])
+export class TaskWatcher {
+  @PrimaryColumn({ name: 'task_id', type: 'uuid' })
+  taskId: string;
+
+  @PrimaryColumn({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne('Task', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task?: any;
+
+  @ManyToOne('User', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user?: any;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
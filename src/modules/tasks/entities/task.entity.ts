@@ -1,10 +1,14 @@
 import {
   Column,
   CreateDateColumn,
+  DeleteDateColumn,
   Entity,
   Index,
   JoinColumn,
+  JoinTable,
+  ManyToMany,
   ManyToOne,
+  OneToMany,
   PrimaryGeneratedColumn,
   UpdateDateColumn,
   VersionColumn,
@@ -12,14 +16,32 @@ import {
 import { TaskStatus } from '../enums/task-status.enum';
 import { TaskPriority } from '../enums/task-priority.enum';
 
+/** Text search configuration shared by the generated column and the search queries */
+export const SEARCH_CONFIG = 'english';
+
+export interface TaskSearchHighlight {
+  title: string;
+  description: string | null;
+}
+
 @Entity('tasks')
 @Index('idx_tasks_user_id', ['userId'])
+@Index('idx_tasks_organization_created', ['organizationId', 'createdAt'])
 @Index('idx_tasks_status', ['status'])
 @Index('idx_tasks_priority', ['priority'])
 @Index('idx_tasks_due_date', ['dueDate'])
 @Index('idx_tasks_user_status', ['userId', 'status'])
 @Index('idx_tasks_user_priority', ['userId', 'priority'])
 @Index('idx_tasks_user_created', ['userId', 'createdAt'])
+@Index('idx_tasks_parent_id', ['parentId'])
+@Index('idx_tasks_assignee_id', ['assigneeId'])
+@Index('idx_tasks_series_id', ['seriesId'])
+@Index('idx_tasks_project_id', ['projectId'])
+@Index('idx_tasks_team_id', ['teamId'])
+@Index('idx_tasks_organization_status_rank', ['organizationId', 'status', 'rank'])
+@Index('idx_tasks_deleted_at', ['deletedAt'], { where: 'deleted_at IS NOT NULL' })
+// GIN index on search_vector, created by the AddTaskSearchVector migration
+@Index('idx_tasks_search_vector', { synchronize: false })
 export class Task {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -47,6 +69,19 @@ export class Task {
   @Column({ name: 'due_date', nullable: true, type: 'timestamp' })
   dueDate: Date;
 
+  @Column({ name: 'estimate_minutes', nullable: true, type: 'int' })
+  estimateMinutes: number | null;
+
+  @Column({ name: 'story_points', nullable: true, type: 'int' })
+  storyPoints: number | null;
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId: string;
+
+  @ManyToOne('Organization', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization?: any;
+
   @Column({ name: 'user_id' })
   userId: string;
 
@@ -54,6 +89,85 @@ export class Task {
   @JoinColumn({ name: 'user_id' })
   user?: any;
 
+  // The user doing the work. They can read the task and move its status; everything else
+  // stays with the owner (userId)
+  @Column({ name: 'assignee_id', nullable: true, type: 'uuid' })
+  assigneeId: string | null;
+
+  @ManyToOne('User', { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'assignee_id' })
+  assignee?: any;
+
+  @Column({ name: 'project_id', nullable: true, type: 'uuid' })
+  projectId: string | null;
+
+  @ManyToOne('Project', 'tasks', { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'project_id' })
+  project?: any;
+
+  // Members of this team can read the task and move its status, like the assignee
+  @Column({ name: 'team_id', nullable: true, type: 'uuid' })
+  teamId: string | null;
+
+  @ManyToOne('Team', { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'team_id' })
+  team?: any;
+
+  @Column({ name: 'parent_id', nullable: true, type: 'uuid' })
+  parentId: string | null;
+
+  @ManyToOne('Task', 'children', { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'parent_id' })
+  parent?: any;
+
+  @OneToMany('Task', 'parent')
+  children?: any[];
+
+  childCount?: number;
+
+  @Column({ name: 'series_id', nullable: true, type: 'uuid' })
+  seriesId: string | null;
+
+  @ManyToOne('TaskSeries', 'tasks', { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'series_id' })
+  series?: any;
+
+  completionPercentage?: number;
+
+  @ManyToMany('Tag', 'tasks')
+  @JoinTable({
+    name: 'task_tags',
+    joinColumn: { name: 'task_id', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'tag_id', referencedColumnName: 'id' },
+  })
+  tags?: any[];
+
+  @OneToMany('TaskComment', 'task')
+  comments?: any[];
+
+  commentCount?: number;
+
+  @Column({
+    name: 'search_vector',
+    type: 'tsvector',
+    nullable: true,
+    select: false,
+    insert: false,
+    update: false,
+    generatedType: 'STORED',
+    asExpression: `setweight(to_tsvector('${SEARCH_CONFIG}', coalesce(title, '')), 'A') || setweight(to_tsvector('${SEARCH_CONFIG}', coalesce(description, '')), 'B')`,
+  })
+  searchVector?: string;
+
+  searchRank?: number;
+
+  highlight?: TaskSearchHighlight;
+
+  // Board position within the status column, lowest first. Moves take the midpoint of their
+  // neighbours; the sequence is created by the AddTaskRank migration
+  @Column({ type: 'double precision', default: () => "nextval('task_rank_seq')" })
+  rank: number;
+
   @VersionColumn()
   version: number;
 
@@ -62,4 +176,8 @@ export class Task {
 
   @UpdateDateColumn({ name: 'updated_at' })
   updatedAt: Date;
+
+  // Set while the task is in the trash; TypeORM hides these rows unless withDeleted is used
+  @DeleteDateColumn({ name: 'deleted_at', nullable: true })
+  deletedAt: Date | null;
 }
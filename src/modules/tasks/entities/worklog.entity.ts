@@ -0,0 +1,63 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { WorklogSource } from '../enums/worklog-source.enum';
+
+/**
+ * Time a user spent on a task. A timer is a worklog without endedAt; each user has at most
+ * one of those (partial unique index)
+ */
+@Entity('task_worklogs')
+@Index('idx_task_worklogs_task_started', ['taskId', 'startedAt'])
+@Index('idx_task_worklogs_user_started', ['userId', 'startedAt'])
+@Index('uq_task_worklogs_running_timer', ['userId'], {
+  unique: true,
+  where: 'ended_at IS NULL',
+})
+export class Worklog {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'task_id', type: 'uuid' })
+  taskId: string;
+
+  @ManyToOne('Task', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task?: any;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne('User', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user?: any;
+
+  @Column({ name: 'started_at', type: 'timestamp' })
+  startedAt: Date;
+
+  @Column({ name: 'ended_at', type: 'timestamp', nullable: true })
+  endedAt: Date | null;
+
+  // Null while the timer is running
+  @Column({ name: 'duration_seconds', type: 'int', nullable: true })
+  durationSeconds: number | null;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({ type: 'varchar', length: 10 })
+  source: WorklogSource;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
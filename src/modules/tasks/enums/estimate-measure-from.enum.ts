@@ -0,0 +1,7 @@
+/** Where the actual time of a completed task starts counting */
+export enum EstimateMeasureFrom {
+  // Creation of the task
+  CREATED = 'created',
+  // First move to IN_PROGRESS; creation for tasks that never were in progress
+  STARTED = 'started',
+}
@@ -0,0 +1,4 @@
+export enum PaginationMode {
+  OFFSET = 'offset',
+  CURSOR = 'cursor',
+}
@@ -0,0 +1,4 @@
+export enum TagMatchMode {
+  ANY = 'any',
+  ALL = 'all',
+}
@@ -0,0 +1,7 @@
+export enum TaskActivityAction {
+  CREATED = 'created',
+  UPDATED = 'updated',
+  STATUS_CHANGED = 'status_changed',
+  DELETED = 'deleted',
+  RESTORED = 'restored',
+}
@@ -0,0 +1,5 @@
+export enum TaskActivitySource {
+  HTTP = 'http',
+  QUEUE = 'queue',
+  CRON = 'cron',
+}
@@ -0,0 +1,6 @@
+export enum TaskBatchUpdateResult {
+  UPDATED = 'updated',
+  // Already had every requested value, so nothing was written
+  UNCHANGED = 'unchanged',
+  FAILED = 'failed',
+}
@@ -0,0 +1,6 @@
+export enum TaskExportFormat {
+  CSV = 'csv',
+  JSONL = 'jsonl',
+  // Same content as JSONL, served under the name some tools expect
+  NDJSON = 'ndjson',
+}
@@ -0,0 +1,4 @@
+export enum TaskImportReportFormat {
+  JSON = 'json',
+  CSV = 'csv',
+}
@@ -0,0 +1,6 @@
+export enum TaskImportRowStatus {
+  CREATED = 'created',
+  // Handed to the tasks-bulk-create queue; the task is created when the job runs
+  QUEUED = 'queued',
+  FAILED = 'failed',
+}
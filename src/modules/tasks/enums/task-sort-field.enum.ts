@@ -0,0 +1,7 @@
+export enum TaskSortField {
+  CREATED_AT = 'createdAt',
+  UPDATED_AT = 'updatedAt',
+  DUE_DATE = 'dueDate',
+  PRIORITY = 'priority',
+  TITLE = 'title',
+}
@@ -0,0 +1,4 @@
+export enum WorklogSource {
+  TIMER = 'timer',
+  MANUAL = 'manual',
+}
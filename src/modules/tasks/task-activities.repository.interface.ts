@@ -0,0 +1,14 @@
+import { TaskActivity } from './entities/task-activity.entity';
+import type { PaginatedResponse, PaginationParams } from '../../common/types';
+
+export interface ITaskActivitiesRepository {
+  createMany(activitiesData: Partial<TaskActivity>[]): Promise<void>;
+
+  /** Newest first, with the actor's public fields */
+  findByTaskId(
+    taskId: string,
+    pagination: PaginationParams,
+  ): Promise<PaginatedResponse<TaskActivity>>;
+}
+
+export const TASK_ACTIVITIES_REPOSITORY = Symbol('TASK_ACTIVITIES_REPOSITORY');
@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { TaskActivity } from './entities/task-activity.entity';
+import { ITaskActivitiesRepository } from './task-activities.repository.interface';
+import type { PaginatedResponse, PaginationParams } from '../../common/types';
+
+@Injectable()
+export class TaskActivitiesRepository implements ITaskActivitiesRepository {
+  constructor(
+    @InjectRepository(TaskActivity)
+    private readonly activitiesRepo: Repository<TaskActivity>,
+  ) {}
+
+  async createMany(activitiesData: Partial<TaskActivity>[]): Promise<void> {
+    if (activitiesData.length === 0) {
+      return;
+    }
+
+    await this.activitiesRepo.save(this.activitiesRepo.create(activitiesData));
+  }
+
+  async findByTaskId(
+    taskId: string,
+    pagination: PaginationParams,
+  ): Promise<PaginatedResponse<TaskActivity>> {
+    const [data, total] = await this.activitiesRepo
+      .createQueryBuilder('activity')
+      .leftJoin('activity.actor', 'actor')
+      .addSelect(['actor.id', 'actor.name', 'actor.email'])
+      .where('activity.taskId = :taskId', { taskId })
+      .orderBy('activity.createdAt', 'DESC')
+      .addOrderBy('activity.taskVersion', 'DESC', 'NULLS LAST')
+      .skip((pagination.page - 1) * pagination.limit)
+      .take(pagination.limit)
+      .getManyAndCount();
+
+    return {
+      data,
+      total,
+      page: pagination.page,
+      limit: pagination.limit,
+      totalPages: Math.ceil(total / pagination.limit),
+    };
+  }
+}
@@ -0,0 +1,178 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { Task } from './entities/task.entity';
+import { TaskActivity, TaskActivityChanges } from './entities/task-activity.entity';
+import { TaskActivityAction } from './enums/task-activity-action.enum';
+import { TaskActivitySource } from './enums/task-activity-source.enum';
+import { TaskStatus } from './enums/task-status.enum';
+import type { ITaskActivitiesRepository } from './task-activities.repository.interface';
+import { TASK_ACTIVITIES_REPOSITORY } from './task-activities.repository.interface';
+import type { AuthUser, PaginatedResponse, PaginationParams } from '../../common/types';
+
+/** Who made a change and through which entry point; actorId is null for system changes */
+export interface TaskActivityContext {
+  actorId: string | null;
+  source: TaskActivitySource;
+}
+
+export function httpActivityContext(currentUser: AuthUser): TaskActivityContext {
+  return { actorId: currentUser.id, source: TaskActivitySource.HTTP };
+}
+
+const TRACKED_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueDate',
+  'parentId',
+  'projectId',
+  'assigneeId',
+  'estimateMinutes',
+  'storyPoints',
+] as const;
+
+type TrackedTaskFields = Partial<Pick<Task, (typeof TRACKED_FIELDS)[number]>>;
+
+@Injectable()
+export class TaskActivitiesService {
+  constructor(
+    @Inject(TASK_ACTIVITIES_REPOSITORY)
+    private readonly activitiesRepository: ITaskActivitiesRepository,
+  ) {}
+
+  async findForTask(
+    taskId: string,
+    pagination: PaginationParams,
+  ): Promise<PaginatedResponse<TaskActivity>> {
+    return this.activitiesRepository.findByTaskId(taskId, pagination);
+  }
+
+  /** Creation entries carry the initial value of every tracked field that was set */
+  async recordCreated(tasks: Task[], context: TaskActivityContext): Promise<void> {
+    await this.activitiesRepository.createMany(
+      tasks.map(task => ({
+        ...this.toEntry(task.id, TaskActivityAction.CREATED, context),
+        changes: diffTrackedFields({}, task),
+        taskVersion: task.version ?? null,
+      })),
+    );
+  }
+
+  /**
+   * Records the fields that differ between the two snapshots and returns them; nothing is
+   * written when none do
+   */
+  async recordChanges(
+    before: TrackedTaskFields,
+    after: Task,
+    context: TaskActivityContext,
+    action: TaskActivityAction = TaskActivityAction.UPDATED,
+  ): Promise<TaskActivityChanges> {
+    const changes = diffTrackedFields(before, after);
+    if (Object.keys(changes).length === 0) {
+      return changes;
+    }
+
+    await this.activitiesRepository.createMany([
+      {
+        ...this.toEntry(after.id, action, context),
+        changes,
+        taskVersion: after.version ?? null,
+      },
+    ]);
+
+    return changes;
+  }
+
+  async recordStatusChanges(
+    tasks: Pick<Task, 'id' | 'status'>[],
+    status: TaskStatus,
+    context: TaskActivityContext,
+  ): Promise<void> {
+    await this.activitiesRepository.createMany(
+      tasks
+        .filter(task => task.status !== status)
+        .map(task => ({
+          ...this.toEntry(task.id, TaskActivityAction.STATUS_CHANGED, context),
+          changes: { status: { from: task.status, to: status } },
+        })),
+    );
+  }
+
+  /** The same change applied to many tasks at once, e.g. moving a project's tasks */
+  async recordBulkChanges(
+    taskIds: string[],
+    changes: TaskActivityChanges,
+    context: TaskActivityContext,
+  ): Promise<void> {
+    await this.activitiesRepository.createMany(
+      taskIds.map(taskId => ({
+        ...this.toEntry(taskId, TaskActivityAction.UPDATED, context),
+        changes,
+      })),
+    );
+  }
+
+  async recordDeleted(taskIds: string[], context: TaskActivityContext): Promise<void> {
+    await this.activitiesRepository.createMany(
+      taskIds.map(taskId => this.toEntry(taskId, TaskActivityAction.DELETED, context)),
+    );
+  }
+
+  async recordRestored(task: Task, context: TaskActivityContext): Promise<void> {
+    await this.activitiesRepository.createMany([
+      {
+        ...this.toEntry(task.id, TaskActivityAction.RESTORED, context),
+        taskVersion: task.version ?? null,
+      },
+    ]);
+  }
+
+  private toEntry(
+    taskId: string,
+    action: TaskActivityAction,
+    context: TaskActivityContext,
+  ): Partial<TaskActivity> {
+    return {
+      taskId,
+      action,
+      actorId: context.actorId,
+      source: context.source,
+      changes: {},
+    };
+  }
+}
+
+/**
+ * Field-level diff of the tracked task fields. Dates are compared as ISO strings because
+ * cached tasks carry them serialized
+ */
+function diffTrackedFields(
+  before: TrackedTaskFields,
+  after: TrackedTaskFields,
+): TaskActivityChanges {
+  const changes: TaskActivityChanges = {};
+
+  for (const field of TRACKED_FIELDS) {
+    const from = normalizeValue(before[field]);
+    const to = normalizeValue(after[field]);
+
+    if (from !== to) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined) {
+    return null;
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  return value;
+}
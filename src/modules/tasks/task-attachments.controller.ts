@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Delete,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  ParseUUIDPipe,
+  StreamableFile,
+  Header,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { TasksService } from './tasks.service';
+import type { UploadedAttachmentFile } from './task-attachments.service';
+import { AttachmentResponseDto } from './dto/attachment-response.dto';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../users/enum/user-role.enum';
+import type { AuthUser } from '../../common/types';
+import { buildContentDisposition } from '../../common/utils/content-disposition.util';
+import {
+  ApiTaskAttachmentUpload,
+  ApiTaskAttachmentList,
+  ApiTaskAttachmentDownload,
+  ApiTaskAttachmentDelete,
+} from '../../common/decorators/swagger/api-task-attachment.decorator';
+
+@ApiTags('tasks')
+@Controller('tasks/:taskId/attachments')
+@UseGuards(JwtAuthGuard, RolesGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class TaskAttachmentsController {
+  constructor(private readonly tasksService: TasksService) {}
+
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiTaskAttachmentUpload(AttachmentResponseDto)
+  upload(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @UploadedFile() file: UploadedAttachmentFile | undefined,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.tasksService.addAttachment(taskId, file, user);
+  }
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskAttachmentList(AttachmentResponseDto)
+  findAll(@Param('taskId', ParseUUIDPipe) taskId: string, @CurrentUser() user: AuthUser) {
+    return this.tasksService.findAttachments(taskId, user);
+  }
+
+  @Get(':attachmentId/download')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @Header('X-Content-Type-Options', 'nosniff')
+  @ApiTaskAttachmentDownload()
+  async download(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @Param('attachmentId', ParseUUIDPipe) attachmentId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const { attachment, stream } = await this.tasksService.openAttachment(
+      taskId,
+      attachmentId,
+      user,
+    );
+
+    return new StreamableFile(stream, {
+      type: attachment.mimeType,
+      length: attachment.size,
+      disposition: buildContentDisposition(attachment.fileName),
+    });
+  }
+
+  @Delete(':attachmentId')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskAttachmentDelete()
+  async remove(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @Param('attachmentId', ParseUUIDPipe) attachmentId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    await this.tasksService.removeAttachment(taskId, attachmentId, user);
+    return { message: 'Attachment deleted successfully' };
+  }
+}
@@ -0,0 +1,18 @@
+import { Attachment } from './entities/attachment.entity';
+
+export interface ITaskAttachmentsRepository {
+  create(attachmentData: Partial<Attachment>): Promise<Attachment>;
+
+  /** Oldest first */
+  findByTaskId(taskId: string): Promise<Attachment[]>;
+
+  /** Includes the storage key, which is hidden everywhere else */
+  findById(id: string): Promise<Attachment | null>;
+
+  delete(id: string): Promise<number>;
+
+  /** Returns the storage keys of the deleted rows so their contents can be removed too */
+  deleteByTaskIds(taskIds: string[]): Promise<string[]>;
+}
+
+export const TASK_ATTACHMENTS_REPOSITORY = Symbol('TASK_ATTACHMENTS_REPOSITORY');
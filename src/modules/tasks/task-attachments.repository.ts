@@ -0,0 +1,57 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Attachment } from './entities/attachment.entity';
+import { ITaskAttachmentsRepository } from './task-attachments.repository.interface';
+
+@Injectable()
+export class TaskAttachmentsRepository implements ITaskAttachmentsRepository {
+  constructor(
+    @InjectRepository(Attachment)
+    private readonly attachmentsRepo: Repository<Attachment>,
+  ) {}
+
+  async create(attachmentData: Partial<Attachment>): Promise<Attachment> {
+    const attachment = this.attachmentsRepo.create(attachmentData);
+    const saved = await this.attachmentsRepo.save(attachment);
+
+    // storageKey is internal and never leaves the service layer in responses
+    const { storageKey: _storageKey, ...publicFields } = saved;
+    return publicFields as Attachment;
+  }
+
+  async findByTaskId(taskId: string): Promise<Attachment[]> {
+    return this.attachmentsRepo.find({
+      where: { taskId },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+  }
+
+  async findById(id: string): Promise<Attachment | null> {
+    return this.attachmentsRepo
+      .createQueryBuilder('attachment')
+      .addSelect('attachment.storageKey')
+      .where('attachment.id = :id', { id })
+      .getOne();
+  }
+
+  async delete(id: string): Promise<number> {
+    const result = await this.attachmentsRepo.delete(id);
+    return result.affected || 0;
+  }
+
+  async deleteByTaskIds(taskIds: string[]): Promise<string[]> {
+    if (taskIds.length === 0) {
+      return [];
+    }
+
+    const result = await this.attachmentsRepo
+      .createQueryBuilder()
+      .delete()
+      .where('task_id IN (:...taskIds)', { taskIds })
+      .returning(['storage_key'])
+      .execute();
+
+    return (result.raw as { storage_key: string }[]).map(row => row.storage_key);
+  }
+}
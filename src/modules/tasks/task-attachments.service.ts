@@ -0,0 +1,162 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { createHash, randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { Attachment } from './entities/attachment.entity';
+import type { ITaskAttachmentsRepository } from './task-attachments.repository.interface';
+import { TASK_ATTACHMENTS_REPOSITORY } from './task-attachments.repository.interface';
+import type { IFileStorage } from '../../common/storage/file-storage.interface';
+import { FILE_STORAGE } from '../../common/storage/file-storage.interface';
+import { ErrorCode, badRequest, notFound } from '../../common/errors';
+
+/** The parts of a multer file an upload needs (files are kept in memory) */
+export interface UploadedAttachmentFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+const DEFAULT_ALLOWED_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/zip',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+/** Upload size limit in bytes; multer enforces it while the request is still streaming in */
+export function getAttachmentMaxSizeBytes(): number {
+  return Number(process.env.ATTACHMENT_MAX_SIZE_BYTES ?? 10 * 1024 * 1024);
+}
+
+/**
+ * Storage and metadata of task attachments. Access checks are the caller's job (see
+ * TasksService), so task deletion can clean up without going through them
+ */
+@Injectable()
+export class TaskAttachmentsService {
+  private readonly logger = new Logger(TaskAttachmentsService.name);
+  private readonly ALLOWED_MIME_TYPES = process.env.ATTACHMENT_ALLOWED_MIME_TYPES
+    ? process.env.ATTACHMENT_ALLOWED_MIME_TYPES.split(',').map(type => type.trim().toLowerCase())
+    : DEFAULT_ALLOWED_MIME_TYPES;
+
+  constructor(
+    @Inject(TASK_ATTACHMENTS_REPOSITORY)
+    private readonly attachmentsRepository: ITaskAttachmentsRepository,
+    @Inject(FILE_STORAGE)
+    private readonly fileStorage: IFileStorage,
+  ) {}
+
+  async create(
+    taskId: string,
+    file: UploadedAttachmentFile | undefined,
+    uploadedBy: string,
+  ): Promise<Attachment> {
+    if (!file || file.size === 0) {
+      badRequest(ErrorCode.ATTACHMENT_FILE_REQUIRED);
+    }
+
+    const mimeType = file.mimetype.toLowerCase();
+    if (!this.ALLOWED_MIME_TYPES.includes(mimeType)) {
+      badRequest(ErrorCode.ATTACHMENT_TYPE_NOT_ALLOWED, {
+        mimeType,
+        allowed: this.ALLOWED_MIME_TYPES.join(', '),
+      });
+    }
+
+    // Keys never contain user input, so file names cannot influence where content is stored
+    const storageKey = `tasks/${taskId}/${randomUUID()}`;
+    await this.fileStorage.save(storageKey, file.buffer);
+
+    try {
+      return await this.attachmentsRepository.create({
+        taskId,
+        uploadedBy,
+        fileName: sanitizeFileName(file.originalname),
+        mimeType,
+        size: file.size,
+        checksum: createHash('sha256').update(file.buffer).digest('hex'),
+        storageKey,
+      });
+    } catch (error) {
+      await this.fileStorage.delete(storageKey);
+      throw error;
+    }
+  }
+
+  async findForTask(taskId: string): Promise<Attachment[]> {
+    return this.attachmentsRepository.findByTaskId(taskId);
+  }
+
+  async findOneForTask(taskId: string, attachmentId: string): Promise<Attachment> {
+    const attachment = await this.attachmentsRepository.findById(attachmentId);
+
+    if (!attachment || attachment.taskId !== taskId) {
+      notFound(ErrorCode.ATTACHMENT_NOT_FOUND);
+    }
+
+    return attachment;
+  }
+
+  async openStream(attachment: Attachment): Promise<Readable> {
+    const stream = await this.fileStorage.read(attachment.storageKey);
+
+    if (!stream) {
+      this.logger.error(`Content of attachment ${attachment.id} is missing from storage`);
+      notFound(ErrorCode.ATTACHMENT_NOT_FOUND);
+    }
+
+    return stream;
+  }
+
+  async delete(attachment: Attachment): Promise<void> {
+    await this.attachmentsRepository.delete(attachment.id);
+    await this.deleteContents([attachment.storageKey]);
+  }
+
+  /** Called whenever tasks are deleted, soft or not; restoring a task does not bring them back */
+  async removeForTasks(taskIds: string[]): Promise<void> {
+    const storageKeys = await this.attachmentsRepository.deleteByTaskIds(taskIds);
+    if (storageKeys.length === 0) {
+      return;
+    }
+
+    this.logger.debug(`Removing ${storageKeys.length} attachments of ${taskIds.length} tasks`);
+
+    await this.deleteContents(storageKeys);
+  }
+
+  /** The rows are already gone, so a failed delete only leaves an orphaned file behind */
+  private async deleteContents(storageKeys: string[]): Promise<void> {
+    const results = await Promise.allSettled(
+      storageKeys.map(storageKey => this.fileStorage.delete(storageKey)),
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        this.logger.error(
+          `Failed to delete stored file ${storageKeys[index]}: ${result.reason instanceof Error ? result.reason.message : 'Unknown error'}`,
+        );
+      }
+    });
+  }
+}
+
+/** Keeps the base name only and drops control characters; falls back to a generic name */
+function sanitizeFileName(fileName: string): string {
+  const baseName = fileName
+    .split(/[\\/]/)
+    .pop()
+    ?.replace(/[\x00-\x1f\x7f]/g, '')
+    .trim()
+    .slice(0, 255);
+
+  return baseName || 'attachment';
+}
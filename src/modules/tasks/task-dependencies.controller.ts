@@ -0,0 +1,69 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  UseGuards,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { TaskDependenciesService } from './task-dependencies.service';
+import { CreateTaskDependencyDto } from './dto/create-task-dependency.dto';
+import {
+  TaskDependencyResponseDto,
+  TaskDependenciesResponseDto,
+} from './dto/task-dependency-response.dto';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../users/enum/user-role.enum';
+import type { AuthUser } from '../../common/types';
+import {
+  ApiTaskDependencyList,
+  ApiTaskDependencyCreate,
+  ApiTaskDependencyDelete,
+} from '../../common/decorators/swagger/api-task-dependency.decorator';
+
+@ApiTags('tasks')
+@Controller('tasks/:taskId/dependencies')
+@UseGuards(JwtAuthGuard, RolesGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class TaskDependenciesController {
+  constructor(private readonly taskDependenciesService: TaskDependenciesService) {}
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskDependencyList(TaskDependenciesResponseDto)
+  findAll(@Param('taskId', ParseUUIDPipe) taskId: string, @CurrentUser() user: AuthUser) {
+    return this.taskDependenciesService.findForTask(taskId, user);
+  }
+
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskDependencyCreate(TaskDependencyResponseDto)
+  create(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @Body() createDependencyDto: CreateTaskDependencyDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.taskDependenciesService.add(taskId, createDependencyDto, user);
+  }
+
+  @Delete(':blockedById')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskDependencyDelete()
+  async remove(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @Param('blockedById', ParseUUIDPipe) blockedById: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    await this.taskDependenciesService.remove(taskId, blockedById, user);
+    return { message: 'Dependency removed successfully' };
+  }
+}
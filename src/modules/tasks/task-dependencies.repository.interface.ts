@@ -0,0 +1,35 @@
+import { Task } from './entities/task.entity';
+import { TaskDependency } from './entities/task-dependency.entity';
+
+export interface BlockedTaskSummary {
+  taskId: string;
+  userId: string;
+  title: string;
+  openBlockerCount: number;
+}
+
+export interface ITaskDependenciesRepository {
+  /**
+   * Inserts the dependency unless it would close a loop, and returns null then. Adds are
+   * serialized per organization, so two concurrent adds cannot both pass the check and form a
+   * cycle together
+   */
+  createIfAcyclic(
+    dependencyData: Pick<TaskDependency, 'taskId' | 'blockedById' | 'createdBy'>,
+    organizationId: string,
+  ): Promise<TaskDependency | null>;
+
+  exists(taskId: string, blockedById: string): Promise<boolean>;
+
+  delete(taskId: string, blockedById: string): Promise<number>;
+
+  findBlockers(taskId: string): Promise<Task[]>;
+
+  findBlocking(taskId: string): Promise<Task[]>;
+
+  findOpenBlockerIds(taskId: string): Promise<string[]>;
+
+  findBlockedByAny(blockerIds: string[]): Promise<BlockedTaskSummary[]>;
+}
+
+export const TASK_DEPENDENCIES_REPOSITORY = Symbol('TASK_DEPENDENCIES_REPOSITORY');
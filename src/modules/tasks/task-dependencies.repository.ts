@@ -0,0 +1,143 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { Task } from './entities/task.entity';
+import { TaskDependency } from './entities/task-dependency.entity';
+import { CLOSED_TASK_STATUSES } from './enums/task-status.enum';
+import {
+  BlockedTaskSummary,
+  ITaskDependenciesRepository,
+} from './task-dependencies.repository.interface';
+
+@Injectable()
+export class TaskDependenciesRepository implements ITaskDependenciesRepository {
+  constructor(
+    @InjectRepository(TaskDependency)
+    private readonly dependenciesRepo: Repository<TaskDependency>,
+  ) {}
+
+  async createIfAcyclic(
+    dependencyData: Pick<TaskDependency, 'taskId' | 'blockedById' | 'createdBy'>,
+    organizationId: string,
+  ): Promise<TaskDependency | null> {
+    return this.dependenciesRepo.manager.transaction(async transactionalEntityManager => {
+      // Held until commit; dependencies never cross organizations
+      await transactionalEntityManager.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+        `task-dependencies:${organizationId}`,
+      ]);
+
+      if (
+        await this.wouldCreateCycle(
+          transactionalEntityManager,
+          dependencyData.taskId,
+          dependencyData.blockedById,
+        )
+      ) {
+        return null;
+      }
+
+      const dependency = transactionalEntityManager.create(TaskDependency, dependencyData);
+      return transactionalEntityManager.save(dependency);
+    });
+  }
+
+  async exists(taskId: string, blockedById: string): Promise<boolean> {
+    return this.dependenciesRepo.exists({ where: { taskId, blockedById } });
+  }
+
+  async delete(taskId: string, blockedById: string): Promise<number> {
+    const result = await this.dependenciesRepo.delete({ taskId, blockedById });
+    return result.affected || 0;
+  }
+
+  async findBlockers(taskId: string): Promise<Task[]> {
+    return this.dependenciesRepo.manager
+      .createQueryBuilder(Task, 'task')
+      .innerJoin(TaskDependency, 'dep', 'dep.blockedById = task.id')
+      .where('dep.taskId = :taskId', { taskId })
+      .orderBy('task.createdAt', 'ASC')
+      .getMany();
+  }
+
+  async findBlocking(taskId: string): Promise<Task[]> {
+    return this.dependenciesRepo.manager
+      .createQueryBuilder(Task, 'task')
+      .innerJoin(TaskDependency, 'dep', 'dep.taskId = task.id')
+      .where('dep.blockedById = :taskId', { taskId })
+      .orderBy('task.createdAt', 'ASC')
+      .getMany();
+  }
+
+  async findOpenBlockerIds(taskId: string): Promise<string[]> {
+    const rows = await this.dependenciesRepo
+      .createQueryBuilder('dep')
+      .innerJoin(Task, 'blocker', 'blocker.id = dep.blockedById AND blocker.deletedAt IS NULL')
+      .select('dep.blockedById', 'id')
+      .where('dep.taskId = :taskId', { taskId })
+      .andWhere('blocker.status NOT IN (:...closedStatuses)', {
+        closedStatuses: CLOSED_TASK_STATUSES,
+      })
+      .getRawMany<{ id: string }>();
+
+    return rows.map(row => row.id);
+  }
+
+  private async wouldCreateCycle(
+    manager: EntityManager,
+    taskId: string,
+    blockedById: string,
+  ): Promise<boolean> {
+    // Follow the blocker chain upwards from the new blocker; reaching taskId closes a loop
+    const rows: { found: boolean }[] = await manager.query(
+      `
+      WITH RECURSIVE upstream AS (
+        SELECT d.blocked_by_id FROM task_dependencies d WHERE d.task_id = $1
+        UNION
+        SELECT d.blocked_by_id FROM task_dependencies d
+        INNER JOIN upstream u ON d.task_id = u.blocked_by_id
+      )
+      SELECT EXISTS (SELECT 1 FROM upstream WHERE blocked_by_id = $2) AS found
+      `,
+      [blockedById, taskId],
+    );
+
+    return Boolean(rows[0]?.found);
+  }
+
+  async findBlockedByAny(blockerIds: string[]): Promise<BlockedTaskSummary[]> {
+    if (blockerIds.length === 0) {
+      return [];
+    }
+
+    const rows: {
+      task_id: string;
+      user_id: string;
+      title: string;
+      open_blocker_count: string;
+    }[] = await this.dependenciesRepo.query(
+      `
+      SELECT
+        t.id AS task_id,
+        t.user_id,
+        t.title,
+        (
+          SELECT COUNT(*) FROM task_dependencies od
+          INNER JOIN tasks ob ON ob.id = od.blocked_by_id
+          WHERE od.task_id = t.id AND ob.status <> ALL($2) AND ob.deleted_at IS NULL
+        ) AS open_blocker_count
+      FROM tasks t
+      WHERE t.deleted_at IS NULL AND t.id IN (
+        SELECT d.task_id FROM task_dependencies d WHERE d.blocked_by_id = ANY($1::uuid[])
+      )
+      `,
+      [blockerIds, CLOSED_TASK_STATUSES],
+    );
+
+    return rows.map(row => ({
+      taskId: row.task_id,
+      userId: row.user_id,
+      title: row.title,
+      openBlockerCount: parseInt(row.open_blocker_count) || 0,
+    }));
+  }
+}
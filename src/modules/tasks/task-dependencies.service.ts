@@ -0,0 +1,77 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Task } from './entities/task.entity';
+import { TaskDependency } from './entities/task-dependency.entity';
+import { CreateTaskDependencyDto } from './dto/create-task-dependency.dto';
+import type { ITaskDependenciesRepository } from './task-dependencies.repository.interface';
+import { TASK_DEPENDENCIES_REPOSITORY } from './task-dependencies.repository.interface';
+import { TasksService } from './tasks.service';
+import type { AuthUser } from '../../common/types';
+import { ErrorCode, badRequest, conflict, notFound } from '../../common/errors';
+
+@Injectable()
+export class TaskDependenciesService {
+  private readonly logger = new Logger(TaskDependenciesService.name);
+
+  constructor(
+    @Inject(TASK_DEPENDENCIES_REPOSITORY)
+    private readonly dependenciesRepository: ITaskDependenciesRepository,
+    private readonly tasksService: TasksService,
+  ) {}
+
+  async findForTask(
+    taskId: string,
+    currentUser: AuthUser,
+  ): Promise<{ blockedBy: Task[]; blocking: Task[] }> {
+    await this.tasksService.findOne(taskId, currentUser, { withRelations: false });
+
+    const [blockedBy, blocking] = await Promise.all([
+      this.dependenciesRepository.findBlockers(taskId),
+      this.dependenciesRepository.findBlocking(taskId),
+    ]);
+
+    return { blockedBy, blocking };
+  }
+
+  async add(
+    taskId: string,
+    createDependencyDto: CreateTaskDependencyDto,
+    currentUser: AuthUser,
+  ): Promise<TaskDependency> {
+    const { blockedById } = createDependencyDto;
+
+    if (blockedById === taskId) {
+      badRequest(ErrorCode.TASK_DEPENDENCY_SELF);
+    }
+
+    const task = await this.tasksService.findOne(taskId, currentUser, {
+      withRelations: false,
+      ownerOnly: true,
+    });
+    await this.tasksService.findOne(blockedById, currentUser, { withRelations: false });
+
+    if (await this.dependenciesRepository.exists(taskId, blockedById)) {
+      conflict(ErrorCode.TASK_DEPENDENCY_EXISTS);
+    }
+
+    const dependency = await this.dependenciesRepository.createIfAcyclic(
+      { taskId, blockedById, createdBy: currentUser.id },
+      task.organizationId,
+    );
+    if (!dependency) {
+      badRequest(ErrorCode.TASK_DEPENDENCY_CYCLE);
+    }
+
+    this.logger.debug(`Task ${taskId} is now blocked by task ${blockedById}`);
+
+    return dependency;
+  }
+
+  async remove(taskId: string, blockedById: string, currentUser: AuthUser): Promise<void> {
+    await this.tasksService.findOne(taskId, currentUser, { withRelations: false, ownerOnly: true });
+
+    const deletedCount = await this.dependenciesRepository.delete(taskId, blockedById);
+    if (deletedCount === 0) {
+      notFound(ErrorCode.TASK_DEPENDENCY_NOT_FOUND);
+    }
+  }
+}
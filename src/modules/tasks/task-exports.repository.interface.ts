@@ -0,0 +1,20 @@
+import { TaskExport } from './entities/task-export.entity';
+
+export interface ITaskExportsRepository {
+  create(exportData: Partial<TaskExport>): Promise<TaskExport>;
+
+  /** Includes the storage key, which is hidden everywhere else */
+  findById(id: string, organizationId: string): Promise<TaskExport | null>;
+
+  update(id: string, exportData: Partial<TaskExport>): Promise<void>;
+
+  /**
+   * Cleanup candidates across every organization, oldest first: completed or failed exports
+   * that finished before the cutoff. Queued and running exports are never returned
+   */
+  findFinishedBefore(cutoff: Date, limit: number): Promise<Pick<TaskExport, 'id' | 'storageKey'>[]>;
+
+  delete(ids: string[]): Promise<number>;
+}
+
+export const TASK_EXPORTS_REPOSITORY = Symbol('TASK_EXPORTS_REPOSITORY');
@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { TaskExport } from './entities/task-export.entity';
+import { TaskExportStatus } from './enums/task-export-status.enum';
+import { ITaskExportsRepository } from './task-exports.repository.interface';
+
+@Injectable()
+export class TaskExportsRepository implements ITaskExportsRepository {
+  constructor(
+    @InjectRepository(TaskExport)
+    private readonly exportsRepo: Repository<TaskExport>,
+  ) {}
+
+  async create(exportData: Partial<TaskExport>): Promise<TaskExport> {
+    const taskExport = this.exportsRepo.create(exportData);
+    const saved = await this.exportsRepo.save(taskExport);
+
+    // storageKey is internal and never leaves the service layer in responses
+    const { storageKey: _storageKey, ...publicFields } = saved;
+    return publicFields as TaskExport;
+  }
+
+  async findById(id: string, organizationId: string): Promise<TaskExport | null> {
+    return this.exportsRepo
+      .createQueryBuilder('export')
+      .addSelect('export.storageKey')
+      .where('export.id = :id', { id })
+      .andWhere('export.organizationId = :organizationId', { organizationId })
+      .getOne();
+  }
+
+  async update(id: string, exportData: Partial<TaskExport>): Promise<void> {
+    await this.exportsRepo.update(id, exportData);
+  }
+
+  async findFinishedBefore(
+    cutoff: Date,
+    limit: number,
+  ): Promise<Pick<TaskExport, 'id' | 'storageKey'>[]> {
+    return this.exportsRepo
+      .createQueryBuilder('export')
+      .select(['export.id', 'export.storageKey'])
+      .where('export.status IN (:...statuses)', {
+        statuses: [TaskExportStatus.COMPLETED, TaskExportStatus.FAILED],
+      })
+      .andWhere('export.completedAt < :cutoff', { cutoff })
+      .orderBy('export.completedAt', 'ASC')
+      .limit(limit)
+      .getMany();
+  }
+
+  async delete(ids: string[]): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    const result = await this.exportsRepo.delete({ id: In(ids) });
+    return result.affected || 0;
+  }
+}
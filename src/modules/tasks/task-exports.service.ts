@@ -0,0 +1,293 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { Readable } from 'stream';
+import { TasksService } from './tasks.service';
+import { TaskExport } from './entities/task-export.entity';
+import { TaskExportQueryDto } from './dto/task-export-query.dto';
+import { TaskExportFormat } from './enums/task-export-format.enum';
+import { TaskExportStatus } from './enums/task-export-status.enum';
+import type {
+  ITasksRepository,
+  TaskExportRow,
+  TaskFilterOptions,
+} from './tasks.repository.interface';
+import { TASKS_REPOSITORY } from './tasks.repository.interface';
+import type { ITaskExportsRepository } from './task-exports.repository.interface';
+import { TASK_EXPORTS_REPOSITORY } from './task-exports.repository.interface';
+import { TaskFilterCriteria, toTaskFilterOptions } from './utils/task-filters.utils';
+import { isAdminOrSuperAdmin } from '../users/utils/users.utils';
+import type { IFileStorage } from '../../common/storage/file-storage.interface';
+import { FILE_STORAGE } from '../../common/storage/file-storage.interface';
+import { formatCsvRow } from '../../common/utils/csv.util';
+import { ErrorCode, conflict, forbid, notFound } from '../../common/errors';
+import type { AuthUser } from '../../common/types';
+
+// Tasks are read from the database cursor this many at a time
+const FETCH_BATCH_SIZE = 500;
+
+const CSV_COLUMNS: (keyof TaskExportRow)[] = [
+  'id',
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueDate',
+  'estimateMinutes',
+  'storyPoints',
+  'userId',
+  'assigneeId',
+  'projectId',
+  'teamId',
+  'parentId',
+  'tagIds',
+  'createdAt',
+  'updatedAt',
+];
+
+const CONTENT_TYPES: Record<TaskExportFormat, string> = {
+  [TaskExportFormat.CSV]: 'text/csv; charset=utf-8',
+  [TaskExportFormat.JSONL]: 'application/jsonl; charset=utf-8',
+  [TaskExportFormat.NDJSON]: 'application/x-ndjson; charset=utf-8',
+};
+
+export interface TaskExportFile {
+  stream: Readable;
+  fileName: string;
+  contentType: string;
+}
+
+/** Small exports are streamed in the response; larger ones are written by the queue */
+export type TaskExportResult =
+  | { queued: false; file: TaskExportFile }
+  | { queued: true; taskExport: TaskExport };
+
+/**
+ * Exports the tasks a GET /tasks query matches, with the same visibility rules. Rows are
+ * read through a database cursor and written out as they arrive, whatever the export size
+ */
+@Injectable()
+export class TaskExportsService {
+  private readonly logger = new Logger(TaskExportsService.name);
+  private readonly SYNC_MAX_ROWS = Number(process.env.TASK_EXPORT_SYNC_MAX_ROWS ?? 5000);
+
+  constructor(
+    private readonly tasksService: TasksService,
+    @Inject(TASKS_REPOSITORY)
+    private readonly tasksRepository: ITasksRepository,
+    @Inject(TASK_EXPORTS_REPOSITORY)
+    private readonly exportsRepository: ITaskExportsRepository,
+    @Inject(FILE_STORAGE)
+    private readonly fileStorage: IFileStorage,
+    @InjectQueue('task-processing')
+    private readonly taskQueue: Queue,
+  ) {}
+
+  async export(query: TaskExportQueryDto, currentUser: AuthUser): Promise<TaskExportResult> {
+    const { format = TaskExportFormat.CSV, ...criteria } = query;
+    const filters = this.resolveFilters(criteria, currentUser);
+
+    const matchCount = await this.tasksRepository.countWithFilters(filters);
+
+    if (matchCount <= this.SYNC_MAX_ROWS) {
+      return {
+        queued: false,
+        file: {
+          stream: Readable.from(this.formatRows(filters, format)),
+          fileName: `tasks.${format}`,
+          contentType: CONTENT_TYPES[format],
+        },
+      };
+    }
+
+    const taskExport = await this.exportsRepository.create({
+      organizationId: currentUser.organizationId,
+      userId: currentUser.id,
+      format,
+      filters: criteria,
+    });
+
+    await this.taskQueue.add(
+      'task-export',
+      {
+        exportId: taskExport.id,
+        userId: currentUser.id,
+        userRole: currentUser.role,
+        organizationId: currentUser.organizationId,
+        queuedAt: new Date().toISOString(),
+      },
+      {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+        removeOnComplete: true,
+        removeOnFail: { count: 50 },
+      },
+    );
+
+    this.logger.log(
+      `Queued export ${taskExport.id} of ${matchCount} tasks for user ${currentUser.id}`,
+    );
+
+    return { queued: true, taskExport };
+  }
+
+  /** Owners and admins of the organization */
+  async findOne(id: string, currentUser: AuthUser): Promise<TaskExport> {
+    const { storageKey: _storageKey, ...publicFields } = await this.findAccessible(id, currentUser);
+    return publicFields as TaskExport;
+  }
+
+  async openDownload(id: string, currentUser: AuthUser): Promise<TaskExportFile> {
+    const taskExport = await this.findAccessible(id, currentUser);
+
+    if (taskExport.status !== TaskExportStatus.COMPLETED || !taskExport.storageKey) {
+      conflict(ErrorCode.TASK_EXPORT_NOT_READY, { status: taskExport.status });
+    }
+
+    const stream = await this.fileStorage.read(taskExport.storageKey);
+
+    if (!stream) {
+      this.logger.error(`File of export ${id} is missing from storage`);
+      notFound(ErrorCode.TASK_EXPORT_NOT_FOUND);
+    }
+
+    return {
+      stream,
+      fileName: `tasks-${taskExport.createdAt.toISOString().slice(0, 10)}.${taskExport.format}`,
+      contentType: CONTENT_TYPES[taskExport.format],
+    };
+  }
+
+  /**
+   * Writes a queued export to the file storage. Filters are resolved again with the role
+   * the export was requested with; a retry starts the file over. Returns null when the export
+   * was deleted in the meantime
+   */
+  async run(id: string, requestedBy: AuthUser): Promise<TaskExport | null> {
+    const taskExport = await this.exportsRepository.findById(id, requestedBy.organizationId);
+
+    if (!taskExport) {
+      return null;
+    }
+
+    const storageKey = `exports/${taskExport.organizationId}/${taskExport.id}.${taskExport.format}`;
+    const filters = this.resolveFilters(taskExport.filters, requestedBy);
+    let rowCount = 0;
+
+    await this.exportsRepository.update(id, { status: TaskExportStatus.PROCESSING, error: null });
+    await this.fileStorage.delete(storageKey);
+
+    try {
+      await this.fileStorage.save(
+        storageKey,
+        Readable.from(
+          this.formatRows(filters, taskExport.format, count => {
+            rowCount += count;
+          }),
+        ),
+      );
+    } catch (error) {
+      await this.fileStorage.delete(storageKey);
+      await this.exportsRepository.update(id, {
+        status: TaskExportStatus.FAILED,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        completedAt: new Date(),
+      });
+      throw error;
+    }
+
+    const completed = {
+      status: TaskExportStatus.COMPLETED,
+      rowCount,
+      storageKey,
+      completedAt: new Date(),
+    };
+    await this.exportsRepository.update(id, completed);
+
+    this.logger.log(`Export ${id} completed with ${rowCount} tasks`);
+
+    return { ...taskExport, ...completed };
+  }
+
+  /**
+   * Deletes exports that completed or failed before the cutoff, files included. Exports still
+   * queued or running are left to their job
+   */
+  async purgeExpired(cutoff: Date, batchSize = 100): Promise<number> {
+    let purged = 0;
+
+    while (true) {
+      const expired = await this.exportsRepository.findFinishedBefore(cutoff, batchSize);
+      if (expired.length === 0) {
+        return purged;
+      }
+
+      for (const { storageKey } of expired) {
+        if (storageKey) {
+          await this.fileStorage.delete(storageKey);
+        }
+      }
+
+      purged += await this.exportsRepository.delete(expired.map(taskExport => taskExport.id));
+    }
+  }
+
+  private resolveFilters(criteria: TaskFilterCriteria, currentUser: AuthUser): TaskFilterOptions {
+    return this.tasksService.scopeFiltersForUser(
+      currentUser,
+      toTaskFilterOptions(criteria, currentUser.id),
+    );
+  }
+
+  private async findAccessible(id: string, currentUser: AuthUser): Promise<TaskExport> {
+    const taskExport = await this.exportsRepository.findById(id, currentUser.organizationId);
+
+    if (!taskExport) {
+      notFound(ErrorCode.TASK_EXPORT_NOT_FOUND);
+    }
+
+    if (taskExport.userId !== currentUser.id && !isAdminOrSuperAdmin(currentUser.role)) {
+      forbid(ErrorCode.TASK_EXPORT_NOT_OWNED);
+    }
+
+    return taskExport;
+  }
+
+  /** CSV gets a header line and tag IDs joined with `;`; JSON Lines get one task per line */
+  private async *formatRows(
+    filters: TaskFilterOptions,
+    format: TaskExportFormat,
+    onBatch?: (count: number) => void,
+  ): AsyncGenerator<string> {
+    if (format === TaskExportFormat.CSV) {
+      yield `${formatCsvRow(CSV_COLUMNS)}\r\n`;
+    }
+
+    for await (const rows of this.tasksRepository.streamWithFilters(filters, FETCH_BATCH_SIZE)) {
+      yield rows
+        .map(row =>
+          format === TaskExportFormat.CSV
+            ? `${formatCsvRow(CSV_COLUMNS.map(column => this.toCsvValue(row[column])))}\r\n`
+            : `${JSON.stringify(row)}\n`,
+        )
+        .join('');
+
+      onBatch?.(rows.length);
+    }
+  }
+
+  private toCsvValue(value: TaskExportRow[keyof TaskExportRow]): string | number | null {
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+
+    if (Array.isArray(value)) {
+      return value.join(';');
+    }
+
+    return value;
+  }
+}
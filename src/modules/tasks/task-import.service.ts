@@ -0,0 +1,284 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { TasksService } from './tasks.service';
+import type { UploadedAttachmentFile } from './task-attachments.service';
+import { CreateTaskDto } from './dto/create-task.dto';
+import {
+  TaskImportFieldErrorDto,
+  TaskImportReportDto,
+  TaskImportRowResultDto,
+} from './dto/task-import-report.dto';
+import { TaskImportRowStatus } from './enums/task-import-row-status.enum';
+import { SanitizePipe } from '../../common/pipes/sanitize.pipe';
+import { formatCsvRow, parseCsv } from '../../common/utils/csv.util';
+import { ErrorCode, badRequest } from '../../common/errors';
+import type { AuthUser } from '../../common/types';
+
+// CSV headers map to these CreateTaskDto fields; JSON Lines rows use the same names
+const IMPORT_COLUMNS: (keyof CreateTaskDto)[] = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueDate',
+  'estimateMinutes',
+  'storyPoints',
+  'parentId',
+  'projectId',
+  'teamId',
+  'recurrence',
+];
+
+// CSV cells are text; these columns are converted so validation sees numbers
+const NUMERIC_COLUMNS: (keyof CreateTaskDto)[] = ['estimateMinutes', 'storyPoints'];
+
+// Imports up to the limit of POST /tasks/batch are created during the request
+const SYNC_MAX_ROWS = 100;
+
+// Larger imports go through the tasks-bulk-create queue in jobs of this many tasks
+const QUEUE_CHUNK_SIZE = 500;
+
+interface ImportRow {
+  row: number;
+  data?: Record<string, unknown>;
+  dto?: CreateTaskDto;
+  errors: TaskImportFieldErrorDto[];
+}
+
+/**
+ * Creates tasks from CSV or JSON Lines uploads. Every row goes through the CreateTaskDto rules
+ * and the reference checks of a batch create; rows that fail are reported, the rest are created
+ */
+@Injectable()
+export class TaskImportService {
+  private readonly logger = new Logger(TaskImportService.name);
+  private readonly MAX_ROWS = Number(process.env.TASK_IMPORT_MAX_ROWS ?? 10000);
+  // Rows are sanitized like the bodies of POST /tasks and POST /tasks/batch
+  private readonly sanitizePipe = new SanitizePipe();
+
+  constructor(private readonly tasksService: TasksService) {}
+
+  async import(
+    file: UploadedAttachmentFile | undefined,
+    currentUser: AuthUser,
+  ): Promise<TaskImportReportDto> {
+    if (!file || file.size === 0) {
+      badRequest(ErrorCode.TASK_IMPORT_FILE_REQUIRED);
+    }
+
+    const text = file.buffer.toString('utf8');
+    const rows = this.isCsv(file)
+      ? this.readCsv(text)
+      : this.isJsonLines(file)
+        ? this.readJsonLines(text)
+        : badRequest(ErrorCode.TASK_IMPORT_FORMAT_UNSUPPORTED);
+
+    if (rows.length === 0) {
+      badRequest(ErrorCode.TASK_IMPORT_EMPTY);
+    }
+
+    if (rows.length > this.MAX_ROWS) {
+      badRequest(ErrorCode.TASK_IMPORT_TOO_MANY_ROWS, { max: this.MAX_ROWS });
+    }
+
+    for (const row of rows) {
+      if (row.data) {
+        await this.validateRow(row);
+      }
+    }
+
+    const candidates = rows.filter(row => row.dto);
+    const referenceErrors = await this.tasksService.findBatchCreateErrors(
+      candidates.map(row => row.dto as CreateTaskDto),
+      currentUser,
+    );
+    for (const [index, errors] of referenceErrors) {
+      candidates[index].errors.push(
+        ...errors.map(error => ({ field: error.field, messages: [error.message] })),
+      );
+    }
+
+    const validRows = candidates.filter(row => row.errors.length === 0);
+    const results = new Map<ImportRow, TaskImportRowResultDto>();
+
+    if (validRows.length > SYNC_MAX_ROWS) {
+      for (let i = 0; i < validRows.length; i += QUEUE_CHUNK_SIZE) {
+        const chunk = validRows.slice(i, i + QUEUE_CHUNK_SIZE);
+        const job = await this.tasksService.queueBulkCreate(
+          chunk.map(row => row.dto as CreateTaskDto),
+          currentUser,
+        );
+
+        for (const row of chunk) {
+          results.set(row, { row: row.row, status: TaskImportRowStatus.QUEUED, jobId: job.id });
+        }
+      }
+    } else if (validRows.length > 0) {
+      // Saved in one transaction, in input order
+      const { tasks } = await this.tasksService.batchCreate(
+        validRows.map(row => row.dto as CreateTaskDto),
+        currentUser,
+      );
+
+      validRows.forEach((row, index) => {
+        results.set(row, {
+          row: row.row,
+          status: TaskImportRowStatus.CREATED,
+          taskId: tasks[index].id,
+        });
+      });
+    }
+
+    const report = rows.map(
+      row =>
+        results.get(row) ?? {
+          row: row.row,
+          status: TaskImportRowStatus.FAILED,
+          errors: row.errors,
+        },
+    );
+    const count = (status: TaskImportRowStatus) => report.filter(r => r.status === status).length;
+
+    this.logger.log(
+      `Imported ${file.originalname} for user ${currentUser.id}: ${count(TaskImportRowStatus.CREATED)} created, ${count(TaskImportRowStatus.QUEUED)} queued, ${count(TaskImportRowStatus.FAILED)} failed`,
+    );
+
+    return {
+      fileName: file.originalname,
+      totalRows: rows.length,
+      created: count(TaskImportRowStatus.CREATED),
+      queued: count(TaskImportRowStatus.QUEUED),
+      failed: count(TaskImportRowStatus.FAILED),
+      rows: report,
+    };
+  }
+
+  /** One line per row; field errors are joined into a single `field: message` column */
+  formatReportAsCsv(report: TaskImportReportDto): string {
+    const lines = [formatCsvRow(['row', 'status', 'taskId', 'jobId', 'errors'])];
+
+    for (const row of report.rows) {
+      const errors = (row.errors ?? [])
+        .flatMap(error =>
+          error.messages.map(message => (error.field ? `${error.field}: ${message}` : message)),
+        )
+        .join('; ');
+
+      lines.push(formatCsvRow([row.row, row.status, row.taskId, row.jobId, errors]));
+    }
+
+    return `${lines.join('\r\n')}\r\n`;
+  }
+
+  private isCsv(file: UploadedAttachmentFile): boolean {
+    return /\.csv$/i.test(file.originalname) || file.mimetype.toLowerCase() === 'text/csv';
+  }
+
+  private isJsonLines(file: UploadedAttachmentFile): boolean {
+    return (
+      /\.(jsonl|ndjson)$/i.test(file.originalname) ||
+      ['application/jsonl', 'application/x-ndjson'].includes(file.mimetype.toLowerCase())
+    );
+  }
+
+  /** The first record is the header; empty cells are left out so optional fields stay unset */
+  private readCsv(text: string): ImportRow[] {
+    const records = parseCsv(text);
+    if (!records) {
+      badRequest(ErrorCode.TASK_IMPORT_MALFORMED);
+    }
+
+    const [header, ...body] = records;
+    if (!header) {
+      return [];
+    }
+
+    const columns = header.fields.map(column => column.trim());
+    const unknownColumns = columns.filter(
+      column => !IMPORT_COLUMNS.includes(column as keyof CreateTaskDto),
+    );
+    if (unknownColumns.length > 0) {
+      badRequest(ErrorCode.TASK_IMPORT_UNKNOWN_COLUMNS, { columns: unknownColumns.join(', ') });
+    }
+
+    return body.map(record => {
+      if (record.fields.length !== columns.length) {
+        return {
+          row: record.line,
+          errors: [
+            {
+              field: null,
+              messages: [`Expected ${columns.length} fields, found ${record.fields.length}`],
+            },
+          ],
+        };
+      }
+
+      const data: Record<string, unknown> = {};
+      columns.forEach((column, index) => {
+        const value = record.fields[index].trim();
+        if (value === '') {
+          return;
+        }
+
+        data[column] =
+          NUMERIC_COLUMNS.includes(column as keyof CreateTaskDto) && /^-?\d+$/.test(value)
+            ? Number(value)
+            : value;
+      });
+
+      return { row: record.line, data, errors: [] };
+    });
+  }
+
+  /** One JSON object per line; blank lines are skipped */
+  private readJsonLines(text: string): ImportRow[] {
+    const rows: ImportRow[] = [];
+
+    text.split(/\r?\n/).forEach((line, index) => {
+      if (line.trim() === '') {
+        return;
+      }
+
+      const row = index + 1;
+      let data: unknown;
+      try {
+        data = JSON.parse(line);
+      } catch {
+        rows.push({ row, errors: [{ field: null, messages: ['Row is not valid JSON'] }] });
+        return;
+      }
+
+      if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        rows.push({ row, errors: [{ field: null, messages: ['Row must be a JSON object'] }] });
+        return;
+      }
+
+      rows.push({ row, data: data as Record<string, unknown>, errors: [] });
+    });
+
+    return rows;
+  }
+
+  /** Same rules as the global ValidationPipe applies to POST /tasks */
+  private async validateRow(row: ImportRow): Promise<void> {
+    const dto = plainToInstance(
+      CreateTaskDto,
+      this.sanitizePipe.transform(row.data, { type: 'body' }),
+    );
+    const errors = await validate(dto, { whitelist: true, forbidNonWhitelisted: true });
+
+    if (errors.length > 0) {
+      row.errors.push(
+        ...errors.map(error => ({
+          field: error.property,
+          messages: Object.values(error.constraints ?? {}),
+        })),
+      );
+      return;
+    }
+
+    row.dto = dto;
+  }
+}
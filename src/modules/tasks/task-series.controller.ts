@@ -0,0 +1,78 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  UseGuards,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { TaskSeriesService } from './task-series.service';
+import { UpdateTaskSeriesDto } from './dto/update-task-series.dto';
+import { TaskSeriesResponseDto, StopTaskSeriesResponseDto } from './dto/task-series-response.dto';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../users/enum/user-role.enum';
+import type { AuthUser } from '../../common/types';
+import { SanitizeInput } from '../../common/decorators/sanitize-input.decorator';
+import {
+  ApiTaskSeriesList,
+  ApiTaskSeriesGet,
+  ApiTaskSeriesUpdate,
+  ApiTaskSeriesStop,
+} from '../../common/decorators/swagger/api-task-series.decorator';
+
+@ApiTags('task-series')
+@Controller('task-series')
+@UseGuards(JwtAuthGuard, RolesGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class TaskSeriesController {
+  constructor(private readonly taskSeriesService: TaskSeriesService) {}
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskSeriesList(TaskSeriesResponseDto)
+  findAll(@CurrentUser() user: AuthUser) {
+    return this.taskSeriesService.findAllForUser(user);
+  }
+
+  @Get(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskSeriesGet(TaskSeriesResponseDto)
+  findOne(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.taskSeriesService.findOne(id, user);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @SanitizeInput()
+  @ApiTaskSeriesUpdate(TaskSeriesResponseDto)
+  update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateSeriesDto: UpdateTaskSeriesDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.taskSeriesService.update(id, updateSeriesDto, user);
+  }
+
+  @Post(':id/stop')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskSeriesStop(StopTaskSeriesResponseDto)
+  async stop(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    const removedCount = await this.taskSeriesService.stop(id, user);
+    return {
+      message: 'Series stopped successfully',
+      removedCount,
+    };
+  }
+}
@@ -0,0 +1,40 @@
+import { Task } from './entities/task.entity';
+import { TaskSeries } from './entities/task-series.entity';
+
+export type SeriesOccurrenceUpdate = Partial<Pick<Task, 'title' | 'description' | 'priority'>>;
+
+export interface ITaskSeriesRepository {
+  /** Creates the series together with its first occurrence in one transaction */
+  createWithFirstOccurrence(
+    seriesData: Partial<TaskSeries>,
+    taskData: Partial<Task>,
+  ): Promise<{ series: TaskSeries; task: Task }>;
+
+  findById(id: string, organizationId: string): Promise<TaskSeries | null>;
+
+  /** Series of the organization; all users when userId is omitted */
+  findAll(organizationId: string, userId?: string): Promise<TaskSeries[]>;
+
+  /** Active series of every organization whose latest occurrence is due at or before the given date */
+  findDue(before: Date, limit: number): Promise<TaskSeries[]>;
+
+  update(id: string, seriesData: Partial<TaskSeries>): Promise<TaskSeries>;
+
+  /**
+   * Records the next occurrence and creates its task. Returns null when the series
+   * changed since it was read (another worker already advanced or stopped it)
+   */
+  advance(series: TaskSeries, occurrenceAt: Date, taskData: Partial<Task>): Promise<Task | null>;
+
+  /** Applies template changes to pending occurrences due from the given date; returns their IDs */
+  updatePendingOccurrences(
+    seriesId: string,
+    from: Date,
+    taskData: SeriesOccurrenceUpdate,
+  ): Promise<string[]>;
+
+  /** Deletes pending occurrences due from the given date; returns their IDs */
+  deletePendingOccurrences(seriesId: string, from: Date): Promise<string[]>;
+}
+
+export const TASK_SERIES_REPOSITORY = Symbol('TASK_SERIES_REPOSITORY');
@@ -0,0 +1,145 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Task } from './entities/task.entity';
+import { TaskSeries } from './entities/task-series.entity';
+import { TaskStatus } from './enums/task-status.enum';
+import { ITaskSeriesRepository, SeriesOccurrenceUpdate } from './task-series.repository.interface';
+
+@Injectable()
+export class TaskSeriesRepository implements ITaskSeriesRepository {
+  constructor(
+    @InjectRepository(TaskSeries)
+    private readonly seriesRepo: Repository<TaskSeries>,
+  ) {}
+
+  async createWithFirstOccurrence(
+    seriesData: Partial<TaskSeries>,
+    taskData: Partial<Task>,
+  ): Promise<{ series: TaskSeries; task: Task }> {
+    return this.seriesRepo.manager.transaction(async transactionalEntityManager => {
+      const series = await transactionalEntityManager.save(
+        TaskSeries,
+        transactionalEntityManager.create(TaskSeries, seriesData),
+      );
+
+      const task = await transactionalEntityManager.save(
+        Task,
+        transactionalEntityManager.create(Task, { ...taskData, seriesId: series.id }),
+      );
+
+      return { series, task };
+    });
+  }
+
+  async findById(id: string, organizationId: string): Promise<TaskSeries | null> {
+    return this.seriesRepo.findOne({ where: { id, organizationId } });
+  }
+
+  async findAll(organizationId: string, userId?: string): Promise<TaskSeries[]> {
+    const query = this.seriesRepo
+      .createQueryBuilder('series')
+      .where('series.organizationId = :organizationId', { organizationId })
+      .orderBy('series.createdAt', 'DESC');
+
+    if (userId) {
+      query.andWhere('series.userId = :userId', { userId });
+    }
+
+    return query.getMany();
+  }
+
+  async findDue(before: Date, limit: number): Promise<TaskSeries[]> {
+    return this.seriesRepo
+      .createQueryBuilder('series')
+      .where('series.active = true')
+      .andWhere('series.lastOccurrenceAt <= :before', { before })
+      .orderBy('series.lastOccurrenceAt', 'ASC')
+      .take(limit)
+      .getMany();
+  }
+
+  async update(id: string, seriesData: Partial<TaskSeries>): Promise<TaskSeries> {
+    return this.seriesRepo.manager.transaction(async transactionalEntityManager => {
+      await transactionalEntityManager.update(TaskSeries, id, seriesData);
+
+      const updatedSeries = await transactionalEntityManager.findOne(TaskSeries, {
+        where: { id },
+      });
+
+      if (!updatedSeries) {
+        throw new Error(`Task series with ID ${id} not found after update`);
+      }
+
+      return updatedSeries;
+    });
+  }
+
+  async advance(
+    series: TaskSeries,
+    occurrenceAt: Date,
+    taskData: Partial<Task>,
+  ): Promise<Task | null> {
+    return this.seriesRepo.manager.transaction(async transactionalEntityManager => {
+      // Compare-and-set on the version so completion and the cron job never both create the next occurrence
+      const result = await transactionalEntityManager
+        .createQueryBuilder()
+        .update(TaskSeries)
+        .set({
+          lastOccurrenceAt: occurrenceAt,
+          occurrenceCount: () => 'occurrence_count + 1',
+        })
+        .where('id = :id', { id: series.id })
+        .andWhere('version = :version', { version: series.version })
+        .andWhere('active = true')
+        .execute();
+
+      if (!result.affected) {
+        return null;
+      }
+
+      return transactionalEntityManager.save(
+        Task,
+        transactionalEntityManager.create(Task, {
+          ...taskData,
+          seriesId: series.id,
+          dueDate: occurrenceAt,
+        }),
+      );
+    });
+  }
+
+  async updatePendingOccurrences(
+    seriesId: string,
+    from: Date,
+    taskData: SeriesOccurrenceUpdate,
+  ): Promise<string[]> {
+    const result = await this.seriesRepo.manager
+      .createQueryBuilder()
+      .update(Task)
+      .set(taskData)
+      .where('series_id = :seriesId', { seriesId })
+      .andWhere('status = :status', { status: TaskStatus.PENDING })
+      .andWhere('due_date >= :from', { from })
+      .andWhere('deleted_at IS NULL')
+      .returning(['id'])
+      .execute();
+
+    return (result.raw as { id: string }[]).map(row => row.id);
+  }
+
+  async deletePendingOccurrences(seriesId: string, from: Date): Promise<string[]> {
+    const result = await this.seriesRepo.manager
+      .createQueryBuilder()
+      .softDelete()
+      .from(Task)
+      .where('series_id = :seriesId', { seriesId })
+      .andWhere('status = :status', { status: TaskStatus.PENDING })
+      .andWhere('due_date >= :from', { from })
+      .andWhere('deleted_at IS NULL')
+      .returning(['id'])
+      .execute();
+
+    return (result.raw as { id: string }[]).map(row => row.id);
+  }
+}
@@ -0,0 +1,247 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Task } from './entities/task.entity';
+import { TaskSeries } from './entities/task-series.entity';
+import { TaskStatus } from './enums/task-status.enum';
+import { UpdateTaskSeriesDto } from './dto/update-task-series.dto';
+import type { ITaskSeriesRepository } from './task-series.repository.interface';
+import { TASK_SERIES_REPOSITORY } from './task-series.repository.interface';
+import {
+  TaskActivitiesService,
+  TaskActivityContext,
+  httpActivityContext,
+} from './task-activities.service';
+import { TaskActivitySource } from './enums/task-activity-source.enum';
+import { TaskAttachmentsService } from './task-attachments.service';
+import type { AuthUser } from '../../common/types';
+import { CacheService } from '../../common/services/cache.service';
+import {
+  bumpCacheNamespace,
+  buildEntityCacheKey,
+  buildUserScope,
+} from '../../common/utils/cache.util';
+import { nextOccurrence, parseRecurrenceRule } from '../../common/utils/rrule.util';
+import { isAdminOrSuperAdmin } from '../users/utils/users.utils';
+import { ErrorCode, conflict, forbid, notFound } from '../../common/errors';
+
+@Injectable()
+export class TaskSeriesService {
+  private readonly logger = new Logger(TaskSeriesService.name);
+
+  constructor(
+    @Inject(TASK_SERIES_REPOSITORY)
+    private readonly seriesRepository: ITaskSeriesRepository,
+    private readonly cacheService: CacheService,
+    private readonly taskActivitiesService: TaskActivitiesService,
+    private readonly taskAttachmentsService: TaskAttachmentsService,
+  ) {}
+
+  /**
+   * Starts a series from a regular task payload; the task itself becomes the first occurrence
+   */
+  async createWithFirstOccurrence(taskData: Partial<Task>, rrule: string): Promise<Task> {
+    const firstDueDate = taskData.dueDate as Date;
+
+    const { task } = await this.seriesRepository.createWithFirstOccurrence(
+      {
+        title: taskData.title,
+        description: taskData.description ?? null,
+        priority: taskData.priority,
+        rrule,
+        startsAt: firstDueDate,
+        lastOccurrenceAt: firstDueDate,
+        userId: taskData.userId,
+        organizationId: taskData.organizationId,
+      },
+      taskData,
+    );
+
+    return task;
+  }
+
+  async findAllForUser(currentUser: AuthUser): Promise<TaskSeries[]> {
+    if (isAdminOrSuperAdmin(currentUser.role)) {
+      return this.seriesRepository.findAll(currentUser.organizationId);
+    }
+
+    return this.seriesRepository.findAll(currentUser.organizationId, currentUser.id);
+  }
+
+  async findOne(id: string, currentUser: AuthUser): Promise<TaskSeries> {
+    const series = await this.seriesRepository.findById(id, currentUser.organizationId);
+
+    if (!series) {
+      notFound(ErrorCode.TASK_SERIES_NOT_FOUND);
+    }
+
+    if (!isAdminOrSuperAdmin(currentUser.role) && series.userId !== currentUser.id) {
+      forbid(ErrorCode.TASK_SERIES_NOT_OWNED);
+    }
+
+    return series;
+  }
+
+  /**
+   * Edits the template and every pending occurrence that is not yet due. A new rule is
+   * anchored at the latest occurrence, so already generated tasks are left alone
+   */
+  async update(
+    id: string,
+    updateSeriesDto: UpdateTaskSeriesDto,
+    currentUser: AuthUser,
+  ): Promise<TaskSeries> {
+    const series = await this.findOne(id, currentUser);
+
+    if (!series.active) {
+      conflict(ErrorCode.TASK_SERIES_STOPPED);
+    }
+
+    const { rrule, ...templateChanges } = updateSeriesDto;
+
+    const updatedSeries = await this.seriesRepository.update(id, {
+      ...templateChanges,
+      ...(rrule && {
+        rrule,
+        startsAt: series.lastOccurrenceAt,
+        occurrenceCount: 1,
+      }),
+    });
+
+    if (Object.keys(templateChanges).length > 0) {
+      const updatedTaskIds = await this.seriesRepository.updatePendingOccurrences(
+        id,
+        new Date(),
+        templateChanges,
+      );
+      await this.invalidateOccurrences(series, updatedTaskIds);
+    }
+
+    return updatedSeries;
+  }
+
+  /**
+   * Stops generating occurrences and moves pending ones that are not yet due to the trash.
+   * Past and started occurrences stay as regular tasks
+   */
+  async stop(id: string, currentUser: AuthUser): Promise<number> {
+    const series = await this.findOne(id, currentUser);
+
+    if (series.active) {
+      await this.seriesRepository.update(id, { active: false });
+    }
+
+    const removedTaskIds = await this.seriesRepository.deletePendingOccurrences(id, new Date());
+    await this.taskAttachmentsService.removeForTasks(removedTaskIds);
+    await this.taskActivitiesService.recordDeleted(
+      removedTaskIds,
+      httpActivityContext(currentUser),
+    );
+    await this.invalidateOccurrences(series, removedTaskIds);
+
+    this.logger.log(`Stopped series ${id}, removed ${removedTaskIds.length} pending occurrences`);
+
+    return removedTaskIds.length;
+  }
+
+  /**
+   * Completing the latest occurrence creates the next one right away instead of waiting
+   * for the scheduler. Older occurrences do not move the series
+   */
+  async handleOccurrenceCompleted(task: Task): Promise<Task | null> {
+    if (!task.seriesId || !task.dueDate) {
+      return null;
+    }
+
+    const series = await this.seriesRepository.findById(task.seriesId, task.organizationId);
+    if (!series?.active) {
+      return null;
+    }
+
+    if (new Date(task.dueDate).getTime() !== new Date(series.lastOccurrenceAt).getTime()) {
+      return null;
+    }
+
+    return this.spawnNextOccurrence(series, series.lastOccurrenceAt, {
+      actorId: null,
+      source: TaskActivitySource.HTTP,
+    });
+  }
+
+  /**
+   * Creates the upcoming occurrence for every series whose latest occurrence is already due.
+   * Occurrences missed while nothing was running are skipped rather than back-filled
+   */
+  async spawnDueOccurrences(now: Date = new Date(), batchSize = 100): Promise<number> {
+    const dueSeries = await this.seriesRepository.findDue(now, batchSize);
+
+    let created = 0;
+    for (const series of dueSeries) {
+      try {
+        const task = await this.spawnNextOccurrence(series, now, {
+          actorId: null,
+          source: TaskActivitySource.CRON,
+        });
+        if (task) {
+          created++;
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to create next occurrence for series ${series.id}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+      }
+    }
+
+    return created;
+  }
+
+  private async spawnNextOccurrence(
+    series: TaskSeries,
+    after: Date,
+    activityContext: TaskActivityContext,
+  ): Promise<Task | null> {
+    const rule = parseRecurrenceRule(series.rrule);
+    const occurrenceAt = nextOccurrence(rule, new Date(series.startsAt), after);
+
+    if (!occurrenceAt) {
+      this.logger.log(`Series ${series.id} has no further occurrences, deactivating`);
+      await this.seriesRepository.update(series.id, { active: false });
+      return null;
+    }
+
+    const task = await this.seriesRepository.advance(series, occurrenceAt, {
+      title: series.title,
+      description: series.description ?? undefined,
+      priority: series.priority,
+      status: TaskStatus.PENDING,
+      userId: series.userId,
+      organizationId: series.organizationId,
+    });
+
+    if (!task) {
+      this.logger.debug(`Series ${series.id} was advanced concurrently, skipping`);
+      return null;
+    }
+
+    this.logger.debug(`Created occurrence ${task.id} of series ${series.id} due ${occurrenceAt}`);
+
+    await this.taskActivitiesService.recordCreated([task], activityContext);
+
+    await bumpCacheNamespace(
+      this.cacheService,
+      buildUserScope(series.organizationId, series.userId),
+    );
+
+    return task;
+  }
+
+  private async invalidateOccurrences(series: TaskSeries, taskIds: string[]): Promise<void> {
+    if (taskIds.length === 0) {
+      return;
+    }
+
+    await this.cacheService.deleteMany(taskIds.map(taskId => buildEntityCacheKey('task', taskId)));
+    await bumpCacheNamespace(
+      this.cacheService,
+      buildUserScope(series.organizationId, series.userId),
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { TaskStatusTransition } from './entities/task-status-transition.entity';
+import { TaskStatus } from './enums/task-status.enum';
+
+export interface TaskStatusTransitionInput {
+  fromStatus: TaskStatus;
+  toStatus: TaskStatus;
+}
+
+export interface ITaskStatusTransitionsRepository {
+  findAll(): Promise<TaskStatusTransition[]>;
+
+  /** Swaps the whole workflow in one transaction */
+  replaceAll(
+    transitions: TaskStatusTransitionInput[],
+    createdBy: string,
+  ): Promise<TaskStatusTransition[]>;
+}
+
+export const TASK_STATUS_TRANSITIONS_REPOSITORY = Symbol('TASK_STATUS_TRANSITIONS_REPOSITORY');
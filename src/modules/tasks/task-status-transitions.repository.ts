@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { TaskStatusTransition } from './entities/task-status-transition.entity';
+import {
+  ITaskStatusTransitionsRepository,
+  TaskStatusTransitionInput,
+} from './task-status-transitions.repository.interface';
+
+@Injectable()
+export class TaskStatusTransitionsRepository implements ITaskStatusTransitionsRepository {
+  constructor(
+    @InjectRepository(TaskStatusTransition)
+    private readonly transitionsRepo: Repository<TaskStatusTransition>,
+  ) {}
+
+  async findAll(): Promise<TaskStatusTransition[]> {
+    return this.transitionsRepo.find({
+      order: { fromStatus: 'ASC', toStatus: 'ASC' },
+    });
+  }
+
+  async replaceAll(
+    transitions: TaskStatusTransitionInput[],
+    createdBy: string,
+  ): Promise<TaskStatusTransition[]> {
+    return this.transitionsRepo.manager.transaction(async transactionalEntityManager => {
+      await transactionalEntityManager.query('DELETE FROM task_status_transitions');
+
+      return transactionalEntityManager.save(
+        transitions.map(transition =>
+          transactionalEntityManager.create(TaskStatusTransition, { ...transition, createdBy }),
+        ),
+      );
+    });
+  }
+}
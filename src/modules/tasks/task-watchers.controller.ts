@@ -0,0 +1,40 @@
+import { Controller, Post, Param, Delete, UseGuards, ParseUUIDPipe } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { TaskWatchersService } from './task-watchers.service';
+import { TaskWatcherResponseDto } from './dto/task-watcher-response.dto';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../users/enum/user-role.enum';
+import type { AuthUser } from '../../common/types';
+import {
+  ApiTaskWatch,
+  ApiTaskUnwatch,
+} from '../../common/decorators/swagger/api-task-watcher.decorator';
+
+@ApiTags('tasks')
+@Controller('tasks/:taskId/watchers')
+@UseGuards(JwtAuthGuard, RolesGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class TaskWatchersController {
+  constructor(private readonly taskWatchersService: TaskWatchersService) {}
+
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskWatch(TaskWatcherResponseDto)
+  watch(@Param('taskId', ParseUUIDPipe) taskId: string, @CurrentUser() user: AuthUser) {
+    return this.taskWatchersService.watch(taskId, user);
+  }
+
+  @Delete()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskUnwatch()
+  async unwatch(@Param('taskId', ParseUUIDPipe) taskId: string, @CurrentUser() user: AuthUser) {
+    await this.taskWatchersService.unwatch(taskId, user);
+    return { message: 'Stopped watching task' };
+  }
+}
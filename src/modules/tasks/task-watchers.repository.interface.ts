@@ -0,0 +1,31 @@
+import { Task } from './entities/task.entity';
+import { TaskWatcher } from './entities/task-watcher.entity';
+import { PaginatedResult, PaginationOptions } from './tasks.repository.interface';
+
+export interface ITaskWatchersRepository {
+  create(taskId: string, userId: string): Promise<TaskWatcher>;
+
+  exists(taskId: string, userId: string): Promise<boolean>;
+
+  delete(taskId: string, userId: string): Promise<number>;
+
+  /**
+   * Watchers who can still read the task: its owner, its assignee, members of the team it is
+   * shared with and admins
+   */
+  findUserIdsWithAccess(taskId: string): Promise<string[]>;
+
+  /**
+   * Most recently watched first, only tasks of the given organization; trashed tasks are left
+   * out. With `readableOnly`, tasks the user lost access to (e.g. after being unassigned or
+   * leaving the team) are skipped as well
+   */
+  findWatchedTasks(
+    userId: string,
+    organizationId: string,
+    pagination: PaginationOptions,
+    readableOnly: boolean,
+  ): Promise<PaginatedResult<Task>>;
+}
+
+export const TASK_WATCHERS_REPOSITORY = Symbol('TASK_WATCHERS_REPOSITORY');
@@ -0,0 +1,86 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Task } from './entities/task.entity';
+import { TaskWatcher } from './entities/task-watcher.entity';
+import { User } from '../users/entities/user.entity';
+import { UserRole } from '../users/enum/user-role.enum';
+import { ITaskWatchersRepository } from './task-watchers.repository.interface';
+import { PaginatedResult, PaginationOptions } from './tasks.repository.interface';
+
+// Members of the team a task is shared with can read it
+const TEAM_MEMBER_CONDITION =
+  'EXISTS (SELECT 1 FROM team_members tm WHERE tm.team_id = task.teamId AND tm.user_id = watcher.userId)';
+
+@Injectable()
+export class TaskWatchersRepository implements ITaskWatchersRepository {
+  constructor(
+    @InjectRepository(TaskWatcher)
+    private readonly watchersRepo: Repository<TaskWatcher>,
+  ) {}
+
+  async create(taskId: string, userId: string): Promise<TaskWatcher> {
+    const watcher = this.watchersRepo.create({ taskId, userId });
+    return this.watchersRepo.save(watcher);
+  }
+
+  async exists(taskId: string, userId: string): Promise<boolean> {
+    return this.watchersRepo.exists({ where: { taskId, userId } });
+  }
+
+  async delete(taskId: string, userId: string): Promise<number> {
+    const result = await this.watchersRepo.delete({ taskId, userId });
+    return result.affected || 0;
+  }
+
+  async findUserIdsWithAccess(taskId: string): Promise<string[]> {
+    const rows = await this.watchersRepo
+      .createQueryBuilder('watcher')
+      .innerJoin(Task, 'task', 'task.id = watcher.taskId')
+      .innerJoin(User, 'user', 'user.id = watcher.userId')
+      .select('watcher.userId', 'userId')
+      .where('watcher.taskId = :taskId', { taskId })
+      .andWhere(
+        `(watcher.userId = task.userId OR watcher.userId = task.assigneeId OR user.role IN (:...adminRoles) OR ${TEAM_MEMBER_CONDITION})`,
+        { adminRoles: [UserRole.ADMIN, UserRole.SUPER_ADMIN] },
+      )
+      .getRawMany<{ userId: string }>();
+
+    return rows.map(row => row.userId);
+  }
+
+  async findWatchedTasks(
+    userId: string,
+    organizationId: string,
+    pagination: PaginationOptions,
+    readableOnly: boolean,
+  ): Promise<PaginatedResult<Task>> {
+    const query = this.watchersRepo.manager
+      .createQueryBuilder(Task, 'task')
+      .innerJoin(TaskWatcher, 'watcher', 'watcher.taskId = task.id')
+      .where('watcher.userId = :userId', { userId })
+      .andWhere('task.organizationId = :organizationId', { organizationId });
+
+    if (readableOnly) {
+      query.andWhere(
+        `(task.userId = :userId OR task.assigneeId = :userId OR ${TEAM_MEMBER_CONDITION})`,
+      );
+    }
+
+    const [data, total] = await query
+      .orderBy('watcher.createdAt', 'DESC')
+      .addOrderBy('task.id', 'DESC')
+      // One watcher row per task, so plain OFFSET/LIMIT pages correctly
+      .offset((pagination.page - 1) * pagination.limit)
+      .limit(pagination.limit)
+      .getManyAndCount();
+
+    return {
+      data,
+      total,
+      page: pagination.page,
+      limit: pagination.limit,
+      totalPages: Math.ceil(total / pagination.limit),
+    };
+  }
+}
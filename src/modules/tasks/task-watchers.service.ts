@@ -0,0 +1,60 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Task } from './entities/task.entity';
+import { TaskWatcher } from './entities/task-watcher.entity';
+import type { ITaskWatchersRepository } from './task-watchers.repository.interface';
+import { TASK_WATCHERS_REPOSITORY } from './task-watchers.repository.interface';
+import { PaginatedResult, PaginationOptions } from './tasks.repository.interface';
+import { TasksService } from './tasks.service';
+import type { AuthUser } from '../../common/types';
+import { isAdminOrSuperAdmin } from '../users/utils/users.utils';
+import { ErrorCode, conflict, notFound } from '../../common/errors';
+
+@Injectable()
+export class TaskWatchersService {
+  private readonly logger = new Logger(TaskWatchersService.name);
+
+  constructor(
+    @Inject(TASK_WATCHERS_REPOSITORY)
+    private readonly watchersRepository: ITaskWatchersRepository,
+    private readonly tasksService: TasksService,
+  ) {}
+
+  /** Anyone who can read the task may watch it */
+  async watch(taskId: string, currentUser: AuthUser): Promise<TaskWatcher> {
+    await this.tasksService.findOne(taskId, currentUser, { withRelations: false });
+
+    if (await this.watchersRepository.exists(taskId, currentUser.id)) {
+      conflict(ErrorCode.TASK_WATCHER_EXISTS);
+    }
+
+    this.logger.debug(`User ${currentUser.id} is now watching task ${taskId}`);
+
+    return this.watchersRepository.create(taskId, currentUser.id);
+  }
+
+  /** No access check, so users can stop watching tasks they can no longer read */
+  async unwatch(taskId: string, currentUser: AuthUser): Promise<void> {
+    const deletedCount = await this.watchersRepository.delete(taskId, currentUser.id);
+    if (deletedCount === 0) {
+      notFound(ErrorCode.TASK_WATCHER_NOT_FOUND);
+    }
+  }
+
+  async findWatchedForUser(
+    currentUser: AuthUser,
+    pagination: PaginationOptions,
+  ): Promise<PaginatedResult<Task>> {
+    return this.watchersRepository.findWatchedTasks(
+      currentUser.id,
+      currentUser.organizationId,
+      pagination,
+      !isAdminOrSuperAdmin(currentUser.role),
+    );
+  }
+
+  /** The user who made the change is not notified about it */
+  async findWatcherIdsToNotify(taskId: string, actorId?: string | null): Promise<string[]> {
+    const watcherIds = await this.watchersRepository.findUserIdsWithAccess(taskId);
+    return watcherIds.filter(watcherId => watcherId !== actorId);
+  }
+}
@@ -0,0 +1,42 @@
+import { Controller, Get, Put, Body, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { TaskWorkflowService } from './task-workflow.service';
+import { UpdateTaskWorkflowDto } from './dto/update-task-workflow.dto';
+import { TaskWorkflowResponseDto } from './dto/task-workflow-response.dto';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../users/enum/user-role.enum';
+import type { AuthUser } from '../../common/types';
+import { SanitizeInput } from '../../common/decorators/sanitize-input.decorator';
+import {
+  ApiTaskWorkflowGet,
+  ApiTaskWorkflowUpdate,
+} from '../../common/decorators/swagger/api-task-workflow.decorator';
+
+@ApiTags('task-workflow')
+@Controller('task-workflow')
+@UseGuards(JwtAuthGuard, RolesGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class TaskWorkflowController {
+  constructor(private readonly taskWorkflowService: TaskWorkflowService) {}
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskWorkflowGet(TaskWorkflowResponseDto)
+  findOne() {
+    return this.taskWorkflowService.findWorkflow();
+  }
+
+  @Put()
+  @Roles(UserRole.SUPER_ADMIN)
+  @SanitizeInput()
+  @ApiTaskWorkflowUpdate(TaskWorkflowResponseDto)
+  update(@Body() updateWorkflowDto: UpdateTaskWorkflowDto, @CurrentUser() user: AuthUser) {
+    return this.taskWorkflowService.updateTransitions(updateWorkflowDto, user);
+  }
+}
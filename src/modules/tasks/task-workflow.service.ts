@@ -0,0 +1,151 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { TaskStatus } from './enums/task-status.enum';
+import { UpdateTaskWorkflowDto } from './dto/update-task-workflow.dto';
+import type { ITaskStatusTransitionsRepository } from './task-status-transitions.repository.interface';
+import { TASK_STATUS_TRANSITIONS_REPOSITORY } from './task-status-transitions.repository.interface';
+import type { AuthUser } from '../../common/types';
+import { CacheService } from '../../common/services/cache.service';
+import { buildEntityCacheKey } from '../../common/utils/cache.util';
+import { ErrorCode, badRequest, conflict } from '../../common/errors';
+
+export type TaskStatusTransitionMap = Record<TaskStatus, TaskStatus[]>;
+
+export interface TaskWorkflow {
+  statuses: TaskStatus[];
+  transitions: TaskStatusTransitionMap;
+}
+
+/**
+ * Used until an admin saves a workflow (e.g. a schema created by synchronize instead of the
+ * migration, which seeds the same table)
+ */
+export const DEFAULT_TASK_STATUS_TRANSITIONS: TaskStatusTransitionMap = {
+  [TaskStatus.PENDING]: [
+    TaskStatus.IN_PROGRESS,
+    TaskStatus.BLOCKED,
+    TaskStatus.COMPLETED,
+    TaskStatus.CANCELLED,
+  ],
+  [TaskStatus.IN_PROGRESS]: [
+    TaskStatus.PENDING,
+    TaskStatus.BLOCKED,
+    TaskStatus.IN_REVIEW,
+    TaskStatus.COMPLETED,
+    TaskStatus.CANCELLED,
+  ],
+  [TaskStatus.BLOCKED]: [TaskStatus.PENDING, TaskStatus.IN_PROGRESS, TaskStatus.CANCELLED],
+  [TaskStatus.IN_REVIEW]: [TaskStatus.IN_PROGRESS, TaskStatus.COMPLETED, TaskStatus.CANCELLED],
+  [TaskStatus.COMPLETED]: [TaskStatus.IN_PROGRESS],
+  [TaskStatus.CANCELLED]: [TaskStatus.PENDING],
+};
+
+const WORKFLOW_CACHE_KEY = buildEntityCacheKey('task-workflow', 'transitions');
+
+@Injectable()
+export class TaskWorkflowService {
+  private readonly logger = new Logger(TaskWorkflowService.name);
+  private readonly WORKFLOW_TTL = Number(process.env.CACHE_TASK_WORKFLOW_TTL_SECONDS ?? 300);
+
+  constructor(
+    @Inject(TASK_STATUS_TRANSITIONS_REPOSITORY)
+    private readonly transitionsRepository: ITaskStatusTransitionsRepository,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  async findWorkflow(): Promise<TaskWorkflow> {
+    return this.toWorkflow(await this.getTransitions());
+  }
+
+  async getTransitions(): Promise<TaskStatusTransitionMap> {
+    const cached = await this.cacheService.get<TaskStatusTransitionMap>(WORKFLOW_CACHE_KEY);
+    if (cached) {
+      return cached;
+    }
+
+    const rows = await this.transitionsRepository.findAll();
+
+    const transitions =
+      rows.length === 0
+        ? DEFAULT_TASK_STATUS_TRANSITIONS
+        : this.buildTransitionMap(rows.map(row => [row.fromStatus, row.toStatus]));
+
+    await this.cacheService.set(WORKFLOW_CACHE_KEY, transitions, this.WORKFLOW_TTL);
+
+    return transitions;
+  }
+
+  async getAllowedNextStatuses(from: TaskStatus): Promise<TaskStatus[]> {
+    const transitions = await this.getTransitions();
+    return transitions[from] ?? [];
+  }
+
+  /**
+   * Throws unless the workflow allows moving from `from` to `to`. Keeping the current status
+   * is always allowed, so re-sent updates stay idempotent
+   */
+  async assertTransition(from: TaskStatus, to: TaskStatus): Promise<void> {
+    if (from === to) {
+      return;
+    }
+
+    const allowed = await this.getAllowedNextStatuses(from);
+
+    if (!allowed.includes(to)) {
+      conflict(ErrorCode.TASK_STATUS_TRANSITION_INVALID, {
+        from,
+        to,
+        allowed: allowed.length > 0 ? allowed.join(', ') : 'none',
+      });
+    }
+  }
+
+  async updateTransitions(
+    updateWorkflowDto: UpdateTaskWorkflowDto,
+    currentUser: AuthUser,
+  ): Promise<TaskWorkflow> {
+    const selfTransition = updateWorkflowDto.transitions.find(
+      transition => transition.from === transition.to,
+    );
+    if (selfTransition) {
+      badRequest(ErrorCode.TASK_STATUS_TRANSITION_SELF, { status: selfTransition.from });
+    }
+
+    const transitions = this.buildTransitionMap(
+      updateWorkflowDto.transitions.map(transition => [transition.from, transition.to]),
+    );
+
+    await this.transitionsRepository.replaceAll(
+      Object.entries(transitions).flatMap(([fromStatus, toStatuses]) =>
+        toStatuses.map(toStatus => ({ fromStatus: fromStatus as TaskStatus, toStatus })),
+      ),
+      currentUser.id,
+    );
+
+    await this.cacheService.delete(WORKFLOW_CACHE_KEY);
+
+    this.logger.log(`Task status workflow replaced by user ${currentUser.id}`);
+
+    return this.toWorkflow(transitions);
+  }
+
+  private toWorkflow(transitions: TaskStatusTransitionMap): TaskWorkflow {
+    return {
+      statuses: Object.values(TaskStatus),
+      transitions,
+    };
+  }
+
+  /** Every status gets an entry, listed in enum order without duplicates */
+  private buildTransitionMap(pairs: [TaskStatus, TaskStatus][]): TaskStatusTransitionMap {
+    const statuses = Object.values(TaskStatus);
+    const transitions = {} as TaskStatusTransitionMap;
+
+    for (const from of statuses) {
+      transitions[from] = statuses.filter(to =>
+        pairs.some(([pairFrom, pairTo]) => pairFrom === from && pairTo === to),
+      );
+    }
+
+    return transitions;
+  }
+}
@@ -0,0 +1,86 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { TaskWorklogsService } from './task-worklogs.service';
+import { StartTimerDto } from './dto/start-timer.dto';
+import { CreateWorklogDto } from './dto/create-worklog.dto';
+import { PaginatedWorklogResponseDto, WorklogResponseDto } from './dto/worklog-response.dto';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { SanitizeInput } from '../../common/decorators/sanitize-input.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../users/enum/user-role.enum';
+import type { AuthUser } from '../../common/types';
+import {
+  ApiTimerStart,
+  ApiTimerStop,
+  ApiWorklogCreate,
+  ApiWorklogList,
+} from '../../common/decorators/swagger/api-task-worklog.decorator';
+
+@ApiTags('tasks')
+@Controller('tasks/:taskId')
+@UseGuards(JwtAuthGuard, RolesGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class TaskWorklogsController {
+  constructor(private readonly taskWorklogsService: TaskWorklogsService) {}
+
+  @Post('timer/start')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @SanitizeInput()
+  @ApiTimerStart(WorklogResponseDto)
+  startTimer(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @Body() startTimerDto: StartTimerDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.taskWorklogsService.startTimer(taskId, startTimerDto, user);
+  }
+
+  @Post('timer/stop')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTimerStop(WorklogResponseDto)
+  stopTimer(@Param('taskId', ParseUUIDPipe) taskId: string, @CurrentUser() user: AuthUser) {
+    return this.taskWorklogsService.stopTimer(taskId, user);
+  }
+
+  @Get('worklogs')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiWorklogList(PaginatedWorklogResponseDto)
+  findAll(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @Query() paginationDto: PaginationQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const { page = 1, limit = 20 } = paginationDto;
+    return this.taskWorklogsService.findForTask(taskId, user, { page, limit });
+  }
+
+  @Post('worklogs')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @SanitizeInput()
+  @ApiWorklogCreate(WorklogResponseDto)
+  create(
+    @Param('taskId', ParseUUIDPipe) taskId: string,
+    @Body() createWorklogDto: CreateWorklogDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.taskWorklogsService.addManual(taskId, createWorklogDto, user);
+  }
+}
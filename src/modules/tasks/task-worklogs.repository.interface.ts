@@ -0,0 +1,40 @@
+import { Worklog } from './entities/worklog.entity';
+import type { PaginatedResponse, PaginationParams } from '../../common/types';
+
+/** Finished time of one user on one task during one UTC day */
+export interface TimesheetRow {
+  day: string;
+  taskId: string;
+  title: string;
+  totalSeconds: number;
+  entryCount: number;
+}
+
+export interface ITaskWorklogsRepository {
+  create(worklogData: Partial<Worklog>): Promise<Worklog>;
+
+  /** Resolves to null when the user already has a running timer */
+  startTimer(worklogData: Partial<Worklog>): Promise<Worklog | null>;
+
+  findRunningByUserId(userId: string): Promise<Worklog | null>;
+
+  /** Resolves to null when the timer was stopped in the meantime */
+  stopTimer(worklog: Worklog, endedAt: Date): Promise<Worklog | null>;
+
+  /** Stops every running timer on the tasks, whoever started them */
+  stopRunningForTasks(taskIds: string[], endedAt: Date): Promise<number>;
+
+  /** Newest first, with the user's public fields */
+  findByTaskId(taskId: string, pagination: PaginationParams): Promise<PaginatedResponse<Worklog>>;
+
+  /** Finished entries that started in [from, to), ordered by day and task title */
+  /** Only time spent on tasks of the given organization */
+  findTimesheetRows(
+    userId: string,
+    organizationId: string,
+    from: Date,
+    to: Date,
+  ): Promise<TimesheetRow[]>;
+}
+
+export const TASK_WORKLOGS_REPOSITORY = Symbol('TASK_WORKLOGS_REPOSITORY');
@@ -0,0 +1,132 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, QueryFailedError, Repository } from 'typeorm';
+import { Worklog } from './entities/worklog.entity';
+import { ITaskWorklogsRepository, TimesheetRow } from './task-worklogs.repository.interface';
+import type { PaginatedResponse, PaginationParams } from '../../common/types';
+
+const UNIQUE_VIOLATION = '23505';
+
+@Injectable()
+export class TaskWorklogsRepository implements ITaskWorklogsRepository {
+  constructor(
+    @InjectRepository(Worklog)
+    private readonly worklogsRepo: Repository<Worklog>,
+  ) {}
+
+  async create(worklogData: Partial<Worklog>): Promise<Worklog> {
+    const worklog = this.worklogsRepo.create(worklogData);
+    return this.worklogsRepo.save(worklog);
+  }
+
+  async startTimer(worklogData: Partial<Worklog>): Promise<Worklog | null> {
+    try {
+      return await this.create({ ...worklogData, endedAt: null, durationSeconds: null });
+    } catch (error) {
+      // uq_task_worklogs_running_timer: a concurrent request started another timer first
+      if (
+        error instanceof QueryFailedError &&
+        (error.driverError as { code?: string }).code === UNIQUE_VIOLATION
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async findRunningByUserId(userId: string): Promise<Worklog | null> {
+    return this.worklogsRepo.findOne({ where: { userId, endedAt: IsNull() } });
+  }
+
+  async stopTimer(worklog: Worklog, endedAt: Date): Promise<Worklog | null> {
+    const durationSeconds = Math.max(
+      0,
+      Math.floor((endedAt.getTime() - new Date(worklog.startedAt).getTime()) / 1000),
+    );
+
+    const result = await this.worklogsRepo.update(
+      { id: worklog.id, endedAt: IsNull() },
+      { endedAt, durationSeconds },
+    );
+
+    if (!result.affected) {
+      return null;
+    }
+
+    return this.worklogsRepo.findOne({ where: { id: worklog.id } });
+  }
+
+  async stopRunningForTasks(taskIds: string[], endedAt: Date): Promise<number> {
+    if (taskIds.length === 0) {
+      return 0;
+    }
+
+    const result = await this.worklogsRepo
+      .createQueryBuilder()
+      .update(Worklog)
+      .set({
+        endedAt,
+        durationSeconds: () =>
+          'GREATEST(0, FLOOR(EXTRACT(EPOCH FROM (:endedAt::timestamp - started_at))))::int',
+      })
+      .where('task_id IN (:...taskIds)', { taskIds })
+      .andWhere('ended_at IS NULL')
+      .setParameter('endedAt', endedAt)
+      .execute();
+
+    return result.affected || 0;
+  }
+
+  async findByTaskId(
+    taskId: string,
+    pagination: PaginationParams,
+  ): Promise<PaginatedResponse<Worklog>> {
+    const [data, total] = await this.worklogsRepo
+      .createQueryBuilder('worklog')
+      .leftJoin('worklog.user', 'user')
+      .addSelect(['user.id', 'user.name', 'user.email'])
+      .where('worklog.taskId = :taskId', { taskId })
+      .orderBy('worklog.startedAt', 'DESC')
+      .addOrderBy('worklog.id', 'DESC')
+      .skip((pagination.page - 1) * pagination.limit)
+      .take(pagination.limit)
+      .getManyAndCount();
+
+    return {
+      data,
+      total,
+      page: pagination.page,
+      limit: pagination.limit,
+      totalPages: Math.ceil(total / pagination.limit),
+    };
+  }
+
+  async findTimesheetRows(
+    userId: string,
+    organizationId: string,
+    from: Date,
+    to: Date,
+  ): Promise<TimesheetRow[]> {
+    // Trashed tasks are included: the time was spent either way
+    return this.worklogsRepo.query(
+      `
+      SELECT
+        to_char(w.started_at, 'YYYY-MM-DD') AS "day",
+        w.task_id AS "taskId",
+        t.title AS "title",
+        SUM(w.duration_seconds)::int AS "totalSeconds",
+        COUNT(*)::int AS "entryCount"
+      FROM task_worklogs w
+      INNER JOIN tasks t ON t.id = w.task_id
+      WHERE w.user_id = $1
+        AND t.organization_id = $2
+        AND w.ended_at IS NOT NULL
+        AND w.started_at >= $3
+        AND w.started_at < $4
+      GROUP BY 1, 2, 3
+      ORDER BY 1 ASC, 3 ASC, 2 ASC
+      `,
+      [userId, organizationId, from, to],
+    );
+  }
+}
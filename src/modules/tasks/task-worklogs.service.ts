@@ -0,0 +1,160 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Worklog } from './entities/worklog.entity';
+import { WorklogSource } from './enums/worklog-source.enum';
+import type { ITaskWorklogsRepository } from './task-worklogs.repository.interface';
+import { TASK_WORKLOGS_REPOSITORY } from './task-worklogs.repository.interface';
+import { TasksService } from './tasks.service';
+import { StartTimerDto } from './dto/start-timer.dto';
+import { CreateWorklogDto } from './dto/create-worklog.dto';
+import { TimesheetQueryDto } from './dto/timesheet-query.dto';
+import { TimesheetDayDto, TimesheetResponseDto } from './dto/timesheet-response.dto';
+import type { AuthUser, PaginatedResponse, PaginationParams } from '../../common/types';
+import { isAdminOrSuperAdmin } from '../users/utils/users.utils';
+import { ErrorCode, badRequest, conflict, forbid, notFound } from '../../common/errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class TaskWorklogsService {
+  private readonly logger = new Logger(TaskWorklogsService.name);
+  private readonly TIMESHEET_MAX_DAYS = 92;
+
+  constructor(
+    @Inject(TASK_WORKLOGS_REPOSITORY)
+    private readonly worklogsRepository: ITaskWorklogsRepository,
+    private readonly tasksService: TasksService,
+  ) {}
+
+  /** Anyone who can read the task may track time on it; one running timer per user */
+  async startTimer(taskId: string, dto: StartTimerDto, currentUser: AuthUser): Promise<Worklog> {
+    await this.tasksService.findOne(taskId, currentUser, { withRelations: false });
+
+    const running = await this.worklogsRepository.findRunningByUserId(currentUser.id);
+    if (running) {
+      conflict(ErrorCode.TIMER_ALREADY_RUNNING, { taskId: running.taskId });
+    }
+
+    const worklog = await this.worklogsRepository.startTimer({
+      taskId,
+      userId: currentUser.id,
+      startedAt: new Date(),
+      description: dto.description ?? null,
+      source: WorklogSource.TIMER,
+    });
+
+    if (!worklog) {
+      // Lost the race against a concurrent start
+      const current = await this.worklogsRepository.findRunningByUserId(currentUser.id);
+      conflict(ErrorCode.TIMER_ALREADY_RUNNING, { taskId: current?.taskId ?? taskId });
+    }
+
+    this.logger.debug(`User ${currentUser.id} started a timer on task ${taskId}`);
+
+    return worklog;
+  }
+
+  /** No access check, so users can stop timers on tasks they can no longer read */
+  async stopTimer(taskId: string, currentUser: AuthUser): Promise<Worklog> {
+    const running = await this.worklogsRepository.findRunningByUserId(currentUser.id);
+    if (!running || running.taskId !== taskId) {
+      notFound(ErrorCode.TIMER_NOT_RUNNING);
+    }
+
+    const worklog = await this.worklogsRepository.stopTimer(running, new Date());
+    if (!worklog) {
+      // Stopped concurrently, e.g. by completing the task
+      notFound(ErrorCode.TIMER_NOT_RUNNING);
+    }
+
+    this.logger.debug(
+      `User ${currentUser.id} stopped the timer on task ${taskId} after ${worklog.durationSeconds}s`,
+    );
+
+    return worklog;
+  }
+
+  async addManual(taskId: string, dto: CreateWorklogDto, currentUser: AuthUser): Promise<Worklog> {
+    await this.tasksService.findOne(taskId, currentUser, { withRelations: false });
+
+    const startedAt = new Date(dto.startedAt);
+    const durationSeconds = dto.durationMinutes * 60;
+    const endedAt = new Date(startedAt.getTime() + durationSeconds * 1000);
+
+    if (endedAt.getTime() > Date.now()) {
+      badRequest(ErrorCode.WORKLOG_IN_FUTURE);
+    }
+
+    return this.worklogsRepository.create({
+      taskId,
+      userId: currentUser.id,
+      startedAt,
+      endedAt,
+      durationSeconds,
+      description: dto.description ?? null,
+      source: WorklogSource.MANUAL,
+    });
+  }
+
+  async findForTask(
+    taskId: string,
+    currentUser: AuthUser,
+    pagination: PaginationParams,
+  ): Promise<PaginatedResponse<Worklog>> {
+    await this.tasksService.findOne(taskId, currentUser, { withRelations: false });
+
+    return this.worklogsRepository.findByTaskId(taskId, pagination);
+  }
+
+  /**
+   * Finished time per UTC day and task. Entries count towards the day they started on, and
+   * running timers are left out until they are stopped
+   */
+  async getTimesheet(
+    query: TimesheetQueryDto,
+    currentUser: AuthUser,
+  ): Promise<TimesheetResponseDto> {
+    const userId = query.userId ?? currentUser.id;
+    if (userId !== currentUser.id && !isAdminOrSuperAdmin(currentUser.role)) {
+      forbid(ErrorCode.TIMESHEET_FORBIDDEN);
+    }
+
+    const from = new Date(`${query.from}T00:00:00.000Z`);
+    const toExclusive = new Date(new Date(`${query.to}T00:00:00.000Z`).getTime() + DAY_MS);
+
+    if ((toExclusive.getTime() - from.getTime()) / DAY_MS > this.TIMESHEET_MAX_DAYS) {
+      badRequest(ErrorCode.TIMESHEET_RANGE_TOO_LARGE, { max: this.TIMESHEET_MAX_DAYS });
+    }
+
+    const rows = await this.worklogsRepository.findTimesheetRows(
+      userId,
+      currentUser.organizationId,
+      from,
+      toExclusive,
+    );
+
+    const days: TimesheetDayDto[] = [];
+    for (const row of rows) {
+      let day = days[days.length - 1];
+      if (!day || day.date !== row.day) {
+        day = { date: row.day, totalSeconds: 0, tasks: [] };
+        days.push(day);
+      }
+
+      day.totalSeconds += row.totalSeconds;
+      day.tasks.push({
+        taskId: row.taskId,
+        title: row.title,
+        totalSeconds: row.totalSeconds,
+        entryCount: row.entryCount,
+      });
+    }
+
+    return {
+      userId,
+      from: query.from,
+      to: query.to,
+      totalSeconds: days.reduce((sum, day) => sum + day.totalSeconds, 0),
+      days,
+    };
+  }
+}
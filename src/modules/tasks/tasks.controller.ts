@@ -12,8 +12,19 @@ import {
   ParseUUIDPipe,
   HttpCode,
   HttpStatus,
+  ParseBoolPipe,
+  UseInterceptors,
+  UploadedFile,
+  StreamableFile,
+  Res,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import type { Response } from 'express';
 import { TasksService } from './tasks.service';
+import { TaskWatchersService } from './task-watchers.service';
+import { TaskImportService } from './task-import.service';
+import { TaskExportsService } from './task-exports.service';
+import type { UploadedAttachmentFile } from './task-attachments.service';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
 import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
@@ -25,16 +36,36 @@ import { Roles } from '../../common/decorators/roles.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { UserRole } from '../users/enum/user-role.enum';
 import { TaskFilterDto } from './dto/task-filter.dto';
+import { EstimateReportQueryDto } from './dto/estimate-report-query.dto';
+import { EstimateReportResponseDto } from './dto/estimate-report-response.dto';
+import { PaginatedTaskActivityResponseDto } from './dto/task-activity-response.dto';
+import { toTaskFilterOptions } from './utils/task-filters.utils';
+import { PaginationMode } from './enums/pagination-mode.enum';
 import { BatchCreateTasksDto } from './dto/batch-create-tasks.dto';
 import { BatchDeleteTasksDto } from './dto/batch-delete-tasks.dto';
+import { BatchUpdateTasksDto } from './dto/batch-update-tasks.dto';
+import { MoveTaskSubtreeDto } from './dto/move-task-subtree.dto';
+import { MoveTaskDto } from './dto/move-task.dto';
+import { TaskBoardQueryDto } from './dto/task-board-query.dto';
+import { AssignTaskDto } from './dto/assign-task.dto';
+import { TaskImportQueryDto } from './dto/task-import-query.dto';
+import { TaskImportReportDto } from './dto/task-import-report.dto';
+import { TaskImportReportFormat } from './enums/task-import-report-format.enum';
+import { TaskExportQueryDto } from './dto/task-export-query.dto';
+import { TaskExportResponseDto } from './dto/task-export-response.dto';
 import type { AuthUser } from '../../common/types';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
 import { SanitizeInput } from '../../common/decorators/sanitize-input.decorator';
+import { buildContentDisposition } from '../../common/utils/content-disposition.util';
 import {
   TaskResponseDto,
   PaginatedTaskResponseDto,
+  CursorPaginatedTaskResponseDto,
   BatchTaskResponseDto,
   BatchDeleteResponseDto,
+  BatchUpdateResponseDto,
   TaskStatsResponseDto,
+  TaskBoardResponseDto,
 } from './dto/task-response.dto';
 import { JobQueuedResponseDto } from '../../common/dto/job-queued-response.dto';
 import {
@@ -43,12 +74,29 @@ import {
   ApiTaskGet,
   ApiTaskUpdate,
   ApiTaskDelete,
+  ApiTaskTrash,
+  ApiTaskRestore,
+  ApiTaskPurge,
+  ApiTaskActivity,
+  ApiTaskChildren,
+  ApiTaskMoveSubtree,
+  ApiTaskBoard,
+  ApiTaskMove,
+  ApiTaskAssign,
   ApiTaskStats,
+  ApiTaskEstimateReport,
   ApiTaskBatchCreate,
   ApiTaskBatchCreateAsync,
   ApiTaskBatchDelete,
   ApiTaskBatchDeleteAsync,
+  ApiTaskBatchUpdate,
+  ApiTaskBatchUpdateAsync,
+  ApiTaskImport,
+  ApiTaskExport,
+  ApiTaskExportGet,
+  ApiTaskExportDownload,
 } from '../../common/decorators/swagger/api-task.decorator';
+import { ApiTaskWatchedList } from '../../common/decorators/swagger/api-task-watcher.decorator';
 
 @ApiTags('tasks')
 @Controller('tasks')
@@ -56,7 +104,12 @@ import {
 @RateLimit({ limit: 100, windowMs: 60000 })
 @ApiBearerAuth()
 export class TasksController {
-  constructor(private readonly tasksService: TasksService) {}
+  constructor(
+    private readonly tasksService: TasksService,
+    private readonly taskWatchersService: TaskWatchersService,
+    private readonly taskImportService: TaskImportService,
+    private readonly taskExportsService: TaskExportsService,
+  ) {}
 
   @Post()
   @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
@@ -68,7 +121,7 @@ export class TasksController {
 
   @Get()
   @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
-  @ApiTaskList(PaginatedTaskResponseDto)
+  @ApiTaskList(PaginatedTaskResponseDto, CursorPaginatedTaskResponseDto)
   async findAll(
     @CurrentUser() user: AuthUser,
     @Query(
@@ -81,11 +134,18 @@ export class TasksController {
     )
     filterDto: TaskFilterDto,
   ) {
-    const { status, priority, page = 1, limit = 10 } = filterDto;
-    const filters = {
-      ...(status && { status }),
-      ...(priority && { priority }),
-    };
+    const { page = 1, limit = 10 } = filterDto;
+    const filters = toTaskFilterOptions(filterDto, user.id);
+
+    if (filterDto.pagination === PaginationMode.CURSOR || filterDto.cursor) {
+      return this.tasksService.findWithFiltersForUser(user, filters, {
+        cursorPagination: {
+          cursor: filterDto.cursor,
+          limit,
+          includeTotal: filterDto.includeTotal ?? true,
+        },
+      });
+    }
 
     // Always use the paginated/cached path for consistency and performance
     // Even with no filters, this leverages DB-level pagination and caching
@@ -101,11 +161,197 @@ export class TasksController {
     return this.tasksService.getStatisticsForUser(user);
   }
 
+  @Get('stats/estimates')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskEstimateReport(EstimateReportResponseDto)
+  getEstimateReport(@Query() query: EstimateReportQueryDto, @CurrentUser() user: AuthUser) {
+    return this.tasksService.getEstimateReportForUser(query, user);
+  }
+
+  @Get('board')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskBoard(TaskBoardResponseDto)
+  getBoard(
+    @CurrentUser() user: AuthUser,
+    @Query(
+      new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transformOptions: { enableImplicitConversion: true },
+      }),
+    )
+    boardDto: TaskBoardQueryDto,
+  ) {
+    const { limit = 50, ...criteria } = boardDto;
+    return this.tasksService.getBoardForUser(user, toTaskFilterOptions(criteria, user.id), limit);
+  }
+
+  @Get('trash')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskTrash(PaginatedTaskResponseDto)
+  findTrash(@Query() paginationDto: PaginationQueryDto, @CurrentUser() user: AuthUser) {
+    const { page = 1, limit = 20 } = paginationDto;
+    return this.tasksService.findTrashForUser(user, { page, limit });
+  }
+
+  @Get('watched')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskWatchedList(PaginatedTaskResponseDto)
+  findWatched(@Query() paginationDto: PaginationQueryDto, @CurrentUser() user: AuthUser) {
+    const { page = 1, limit = 20 } = paginationDto;
+    return this.taskWatchersService.findWatchedForUser(user, { page, limit });
+  }
+
+  @Get('export')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskExport(TaskExportResponseDto)
+  async export(
+    @CurrentUser() user: AuthUser,
+    @Query(
+      new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transformOptions: { enableImplicitConversion: true },
+      }),
+    )
+    exportDto: TaskExportQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const result = await this.taskExportsService.export(exportDto, user);
+
+    if (result.queued) {
+      res.status(HttpStatus.ACCEPTED);
+      return result.taskExport;
+    }
+
+    return new StreamableFile(result.file.stream, {
+      type: result.file.contentType,
+      disposition: buildContentDisposition(result.file.fileName),
+    });
+  }
+
+  @Get('exports/:exportId')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskExportGet(TaskExportResponseDto)
+  findExport(@Param('exportId', ParseUUIDPipe) exportId: string, @CurrentUser() user: AuthUser) {
+    return this.taskExportsService.findOne(exportId, user);
+  }
+
+  @Get('exports/:exportId/download')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskExportDownload()
+  async downloadExport(
+    @Param('exportId', ParseUUIDPipe) exportId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const file = await this.taskExportsService.openDownload(exportId, user);
+
+    return new StreamableFile(file.stream, {
+      type: file.contentType,
+      disposition: buildContentDisposition(file.fileName),
+    });
+  }
+
   @Get(':id')
   @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
   @ApiTaskGet(TaskResponseDto)
   findOne(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
-    return this.tasksService.findOne(id, user);
+    return this.tasksService.findOne(id, user, { withHierarchy: true });
+  }
+
+  @Get(':id/activity')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskActivity(PaginatedTaskActivityResponseDto)
+  findActivity(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() paginationDto: PaginationQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const { page = 1, limit = 20 } = paginationDto;
+    return this.tasksService.findActivity(id, user, { page, limit });
+  }
+
+  @Get(':id/children')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskChildren(TaskResponseDto)
+  findChildren(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.tasksService.findChildren(id, user);
+  }
+
+  @Patch(':id/parent')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskMoveSubtree(TaskResponseDto)
+  moveSubtree(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() moveTaskSubtreeDto: MoveTaskSubtreeDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.tasksService.moveSubtree(id, moveTaskSubtreeDto.parentId ?? null, user);
+  }
+
+  @Patch(':id/move')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskMove(TaskResponseDto)
+  move(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() moveTaskDto: MoveTaskDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.tasksService.move(id, moveTaskDto, user);
+  }
+
+  @Post(':id/assign')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskAssign(TaskResponseDto)
+  assign(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() assignTaskDto: AssignTaskDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.tasksService.assign(id, assignTaskDto.assigneeId, user);
+  }
+
+  // Declared before PATCH :id, whose UUID pipe would reject "batch"
+  @Patch('batch')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @SanitizeInput()
+  @ApiTaskBatchUpdate(BatchUpdateResponseDto)
+  async batchUpdate(@Body() batchUpdateDto: BatchUpdateTasksDto, @CurrentUser() user: AuthUser) {
+    const { taskIds, ...changes } = batchUpdateDto;
+    const { results, updatedCount, failedCount } = await this.tasksService.batchUpdateForUser(
+      taskIds,
+      changes,
+      user,
+    );
+
+    return {
+      message: `${updatedCount} tasks updated, ${failedCount} failed`,
+      updatedCount,
+      failedCount,
+      results,
+    };
+  }
+
+  @Patch('batch/async')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @SanitizeInput()
+  @ApiTaskBatchUpdateAsync(JobQueuedResponseDto)
+  async batchUpdateAsync(
+    @Body() batchUpdateDto: BatchUpdateTasksDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const job = await this.tasksService.queueBulkUpdate(batchUpdateDto, user);
+
+    return {
+      message: 'Tasks queued for update',
+      jobId: job.id,
+      taskCount: batchUpdateDto.taskIds.length,
+      status: 'queued',
+    };
   }
 
   @Patch(':id')
@@ -116,8 +362,9 @@ export class TasksController {
     @Param('id', ParseUUIDPipe) id: string,
     @Body() updateTaskDto: UpdateTaskDto,
     @CurrentUser() user: AuthUser,
+    @Query('cascade', new ParseBoolPipe({ optional: true })) cascade?: boolean,
   ) {
-    return this.tasksService.update(id, updateTaskDto, user);
+    return this.tasksService.update(id, updateTaskDto, user, { cascade });
   }
 
   @Delete('batch')
@@ -158,6 +405,22 @@ export class TasksController {
     return { message: 'Task deleted successfully' };
   }
 
+  @Post(':id/restore')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskRestore(TaskResponseDto)
+  restore(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.tasksService.restore(id, user);
+  }
+
+  @Delete(':id/purge')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTaskPurge()
+  async purge(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    await this.tasksService.purge(id, user);
+    return { message: 'Task permanently deleted successfully' };
+  }
+
   @Post('batch')
   @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
   @SanitizeInput()
@@ -190,4 +453,29 @@ export class TasksController {
       status: 'queued',
     };
   }
+
+  // Rows are sanitized by TaskImportService; SanitizeInput would also run on the uploaded file
+  @Post('import')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiTaskImport(TaskImportReportDto)
+  async import(
+    @UploadedFile() file: UploadedAttachmentFile | undefined,
+    @Query() query: TaskImportQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const report = await this.taskImportService.import(file, user);
+
+    if (query.report === TaskImportReportFormat.CSV) {
+      return new StreamableFile(Buffer.from(this.taskImportService.formatReportAsCsv(report)), {
+        type: 'text/csv; charset=utf-8',
+        disposition: buildContentDisposition('task-import-report.csv'),
+      });
+    }
+
+    return new StreamableFile(Buffer.from(JSON.stringify(report)), {
+      type: 'application/json',
+      disposition: buildContentDisposition('task-import-report.json'),
+    });
+  }
 }
@@ -1,29 +1,146 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { BullModule } from '@nestjs/bullmq';
+import { MulterModule } from '@nestjs/platform-express';
 import { TasksService } from './tasks.service';
 import { TasksController } from './tasks.controller';
+import { TaskDependenciesService } from './task-dependencies.service';
+import { TaskDependenciesController } from './task-dependencies.controller';
+import { TaskSeriesService } from './task-series.service';
+import { TaskSeriesController } from './task-series.controller';
+import { TaskActivitiesService } from './task-activities.service';
+import { TaskWorkflowService } from './task-workflow.service';
+import { TaskWorkflowController } from './task-workflow.controller';
+import { TaskWatchersService } from './task-watchers.service';
+import { TaskWatchersController } from './task-watchers.controller';
+import { TaskAttachmentsService, getAttachmentMaxSizeBytes } from './task-attachments.service';
+import { TaskAttachmentsController } from './task-attachments.controller';
+import { TaskWorklogsService } from './task-worklogs.service';
+import { TaskWorklogsController } from './task-worklogs.controller';
+import { TimesheetController } from './timesheet.controller';
+import { TaskImportService } from './task-import.service';
+import { TaskExportsService } from './task-exports.service';
 import { Task } from './entities/task.entity';
+import { TaskDependency } from './entities/task-dependency.entity';
+import { TaskSeries } from './entities/task-series.entity';
+import { TaskActivity } from './entities/task-activity.entity';
+import { TaskStatusTransition } from './entities/task-status-transition.entity';
+import { TaskWatcher } from './entities/task-watcher.entity';
+import { Attachment } from './entities/attachment.entity';
+import { Worklog } from './entities/worklog.entity';
+import { TaskExport } from './entities/task-export.entity';
 import { TasksRepository } from './tasks.repository';
 import { TASKS_REPOSITORY } from './tasks.repository.interface';
+import { TaskDependenciesRepository } from './task-dependencies.repository';
+import { TASK_DEPENDENCIES_REPOSITORY } from './task-dependencies.repository.interface';
+import { TaskSeriesRepository } from './task-series.repository';
+import { TASK_SERIES_REPOSITORY } from './task-series.repository.interface';
+import { TaskActivitiesRepository } from './task-activities.repository';
+import { TASK_ACTIVITIES_REPOSITORY } from './task-activities.repository.interface';
+import { TaskStatusTransitionsRepository } from './task-status-transitions.repository';
+import { TASK_STATUS_TRANSITIONS_REPOSITORY } from './task-status-transitions.repository.interface';
+import { TaskWatchersRepository } from './task-watchers.repository';
+import { TASK_WATCHERS_REPOSITORY } from './task-watchers.repository.interface';
+import { TaskAttachmentsRepository } from './task-attachments.repository';
+import { TASK_ATTACHMENTS_REPOSITORY } from './task-attachments.repository.interface';
+import { TaskWorklogsRepository } from './task-worklogs.repository';
+import { TASK_WORKLOGS_REPOSITORY } from './task-worklogs.repository.interface';
+import { TaskExportsRepository } from './task-exports.repository';
+import { TASK_EXPORTS_REPOSITORY } from './task-exports.repository.interface';
+import { UsersModule } from '../users/users.module';
+import { TeamsModule } from '../teams/teams.module';
 import { CacheService } from '../../common/services/cache.service';
+import { FILE_STORAGE } from '../../common/storage/file-storage.interface';
+import { LocalFileStorage } from '../../common/storage/local-file.storage';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Task]),
+    TypeOrmModule.forFeature([
+      Task,
+      TaskDependency,
+      TaskSeries,
+      TaskActivity,
+      TaskStatusTransition,
+      TaskWatcher,
+      Attachment,
+      Worklog,
+      TaskExport,
+    ]),
     BullModule.registerQueue({
       name: 'task-processing',
     }),
+    // Uploads are buffered in memory, so the size limit has to apply while receiving them
+    MulterModule.registerAsync({
+      useFactory: () => ({
+        limits: { fileSize: getAttachmentMaxSizeBytes(), files: 1 },
+      }),
+    }),
+    UsersModule,
+    TeamsModule,
+  ],
+  controllers: [
+    TasksController,
+    TaskDependenciesController,
+    TaskSeriesController,
+    TaskWorkflowController,
+    TaskWatchersController,
+    TaskAttachmentsController,
+    TaskWorklogsController,
+    TimesheetController,
   ],
-  controllers: [TasksController],
   providers: [
     TasksService,
+    TaskDependenciesService,
+    TaskSeriesService,
+    TaskActivitiesService,
+    TaskWorkflowService,
+    TaskWatchersService,
+    TaskAttachmentsService,
+    TaskWorklogsService,
+    TaskImportService,
+    TaskExportsService,
     CacheService,
     {
       provide: TASKS_REPOSITORY,
       useClass: TasksRepository,
     },
+    {
+      provide: TASK_DEPENDENCIES_REPOSITORY,
+      useClass: TaskDependenciesRepository,
+    },
+    {
+      provide: TASK_SERIES_REPOSITORY,
+      useClass: TaskSeriesRepository,
+    },
+    {
+      provide: TASK_ACTIVITIES_REPOSITORY,
+      useClass: TaskActivitiesRepository,
+    },
+    {
+      provide: TASK_STATUS_TRANSITIONS_REPOSITORY,
+      useClass: TaskStatusTransitionsRepository,
+    },
+    {
+      provide: TASK_WATCHERS_REPOSITORY,
+      useClass: TaskWatchersRepository,
+    },
+    {
+      provide: TASK_ATTACHMENTS_REPOSITORY,
+      useClass: TaskAttachmentsRepository,
+    },
+    {
+      provide: TASK_WORKLOGS_REPOSITORY,
+      useClass: TaskWorklogsRepository,
+    },
+    {
+      provide: TASK_EXPORTS_REPOSITORY,
+      useClass: TaskExportsRepository,
+    },
+    {
+      provide: FILE_STORAGE,
+      useClass: LocalFileStorage,
+    },
   ],
-  exports: [TasksService],
+  exports: [TasksService, TaskSeriesService, TaskWatchersService, TaskExportsService, CacheService],
 })
 export class TasksModule {}
@@ -1,11 +1,33 @@
 import { Task } from './entities/task.entity';
 import { TaskStatus } from './enums/task-status.enum';
 import { TaskPriority } from './enums/task-priority.enum';
+import { TagMatchMode } from './enums/tag-match-mode.enum';
+import { TaskSortField } from './enums/task-sort-field.enum';
+import { SortOrder } from './enums/sort-order.enum';
+import { EstimateMeasureFrom } from './enums/estimate-measure-from.enum';
 
 export interface TaskFilterOptions {
-  status?: TaskStatus;
-  priority?: TaskPriority;
+  /** Always applied: tasks never cross organizations */
+  organizationId: string;
+  status?: TaskStatus[];
+  priority?: TaskPriority[];
   userId?: string;
+  /** Tasks the user owns or that are shared with one of their teams */
+  visibleToUserId?: string;
+  assigneeId?: string;
+  projectIds?: string[];
+  hasProject?: boolean;
+  tagIds?: string[];
+  tagMatch?: TagMatchMode;
+  search?: string;
+  dueBefore?: Date;
+  dueAfter?: Date;
+  createdBefore?: Date;
+  createdAfter?: Date;
+  overdue?: boolean;
+  hasDueDate?: boolean;
+  sortBy?: TaskSortField;
+  sortOrder?: SortOrder;
 }
 
 export interface PaginationOptions {
@@ -21,43 +43,277 @@ export interface PaginatedResult<T> {
   totalPages: number;
 }
 
+/** Keyset position; createdAt is kept as Postgres text so microseconds survive the round trip */
+export interface TaskCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface CursorPaginationOptions {
+  after?: TaskCursor;
+  limit: number;
+  includeTotal: boolean;
+}
+
+export interface CursorPaginatedResult<T> {
+  data: T[];
+  nextCursor: TaskCursor | null;
+  total?: number;
+}
+
 export interface TaskStatistics {
   total: number;
   completed: number;
   inProgress: number;
   pending: number;
+  blocked: number;
+  inReview: number;
+  cancelled: number;
   highPriority: number;
+  overdue: number;
+}
+
+/** A task as exported: its own columns plus the IDs of its tags, no other relations */
+export interface TaskExportRow {
+  id: string;
+  title: string;
+  description: string | null;
+  status: TaskStatus;
+  priority: TaskPriority;
+  dueDate: Date | null;
+  estimateMinutes: number | null;
+  storyPoints: number | null;
+  userId: string;
+  assigneeId: string | null;
+  projectId: string | null;
+  teamId: string | null;
+  parentId: string | null;
+  tagIds: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Where a move puts a task in its column: directly below beforeId, directly above afterId,
+ * or at the bottom when neither is given
+ */
+export interface TaskMoveNeighbours {
+  beforeId?: string;
+  afterId?: string;
+}
+
+export interface TaskMoveResult {
+  task: Task;
+  /** Tasks of the column whose ranks were renumbered to make room; their order is unchanged */
+  rebalancedIds: string[];
+}
+
+export interface TaskBoardColumn {
+  status: TaskStatus;
+  total: number;
+  tasks: Task[];
+}
+
+/** The parts of a project that decide whether tasks can be added to it */
+export interface TaskProjectRef {
+  id: string;
+  userId: string;
+  organizationId: string;
+  archived: boolean;
+}
+
+export interface TaskHierarchyStats {
+  childCount: number;
+  descendantCount: number;
+  completedDescendantCount: number;
+}
+
+export interface EstimateReportFilters {
+  organizationId: string;
+  /** Tasks owned by or assigned to this user; all tasks when omitted */
+  userId?: string;
+  priority?: TaskPriority[];
+  completedAfter?: Date;
+  completedBefore?: Date;
+  measureFrom: EstimateMeasureFrom;
+}
+
+export interface EstimateComparison {
+  taskId: string;
+  title: string;
+  priority: TaskPriority;
+  estimateMinutes: number;
+  storyPoints: number | null;
+  startedAt: Date;
+  completedAt: Date;
+  actualMinutes: number;
+  /** actualMinutes / estimateMinutes; above 1 means the task was underestimated */
+  ratio: number;
+}
+
+export interface EstimateAccuracy {
+  taskCount: number;
+  totalEstimateMinutes: number;
+  totalActualMinutes: number;
+  averageRatio: number | null;
+  medianRatio: number | null;
+  /** Mean of |actual - estimate| / estimate, in percent */
+  meanAbsoluteErrorPercent: number | null;
+  underestimatedCount: number;
+  overestimatedCount: number;
+  /** Actual minutes per story point over tasks that have story points */
+  minutesPerStoryPoint: number | null;
 }
 
+export interface EstimateReport {
+  summary: EstimateAccuracy;
+  byPriority: (EstimateAccuracy & { priority: TaskPriority })[];
+  comparisons: PaginatedResult<EstimateComparison>;
+}
+
+/**
+ * Reads take the organization to search in, so one tenant never sees another's tasks.
+ * Writes, tree walks and lookups by the IDs those reads return are keyed by task ID
+ * alone; callers load the task through a scoped read first
+ */
 export interface ITasksRepository {
   create(taskData: Partial<Task>): Promise<Task>;
 
-  findAll(withRelations?: boolean): Promise<Task[]>;
+  findAll(organizationId: string, withRelations?: boolean): Promise<Task[]>;
 
   findWithFilters(
     filters: TaskFilterOptions,
     pagination?: PaginationOptions,
   ): Promise<PaginatedResult<Task>>;
 
-  findById(id: string, withRelations?: boolean): Promise<Task | null>;
+  /** Newest-first keyset pagination over (createdAt, id); stable when tasks are added mid-scroll */
+  findWithFiltersByCursor(
+    filters: TaskFilterOptions,
+    options: CursorPaginationOptions,
+  ): Promise<CursorPaginatedResult<Task>>;
+
+  countWithFilters(filters: TaskFilterOptions): Promise<number>;
+
+  /**
+   * Matching tasks in list order, read through a database cursor in batches of batchSize so
+   * an export never holds more than one batch in memory. The cursor's transaction stays open
+   * until the generator finishes or is returned early
+   */
+  streamWithFilters(filters: TaskFilterOptions, batchSize: number): AsyncGenerator<TaskExportRow[]>;
+
+  /**
+   * Matching tasks grouped by status in rank order, at most `limit` per column. Every status
+   * gets a column unless the filters select some
+   */
+  findBoard(filters: TaskFilterOptions, limit: number): Promise<TaskBoardColumn[]>;
+
+  /**
+   * Puts the task in the status column and ranks it between its neighbours there; status and
+   * rank are written in one transaction. Moves within a column are serialized, so two of them
+   * never get the same rank, and the column is renumbered when the neighbours are too close to
+   * split. Returns null without writing anything when the task no longer has currentStatus, a
+   * neighbour is no longer in the column or beforeId and afterId are no longer next to each other
+   */
+  moveInColumn(
+    id: string,
+    organizationId: string,
+    currentStatus: TaskStatus,
+    status: TaskStatus,
+    neighbours: TaskMoveNeighbours,
+  ): Promise<TaskMoveResult | null>;
 
-  findByStatus(status: TaskStatus): Promise<Task[]>;
+  findById(id: string, organizationId: string, withRelations?: boolean): Promise<Task | null>;
 
-  findByUserId(userId: string): Promise<Task[]>;
+  /** For queue jobs, which act on a task ID outside any request's organization */
+  findByIdInAnyOrganization(id: string): Promise<Task | null>;
 
-  findByUserIdAndStatus(userId: string, status: TaskStatus): Promise<Task[]>;
+  findByStatus(status: TaskStatus, organizationId: string): Promise<Task[]>;
+
+  findByUserId(userId: string, organizationId: string): Promise<Task[]>;
+
+  findByUserIdAndStatus(
+    userId: string,
+    status: TaskStatus,
+    organizationId: string,
+  ): Promise<Task[]>;
+
+  /** Tasks the user owns or is assigned to that have a due date and are not closed, soonest first */
+  findOpenWithDueDateForUser(userId: string, organizationId: string): Promise<Task[]>;
 
   update(id: string, taskData: Partial<Task>): Promise<Task>;
 
-  delete(id: string): Promise<void>;
+  /** Moves the task to the trash; it stays restorable until purged */
+  softDelete(id: string): Promise<void>;
+
+  restore(id: string): Promise<Task>;
+
+  findDeletedById(id: string, organizationId: string): Promise<Task | null>;
+
+  /** Trashed tasks, most recently deleted first; all users when userId is omitted */
+  findDeleted(
+    organizationId: string,
+    userId?: string,
+    pagination?: PaginationOptions,
+  ): Promise<PaginatedResult<Task>>;
+
+  /** Purge candidates across every organization, for the retention job */
+  findDeletedBefore(
+    cutoff: Date,
+    limit: number,
+  ): Promise<Pick<Task, 'id' | 'userId' | 'organizationId' | 'teamId'>[]>;
+
+  findChildIds(parentIds: string[]): Promise<string[]>;
+
+  /** Permanently deletes trashed tasks; tasks that are not in the trash are left alone */
+  purge(ids: string[]): Promise<number>;
 
   batchUpdateStatus(ids: string[], status: TaskStatus): Promise<number>;
 
-  batchDelete(ids: string[]): Promise<number>;
+  /**
+   * Writes the same fields to every task in one transaction and returns the updated tasks.
+   * Tasks whose status is no longer the one passed in were changed since the caller checked
+   * them, so they are skipped and missing from the result
+   */
+  batchUpdate(tasks: Pick<Task, 'id' | 'status'>[], taskData: Partial<Task>): Promise<Task[]>;
+
+  batchSoftDelete(ids: string[]): Promise<number>;
+
+  findCompactByIds(
+    ids: string[],
+    organizationId: string,
+  ): Promise<Pick<Task, 'id' | 'userId' | 'assigneeId' | 'teamId' | 'status'>[]>;
+
+  findByIds(ids: string[], organizationId: string): Promise<Task[]>;
+
+  /** Counts over the organization's tasks, or over the tasks of one project */
+  getStatistics(filters: { organizationId: string; projectId?: string }): Promise<TaskStatistics>;
+
+  findProjectById(projectId: string): Promise<TaskProjectRef | null>;
+
+  /** IDs of the project's tasks that are not in the trash */
+  findIdsByProjectId(projectId: string, organizationId: string): Promise<string[]>;
+
+  /** Moves every task of the project, trashed ones included, and returns their IDs */
+  moveToProject(
+    projectId: string,
+    targetProjectId: string,
+    organizationId: string,
+  ): Promise<string[]>;
+
+  /**
+   * Estimated vs. elapsed time of completed tasks with an estimate. Completion is the last move
+   * to COMPLETED in the activity log, so tasks completed before it existed are left out
+   */
+  getEstimateReport(
+    filters: EstimateReportFilters,
+    pagination: PaginationOptions,
+  ): Promise<EstimateReport>;
+
+  findChildren(parentId: string): Promise<Task[]>;
 
-  findCompactByIds(ids: string[]): Promise<Pick<Task, 'id' | 'userId'>[]>;
+  findDescendantIds(id: string, options?: { openOnly?: boolean }): Promise<string[]>;
 
-  getStatistics(): Promise<TaskStatistics>;
+  getHierarchyStats(ids: string[]): Promise<Map<string, TaskHierarchyStats>>;
 
   batchCreate(tasksData: Partial<Task>[]): Promise<Task[]>;
 }
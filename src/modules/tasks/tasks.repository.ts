@@ -1,15 +1,94 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, In } from 'typeorm';
+import { Repository, In, SelectQueryBuilder, EntityManager } from 'typeorm';
 import { Task } from './entities/task.entity';
-import { TaskStatus } from './enums/task-status.enum';
+import { TaskStatus, CLOSED_TASK_STATUSES } from './enums/task-status.enum';
+import { TaskPriority } from './enums/task-priority.enum';
+import { TagMatchMode } from './enums/tag-match-mode.enum';
+import { TaskSortField } from './enums/task-sort-field.enum';
+import { SortOrder } from './enums/sort-order.enum';
 import {
   ITasksRepository,
   TaskFilterOptions,
   PaginationOptions,
   PaginatedResult,
   TaskStatistics,
+  TaskHierarchyStats,
+  CursorPaginationOptions,
+  CursorPaginatedResult,
+  EstimateReportFilters,
+  EstimateReport,
+  EstimateAccuracy,
+  EstimateComparison,
+  TaskProjectRef,
+  TaskExportRow,
+  TaskBoardColumn,
+  TaskMoveNeighbours,
+  TaskMoveResult,
 } from './tasks.repository.interface';
+import { EstimateMeasureFrom } from './enums/estimate-measure-from.enum';
+import { SEARCH_CONFIG } from './entities/task.entity';
+
+const PRIORITY_RANK = `CASE task.priority WHEN '${TaskPriority.HIGH}' THEN 3 WHEN '${TaskPriority.MEDIUM}' THEN 2 WHEN '${TaskPriority.LOW}' THEN 1 ELSE 0 END`;
+
+const PRIORITY_ORDER = [TaskPriority.HIGH, TaskPriority.MEDIUM, TaskPriority.LOW];
+
+/** Raw aggregate row; numerics and bigints arrive as strings */
+interface EstimateAccuracyRow {
+  priority: TaskPriority | null;
+  isTotal: number;
+  taskCount: number;
+  totalEstimateMinutes: string;
+  totalActualMinutes: string;
+  averageRatio: string | null;
+  medianRatio: string | null;
+  meanAbsoluteErrorPercent: string | null;
+  underestimatedCount: number;
+  overestimatedCount: number;
+  minutesPerStoryPoint: string | null;
+}
+
+type EstimateComparisonRow = Omit<EstimateComparison, 'ratio'> & { ratio: string };
+
+const DEFAULT_SORT_ORDERS: Record<TaskSortField, SortOrder> = {
+  [TaskSortField.CREATED_AT]: SortOrder.DESC,
+  [TaskSortField.UPDATED_AT]: SortOrder.DESC,
+  [TaskSortField.PRIORITY]: SortOrder.DESC,
+  [TaskSortField.DUE_DATE]: SortOrder.ASC,
+  [TaskSortField.TITLE]: SortOrder.ASC,
+};
+
+const SEARCH_TS_QUERY = `websearch_to_tsquery('${SEARCH_CONFIG}', :search)`;
+
+// Exported alongside the ID; tag IDs are added as an array
+const EXPORT_COLUMNS: (keyof TaskExportRow)[] = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueDate',
+  'estimateMinutes',
+  'storyPoints',
+  'userId',
+  'assigneeId',
+  'projectId',
+  'teamId',
+  'parentId',
+  'createdAt',
+  'updatedAt',
+];
+
+// Neighbours closer than this are not split; their column is renumbered first. At the size
+// of the sequence values ranks start from, doubles still resolve much smaller differences
+const MIN_RANK_GAP = 1e-6;
+
+interface RankBounds {
+  lower: number | null;
+  upper: number | null;
+}
+
+const HEADLINE_OPTIONS =
+  'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2';
 
 @Injectable()
 export class TasksRepository implements ITasksRepository {
@@ -23,8 +102,11 @@ export class TasksRepository implements ITasksRepository {
     return this.tasksRepo.save(task);
   }
 
-  async findAll(withRelations: boolean = false): Promise<Task[]> {
-    const query = this.tasksRepo.createQueryBuilder('task').orderBy('task.createdAt', 'DESC');
+  async findAll(organizationId: string, withRelations: boolean = false): Promise<Task[]> {
+    const query = this.tasksRepo
+      .createQueryBuilder('task')
+      .where('task.organizationId = :organizationId', { organizationId })
+      .orderBy('task.createdAt', 'DESC');
 
     if (withRelations) {
       query.leftJoinAndSelect('task.user', 'user');
@@ -37,28 +119,258 @@ export class TasksRepository implements ITasksRepository {
     filters: TaskFilterOptions,
     pagination?: PaginationOptions,
   ): Promise<PaginatedResult<Task>> {
-    const query = this.tasksRepo.createQueryBuilder('task').leftJoin('task.user', 'user');
+    if (filters.search) {
+      return this.searchWithFilters(filters, pagination);
+    }
+
+    const matchQuery = this.tasksRepo.createQueryBuilder('task');
+    this.applyFilters(matchQuery, filters);
 
-    if (filters.status) {
-      query.andWhere('task.status = :status', { status: filters.status });
+    const total = await matchQuery.clone().getCount();
+
+    const pageQuery = matchQuery.select('task.id', 'id');
+    this.applySort(pageQuery, filters);
+
+    if (pagination) {
+      pageQuery.offset((pagination.page - 1) * pagination.limit).limit(pagination.limit);
     }
 
-    if (filters.priority) {
-      query.andWhere('task.priority = :priority', { priority: filters.priority });
+    const rows = await pageQuery.getRawMany<{ id: string }>();
+
+    return {
+      data: await this.findByIdsInOrder(rows.map(row => row.id)),
+      total,
+      page: pagination?.page || 1,
+      limit: pagination?.limit || total,
+      totalPages: pagination ? Math.ceil(total / pagination.limit) : 1,
+    };
+  }
+
+  async findWithFiltersByCursor(
+    filters: TaskFilterOptions,
+    options: CursorPaginationOptions,
+  ): Promise<CursorPaginatedResult<Task>> {
+    const { after, limit, includeTotal } = options;
+
+    const matchQuery = this.tasksRepo.createQueryBuilder('task');
+    this.applyFilters(matchQuery, filters);
+
+    const total = includeTotal ? await matchQuery.clone().getCount() : undefined;
+
+    const pageQuery = matchQuery
+      .select('task.id', 'id')
+      // Text keeps the microseconds a JS Date would drop, so no row is skipped at page edges
+      .addSelect('CAST(task.createdAt AS text)', 'created_at')
+      .orderBy('task.createdAt', 'DESC')
+      .addOrderBy('task.id', 'DESC')
+      // One extra row tells whether another page exists without counting
+      .limit(limit + 1);
+
+    if (after) {
+      pageQuery.andWhere(
+        '(task.createdAt, task.id) < (CAST(:afterCreatedAt AS timestamp), CAST(:afterId AS uuid))',
+        { afterCreatedAt: after.createdAt, afterId: after.id },
+      );
     }
 
-    if (filters.userId) {
-      query.andWhere('task.userId = :userId', { userId: filters.userId });
+    const rows = await pageQuery.getRawMany<{ id: string; created_at: string }>();
+    const pageRows = rows.slice(0, limit);
+
+    const lastRow = pageRows[pageRows.length - 1];
+
+    return {
+      data: await this.findByIdsInOrder(pageRows.map(row => row.id)),
+      nextCursor:
+        rows.length > limit && lastRow ? { createdAt: lastRow.created_at, id: lastRow.id } : null,
+      total,
+    };
+  }
+
+  async countWithFilters(filters: TaskFilterOptions): Promise<number> {
+    const query = this.tasksRepo.createQueryBuilder('task');
+    this.applySearch(query, filters);
+    this.applyFilters(query, filters);
+
+    return query.getCount();
+  }
+
+  async *streamWithFilters(
+    filters: TaskFilterOptions,
+    batchSize: number,
+  ): AsyncGenerator<TaskExportRow[]> {
+    const query = this.tasksRepo.createQueryBuilder('task').select('task.id', 'id');
+    for (const column of EXPORT_COLUMNS) {
+      query.addSelect(`task.${column}`, column);
+    }
+    query.addSelect(
+      'ARRAY(SELECT tt.tag_id::text FROM task_tags tt WHERE tt.task_id = task.id ORDER BY tt.tag_id)',
+      'tagIds',
+    );
+
+    this.applySearch(query, filters);
+    this.applyFilters(query, filters);
+
+    // Same order as GET /tasks: relevance for searches unless a sort is requested
+    if (filters.search && !filters.sortBy) {
+      query
+        .addSelect(`ts_rank(task.searchVector, ${SEARCH_TS_QUERY})`, 'search_rank')
+        .orderBy('search_rank', 'DESC')
+        .addOrderBy('task.createdAt', 'DESC')
+        .addOrderBy('task.id', 'DESC');
+    } else {
+      this.applySort(query, filters);
+    }
+
+    const [sql, parameters] = query.getQueryAndParameters();
+
+    // A cursor only lives as long as its transaction, so it gets a connection of its own
+    const queryRunner = this.tasksRepo.manager.connection.createQueryRunner('slave');
+    await queryRunner.connect();
+
+    try {
+      await queryRunner.startTransaction('REPEATABLE READ');
+      await queryRunner.query(`DECLARE task_export NO SCROLL CURSOR FOR ${sql}`, parameters);
+
+      while (true) {
+        const rows: TaskExportRow[] = await queryRunner.query(
+          `FETCH FORWARD ${Math.floor(batchSize)} FROM task_export`,
+        );
+
+        if (rows.length === 0) {
+          break;
+        }
+
+        yield rows.map(row => ({
+          id: row.id,
+          title: row.title,
+          description: row.description,
+          status: row.status,
+          priority: row.priority,
+          dueDate: row.dueDate,
+          estimateMinutes: row.estimateMinutes,
+          storyPoints: row.storyPoints,
+          userId: row.userId,
+          assigneeId: row.assigneeId,
+          projectId: row.projectId,
+          teamId: row.teamId,
+          parentId: row.parentId,
+          tagIds: row.tagIds,
+          createdAt: row.createdAt,
+          updatedAt: row.updatedAt,
+        }));
+      }
+
+      // Read-only, so committing and rolling back are the same; either closes the cursor
+      await queryRunner.commitTransaction();
+    } finally {
+      if (queryRunner.isTransactionActive) {
+        await queryRunner.rollbackTransaction();
+      }
+      await queryRunner.release();
+    }
+  }
+
+  async findBoard(filters: TaskFilterOptions, limit: number): Promise<TaskBoardColumn[]> {
+    const matchQuery = this.tasksRepo.createQueryBuilder('task');
+    this.applySearch(matchQuery, filters);
+    this.applyFilters(matchQuery, filters);
+
+    const totals = await matchQuery
+      .clone()
+      .select('task.status', 'status')
+      .addSelect('COUNT(*)', 'total')
+      .groupBy('task.status')
+      .getRawMany<{ status: TaskStatus; total: string }>();
+
+    const [sql, parameters] = matchQuery
+      .clone()
+      .select('task.id', 'id')
+      .addSelect(
+        'ROW_NUMBER() OVER (PARTITION BY task.status ORDER BY task.rank, task.id)',
+        'board_position',
+      )
+      .getQueryAndParameters();
+
+    const rows: { id: string }[] = await this.tasksRepo.query(
+      `SELECT id FROM (${sql}) column_tasks WHERE board_position <= $${parameters.length + 1} ORDER BY board_position`,
+      [...parameters, limit],
+    );
+
+    const tasks = await this.findByIdsInOrder(rows.map(row => row.id));
+    const totalsByStatus = new Map(totals.map(row => [row.status, Number(row.total)]));
+    const statuses = Object.values(TaskStatus).filter(
+      status => !filters.status?.length || filters.status.includes(status),
+    );
+
+    return statuses.map(status => ({
+      status,
+      total: totalsByStatus.get(status) ?? 0,
+      tasks: tasks.filter(task => task.status === status),
+    }));
+  }
+
+  /**
+   * Ranks and pages matching IDs first, then loads those tasks with their relations.
+   * Ordering by a computed rank does not mix well with joined relations plus skip/take
+   */
+  private async searchWithFilters(
+    filters: TaskFilterOptions,
+    pagination?: PaginationOptions,
+  ): Promise<PaginatedResult<Task>> {
+    const matchQuery = this.tasksRepo
+      .createQueryBuilder('task')
+      .where(`task.searchVector @@ ${SEARCH_TS_QUERY}`, { search: filters.search });
+
+    this.applyFilters(matchQuery, filters);
+
+    const total = await matchQuery.clone().getCount();
+
+    const rankedQuery = matchQuery
+      .select('task.id', 'id')
+      .addSelect(`ts_rank(task.searchVector, ${SEARCH_TS_QUERY})`, 'search_rank')
+      .addSelect(
+        `ts_headline('${SEARCH_CONFIG}', task.title, ${SEARCH_TS_QUERY}, '${HEADLINE_OPTIONS}')`,
+        'title_highlight',
+      )
+      .addSelect(
+        `ts_headline('${SEARCH_CONFIG}', COALESCE(task.description, ''), ${SEARCH_TS_QUERY}, '${HEADLINE_OPTIONS}')`,
+        'description_highlight',
+      );
+
+    // An explicit sort replaces relevance order; rank and highlights are still returned
+    if (filters.sortBy) {
+      this.applySort(rankedQuery, filters);
+    } else {
+      // The ID breaks ties so equally ranked tasks never repeat or go missing across pages
+      rankedQuery
+        .orderBy('search_rank', 'DESC')
+        .addOrderBy('task.createdAt', 'DESC')
+        .addOrderBy('task.id', 'DESC');
     }
 
     if (pagination) {
-      const skip = (pagination.page - 1) * pagination.limit;
-      query.skip(skip).take(pagination.limit);
+      rankedQuery.offset((pagination.page - 1) * pagination.limit).limit(pagination.limit);
     }
 
-    query.orderBy('task.createdAt', 'DESC');
+    const rankedRows = await rankedQuery.getRawMany<{
+      id: string;
+      search_rank: number;
+      title_highlight: string;
+      description_highlight: string;
+    }>();
 
-    const [data, total] = await query.getManyAndCount();
+    const tasks = await this.findByIdsInOrder(rankedRows.map(row => row.id));
+    const rowsById = new Map(rankedRows.map(row => [row.id, row]));
+
+    const data = tasks.map(task => {
+      const row = rowsById.get(task.id) as (typeof rankedRows)[number];
+      task.searchRank = Number(row.search_rank);
+      task.highlight = {
+        title: row.title_highlight,
+        description: row.description_highlight || null,
+      };
+      return task;
+    });
 
     return {
       data,
@@ -69,43 +381,215 @@ export class TasksRepository implements ITasksRepository {
     };
   }
 
-  async findById(id: string, withRelations: boolean = false): Promise<Task | null> {
-    const query = this.tasksRepo.createQueryBuilder('task').where('task.id = :id', { id });
+  /**
+   * Loads list entries with the relations the list response needs, keeping the given order
+   */
+  private async findByIdsInOrder(ids: string[]): Promise<Task[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const tasks = await this.tasksRepo
+      .createQueryBuilder('task')
+      .leftJoinAndSelect('task.tags', 'tag')
+      .loadRelationCountAndMap('task.commentCount', 'task.comments')
+      .whereInIds(ids)
+      .getMany();
+
+    const tasksById = new Map(tasks.map(task => [task.id, task]));
+    return ids.filter(id => tasksById.has(id)).map(id => tasksById.get(id) as Task);
+  }
+
+  private applySearch(query: SelectQueryBuilder<Task>, filters: TaskFilterOptions): void {
+    if (filters.search) {
+      query.andWhere(`task.searchVector @@ ${SEARCH_TS_QUERY}`, { search: filters.search });
+    }
+  }
+
+  private applyFilters(query: SelectQueryBuilder<Task>, filters: TaskFilterOptions): void {
+    query.andWhere('task.organizationId = :organizationId', {
+      organizationId: filters.organizationId,
+    });
+
+    if (filters.status?.length) {
+      query.andWhere('task.status IN (:...statuses)', { statuses: filters.status });
+    }
+
+    if (filters.priority?.length) {
+      query.andWhere('task.priority IN (:...priorities)', { priorities: filters.priority });
+    }
+
+    if (filters.dueBefore) {
+      query.andWhere('task.dueDate <= :dueBefore', { dueBefore: filters.dueBefore });
+    }
+
+    if (filters.dueAfter) {
+      query.andWhere('task.dueDate >= :dueAfter', { dueAfter: filters.dueAfter });
+    }
+
+    if (filters.createdBefore) {
+      query.andWhere('task.createdAt <= :createdBefore', { createdBefore: filters.createdBefore });
+    }
+
+    if (filters.createdAfter) {
+      query.andWhere('task.createdAt >= :createdAfter', { createdAfter: filters.createdAfter });
+    }
+
+    if (filters.hasDueDate !== undefined) {
+      query.andWhere(filters.hasDueDate ? 'task.dueDate IS NOT NULL' : 'task.dueDate IS NULL');
+    }
+
+    // Same definition as the overdue notification job
+    if (filters.overdue !== undefined) {
+      const overdueCondition = 'task.dueDate < :now AND task.status NOT IN (:...closedStatuses)';
+      query.andWhere(filters.overdue ? overdueCondition : `NOT (${overdueCondition})`, {
+        now: new Date(),
+        closedStatuses: CLOSED_TASK_STATUSES,
+      });
+    }
+
+    if (filters.userId) {
+      query.andWhere('task.userId = :userId', { userId: filters.userId });
+    }
+
+    if (filters.visibleToUserId) {
+      query.andWhere(
+        '(task.userId = :visibleToUserId OR task.teamId IN (SELECT tm.team_id FROM team_members tm WHERE tm.user_id = :visibleToUserId))',
+        { visibleToUserId: filters.visibleToUserId },
+      );
+    }
+
+    if (filters.assigneeId) {
+      query.andWhere('task.assigneeId = :assigneeId', { assigneeId: filters.assigneeId });
+    }
+
+    if (filters.projectIds?.length) {
+      query.andWhere('task.projectId IN (:...projectIds)', { projectIds: filters.projectIds });
+    }
+
+    if (filters.hasProject !== undefined) {
+      query.andWhere(filters.hasProject ? 'task.projectId IS NOT NULL' : 'task.projectId IS NULL');
+    }
+
+    // Filtered in a subquery so a joined tag list still contains every tag of the task
+    if (filters.tagIds && filters.tagIds.length > 0) {
+      const matchAll = filters.tagMatch === TagMatchMode.ALL;
+      query.andWhere(
+        `task.id IN (
+          SELECT tt.task_id FROM task_tags tt
+          WHERE tt.tag_id IN (:...tagIds)
+          GROUP BY tt.task_id
+          HAVING COUNT(DISTINCT tt.tag_id) >= :requiredTagCount
+        )`,
+        {
+          tagIds: filters.tagIds,
+          requiredTagCount: matchAll ? new Set(filters.tagIds).size : 1,
+        },
+      );
+    }
+  }
+
+  /**
+   * Orders by the requested field, then newest first so pages stay deterministic on ties
+   */
+  private applySort(query: SelectQueryBuilder<Task>, filters: TaskFilterOptions): void {
+    const sortBy = filters.sortBy ?? TaskSortField.CREATED_AT;
+    const sortOrder = filters.sortOrder ?? DEFAULT_SORT_ORDERS[sortBy];
+    const direction = sortOrder === SortOrder.ASC ? 'ASC' : 'DESC';
+
+    switch (sortBy) {
+      case TaskSortField.PRIORITY:
+        query.addSelect(PRIORITY_RANK, 'priority_rank').orderBy('priority_rank', direction);
+        break;
+      case TaskSortField.DUE_DATE:
+        query.orderBy('task.dueDate', direction, 'NULLS LAST');
+        break;
+      case TaskSortField.TITLE:
+        query.orderBy('task.title', direction);
+        break;
+      case TaskSortField.UPDATED_AT:
+        query.orderBy('task.updatedAt', direction);
+        break;
+      case TaskSortField.CREATED_AT:
+        query.orderBy('task.createdAt', direction);
+        break;
+    }
+
+    if (sortBy !== TaskSortField.CREATED_AT) {
+      query.addOrderBy('task.createdAt', 'DESC');
+    }
+
+    query.addOrderBy('task.id', 'DESC');
+  }
+
+  async findById(
+    id: string,
+    organizationId: string,
+    withRelations: boolean = false,
+  ): Promise<Task | null> {
+    const query = this.tasksRepo
+      .createQueryBuilder('task')
+      .where('task.id = :id', { id })
+      .andWhere('task.organizationId = :organizationId', { organizationId });
 
     if (withRelations) {
       query
         .leftJoinAndSelect('task.user', 'user')
-        .addSelect(['user.id', 'user.email', 'user.name', 'user.role']);
+        .addSelect(['user.id', 'user.email', 'user.name', 'user.role'])
+        .leftJoinAndSelect('task.tags', 'tag');
     }
 
     return query.getOne();
   }
 
-  async findByStatus(status: TaskStatus): Promise<Task[]> {
+  async findByIdInAnyOrganization(id: string): Promise<Task | null> {
+    return this.tasksRepo.createQueryBuilder('task').where('task.id = :id', { id }).getOne();
+  }
+
+  async findByStatus(status: TaskStatus, organizationId: string): Promise<Task[]> {
     return this.tasksRepo
       .createQueryBuilder('task')
       .where('task.status = :status', { status })
+      .andWhere('task.organizationId = :organizationId', { organizationId })
       .orderBy('task.createdAt', 'DESC')
       .getMany();
   }
 
-  async findByUserId(userId: string): Promise<Task[]> {
+  async findByUserId(userId: string, organizationId: string): Promise<Task[]> {
     return this.tasksRepo
       .createQueryBuilder('task')
       .where('task.userId = :userId', { userId })
+      .andWhere('task.organizationId = :organizationId', { organizationId })
       .orderBy('task.createdAt', 'DESC')
       .getMany();
   }
 
-  async findByUserIdAndStatus(userId: string, status: TaskStatus): Promise<Task[]> {
+  async findByUserIdAndStatus(
+    userId: string,
+    status: TaskStatus,
+    organizationId: string,
+  ): Promise<Task[]> {
     return this.tasksRepo
       .createQueryBuilder('task')
       .where('task.userId = :userId', { userId })
+      .andWhere('task.organizationId = :organizationId', { organizationId })
       .andWhere('task.status = :status', { status })
       .orderBy('task.createdAt', 'DESC')
       .getMany();
   }
 
+  async findOpenWithDueDateForUser(userId: string, organizationId: string): Promise<Task[]> {
+    return this.tasksRepo
+      .createQueryBuilder('task')
+      .where('(task.userId = :userId OR task.assigneeId = :userId)', { userId })
+      .andWhere('task.organizationId = :organizationId', { organizationId })
+      .andWhere('task.dueDate IS NOT NULL')
+      .andWhere('task.status NOT IN (:...closedStatuses)', { closedStatuses: CLOSED_TASK_STATUSES })
+      .orderBy('task.dueDate', 'ASC')
+      .addOrderBy('task.id', 'ASC')
+      .getMany();
+  }
+
   async update(id: string, taskData: Partial<Task>): Promise<Task> {
     return this.tasksRepo.manager.transaction(async transactionalEntityManager => {
       await transactionalEntityManager.update(Task, id, taskData);
@@ -122,8 +606,280 @@ export class TasksRepository implements ITasksRepository {
     });
   }
 
-  async delete(id: string): Promise<void> {
-    await this.tasksRepo.delete(id);
+  async moveInColumn(
+    id: string,
+    organizationId: string,
+    currentStatus: TaskStatus,
+    status: TaskStatus,
+    neighbours: TaskMoveNeighbours,
+  ): Promise<TaskMoveResult | null> {
+    return this.tasksRepo.manager.transaction(async transactionalEntityManager => {
+      // Held until commit; moves in other columns and organizations are not held up
+      await transactionalEntityManager.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+        `task-board:${organizationId}:${status}`,
+      ]);
+
+      // The caller checked the status change against currentStatus; a task that changed status
+      // since then would skip those checks
+      const current = await transactionalEntityManager.findOne(Task, {
+        where: { id, status: currentStatus },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!current) {
+        return null;
+      }
+
+      let bounds = await this.findRankBounds(
+        transactionalEntityManager,
+        id,
+        organizationId,
+        status,
+        neighbours,
+      );
+      if (!bounds) {
+        return null;
+      }
+
+      let rebalancedIds: string[] = [];
+      if (
+        bounds.lower !== null &&
+        bounds.upper !== null &&
+        bounds.upper - bounds.lower < MIN_RANK_GAP
+      ) {
+        rebalancedIds = await this.rebalanceColumn(
+          transactionalEntityManager,
+          organizationId,
+          status,
+        );
+        bounds = (await this.findRankBounds(
+          transactionalEntityManager,
+          id,
+          organizationId,
+          status,
+          neighbours,
+        )) as RankBounds;
+      }
+
+      // Below everything means the next sequence value, which is also where new tasks go
+      let rank: number;
+      if (bounds.upper === null) {
+        const [row] = await transactionalEntityManager.query(
+          "SELECT nextval('task_rank_seq') AS rank",
+        );
+        rank = Number(row.rank);
+      } else if (bounds.lower === null) {
+        rank = bounds.upper - 1;
+      } else {
+        rank = (bounds.lower + bounds.upper) / 2;
+      }
+
+      await transactionalEntityManager.update(Task, id, { status, rank });
+
+      const task = await transactionalEntityManager.findOne(Task, { where: { id } });
+      if (!task) {
+        throw new Error(`Task with ID ${id} not found after move`);
+      }
+
+      return { task, rebalancedIds };
+    });
+  }
+
+  /**
+   * Ranks the moved task has to fit between, read under the column lock. Null when a neighbour
+   * left the column, the two are out of order or another task now sits between them
+   */
+  private async findRankBounds(
+    manager: EntityManager,
+    id: string,
+    organizationId: string,
+    status: TaskStatus,
+    { beforeId, afterId }: TaskMoveNeighbours,
+  ): Promise<RankBounds | null> {
+    const neighbourIds = [beforeId, afterId].filter(Boolean) as string[];
+    const rows =
+      neighbourIds.length > 0
+        ? await manager
+            .createQueryBuilder(Task, 'task')
+            .select('task.id', 'id')
+            .addSelect('task.rank', 'rank')
+            .where({ id: In(neighbourIds), organizationId, status })
+            .getRawMany<{ id: string; rank: number }>()
+        : [];
+    const ranks = new Map(rows.map(row => [row.id, row.rank]));
+
+    const before = beforeId ? ranks.get(beforeId) : undefined;
+    const after = afterId ? ranks.get(afterId) : undefined;
+
+    if (
+      (beforeId && before === undefined) ||
+      (afterId && after === undefined) ||
+      (before !== undefined && after !== undefined && before >= after)
+    ) {
+      return null;
+    }
+
+    if (before !== undefined && after !== undefined) {
+      // Trashed tasks are not on the board, so they do not separate the two
+      const between = await manager
+        .createQueryBuilder(Task, 'task')
+        .where({ organizationId, status })
+        .andWhere('task.id != :id', { id })
+        .andWhere('task.rank > :before AND task.rank < :after', { before, after })
+        .getCount();
+
+      if (between > 0) {
+        return null;
+      }
+    }
+
+    // Trashed tasks keep their rank for a restore, so they are never given away
+    const columnQuery = () =>
+      manager
+        .createQueryBuilder(Task, 'task')
+        .withDeleted()
+        .where({ organizationId, status })
+        .andWhere('task.id != :id', { id });
+
+    if (before !== undefined) {
+      const next = await columnQuery()
+        .select('MIN(task.rank)', 'rank')
+        .andWhere('task.rank > :before', { before })
+        .getRawOne<{ rank: number | null }>();
+
+      return { lower: before, upper: next?.rank ?? null };
+    }
+
+    if (after !== undefined) {
+      const previous = await columnQuery()
+        .select('MAX(task.rank)', 'rank')
+        .andWhere('task.rank < :after', { after })
+        .getRawOne<{ rank: number | null }>();
+
+      return { lower: previous?.rank ?? null, upper: after };
+    }
+
+    return { lower: null, upper: null };
+  }
+
+  /**
+   * Gives the column's tasks fresh sequence values in their current order, so neighbours are
+   * a whole rank apart again. Versions are left alone: no task changed position
+   */
+  private async rebalanceColumn(
+    manager: EntityManager,
+    organizationId: string,
+    status: TaskStatus,
+  ): Promise<string[]> {
+    const [rows]: [{ id: string }[], number] = await manager.query(
+      `UPDATE tasks SET rank = ranked.rank
+      FROM (
+        SELECT id, nextval('task_rank_seq') AS rank
+        FROM (SELECT id FROM tasks WHERE organization_id = $1 AND status = $2 ORDER BY rank, id) column_tasks
+      ) ranked
+      WHERE tasks.id = ranked.id
+      RETURNING tasks.id`,
+      [organizationId, status],
+    );
+
+    return rows.map(row => row.id);
+  }
+
+  async softDelete(id: string): Promise<void> {
+    await this.tasksRepo.softDelete(id);
+  }
+
+  async restore(id: string): Promise<Task> {
+    await this.tasksRepo.restore(id);
+
+    const restoredTask = await this.tasksRepo.findOne({ where: { id } });
+
+    if (!restoredTask) {
+      throw new Error(`Task with ID ${id} not found after restore`);
+    }
+
+    return restoredTask;
+  }
+
+  async findDeletedById(id: string, organizationId: string): Promise<Task | null> {
+    return this.tasksRepo
+      .createQueryBuilder('task')
+      .withDeleted()
+      .where('task.id = :id', { id })
+      .andWhere('task.organizationId = :organizationId', { organizationId })
+      .andWhere('task.deletedAt IS NOT NULL')
+      .getOne();
+  }
+
+  async findDeleted(
+    organizationId: string,
+    userId?: string,
+    pagination?: PaginationOptions,
+  ): Promise<PaginatedResult<Task>> {
+    const query = this.tasksRepo
+      .createQueryBuilder('task')
+      .withDeleted()
+      .where('task.deletedAt IS NOT NULL')
+      .andWhere('task.organizationId = :organizationId', { organizationId })
+      .orderBy('task.deletedAt', 'DESC')
+      .addOrderBy('task.id', 'DESC');
+
+    if (userId) {
+      query.andWhere('task.userId = :userId', { userId });
+    }
+
+    if (pagination) {
+      query.skip((pagination.page - 1) * pagination.limit).take(pagination.limit);
+    }
+
+    const [data, total] = await query.getManyAndCount();
+
+    return {
+      data,
+      total,
+      page: pagination?.page || 1,
+      limit: pagination?.limit || total,
+      totalPages: pagination ? Math.ceil(total / pagination.limit) : 1,
+    };
+  }
+
+  async findDeletedBefore(
+    cutoff: Date,
+    limit: number,
+  ): Promise<Pick<Task, 'id' | 'userId' | 'organizationId' | 'teamId'>[]> {
+    return this.tasksRepo
+      .createQueryBuilder('task')
+      .withDeleted()
+      .select(['task.id', 'task.userId', 'task.organizationId', 'task.teamId'])
+      .where('task.deletedAt < :cutoff', { cutoff })
+      .orderBy('task.deletedAt', 'ASC')
+      .take(limit)
+      .getMany();
+  }
+
+  async findChildIds(parentIds: string[]): Promise<string[]> {
+    if (parentIds.length === 0) {
+      return [];
+    }
+
+    const rows = await this.tasksRepo
+      .createQueryBuilder('task')
+      .select('task.id', 'id')
+      .where({ parentId: In(parentIds) })
+      .getRawMany<{ id: string }>();
+
+    return rows.map(row => row.id);
+  }
+
+  async purge(ids: string[]): Promise<number> {
+    const result = await this.tasksRepo
+      .createQueryBuilder()
+      .delete()
+      .from(Task)
+      .where({ id: In(ids) })
+      .andWhere('deleted_at IS NOT NULL')
+      .execute();
+
+    return result.affected || 0;
   }
 
   async batchUpdateStatus(ids: string[], status: TaskStatus): Promise<number> {
@@ -137,46 +893,368 @@ export class TasksRepository implements ITasksRepository {
     return result.affected || 0;
   }
 
-  async findCompactByIds(ids: string[]): Promise<Pick<Task, 'id' | 'userId'>[]> {
+  async batchUpdate(
+    tasks: Pick<Task, 'id' | 'status'>[],
+    taskData: Partial<Task>,
+  ): Promise<Task[]> {
+    const expectedStatuses = new Map(tasks.map(task => [task.id, task.status]));
+
+    return this.tasksRepo.manager.transaction(async transactionalEntityManager => {
+      // Row locks keep the status from changing between this read and the write
+      const current = await transactionalEntityManager.find(Task, {
+        select: { id: true, status: true },
+        where: { id: In([...expectedStatuses.keys()]) },
+        lock: { mode: 'pessimistic_write' },
+      });
+      const ids = current
+        .filter(task => expectedStatuses.get(task.id) === task.status)
+        .map(task => task.id);
+
+      if (ids.length === 0) {
+        return [];
+      }
+
+      await transactionalEntityManager
+        .createQueryBuilder()
+        .update(Task)
+        .set(taskData)
+        .where({ id: In(ids) })
+        .execute();
+
+      return transactionalEntityManager.find(Task, { where: { id: In(ids) } });
+    });
+  }
+
+  async findCompactByIds(
+    ids: string[],
+    organizationId: string,
+  ): Promise<Pick<Task, 'id' | 'userId' | 'assigneeId' | 'teamId' | 'status'>[]> {
     return this.tasksRepo
       .createQueryBuilder('task')
-      .select(['task.id', 'task.userId'])
-      .where({ id: In(ids) })
+      .select(['task.id', 'task.userId', 'task.assigneeId', 'task.teamId', 'task.status'])
+      .where({ id: In(ids), organizationId })
       .getMany();
   }
 
-  async batchDelete(ids: string[]): Promise<number> {
+  async findByIds(ids: string[], organizationId: string): Promise<Task[]> {
+    return this.tasksRepo
+      .createQueryBuilder('task')
+      .where({ id: In(ids), organizationId })
+      .getMany();
+  }
+
+  async batchSoftDelete(ids: string[]): Promise<number> {
     const result = await this.tasksRepo
       .createQueryBuilder()
-      .delete()
+      .softDelete()
       .from(Task)
       .where({ id: In(ids) })
+      .andWhere('deleted_at IS NULL')
       .execute();
 
     return result.affected || 0;
   }
 
-  async getStatistics(): Promise<TaskStatistics> {
-    const result = await this.tasksRepo
+  async getStatistics(filters: {
+    organizationId: string;
+    projectId?: string;
+  }): Promise<TaskStatistics> {
+    const query = this.tasksRepo
       .createQueryBuilder('task')
       .select([
         'COUNT(*) as total',
         `SUM(CASE WHEN task.status = '${TaskStatus.COMPLETED}' THEN 1 ELSE 0 END) as completed`,
         `SUM(CASE WHEN task.status = '${TaskStatus.IN_PROGRESS}' THEN 1 ELSE 0 END) as "inProgress"`,
         `SUM(CASE WHEN task.status = '${TaskStatus.PENDING}' THEN 1 ELSE 0 END) as pending`,
-        `SUM(CASE WHEN task.priority = 'high' THEN 1 ELSE 0 END) as "highPriority"`,
+        `SUM(CASE WHEN task.status = '${TaskStatus.BLOCKED}' THEN 1 ELSE 0 END) as blocked`,
+        `SUM(CASE WHEN task.status = '${TaskStatus.IN_REVIEW}' THEN 1 ELSE 0 END) as "inReview"`,
+        `SUM(CASE WHEN task.status = '${TaskStatus.CANCELLED}' THEN 1 ELSE 0 END) as cancelled`,
+        `SUM(CASE WHEN task.priority = '${TaskPriority.HIGH}' THEN 1 ELSE 0 END) as "highPriority"`,
+        `SUM(CASE WHEN task.dueDate < :now AND task.status NOT IN (:...closedStatuses) THEN 1 ELSE 0 END) as overdue`,
       ])
-      .getRawOne();
+      .setParameters({ now: new Date(), closedStatuses: CLOSED_TASK_STATUSES })
+      .where('task.organizationId = :organizationId', { organizationId: filters.organizationId });
+
+    if (filters.projectId) {
+      query.andWhere('task.projectId = :projectId', { projectId: filters.projectId });
+    }
+
+    const result = await query.getRawOne();
 
     return {
       total: parseInt(result.total) || 0,
       completed: parseInt(result.completed) || 0,
       inProgress: parseInt(result.inProgress) || 0,
       pending: parseInt(result.pending) || 0,
+      blocked: parseInt(result.blocked) || 0,
+      inReview: parseInt(result.inReview) || 0,
+      cancelled: parseInt(result.cancelled) || 0,
       highPriority: parseInt(result.highPriority) || 0,
+      overdue: parseInt(result.overdue) || 0,
     };
   }
 
+  async findProjectById(projectId: string): Promise<TaskProjectRef | null> {
+    const [project] = await this.tasksRepo.query(
+      'SELECT id, user_id AS "userId", organization_id AS "organizationId", archived FROM projects WHERE id = $1',
+      [projectId],
+    );
+
+    return project ?? null;
+  }
+
+  async findIdsByProjectId(projectId: string, organizationId: string): Promise<string[]> {
+    const tasks = await this.tasksRepo
+      .createQueryBuilder('task')
+      .select('task.id')
+      .where('task.projectId = :projectId', { projectId })
+      .andWhere('task.organizationId = :organizationId', { organizationId })
+      .getMany();
+
+    return tasks.map(task => task.id);
+  }
+
+  async moveToProject(
+    projectId: string,
+    targetProjectId: string,
+    organizationId: string,
+  ): Promise<string[]> {
+    const result = await this.tasksRepo
+      .createQueryBuilder()
+      .update(Task)
+      .set({ projectId: targetProjectId })
+      .where('project_id = :projectId', { projectId })
+      .andWhere('organization_id = :organizationId', { organizationId })
+      .returning('id')
+      .execute();
+
+    return result.raw.map((row: { id: string }) => row.id);
+  }
+
+  async getEstimateReport(
+    filters: EstimateReportFilters,
+    pagination: PaginationOptions,
+  ): Promise<EstimateReport> {
+    const params: unknown[] = [
+      TaskStatus.COMPLETED,
+      TaskStatus.IN_PROGRESS,
+      filters.organizationId,
+    ];
+    const conditions = [
+      't.organization_id = $3',
+      't.deleted_at IS NULL',
+      // Compared as text because $1 is also matched against the activity jsonb
+      't.status::text = $1',
+      't.estimate_minutes IS NOT NULL',
+    ];
+
+    if (filters.userId) {
+      params.push(filters.userId);
+      conditions.push(`(t.user_id = $${params.length} OR t.assignee_id = $${params.length})`);
+    }
+
+    if (filters.priority?.length) {
+      params.push(filters.priority);
+      conditions.push(`t.priority::text = ANY($${params.length})`);
+    }
+
+    const completedConditions = ['done.completed_at IS NOT NULL'];
+    if (filters.completedAfter) {
+      params.push(filters.completedAfter);
+      completedConditions.push(`done.completed_at >= $${params.length}`);
+    }
+    if (filters.completedBefore) {
+      params.push(filters.completedBefore);
+      completedConditions.push(`done.completed_at <= $${params.length}`);
+    }
+
+    const startedAt =
+      filters.measureFrom === EstimateMeasureFrom.CREATED
+        ? 't.created_at'
+        : 'COALESCE(started.started_at, t.created_at)';
+
+    // Reopened tasks count from their first start to their last completion
+    const comparisons = `
+      WITH comparisons AS (
+        SELECT
+          t.id,
+          t.title,
+          t.priority,
+          t.estimate_minutes,
+          t.story_points,
+          ${startedAt} AS started_at,
+          done.completed_at,
+          GREATEST(0, ROUND(EXTRACT(EPOCH FROM (done.completed_at - ${startedAt})) / 60))::int
+            AS actual_minutes
+        FROM tasks t
+        CROSS JOIN LATERAL (
+          SELECT MAX(a.created_at) AS completed_at
+          FROM task_activities a
+          WHERE a.task_id = t.id AND a.changes ? 'status' AND a.changes -> 'status' ->> 'to' = $1
+        ) done
+        LEFT JOIN LATERAL (
+          SELECT MIN(a.created_at) AS started_at
+          FROM task_activities a
+          WHERE a.task_id = t.id AND a.changes ? 'status' AND a.changes -> 'status' ->> 'to' = $2
+            AND a.created_at <= done.completed_at
+        ) started ON true
+        WHERE ${conditions.join(' AND ')} AND ${completedConditions.join(' AND ')}
+      )
+    `;
+
+    const accuracyRows: EstimateAccuracyRow[] = await this.tasksRepo.query(
+      `
+      ${comparisons}
+      SELECT
+        priority,
+        GROUPING(priority) AS "isTotal",
+        COUNT(*)::int AS "taskCount",
+        COALESCE(SUM(estimate_minutes), 0)::bigint AS "totalEstimateMinutes",
+        COALESCE(SUM(actual_minutes), 0)::bigint AS "totalActualMinutes",
+        ROUND(AVG(actual_minutes::numeric / estimate_minutes), 2) AS "averageRatio",
+        ROUND(
+          (PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY actual_minutes::numeric / estimate_minutes))::numeric,
+          2
+        ) AS "medianRatio",
+        ROUND(AVG(ABS(actual_minutes - estimate_minutes)::numeric / estimate_minutes) * 100, 1)
+          AS "meanAbsoluteErrorPercent",
+        COUNT(*) FILTER (WHERE actual_minutes > estimate_minutes)::int AS "underestimatedCount",
+        COUNT(*) FILTER (WHERE actual_minutes < estimate_minutes)::int AS "overestimatedCount",
+        ROUND(
+          SUM(actual_minutes) FILTER (WHERE story_points > 0)::numeric
+            / NULLIF(SUM(story_points) FILTER (WHERE story_points > 0), 0),
+          1
+        ) AS "minutesPerStoryPoint"
+      FROM comparisons
+      GROUP BY GROUPING SETS ((), (priority))
+      `,
+      params,
+    );
+
+    const rows: EstimateComparisonRow[] = await this.tasksRepo.query(
+      `
+      ${comparisons}
+      SELECT
+        id AS "taskId",
+        title,
+        priority,
+        estimate_minutes AS "estimateMinutes",
+        story_points AS "storyPoints",
+        started_at AS "startedAt",
+        completed_at AS "completedAt",
+        actual_minutes AS "actualMinutes",
+        ROUND(actual_minutes::numeric / estimate_minutes, 2) AS ratio
+      FROM comparisons
+      ORDER BY completed_at DESC, id DESC
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+      `,
+      [...params, pagination.limit, (pagination.page - 1) * pagination.limit],
+    );
+
+    const toAccuracy = (row: EstimateAccuracyRow): EstimateAccuracy => ({
+      taskCount: row.taskCount,
+      totalEstimateMinutes: Number(row.totalEstimateMinutes),
+      totalActualMinutes: Number(row.totalActualMinutes),
+      averageRatio: toNullableNumber(row.averageRatio),
+      medianRatio: toNullableNumber(row.medianRatio),
+      meanAbsoluteErrorPercent: toNullableNumber(row.meanAbsoluteErrorPercent),
+      underestimatedCount: row.underestimatedCount,
+      overestimatedCount: row.overestimatedCount,
+      minutesPerStoryPoint: toNullableNumber(row.minutesPerStoryPoint),
+    });
+
+    // The empty grouping set always yields a row, even without matching tasks
+    const [totalRow] = accuracyRows.filter(row => row.isTotal === 1);
+    const summary = toAccuracy(totalRow);
+    const byPriority = accuracyRows
+      .filter(row => row.isTotal === 0)
+      .map(row => ({ priority: row.priority as TaskPriority, ...toAccuracy(row) }));
+    byPriority.sort(
+      (a, b) => PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority),
+    );
+
+    return {
+      summary,
+      byPriority,
+      comparisons: {
+        data: rows.map(row => ({ ...row, ratio: Number(row.ratio) })),
+        total: summary.taskCount,
+        page: pagination.page,
+        limit: pagination.limit,
+        totalPages: Math.ceil(summary.taskCount / pagination.limit),
+      },
+    };
+  }
+
+  async findChildren(parentId: string): Promise<Task[]> {
+    return this.tasksRepo
+      .createQueryBuilder('task')
+      .where('task.parentId = :parentId', { parentId })
+      .orderBy('task.createdAt', 'ASC')
+      .getMany();
+  }
+
+  async findDescendantIds(id: string, options: { openOnly?: boolean } = {}): Promise<string[]> {
+    const rows: { id: string }[] = await this.tasksRepo.query(
+      `
+      WITH RECURSIVE subtree AS (
+        SELECT t.id, t.status FROM tasks t WHERE t.parent_id = $1 AND t.deleted_at IS NULL
+        UNION ALL
+        SELECT c.id, c.status FROM tasks c INNER JOIN subtree s ON c.parent_id = s.id
+        WHERE c.deleted_at IS NULL
+      )
+      SELECT id FROM subtree ${options.openOnly ? 'WHERE status <> ALL($2)' : ''}
+      `,
+      options.openOnly ? [id, CLOSED_TASK_STATUSES] : [id],
+    );
+
+    return rows.map(row => row.id);
+  }
+
+  async getHierarchyStats(ids: string[]): Promise<Map<string, TaskHierarchyStats>> {
+    const stats = new Map<string, TaskHierarchyStats>();
+    if (ids.length === 0) {
+      return stats;
+    }
+
+    // Walk every subtree in one query, remembering which requested task it hangs off
+    const rows: {
+      root_id: string;
+      child_count: string;
+      descendant_count: string;
+      completed_count: string;
+    }[] = await this.tasksRepo.query(
+      `
+      WITH RECURSIVE subtree AS (
+        SELECT t.id, t.status, t.parent_id AS root_id, 1 AS depth
+        FROM tasks t WHERE t.parent_id = ANY($1::uuid[]) AND t.deleted_at IS NULL
+        UNION ALL
+        SELECT c.id, c.status, s.root_id, s.depth + 1
+        FROM tasks c INNER JOIN subtree s ON c.parent_id = s.id
+        WHERE c.deleted_at IS NULL
+      )
+      SELECT
+        root_id,
+        COUNT(*) FILTER (WHERE depth = 1) AS child_count,
+        COUNT(*) AS descendant_count,
+        COUNT(*) FILTER (WHERE status = $2) AS completed_count
+      FROM subtree
+      GROUP BY root_id
+      `,
+      [ids, TaskStatus.COMPLETED],
+    );
+
+    for (const row of rows) {
+      stats.set(row.root_id, {
+        childCount: parseInt(row.child_count) || 0,
+        descendantCount: parseInt(row.descendant_count) || 0,
+        completedDescendantCount: parseInt(row.completed_count) || 0,
+      });
+    }
+
+    return stats;
+  }
+
   async batchCreate(tasksData: Partial<Task>[]): Promise<Task[]> {
     return this.tasksRepo.manager.transaction(async transactionalEntityManager => {
       const tasks = tasksData.map(taskData => transactionalEntityManager.create(Task, taskData));
@@ -185,3 +1263,8 @@ export class TasksRepository implements ITasksRepository {
     });
   }
 }
+
+/** Aggregates over no rows arrive as null */
+function toNullableNumber(value: string | null): number | null {
+  return value === null ? null : Number(value);
+}
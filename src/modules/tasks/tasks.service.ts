@@ -1,33 +1,117 @@
-import { Injectable, Inject, Logger } from '@nestjs/common';
+import { HttpException, Injectable, Inject, Logger } from '@nestjs/common';
 import { Task } from './entities/task.entity';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
+import { EstimateReportQueryDto } from './dto/estimate-report-query.dto';
+import { MoveTaskDto } from './dto/move-task.dto';
+import { BatchUpdateTasksDto } from './dto/batch-update-tasks.dto';
 import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
-import { TaskStatus } from './enums/task-status.enum';
+import { Readable } from 'stream';
+import { TaskStatus, CLOSED_TASK_STATUSES } from './enums/task-status.enum';
 import { TaskPriority } from './enums/task-priority.enum';
-import type { AuthUser } from '../../common/types';
+import { TaskSortField } from './enums/task-sort-field.enum';
+import { EstimateMeasureFrom } from './enums/estimate-measure-from.enum';
+import { SortOrder } from './enums/sort-order.enum';
+import type { AuthUser, CursorPaginatedResponse } from '../../common/types';
 import type { ITasksRepository } from './tasks.repository.interface';
 import {
   TASKS_REPOSITORY,
   TaskFilterOptions,
   PaginationOptions,
+  PaginatedResult,
+  TaskCursor,
+  TaskBoardColumn,
 } from './tasks.repository.interface';
+import type { ITaskDependenciesRepository } from './task-dependencies.repository.interface';
+import { TASK_DEPENDENCIES_REPOSITORY } from './task-dependencies.repository.interface';
+import type { ITaskWorklogsRepository } from './task-worklogs.repository.interface';
+import { TASK_WORKLOGS_REPOSITORY } from './task-worklogs.repository.interface';
+import { TaskSeriesService } from './task-series.service';
+import { TaskWorkflowService } from './task-workflow.service';
+import { TaskAttachmentsService, UploadedAttachmentFile } from './task-attachments.service';
+import { Attachment } from './entities/attachment.entity';
+import { UsersService } from '../users/users.service';
+import { TeamsService } from '../teams/teams.service';
+import {
+  TaskActivitiesService,
+  TaskActivityContext,
+  httpActivityContext,
+} from './task-activities.service';
+import { TaskActivitySource } from './enums/task-activity-source.enum';
+import { TaskActivityAction } from './enums/task-activity-action.enum';
+import { TaskBatchUpdateResult } from './enums/task-batch-update-result.enum';
+import { TaskActivityChanges } from './entities/task-activity.entity';
 import { CacheService } from '../../common/services/cache.service';
 import {
   bumpCacheNamespace,
+  buildUserScope,
   buildListCacheKey,
   buildEntityCacheKey,
 } from '../../common/utils/cache.util';
+import { decodeCursor, encodeCursor } from '../../common/utils/cursor.util';
 import { isAdminOrSuperAdmin } from '../users/utils/users.utils';
-import { ErrorCode, forbid, notFound } from '../../common/errors';
+import {
+  ERROR_MESSAGES,
+  ErrorCode,
+  ErrorResponse,
+  badRequest,
+  conflict,
+  forbid,
+  notFound,
+} from '../../common/errors';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 interface TaskQueryOptions {
   withRelations?: boolean;
+  withHierarchy?: boolean;
+  // Assignees and team members may read a task; changing anything but its status needs the
+  // owner or an admin
+  ownerOnly?: boolean;
+}
+
+interface TaskCursorPaginationOptions {
+  cursor?: string;
+  limit: number;
+  includeTotal: boolean;
 }
 
 interface TaskUpdateOptions {
   notifyOnStatusChange?: boolean;
+  cascade?: boolean;
+}
+
+// Open subtask completed along with its parent
+type CascadedTask = Pick<Task, 'id' | 'userId' | 'assigneeId' | 'teamId' | 'status'>;
+
+interface TaskStatusUpdateOptions {
+  activityContext?: TaskActivityContext;
+  // Version the job was queued for; a task that changed since then is left alone
+  expectedVersion?: number;
+}
+
+// Changes to these fields are sent to the task's watchers
+const WATCHED_FIELDS = ['status', 'dueDate', 'priority'];
+
+// A task cannot move to these statuses while one of its blockers is open
+const BLOCKED_STATUSES = [TaskStatus.IN_PROGRESS, TaskStatus.IN_REVIEW, TaskStatus.COMPLETED];
+
+/** Fields batchUpdateForUser writes; at least one of them is required */
+export type BatchTaskChanges = Omit<BatchUpdateTasksDto, 'taskIds'>;
+
+export interface BatchUpdateTaskResult {
+  taskId: string;
+  result: TaskBatchUpdateResult;
+  code?: ErrorCode;
+  message?: string;
+}
+
+/** A check of batchCreate that a single task fails */
+export interface BatchCreateError {
+  field: keyof CreateTaskDto;
+  code: ErrorCode;
+  message: string;
 }
 
 @Injectable()
@@ -38,19 +122,56 @@ export class TasksService {
   constructor(
     @Inject(TASKS_REPOSITORY)
     private readonly tasksRepository: ITasksRepository,
+    @Inject(TASK_DEPENDENCIES_REPOSITORY)
+    private readonly dependenciesRepository: ITaskDependenciesRepository,
+    @Inject(TASK_WORKLOGS_REPOSITORY)
+    private readonly worklogsRepository: ITaskWorklogsRepository,
     @InjectQueue('task-processing')
     private readonly taskQueue: Queue,
     private readonly cacheService: CacheService,
+    private readonly taskSeriesService: TaskSeriesService,
+    private readonly taskActivitiesService: TaskActivitiesService,
+    private readonly taskWorkflowService: TaskWorkflowService,
+    private readonly taskAttachmentsService: TaskAttachmentsService,
+    private readonly usersService: UsersService,
+    private readonly teamsService: TeamsService,
   ) {}
 
   async create(createTaskDto: CreateTaskDto, currentUser: AuthUser): Promise<Task> {
+    const { recurrence, ...taskFields } = createTaskDto;
+
+    if (recurrence && !taskFields.dueDate) {
+      badRequest(ErrorCode.TASK_RECURRENCE_REQUIRES_DUE_DATE);
+    }
+
+    if (taskFields.parentId) {
+      await this.assertValidParent(taskFields.parentId, currentUser.id, currentUser);
+    }
+
+    if (taskFields.projectId) {
+      await this.assertValidProject(
+        taskFields.projectId,
+        currentUser.id,
+        currentUser.organizationId,
+      );
+    }
+
+    if (taskFields.teamId) {
+      await this.assertValidTeam(taskFields.teamId, currentUser.id, currentUser.organizationId);
+    }
+
     const taskData = {
-      ...createTaskDto,
+      ...taskFields,
       userId: currentUser.id,
-      dueDate: createTaskDto.dueDate ? new Date(createTaskDto.dueDate) : undefined,
+      organizationId: currentUser.organizationId,
+      dueDate: taskFields.dueDate ? new Date(taskFields.dueDate) : undefined,
     };
 
-    const task = await this.tasksRepository.create(taskData);
+    const task = recurrence
+      ? await this.taskSeriesService.createWithFirstOccurrence(taskData, recurrence)
+      : await this.tasksRepository.create(taskData);
+
+    await this.taskActivitiesService.recordCreated([task], httpActivityContext(currentUser));
 
     //TODO: notification layer here
     await this.taskQueue.add('task-status-update', {
@@ -58,7 +179,7 @@ export class TasksService {
       status: task.status,
     });
 
-    await bumpCacheNamespace(this.cacheService, `user:${currentUser.id}`);
+    await this.invalidateTaskLists([task]);
 
     return task;
   }
@@ -67,31 +188,90 @@ export class TasksService {
     const { withRelations = true } = options;
 
     if (isAdminOrSuperAdmin(currentUser.role)) {
-      return this.tasksRepository.findAll(withRelations);
+      return this.tasksRepository.findAll(currentUser.organizationId, withRelations);
     }
 
-    return this.tasksRepository.findByUserId(currentUser.id);
+    return this.tasksRepository.findByUserId(currentUser.id, currentUser.organizationId);
+  }
+
+  /** Tasks with a due date that the user owns or is assigned to and that are still open */
+  async findOpenDueTasksForUser(userId: string, organizationId: string): Promise<Task[]> {
+    return this.tasksRepository.findOpenWithDueDateForUser(userId, organizationId);
+  }
+
+  /**
+   * Limits list filters to what the user may see: admins see the whole organization, everyone
+   * else their own tasks plus the ones shared with their teams
+   */
+  scopeFiltersForUser(
+    currentUser: AuthUser,
+    filters: Omit<TaskFilterOptions, 'organizationId'>,
+  ): TaskFilterOptions {
+    const scopedFilters = { ...filters, organizationId: currentUser.organizationId };
+
+    // Tasks assigned to the caller are visible whoever owns them
+    const listsOwnAssignments = filters.assigneeId === currentUser.id;
+
+    return isAdminOrSuperAdmin(currentUser.role) || listsOwnAssignments
+      ? scopedFilters
+      : { ...scopedFilters, visibleToUserId: currentUser.id };
   }
 
   async findWithFiltersForUser(
     currentUser: AuthUser,
-    filters: TaskFilterOptions,
-    options: { pagination?: PaginationOptions } = {},
+    filters: Omit<TaskFilterOptions, 'organizationId'>,
+    options: {
+      pagination?: PaginationOptions;
+      cursorPagination?: TaskCursorPaginationOptions;
+    } = {},
   ) {
-    const { pagination } = options;
+    const { pagination, cursorPagination } = options;
+
+    // Relevance order has no stable (createdAt, id) position to resume from
+    if (cursorPagination && filters.search) {
+      badRequest(ErrorCode.TASK_CURSOR_SEARCH_UNSUPPORTED);
+    }
+
+    // The cursor encodes a (createdAt, id) position, so only the default order can resume from it
+    if (
+      cursorPagination &&
+      ((filters.sortBy && filters.sortBy !== TaskSortField.CREATED_AT) ||
+        filters.sortOrder === SortOrder.ASC)
+    ) {
+      badRequest(ErrorCode.TASK_CURSOR_SORT_UNSUPPORTED);
+    }
 
-    const effectiveFilters = isAdminOrSuperAdmin(currentUser.role)
-      ? filters
-      : { ...filters, userId: currentUser.id };
+    const after = cursorPagination?.cursor
+      ? this.parseTaskCursor(cursorPagination.cursor)
+      : undefined;
 
-    const shouldCache = !isAdminOrSuperAdmin(currentUser.role);
+    const effectiveFilters = this.scopeFiltersForUser(currentUser, filters);
+
+    const loadPage = async () => {
+      const result = cursorPagination
+        ? await this.findPageByCursor(effectiveFilters, cursorPagination, after)
+        : await this.tasksRepository.findWithFilters(effectiveFilters, pagination);
+      await this.attachHierarchyStats(result.data);
+      return result;
+    };
+
+    // Changes bump the namespaces of owners and team members only, so assignment lists are
+    // not cached
+    const listsOwnAssignments = filters.assigneeId === currentUser.id;
+    const shouldCache = !isAdminOrSuperAdmin(currentUser.role) && !listsOwnAssignments;
 
     if (shouldCache) {
       const cacheKey = await buildListCacheKey(this.cacheService, {
-        scope: `user:${currentUser.id}`,
+        scope: buildUserScope(currentUser.organizationId, currentUser.id),
         resource: 'tasks',
         filters: effectiveFilters,
-        pagination,
+        pagination: cursorPagination
+          ? {
+              cursor: cursorPagination.cursor ?? null,
+              limit: cursorPagination.limit,
+              includeTotal: cursorPagination.includeTotal,
+            }
+          : pagination,
       });
 
       const cached = await this.cacheService.get(cacheKey);
@@ -101,7 +281,7 @@ export class TasksService {
       }
 
       this.logger.debug(`Cache miss for task list: ${cacheKey}`);
-      const result = await this.tasksRepository.findWithFilters(effectiveFilters, pagination);
+      const result = await loadPage();
 
       await this.cacheService.set(cacheKey, result, this.TASK_LIST_TTL);
 
@@ -111,11 +291,28 @@ export class TasksService {
     this.logger.debug(
       `No caching for admin/super-admin role: ${currentUser.role} (global list query)`,
     );
-    return this.tasksRepository.findWithFilters(effectiveFilters, pagination);
+
+    return loadPage();
+  }
+
+  /** Columns hold the tasks GET /tasks would list for the same filters; they are not cached */
+  async getBoardForUser(
+    currentUser: AuthUser,
+    filters: Omit<TaskFilterOptions, 'organizationId'>,
+    limit: number,
+  ): Promise<{ columns: TaskBoardColumn[] }> {
+    const columns = await this.tasksRepository.findBoard(
+      this.scopeFiltersForUser(currentUser, filters),
+      limit,
+    );
+
+    await this.attachHierarchyStats(columns.flatMap(column => column.tasks));
+
+    return { columns };
   }
 
   async findOne(id: string, currentUser: AuthUser, options: TaskQueryOptions = {}): Promise<Task> {
-    const { withRelations = true } = options;
+    const { withRelations = true, withHierarchy = false, ownerOnly = false } = options;
 
     const cacheKey = buildEntityCacheKey('task', id);
     const cachedTask = await this.cacheService.get<Task>(cacheKey);
@@ -124,10 +321,11 @@ export class TasksService {
 
     if (cachedTask) {
       this.logger.debug(`Cache hit for task ID: ${id}`);
-      task = cachedTask;
+      // The entity cache is shared by all organizations
+      task = cachedTask.organizationId === currentUser.organizationId ? cachedTask : null;
     } else {
       this.logger.debug(`Cache miss for task ID: ${id}`);
-      task = await this.tasksRepository.findById(id, withRelations);
+      task = await this.tasksRepository.findById(id, currentUser.organizationId, withRelations);
 
       if (task) {
         await this.cacheService.set(cacheKey, task, this.TASK_ENTITY_TTL);
@@ -139,14 +337,228 @@ export class TasksService {
     }
 
     if (!isAdminOrSuperAdmin(currentUser.role) && task.userId !== currentUser.id) {
-      forbid(ErrorCode.TASK_NOT_OWNED);
+      const canRead =
+        task.assigneeId === currentUser.id ||
+        (!!task.teamId && (await this.teamsService.isMember(task.teamId, currentUser.id)));
+
+      if (ownerOnly || !canRead) {
+        forbid(ErrorCode.TASK_NOT_OWNED);
+      }
+    }
+
+    // Roll-ups change whenever a subtask does, so they are never served from the entity cache
+    if (withHierarchy) {
+      await this.attachHierarchyStats([task]);
     }
 
     return task;
   }
 
-  async findByStatusForUser(status: TaskStatus, currentUserId: string): Promise<Task[]> {
-    return this.tasksRepository.findByUserIdAndStatus(currentUserId, status);
+  async findActivity(id: string, currentUser: AuthUser, pagination: PaginationOptions) {
+    await this.findOne(id, currentUser, { withRelations: false });
+
+    return this.taskActivitiesService.findForTask(id, pagination);
+  }
+
+  /** Anyone who can read the task may attach files to it */
+  async addAttachment(
+    id: string,
+    file: UploadedAttachmentFile | undefined,
+    currentUser: AuthUser,
+  ): Promise<Attachment> {
+    await this.findOne(id, currentUser, { withRelations: false });
+
+    return this.taskAttachmentsService.create(id, file, currentUser.id);
+  }
+
+  async findAttachments(id: string, currentUser: AuthUser): Promise<Attachment[]> {
+    await this.findOne(id, currentUser, { withRelations: false });
+
+    return this.taskAttachmentsService.findForTask(id);
+  }
+
+  async openAttachment(
+    id: string,
+    attachmentId: string,
+    currentUser: AuthUser,
+  ): Promise<{ attachment: Attachment; stream: Readable }> {
+    await this.findOne(id, currentUser, { withRelations: false });
+
+    const attachment = await this.taskAttachmentsService.findOneForTask(id, attachmentId);
+    const stream = await this.taskAttachmentsService.openStream(attachment);
+
+    return { attachment, stream };
+  }
+
+  async removeAttachment(id: string, attachmentId: string, currentUser: AuthUser): Promise<void> {
+    const task = await this.findOne(id, currentUser, { withRelations: false });
+    const attachment = await this.taskAttachmentsService.findOneForTask(id, attachmentId);
+
+    if (
+      !isAdminOrSuperAdmin(currentUser.role) &&
+      attachment.uploadedBy !== currentUser.id &&
+      task.userId !== currentUser.id
+    ) {
+      forbid(ErrorCode.ATTACHMENT_DELETE_FORBIDDEN);
+    }
+
+    await this.taskAttachmentsService.delete(attachment);
+  }
+
+  async findChildren(id: string, currentUser: AuthUser): Promise<Task[]> {
+    await this.findOne(id, currentUser, { withRelations: false });
+
+    const children = await this.tasksRepository.findChildren(id);
+    await this.attachHierarchyStats(children);
+
+    return children;
+  }
+
+  async moveSubtree(id: string, parentId: string | null, currentUser: AuthUser): Promise<Task> {
+    const task = await this.findOne(id, currentUser, { withRelations: false, ownerOnly: true });
+
+    if (parentId) {
+      if (parentId === id) {
+        badRequest(ErrorCode.TASK_PARENT_INVALID);
+      }
+
+      await this.assertValidParent(parentId, task.userId, currentUser);
+
+      const descendantIds = await this.tasksRepository.findDescendantIds(id);
+      if (descendantIds.includes(parentId)) {
+        badRequest(ErrorCode.TASK_PARENT_INVALID);
+      }
+    }
+
+    // Only the subtree root is re-linked; its descendants follow through their parent_id chain
+    const movedTask = await this.tasksRepository.update(id, { parentId });
+
+    await this.taskActivitiesService.recordChanges(
+      task,
+      movedTask,
+      httpActivityContext(currentUser),
+    );
+
+    await this.cacheService.delete(buildEntityCacheKey('task', id));
+
+    await this.invalidateTaskLists([movedTask]);
+
+    await this.attachHierarchyStats([movedTask]);
+
+    return movedTask;
+  }
+
+  /**
+   * Places the task on the board between two tasks of its column. Whoever may change the
+   * task's status may move it; a move to another column is also a status change, with the
+   * checks and the task-status-update job of PATCH /tasks/:id
+   */
+  async move(id: string, moveTaskDto: MoveTaskDto, currentUser: AuthUser): Promise<Task> {
+    const { beforeId, afterId } = moveTaskDto;
+    const task = await this.findOne(id, currentUser, { withRelations: false });
+    const status = moveTaskDto.status ?? task.status;
+
+    const neighbourIds = [beforeId, afterId].filter(Boolean) as string[];
+    if (neighbourIds.length > 0) {
+      const neighbours = await this.tasksRepository.findCompactByIds(
+        neighbourIds,
+        task.organizationId,
+      );
+
+      if (
+        neighbourIds.includes(id) ||
+        beforeId === afterId ||
+        neighbours.length !== neighbourIds.length ||
+        neighbours.some(neighbour => neighbour.status !== status)
+      ) {
+        badRequest(ErrorCode.TASK_MOVE_NEIGHBOUR_INVALID, { status });
+      }
+    }
+
+    // Subtasks are never completed by a move, so it needs no cascade
+    await this.assertStatusChange(task, status);
+
+    // Status and rank are written together; a rejected move leaves the task where it was
+    const result = await this.tasksRepository.moveInColumn(
+      id,
+      task.organizationId,
+      task.status,
+      status,
+      { beforeId, afterId },
+    );
+
+    if (!result) {
+      conflict(ErrorCode.TASK_MOVE_NEIGHBOURS_CHANGED);
+    }
+
+    const { task: movedTask, rebalancedIds } = result;
+    if (status !== task.status) {
+      await this.afterUpdate(task, movedTask, [], currentUser);
+    }
+
+    if (rebalancedIds.length > 0) {
+      this.logger.log(
+        `Rebalanced ${rebalancedIds.length} ranks of the ${status} column in organization ${task.organizationId}`,
+      );
+    }
+
+    await this.cacheService.deleteMany(
+      [id, ...rebalancedIds].map(taskId => buildEntityCacheKey('task', taskId)),
+    );
+
+    const rebalancedTasks =
+      rebalancedIds.length > 0
+        ? await this.tasksRepository.findCompactByIds(rebalancedIds, task.organizationId)
+        : [];
+    await this.invalidateTaskLists([
+      movedTask,
+      ...rebalancedTasks.map(rebalanced => ({
+        ...rebalanced,
+        organizationId: task.organizationId,
+      })),
+    ]);
+
+    return movedTask;
+  }
+
+  /**
+   * Only the owner or an admin decides who works on a task. Every change of assignee queues a
+   * notification for the new and the previous assignee
+   */
+  async assign(id: string, assigneeId: string | null, currentUser: AuthUser): Promise<Task> {
+    const task = await this.findOne(id, currentUser, { withRelations: false, ownerOnly: true });
+
+    if (task.assigneeId === assigneeId) {
+      return task;
+    }
+
+    if (assigneeId && !(await this.usersService.exists(assigneeId, task.organizationId))) {
+      notFound(ErrorCode.TASK_ASSIGNEE_NOT_FOUND);
+    }
+
+    const updatedTask = await this.tasksRepository.update(id, { assigneeId });
+
+    await this.taskActivitiesService.recordChanges(
+      task,
+      updatedTask,
+      httpActivityContext(currentUser),
+    );
+
+    await this.queueAssignedNotification(updatedTask, task.assigneeId, currentUser.id);
+
+    await this.cacheService.delete(buildEntityCacheKey('task', id));
+
+    await this.invalidateTaskLists([updatedTask]);
+
+    return updatedTask;
+  }
+
+  async findByStatusForUser(status: TaskStatus, currentUser: AuthUser): Promise<Task[]> {
+    return this.tasksRepository.findByUserIdAndStatus(
+      currentUser.id,
+      status,
+      currentUser.organizationId,
+    );
   }
 
   async update(
@@ -156,7 +568,36 @@ export class TasksService {
     options: TaskUpdateOptions = {},
   ): Promise<Task> {
     const existingTask = await this.findOne(id, currentUser, { withRelations: false });
-    const originalStatus = existingTask.status;
+
+    // Whoever reads the task without owning it (assignee or team member) may only move its status
+    const isStatusOnly =
+      !isAdminOrSuperAdmin(currentUser.role) && existingTask.userId !== currentUser.id;
+    if (
+      isStatusOnly &&
+      Object.entries(updateTaskDto).some(([key, value]) => key !== 'status' && value !== undefined)
+    ) {
+      forbid(ErrorCode.TASK_ASSIGNEE_STATUS_ONLY);
+    }
+
+    if (updateTaskDto.projectId && updateTaskDto.projectId !== existingTask.projectId) {
+      await this.assertValidProject(
+        updateTaskDto.projectId,
+        existingTask.userId,
+        existingTask.organizationId,
+      );
+    }
+
+    if (updateTaskDto.teamId && updateTaskDto.teamId !== existingTask.teamId) {
+      await this.assertValidTeam(
+        updateTaskDto.teamId,
+        existingTask.userId,
+        existingTask.organizationId,
+      );
+    }
+
+    const cascadedTasks = updateTaskDto.status
+      ? await this.assertStatusChange(existingTask, updateTaskDto.status, options)
+      : [];
 
     const updateData = { ...updateTaskDto };
     delete (updateData as any).userId;
@@ -166,65 +607,267 @@ export class TasksService {
       dueDate: updateTaskDto.dueDate ? new Date(updateTaskDto.dueDate) : existingTask.dueDate,
     });
 
-    if (updateTaskDto.status && originalStatus !== updateTaskDto.status) {
-      await this.taskQueue.add(
-        'task-status-update',
-        {
-          taskId: updatedTask.id,
-          status: updatedTask.status,
-        },
-        {
-          jobId: `task-status-${updatedTask.id}`,
-        },
+    await this.afterUpdate(existingTask, updatedTask, cascadedTasks, currentUser);
+
+    return updatedTask;
+  }
+
+  /**
+   * Workflow, blocker and subtask checks for moving the task to status. Returns the open
+   * subtasks a completion cascades to, which is only allowed with the cascade option
+   */
+  private async assertStatusChange(
+    task: Task,
+    status: TaskStatus,
+    options: TaskUpdateOptions = {},
+  ): Promise<CascadedTask[]> {
+    await this.taskWorkflowService.assertTransition(task.status, status);
+
+    if (status === task.status) {
+      return [];
+    }
+
+    await this.assertNotBlocked(task.id, status);
+
+    if (status !== TaskStatus.COMPLETED) {
+      return [];
+    }
+
+    const openDescendantIds = await this.tasksRepository.findDescendantIds(task.id, {
+      openOnly: true,
+    });
+
+    if (openDescendantIds.length > 0 && !options.cascade) {
+      conflict(ErrorCode.TASK_HAS_OPEN_SUBTASKS, { count: openDescendantIds.length });
+    }
+
+    // Subtasks go through the workflow too, so nothing is completed when one of them cannot be
+    const cascadedTasks = await this.tasksRepository.findCompactByIds(
+      openDescendantIds,
+      task.organizationId,
+    );
+    for (const subtask of cascadedTasks) {
+      await this.taskWorkflowService.assertTransition(subtask.status, TaskStatus.COMPLETED);
+    }
+
+    return cascadedTasks;
+  }
+
+  /**
+   * Activity, cascaded subtasks, notifications, timers and caches once the task change is
+   * committed
+   */
+  private async afterUpdate(
+    existingTask: Task,
+    updatedTask: Task,
+    cascadedTasks: CascadedTask[],
+    currentUser: AuthUser,
+  ): Promise<void> {
+    const id = updatedTask.id;
+    const originalStatus = existingTask.status;
+    const activityContext = httpActivityContext(currentUser);
+    const cascadedIds = cascadedTasks.map(subtask => subtask.id);
+
+    const changes = await this.taskActivitiesService.recordChanges(
+      existingTask,
+      updatedTask,
+      activityContext,
+    );
+
+    if (cascadedIds.length > 0) {
+      this.logger.log(`Completing ${cascadedIds.length} open subtasks of task ${id}`);
+      await this.tasksRepository.batchUpdateStatus(cascadedIds, TaskStatus.COMPLETED);
+      await this.taskActivitiesService.recordStatusChanges(
+        cascadedTasks,
+        TaskStatus.COMPLETED,
+        activityContext,
+      );
+      await this.cacheService.deleteMany(
+        cascadedIds.map(taskId => buildEntityCacheKey('task', taskId)),
       );
     }
 
-    await this.cacheService.delete(buildEntityCacheKey('task', id));
+    await this.queueWatchedChanges(updatedTask, originalStatus, changes, currentUser.id);
 
-    await bumpCacheNamespace(this.cacheService, `user:${updatedTask.userId}`);
+    if (
+      CLOSED_TASK_STATUSES.includes(updatedTask.status) &&
+      !CLOSED_TASK_STATUSES.includes(originalStatus)
+    ) {
+      await this.queueDependentsNotification([id, ...cascadedIds]);
 
-    return updatedTask;
+      // Nobody keeps working on a closed task, so its running timers end here
+      const stoppedCount = await this.worklogsRepository.stopRunningForTasks(
+        [id, ...cascadedIds],
+        new Date(),
+      );
+      if (stoppedCount > 0) {
+        this.logger.log(`Stopped ${stoppedCount} running timers on closed task ${id}`);
+      }
+    }
+
+    if (updatedTask.status === TaskStatus.COMPLETED && originalStatus !== TaskStatus.COMPLETED) {
+      await this.taskSeriesService.handleOccurrenceCompleted(updatedTask);
+    }
+
+    await this.cacheService.delete(buildEntityCacheKey('task', id));
+
+    // The previous team loses the task from its members' lists when it is reshared
+    await this.invalidateTaskLists([
+      existingTask,
+      updatedTask,
+      ...cascadedTasks.map(subtask => ({ ...subtask, organizationId: updatedTask.organizationId })),
+    ]);
   }
 
-  async updateStatus(id: string, status: TaskStatus): Promise<Task> {
-    const task = await this.tasksRepository.findById(id, false);
+  /**
+   * Status change without an ownership check, used by queue jobs. The activity entry has no
+   * actor unless the caller passes one. Nothing is written when the task already has the
+   * status or moved past `expectedVersion`, so stale jobs cannot revert newer changes
+   */
+  async updateStatus(
+    id: string,
+    status: TaskStatus,
+    options: TaskStatusUpdateOptions = {},
+  ): Promise<Task> {
+    const {
+      activityContext = { actorId: null, source: TaskActivitySource.QUEUE },
+      expectedVersion,
+    } = options;
+
+    const task = await this.tasksRepository.findByIdInAnyOrganization(id);
     if (!task) {
       notFound(ErrorCode.TASK_NOT_FOUND);
     }
 
+    if (
+      task.status === status ||
+      (expectedVersion !== undefined && task.version !== expectedVersion)
+    ) {
+      return task;
+    }
+
+    await this.taskWorkflowService.assertTransition(task.status, status);
+
     const updatedTask = await this.tasksRepository.update(id, { status });
 
+    await this.taskActivitiesService.recordChanges(
+      task,
+      updatedTask,
+      activityContext,
+      TaskActivityAction.STATUS_CHANGED,
+    );
+
     await this.cacheService.delete(buildEntityCacheKey('task', id));
 
-    await bumpCacheNamespace(this.cacheService, `user:${updatedTask.userId}`);
+    await this.invalidateTaskLists([updatedTask]);
 
     return updatedTask;
   }
 
   async remove(id: string, currentUser: AuthUser): Promise<void> {
-    const task = await this.findOne(id, currentUser, { withRelations: false });
+    const task = await this.findOne(id, currentUser, { withRelations: false, ownerOnly: true });
 
-    //TODO: Soft delete
     //TODO: Notification layer
-    await this.tasksRepository.delete(id);
+    await this.tasksRepository.softDelete(id);
+
+    await this.taskAttachmentsService.removeForTasks([id]);
+
+    await this.taskActivitiesService.recordDeleted([id], httpActivityContext(currentUser));
 
     await this.cacheService.delete(buildEntityCacheKey('task', id));
 
-    await bumpCacheNamespace(this.cacheService, `user:${task.userId}`);
+    await this.invalidateTaskLists([task]);
+  }
+
+  async findTrashForUser(
+    currentUser: AuthUser,
+    pagination: PaginationOptions,
+  ): Promise<PaginatedResult<Task>> {
+    const userId = isAdminOrSuperAdmin(currentUser.role) ? undefined : currentUser.id;
+    return this.tasksRepository.findDeleted(currentUser.organizationId, userId, pagination);
+  }
+
+  async restore(id: string, currentUser: AuthUser): Promise<Task> {
+    const task = await this.findTrashedTask(id, currentUser);
+
+    const restoredTask = await this.tasksRepository.restore(task.id);
+
+    await this.taskActivitiesService.recordRestored(restoredTask, httpActivityContext(currentUser));
+
+    await this.cacheService.delete(buildEntityCacheKey('task', id));
+    await this.invalidateTaskLists([restoredTask]);
+
+    return restoredTask;
+  }
+
+  /**
+   * Permanently deletes a trashed task. Its subtasks are detached (parent_id is set to NULL
+   * by the FK), so their cached copies are stale
+   */
+  async purge(id: string, currentUser: AuthUser): Promise<void> {
+    const task = await this.findTrashedTask(id, currentUser);
+
+    await this.purgeTrashed([task]);
+  }
+
+  /**
+   * Purges tasks that have been in the trash since before the cutoff, in batches
+   */
+  async purgeExpiredTrash(cutoff: Date, batchSize = 500): Promise<number> {
+    let purged = 0;
+
+    for (;;) {
+      const expired = await this.tasksRepository.findDeletedBefore(cutoff, batchSize);
+      if (expired.length === 0) {
+        break;
+      }
+
+      purged += await this.purgeTrashed(expired);
+
+      if (expired.length < batchSize) {
+        break;
+      }
+    }
+
+    return purged;
   }
 
   async batchCreate(
     createTasksDto: CreateTaskDto[],
     currentUser: AuthUser,
+    source: TaskActivitySource = TaskActivitySource.HTTP,
   ): Promise<{ tasks: Task[]; createdCount: number }> {
+    this.assertNoRecurrence(createTasksDto);
+
+    const parentIds = [...new Set(createTasksDto.map(dto => dto.parentId).filter(Boolean))];
+    for (const parentId of parentIds as string[]) {
+      await this.assertValidParent(parentId, currentUser.id, currentUser);
+    }
+
+    const projectIds = [...new Set(createTasksDto.map(dto => dto.projectId).filter(Boolean))];
+    for (const projectId of projectIds as string[]) {
+      await this.assertValidProject(projectId, currentUser.id, currentUser.organizationId);
+    }
+
+    const teamIds = [...new Set(createTasksDto.map(dto => dto.teamId).filter(Boolean))];
+    for (const teamId of teamIds as string[]) {
+      await this.assertValidTeam(teamId, currentUser.id, currentUser.organizationId);
+    }
+
     const tasksData = createTasksDto.map(dto => ({
       ...dto,
       userId: currentUser.id,
+      organizationId: currentUser.organizationId,
       dueDate: dto.dueDate ? new Date(dto.dueDate) : undefined,
     }));
 
     const createdTasks = await this.tasksRepository.batchCreate(tasksData);
 
+    await this.taskActivitiesService.recordCreated(createdTasks, {
+      actorId: currentUser.id,
+      source,
+    });
+
     const queuePromises = createdTasks.map(task =>
       this.taskQueue.add('task-status-update', {
         taskId: task.id,
@@ -234,7 +877,7 @@ export class TasksService {
 
     await Promise.all(queuePromises);
 
-    await bumpCacheNamespace(this.cacheService, `user:${currentUser.id}`);
+    await this.invalidateTaskLists(createdTasks);
 
     return {
       tasks: createdTasks,
@@ -242,41 +885,273 @@ export class TasksService {
     };
   }
 
-  async batchDeleteForUser(taskIds: string[], currentUser: AuthUser): Promise<number> {
-    const tasks = await this.tasksRepository.findCompactByIds(taskIds);
+  /**
+   * Runs the recurrence, parent, project and team checks of batchCreate task by task, so imports
+   * can report the failing rows instead of rejecting the whole batch. Keyed by index; tasks that
+   * pass are missing from the map
+   */
+  async findBatchCreateErrors(
+    createTasksDto: CreateTaskDto[],
+    currentUser: AuthUser,
+  ): Promise<Map<number, BatchCreateError[]>> {
+    const checkEach = async (
+      field: 'parentId' | 'projectId' | 'teamId',
+      assert: (id: string) => Promise<void>,
+    ) => {
+      const ids = [...new Set(createTasksDto.map(dto => dto[field]).filter(Boolean))] as string[];
+      const failures = new Map<string, ErrorResponse>();
+
+      for (const id of ids) {
+        try {
+          await assert(id);
+        } catch (error) {
+          if (!(error instanceof HttpException)) {
+            throw error;
+          }
+          failures.set(id, error.getResponse() as ErrorResponse);
+        }
+      }
 
-    const taskMap = new Map(tasks.map(t => [t.id, t]));
+      return { field, failures };
+    };
 
-    const notFoundIds = taskIds.filter(id => !taskMap.has(id));
-    if (notFoundIds.length > 0) {
-      notFound(ErrorCode.TASKS_NOT_FOUND);
-    }
+    const checks = [
+      await checkEach('parentId', id => this.assertValidParent(id, currentUser.id, currentUser)),
+      await checkEach('projectId', id =>
+        this.assertValidProject(id, currentUser.id, currentUser.organizationId),
+      ),
+      await checkEach('teamId', id =>
+        this.assertValidTeam(id, currentUser.id, currentUser.organizationId),
+      ),
+    ];
+
+    const errors = new Map<number, BatchCreateError[]>();
+    createTasksDto.forEach((dto, index) => {
+      const taskErrors: BatchCreateError[] = [];
+
+      if (dto.recurrence) {
+        taskErrors.push({
+          field: 'recurrence',
+          code: ErrorCode.TASK_RECURRENCE_BATCH_UNSUPPORTED,
+          message: ERROR_MESSAGES[ErrorCode.TASK_RECURRENCE_BATCH_UNSUPPORTED],
+        });
+      }
 
-    if (!isAdminOrSuperAdmin(currentUser.role)) {
-      const unauthorizedTasks = tasks.filter(task => task.userId !== currentUser.id);
-      if (unauthorizedTasks.length > 0) {
-        forbid(ErrorCode.TASKS_DELETE_PERMISSION_DENIED);
+      for (const { field, failures } of checks) {
+        const failure = dto[field] ? failures.get(dto[field] as string) : undefined;
+        if (failure) {
+          taskErrors.push({ field, code: failure.code, message: failure.message });
+        }
       }
-    }
 
-    const deletedCount = await this.tasksRepository.batchDelete(taskIds);
+      if (taskErrors.length > 0) {
+        errors.set(index, taskErrors);
+      }
+    });
+
+    return errors;
+  }
+
+  async batchDeleteForUser(
+    taskIds: string[],
+    currentUser: AuthUser,
+    source: TaskActivitySource = TaskActivitySource.HTTP,
+  ): Promise<number> {
+    const tasks = await this.tasksRepository.findCompactByIds(taskIds, currentUser.organizationId);
+
+    // Being assigned to a task does not allow deleting it
+    this.assertBatchAccess(taskIds, tasks, currentUser, {
+      permissionDenied: ErrorCode.TASKS_DELETE_PERMISSION_DENIED,
+      assigneeDenied: ErrorCode.TASKS_DELETE_ASSIGNEE_DENIED,
+    });
+
+    const deletedCount = await this.tasksRepository.batchSoftDelete(taskIds);
+
+    await this.taskAttachmentsService.removeForTasks(taskIds);
+
+    await this.taskActivitiesService.recordDeleted(taskIds, { actorId: currentUser.id, source });
 
     await this.cacheService.deleteMany(taskIds.map(id => buildEntityCacheKey('task', id)));
 
-    const uniqueUserIds = [...new Set(tasks.map(t => t.userId))];
-    await Promise.all(
-      uniqueUserIds.map(userId => bumpCacheNamespace(this.cacheService, `user:${userId}`)),
+    await this.invalidateTaskLists(
+      tasks.map(task => ({ ...task, organizationId: currentUser.organizationId })),
     );
 
     return deletedCount;
   }
 
+  /**
+   * Writes the same status, priority, due date or assignee to many tasks. Missing tasks, access
+   * and an unknown assignee fail the whole batch. The workflow, blocker and open subtask checks
+   * of update() only fail the task, which is reported and left alone; the other tasks are
+   * written in one transaction
+   */
+  async batchUpdateForUser(
+    taskIds: string[],
+    changes: BatchTaskChanges,
+    currentUser: AuthUser,
+    source: TaskActivitySource = TaskActivitySource.HTTP,
+  ): Promise<{ results: BatchUpdateTaskResult[]; updatedCount: number; failedCount: number }> {
+    const taskData = Object.fromEntries(
+      Object.entries({
+        status: changes.status,
+        priority: changes.priority,
+        dueDate: changes.dueDate ? new Date(changes.dueDate) : undefined,
+        assigneeId: changes.assigneeId,
+      }).filter(([, value]) => value !== undefined),
+    ) as Partial<Task>;
+
+    if (Object.keys(taskData).length === 0) {
+      badRequest(ErrorCode.TASKS_UPDATE_EMPTY);
+    }
+
+    const uniqueIds = [...new Set(taskIds)];
+    const tasks = await this.tasksRepository.findByIds(uniqueIds, currentUser.organizationId);
+
+    // As in update(), assignees may change the status of tasks they do not own and nothing else
+    this.assertBatchAccess(
+      uniqueIds,
+      tasks,
+      currentUser,
+      {
+        permissionDenied: ErrorCode.TASKS_UPDATE_PERMISSION_DENIED,
+        assigneeDenied: ErrorCode.TASKS_UPDATE_ASSIGNEE_DENIED,
+      },
+      Object.keys(taskData).every(field => field === 'status'),
+    );
+
+    if (
+      taskData.assigneeId &&
+      !(await this.usersService.exists(taskData.assigneeId, currentUser.organizationId))
+    ) {
+      notFound(ErrorCode.TASK_ASSIGNEE_NOT_FOUND);
+    }
+
+    const failures = new Map<string, ErrorResponse>();
+    if (taskData.status) {
+      for (const task of tasks) {
+        if (task.status === taskData.status) {
+          continue;
+        }
+
+        try {
+          await this.assertStatusChange(task, taskData.status);
+        } catch (error) {
+          if (!(error instanceof HttpException)) {
+            throw error;
+          }
+          failures.set(task.id, error.getResponse() as ErrorResponse);
+        }
+      }
+    }
+
+    const isUnchanged = (task: Task) =>
+      Object.entries(taskData).every(([field, value]) =>
+        value instanceof Date
+          ? task.dueDate?.getTime() === value.getTime()
+          : task[field as keyof Task] === value,
+      );
+    const changedTasks = tasks.filter(task => !failures.has(task.id) && !isUnchanged(task));
+
+    const updatedTasks =
+      changedTasks.length > 0 ? await this.tasksRepository.batchUpdate(changedTasks, taskData) : [];
+    const changedIds = updatedTasks.map(task => task.id);
+
+    // Changed by someone else since the checks above, which may no longer hold
+    for (const task of changedTasks) {
+      if (!changedIds.includes(task.id)) {
+        failures.set(task.id, {
+          code: ErrorCode.TASK_STATUS_CHANGED,
+          message: ERROR_MESSAGES[ErrorCode.TASK_STATUS_CHANGED],
+        });
+      }
+    }
+
+    const taskMap = new Map(tasks.map(task => [task.id, task]));
+    const closedIds: string[] = [];
+
+    for (const updatedTask of updatedTasks) {
+      const existingTask = taskMap.get(updatedTask.id) as Task;
+
+      const activityChanges = await this.taskActivitiesService.recordChanges(
+        existingTask,
+        updatedTask,
+        { actorId: currentUser.id, source },
+      );
+
+      await this.queueWatchedChanges(
+        updatedTask,
+        existingTask.status,
+        activityChanges,
+        currentUser.id,
+      );
+
+      if (updatedTask.assigneeId !== existingTask.assigneeId) {
+        await this.queueAssignedNotification(updatedTask, existingTask.assigneeId, currentUser.id);
+      }
+
+      if (
+        CLOSED_TASK_STATUSES.includes(updatedTask.status) &&
+        !CLOSED_TASK_STATUSES.includes(existingTask.status)
+      ) {
+        closedIds.push(updatedTask.id);
+      }
+
+      if (
+        updatedTask.status === TaskStatus.COMPLETED &&
+        existingTask.status !== TaskStatus.COMPLETED
+      ) {
+        await this.taskSeriesService.handleOccurrenceCompleted(updatedTask);
+      }
+    }
+
+    if (closedIds.length > 0) {
+      await this.queueDependentsNotification(closedIds);
+
+      const stoppedCount = await this.worklogsRepository.stopRunningForTasks(closedIds, new Date());
+      if (stoppedCount > 0) {
+        this.logger.log(
+          `Stopped ${stoppedCount} running timers on ${closedIds.length} closed tasks`,
+        );
+      }
+    }
+
+    if (updatedTasks.length > 0) {
+      await this.cacheService.deleteMany(
+        updatedTasks.map(task => buildEntityCacheKey('task', task.id)),
+      );
+
+      await this.invalidateTaskLists(updatedTasks);
+    }
+
+    const results = uniqueIds.map((taskId): BatchUpdateTaskResult => {
+      const failure = failures.get(taskId);
+      if (failure) {
+        return {
+          taskId,
+          result: TaskBatchUpdateResult.FAILED,
+          code: failure.code,
+          message: failure.message,
+        };
+      }
+
+      return {
+        taskId,
+        result: changedIds.includes(taskId)
+          ? TaskBatchUpdateResult.UPDATED
+          : TaskBatchUpdateResult.UNCHANGED,
+      };
+    });
+
+    return { results, updatedCount: updatedTasks.length, failedCount: failures.size };
+  }
+
   async getStatisticsForUser(currentUser: AuthUser) {
     let tasks: Task[];
     if (isAdminOrSuperAdmin(currentUser.role)) {
-      tasks = await this.tasksRepository.findAll(false);
+      tasks = await this.tasksRepository.findAll(currentUser.organizationId, false);
     } else {
-      tasks = await this.tasksRepository.findByUserId(currentUser.id);
+      tasks = await this.tasksRepository.findByUserId(currentUser.id, currentUser.organizationId);
     }
 
     return {
@@ -284,11 +1159,98 @@ export class TasksService {
       completed: tasks.filter(t => t.status === TaskStatus.COMPLETED).length,
       inProgress: tasks.filter(t => t.status === TaskStatus.IN_PROGRESS).length,
       pending: tasks.filter(t => t.status === TaskStatus.PENDING).length,
+      blocked: tasks.filter(t => t.status === TaskStatus.BLOCKED).length,
+      inReview: tasks.filter(t => t.status === TaskStatus.IN_REVIEW).length,
+      cancelled: tasks.filter(t => t.status === TaskStatus.CANCELLED).length,
       highPriority: tasks.filter(t => t.priority === TaskPriority.HIGH).length,
     };
   }
 
+  /** Access to the project is the caller's job (see ProjectsService) */
+  async getStatisticsForProject(projectId: string, organizationId: string) {
+    return this.tasksRepository.getStatistics({ organizationId, projectId });
+  }
+
+  /**
+   * Moves every task of a project, trashed ones included, to another project of the same
+   * owner. Validating both projects is the caller's job (see ProjectsService)
+   */
+  async moveProjectTasks(
+    projectId: string,
+    targetProjectId: string,
+    currentUser: AuthUser,
+  ): Promise<number> {
+    const movedIds = await this.tasksRepository.moveToProject(
+      projectId,
+      targetProjectId,
+      currentUser.organizationId,
+    );
+    if (movedIds.length === 0) {
+      return 0;
+    }
+
+    await this.taskActivitiesService.recordBulkChanges(
+      movedIds,
+      { projectId: { from: projectId, to: targetProjectId } },
+      httpActivityContext(currentUser),
+    );
+
+    await this.cacheService.deleteMany(movedIds.map(id => buildEntityCacheKey('task', id)));
+
+    const movedTasks = await this.tasksRepository.findCompactByIds(
+      movedIds,
+      currentUser.organizationId,
+    );
+    await this.invalidateTaskLists(
+      movedTasks.map(task => ({ ...task, organizationId: currentUser.organizationId })),
+    );
+
+    return movedIds.length;
+  }
+
+  /** Moves the project's tasks to the trash, with the same checks as a batch delete */
+  async trashProjectTasks(projectId: string, currentUser: AuthUser): Promise<number> {
+    const taskIds = await this.tasksRepository.findIdsByProjectId(
+      projectId,
+      currentUser.organizationId,
+    );
+    if (taskIds.length === 0) {
+      return 0;
+    }
+
+    return this.batchDeleteForUser(taskIds, currentUser);
+  }
+
+  /**
+   * Admins report on all tasks of the organization; users on the tasks they own or are
+   * assigned to
+   */
+  async getEstimateReportForUser(query: EstimateReportQueryDto, currentUser: AuthUser) {
+    const { page = 1, limit = 20, measureFrom = EstimateMeasureFrom.STARTED } = query;
+
+    const report = await this.tasksRepository.getEstimateReport(
+      {
+        organizationId: currentUser.organizationId,
+        userId: isAdminOrSuperAdmin(currentUser.role) ? undefined : currentUser.id,
+        priority: query.priority,
+        completedAfter: query.completedAfter ? new Date(query.completedAfter) : undefined,
+        completedBefore: query.completedBefore ? new Date(query.completedBefore) : undefined,
+        measureFrom,
+      },
+      { page, limit },
+    );
+
+    return {
+      measureFrom,
+      summary: report.summary,
+      byPriority: report.byPriority,
+      ...report.comparisons,
+    };
+  }
+
   async queueBulkCreate(createTasksDto: CreateTaskDto[], currentUser: AuthUser) {
+    this.assertNoRecurrence(createTasksDto);
+
     this.logger.log(
       `Queueing bulk creation of ${createTasksDto.length} tasks for user ${currentUser.id}`,
     );
@@ -298,6 +1260,8 @@ export class TasksService {
       {
         tasks: createTasksDto,
         userId: currentUser.id,
+        userRole: currentUser.role,
+        organizationId: currentUser.organizationId,
         queuedAt: new Date().toISOString(),
       },
       {
@@ -320,6 +1284,8 @@ export class TasksService {
       {
         taskIds,
         userId: currentUser.id,
+        userRole: currentUser.role,
+        organizationId: currentUser.organizationId,
         queuedAt: new Date().toISOString(),
       },
       {
@@ -333,4 +1299,348 @@ export class TasksService {
       },
     );
   }
+
+  async queueBulkUpdate(batchUpdateDto: BatchUpdateTasksDto, currentUser: AuthUser) {
+    const { taskIds, ...changes } = batchUpdateDto;
+
+    // Rejected here rather than by the job, which could only fail it
+    if (Object.values(changes).every(value => value === undefined)) {
+      badRequest(ErrorCode.TASKS_UPDATE_EMPTY);
+    }
+
+    this.logger.log(`Queueing bulk update of ${taskIds.length} tasks for user ${currentUser.id}`);
+
+    return this.taskQueue.add(
+      'tasks-bulk-update',
+      {
+        taskIds,
+        changes,
+        userId: currentUser.id,
+        userRole: currentUser.role,
+        organizationId: currentUser.organizationId,
+        queuedAt: new Date().toISOString(),
+      },
+      {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+        removeOnComplete: true,
+        removeOnFail: { count: 50 },
+      },
+    );
+  }
+
+  /**
+   * Bumps the list namespaces of everyone who sees these tasks in their lists: the owners and
+   * the members of the teams the tasks are shared with
+   */
+  async invalidateTaskLists(
+    tasks: Pick<Task, 'userId' | 'organizationId' | 'teamId'>[],
+  ): Promise<void> {
+    const teamIds = tasks.map(task => task.teamId).filter(Boolean) as string[];
+    const memberIdsByTeam = await this.teamsService.findMemberIds(teamIds);
+
+    const scopes = new Set<string>();
+    for (const task of tasks) {
+      scopes.add(buildUserScope(task.organizationId, task.userId));
+
+      const memberIds = task.teamId ? (memberIdsByTeam.get(task.teamId) ?? []) : [];
+      for (const memberId of memberIds) {
+        scopes.add(buildUserScope(task.organizationId, memberId));
+      }
+    }
+
+    await Promise.all([...scopes].map(scope => bumpCacheNamespace(this.cacheService, scope)));
+  }
+
+  /**
+   * Tells the owners of tasks waiting on the given (now completed) blockers that one
+   * of their blockers is done
+   */
+  private async queueDependentsNotification(blockerIds: string[]): Promise<void> {
+    const blockedTasks = await this.dependenciesRepository.findBlockedByAny(blockerIds);
+    if (blockedTasks.length === 0) {
+      return;
+    }
+
+    await this.taskQueue.add(
+      'task-blockers-resolved',
+      {
+        blockerIds,
+        blockedTasks,
+        timestamp: new Date().toISOString(),
+      },
+      {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 1000,
+        },
+        removeOnComplete: true,
+        removeOnFail: { count: 50 },
+      },
+    );
+  }
+
+  /** Sends changes of the watched fields to the task's watchers */
+  private async queueWatchedChanges(
+    task: Task,
+    previousStatus: TaskStatus,
+    changes: TaskActivityChanges,
+    actorId: string,
+  ): Promise<void> {
+    const watchedChanges = Object.fromEntries(
+      Object.entries(changes).filter(([field]) => WATCHED_FIELDS.includes(field)),
+    );
+    if (Object.keys(watchedChanges).length === 0) {
+      return;
+    }
+
+    // One job per version, so a later change is not deduplicated into an earlier one
+    await this.taskQueue.add(
+      'task-status-update',
+      {
+        taskId: task.id,
+        status: task.status,
+        previousStatus,
+        changes: watchedChanges,
+        actorId,
+        version: task.version,
+      },
+      {
+        jobId: `task-status-${task.id}-v${task.version}`,
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 1000,
+        },
+        removeOnComplete: true,
+        removeOnFail: { count: 50 },
+      },
+    );
+  }
+
+  /** Notifies the new and the previous assignee of a task */
+  private async queueAssignedNotification(
+    task: Task,
+    previousAssigneeId: string | null,
+    assignedBy: string,
+  ): Promise<void> {
+    await this.taskQueue.add(
+      'task-assigned',
+      {
+        taskId: task.id,
+        title: task.title,
+        ownerId: task.userId,
+        assigneeId: task.assigneeId,
+        previousAssigneeId,
+        assignedBy,
+        timestamp: new Date().toISOString(),
+      },
+      {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 1000,
+        },
+        removeOnComplete: true,
+        removeOnFail: { count: 50 },
+      },
+    );
+  }
+
+  /**
+   * Every ID must be a task of the user's organization. Users who are not admins must own the
+   * tasks; tasks they are only assigned to are allowed when `allowAssignee` is set
+   */
+  private assertBatchAccess(
+    taskIds: string[],
+    tasks: Pick<Task, 'id' | 'userId' | 'assigneeId'>[],
+    currentUser: AuthUser,
+    errors: { permissionDenied: ErrorCode; assigneeDenied: ErrorCode },
+    allowAssignee = false,
+  ): void {
+    const taskMap = new Map(tasks.map(t => [t.id, t]));
+
+    const notFoundIds = taskIds.filter(id => !taskMap.has(id));
+    if (notFoundIds.length > 0) {
+      notFound(ErrorCode.TASKS_NOT_FOUND);
+    }
+
+    if (!isAdminOrSuperAdmin(currentUser.role)) {
+      const unauthorizedTasks = tasks.filter(task => task.userId !== currentUser.id);
+      if (unauthorizedTasks.some(task => task.assigneeId !== currentUser.id)) {
+        forbid(errors.permissionDenied);
+      }
+      if (unauthorizedTasks.length > 0 && !allowAssignee) {
+        forbid(errors.assigneeDenied);
+      }
+    }
+  }
+
+  private async assertNotBlocked(id: string, status: TaskStatus): Promise<void> {
+    if (!BLOCKED_STATUSES.includes(status)) {
+      return;
+    }
+
+    const openBlockerIds = await this.dependenciesRepository.findOpenBlockerIds(id);
+
+    if (openBlockerIds.length > 0) {
+      conflict(ErrorCode.TASK_BLOCKED, { count: openBlockerIds.length });
+    }
+  }
+
+  /** The status checks of update(); a batch never cascades to open subtasks */
+  private async findTrashedTask(id: string, currentUser: AuthUser): Promise<Task> {
+    const task = await this.tasksRepository.findDeletedById(id, currentUser.organizationId);
+
+    if (!task) {
+      notFound(ErrorCode.TASK_NOT_IN_TRASH);
+    }
+
+    if (!isAdminOrSuperAdmin(currentUser.role) && task.userId !== currentUser.id) {
+      forbid(ErrorCode.TASK_NOT_OWNED);
+    }
+
+    return task;
+  }
+
+  private async purgeTrashed(
+    tasks: Pick<Task, 'id' | 'userId' | 'organizationId' | 'teamId'>[],
+  ): Promise<number> {
+    const taskIds = tasks.map(task => task.id);
+    const childIds = await this.tasksRepository.findChildIds(taskIds);
+
+    // Normally gone since the tasks were trashed; the FK cascade would orphan stored files
+    await this.taskAttachmentsService.removeForTasks(taskIds);
+
+    const purgedCount = await this.tasksRepository.purge(taskIds);
+
+    if (childIds.length > 0) {
+      await this.cacheService.deleteMany(childIds.map(id => buildEntityCacheKey('task', id)));
+    }
+
+    // The retention job purges across organizations
+    await this.invalidateTaskLists(tasks);
+
+    return purgedCount;
+  }
+
+  private async findPageByCursor(
+    filters: TaskFilterOptions,
+    options: TaskCursorPaginationOptions,
+    after?: TaskCursor,
+  ): Promise<CursorPaginatedResponse<Task>> {
+    const { data, nextCursor, total } = await this.tasksRepository.findWithFiltersByCursor(
+      filters,
+      { after, limit: options.limit, includeTotal: options.includeTotal },
+    );
+
+    return {
+      data,
+      limit: options.limit,
+      nextCursor: nextCursor ? encodeCursor({ c: nextCursor.createdAt, i: nextCursor.id }) : null,
+      hasMore: nextCursor !== null,
+      ...(total !== undefined && { total }),
+    };
+  }
+
+  private parseTaskCursor(cursor: string): TaskCursor {
+    const payload = decodeCursor(cursor);
+    const createdAt = payload?.c;
+    const id = payload?.i;
+
+    if (
+      typeof createdAt !== 'string' ||
+      typeof id !== 'string' ||
+      isNaN(Date.parse(createdAt)) ||
+      !UUID_PATTERN.test(id)
+    ) {
+      badRequest(ErrorCode.TASK_CURSOR_INVALID);
+    }
+
+    return { createdAt, id };
+  }
+
+  /**
+   * Batches go through a single insert, so there is no place to start a series per task
+   */
+  private assertNoRecurrence(createTasksDto: CreateTaskDto[]): void {
+    if (createTasksDto.some(dto => dto.recurrence)) {
+      badRequest(ErrorCode.TASK_RECURRENCE_BATCH_UNSUPPORTED);
+    }
+  }
+
+  /**
+   * A parent must be visible to the caller and belong to the same owner as the subtask,
+   * otherwise a subtree would span several users' task pools
+   */
+  private async assertValidParent(
+    parentId: string,
+    ownerId: string,
+    currentUser: AuthUser,
+  ): Promise<void> {
+    const parent = await this.findOne(parentId, currentUser, {
+      withRelations: false,
+      ownerOnly: true,
+    });
+
+    if (parent.userId !== ownerId) {
+      badRequest(ErrorCode.TASK_PARENT_OWNER_MISMATCH);
+    }
+  }
+
+  /** Tasks can only join active projects of their own owner */
+  private async assertValidProject(
+    projectId: string,
+    ownerId: string,
+    organizationId: string,
+  ): Promise<void> {
+    const project = await this.tasksRepository.findProjectById(projectId);
+
+    if (!project || project.organizationId !== organizationId) {
+      notFound(ErrorCode.PROJECT_NOT_FOUND);
+    }
+
+    if (project.userId !== ownerId) {
+      badRequest(ErrorCode.PROJECT_OWNER_MISMATCH);
+    }
+
+    if (project.archived) {
+      conflict(ErrorCode.PROJECT_ARCHIVED);
+    }
+  }
+
+  /** Tasks can only be shared with teams their owner belongs to */
+  private async assertValidTeam(
+    teamId: string,
+    ownerId: string,
+    organizationId: string,
+  ): Promise<void> {
+    if (!(await this.teamsService.exists(teamId, organizationId))) {
+      notFound(ErrorCode.TEAM_NOT_FOUND);
+    }
+
+    if (!(await this.teamsService.isMember(teamId, ownerId))) {
+      badRequest(ErrorCode.TEAM_OWNER_NOT_MEMBER);
+    }
+  }
+
+  private async attachHierarchyStats(tasks: Task[]): Promise<void> {
+    const stats = await this.tasksRepository.getHierarchyStats(tasks.map(t => t.id));
+
+    for (const task of tasks) {
+      const taskStats = stats.get(task.id);
+
+      task.childCount = taskStats?.childCount ?? 0;
+      task.completionPercentage =
+        taskStats && taskStats.descendantCount > 0
+          ? Math.round((taskStats.completedDescendantCount / taskStats.descendantCount) * 100)
+          : task.status === TaskStatus.COMPLETED
+            ? 100
+            : 0;
+    }
+  }
 }
@@ -0,0 +1,30 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { TaskWorklogsService } from './task-worklogs.service';
+import { TimesheetQueryDto } from './dto/timesheet-query.dto';
+import { TimesheetResponseDto } from './dto/timesheet-response.dto';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../users/enum/user-role.enum';
+import type { AuthUser } from '../../common/types';
+import { ApiTimesheet } from '../../common/decorators/swagger/api-task-worklog.decorator';
+
+@ApiTags('tasks')
+@Controller('timesheet')
+@UseGuards(JwtAuthGuard, RolesGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class TimesheetController {
+  constructor(private readonly taskWorklogsService: TaskWorklogsService) {}
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTimesheet(TimesheetResponseDto)
+  getTimesheet(@Query() query: TimesheetQueryDto, @CurrentUser() user: AuthUser) {
+    return this.taskWorklogsService.getTimesheet(query, user);
+  }
+}
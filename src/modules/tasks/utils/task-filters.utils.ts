@@ -0,0 +1,56 @@
+import { TaskFilterDto } from '../dto/task-filter.dto';
+import { TagMatchMode } from '../enums/tag-match-mode.enum';
+import { TaskFilterOptions } from '../tasks.repository.interface';
+
+/** The query parameters of GET /tasks that select and order tasks, without paging */
+export type TaskFilterCriteria = Omit<
+  TaskFilterDto,
+  'page' | 'limit' | 'pagination' | 'cursor' | 'includeTotal'
+>;
+
+/**
+ * Maps list query parameters to repository filters. `assignee=me` resolves to the user
+ * running the query. Lists are deduplicated and sorted so equivalent queries share a list
+ * cache key
+ */
+export function toTaskFilterOptions(
+  criteria: TaskFilterCriteria,
+  currentUserId: string,
+): Omit<TaskFilterOptions, 'organizationId'> {
+  const {
+    q,
+    status,
+    priority,
+    tags,
+    tagMatch,
+    assignee,
+    projectId,
+    hasProject,
+    dueBefore,
+    dueAfter,
+    createdBefore,
+    createdAfter,
+    overdue,
+    hasDueDate,
+    sortBy,
+    sortOrder,
+  } = criteria;
+
+  return {
+    ...(q && { search: q }),
+    ...(status?.length && { status: [...new Set(status)].sort() }),
+    ...(priority?.length && { priority: [...new Set(priority)].sort() }),
+    ...(tags?.length && { tagIds: [...tags].sort(), tagMatch: tagMatch ?? TagMatchMode.ANY }),
+    ...(assignee && { assigneeId: assignee === 'me' ? currentUserId : assignee }),
+    ...(projectId?.length && { projectIds: [...new Set(projectId)].sort() }),
+    ...(hasProject !== undefined && { hasProject }),
+    ...(dueBefore && { dueBefore: new Date(dueBefore) }),
+    ...(dueAfter && { dueAfter: new Date(dueAfter) }),
+    ...(createdBefore && { createdBefore: new Date(createdBefore) }),
+    ...(createdAfter && { createdAfter: new Date(createdAfter) }),
+    ...(overdue !== undefined && { overdue }),
+    ...(hasDueDate !== undefined && { hasDueDate }),
+    ...(sortBy && { sortBy }),
+    ...(sortOrder && { sortOrder }),
+  };
+}
@@ -0,0 +1,21 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+
+export class CreateTeamDto {
+  @ApiProperty({ example: 'Platform' })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100, { message: 'Team name cannot exceed 100 characters' })
+  name: string;
+
+  @ApiProperty({
+    example: 'Owns the API, the queue workers and the database',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000, { message: 'Team description cannot exceed 2000 characters' })
+  description?: string;
+}
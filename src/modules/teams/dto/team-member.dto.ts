@@ -0,0 +1,11 @@
+import { IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AddTeamMemberDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'ID of a member of the same organization',
+  })
+  @IsUUID('4', { message: 'userId must be a valid UUID' })
+  userId: string;
+}
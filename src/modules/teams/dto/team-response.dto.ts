@@ -0,0 +1,54 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TeamResponseDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Unique team identifier',
+  })
+  id: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    description: 'Organization the team belongs to',
+  })
+  organizationId: string;
+
+  @ApiProperty({ example: 'Platform', description: 'Team name' })
+  name: string;
+
+  @ApiProperty({
+    example: 'Owns the API, the queue workers and the database',
+    description: 'Team description',
+    nullable: true,
+  })
+  description: string | null;
+
+  @ApiProperty({ example: 1, description: 'Version number for optimistic locking' })
+  version: number;
+
+  @ApiProperty({
+    example: '2025-10-01T10:30:00.000Z',
+    description: 'Team creation timestamp',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    example: '2025-10-05T14:20:00.000Z',
+    description: 'Team last update timestamp',
+  })
+  updatedAt: Date;
+}
+
+export class TeamMemberResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  userId: string;
+
+  @ApiProperty({ example: 'Jane Doe' })
+  name: string;
+
+  @ApiProperty({ example: 'jane.doe@example.com' })
+  email: string;
+
+  @ApiProperty({ example: '2025-10-01T10:30:00.000Z' })
+  joinedAt: Date;
+}
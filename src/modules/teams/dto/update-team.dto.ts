@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateTeamDto } from './create-team.dto';
+
+export class UpdateTeamDto extends PartialType(CreateTeamDto) {}
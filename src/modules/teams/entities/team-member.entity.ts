@@ -0,0 +1,22 @@
+import { CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryColumn } from 'typeorm';
+
+@Entity('team_members')
+@Index('idx_team_members_user_id', ['userId'])
+export class TeamMember {
+  @PrimaryColumn({ name: 'team_id', type: 'uuid' })
+  teamId: string;
+
+  @ManyToOne('Team', 'members', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'team_id' })
+  team?: any;
+
+  @PrimaryColumn({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne('User', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user?: any;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
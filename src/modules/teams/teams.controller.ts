@@ -0,0 +1,118 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { TeamsService } from './teams.service';
+import { CreateTeamDto } from './dto/create-team.dto';
+import { UpdateTeamDto } from './dto/update-team.dto';
+import { AddTeamMemberDto } from './dto/team-member.dto';
+import { TeamResponseDto, TeamMemberResponseDto } from './dto/team-response.dto';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../users/enum/user-role.enum';
+import type { AuthUser } from '../../common/types';
+import { SanitizeInput } from '../../common/decorators/sanitize-input.decorator';
+import {
+  ApiTeamCreate,
+  ApiTeamList,
+  ApiTeamGet,
+  ApiTeamUpdate,
+  ApiTeamDelete,
+  ApiTeamMemberList,
+  ApiTeamMemberAdd,
+  ApiTeamMemberRemove,
+} from '../../common/decorators/swagger/api-team.decorator';
+
+@ApiTags('teams')
+@Controller('teams')
+@UseGuards(JwtAuthGuard, RolesGuard, RateLimitGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class TeamsController {
+  constructor(private readonly teamsService: TeamsService) {}
+
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  @SanitizeInput()
+  @ApiTeamCreate(TeamResponseDto)
+  create(@Body() createTeamDto: CreateTeamDto, @CurrentUser() user: AuthUser) {
+    return this.teamsService.create(createTeamDto, user);
+  }
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTeamList(TeamResponseDto)
+  findAll(@CurrentUser() user: AuthUser) {
+    return this.teamsService.findAllForUser(user);
+  }
+
+  @Get(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTeamGet(TeamResponseDto)
+  findOne(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.teamsService.findOne(id, user);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  @SanitizeInput()
+  @ApiTeamUpdate(TeamResponseDto)
+  update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateTeamDto: UpdateTeamDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.teamsService.update(id, updateTeamDto, user);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  @ApiTeamDelete()
+  async remove(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    await this.teamsService.remove(id, user);
+    return { message: 'Team deleted successfully' };
+  }
+
+  @Get(':id/members')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTeamMemberList(TeamMemberResponseDto)
+  findMembers(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.teamsService.findMembers(id, user);
+  }
+
+  @Post(':id/members')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  @SanitizeInput()
+  @ApiTeamMemberAdd()
+  addMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() addMemberDto: AddTeamMemberDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.teamsService.addMember(id, addMemberDto, user);
+  }
+
+  @Delete(':id/members/:userId')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.USER)
+  @ApiTeamMemberRemove()
+  async removeMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    await this.teamsService.removeMember(id, userId, user);
+    return { message: 'Member removed successfully' };
+  }
+}
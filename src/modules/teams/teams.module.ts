@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TeamsService } from './teams.service';
+import { TeamsController } from './teams.controller';
+import { Team } from './entities/team.entity';
+import { TeamMember } from './entities/team-member.entity';
+import { TeamsRepository } from './teams.repository';
+import { TEAMS_REPOSITORY } from './teams.repository.interface';
+import { UsersModule } from '../users/users.module';
+import { CacheService } from '../../common/services/cache.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Team, TeamMember]), UsersModule],
+  controllers: [TeamsController],
+  providers: [
+    TeamsService,
+    CacheService,
+    {
+      provide: TEAMS_REPOSITORY,
+      useClass: TeamsRepository,
+    },
+  ],
+  exports: [TeamsService],
+})
+export class TeamsModule {}
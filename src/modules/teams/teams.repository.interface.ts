@@ -0,0 +1,49 @@
+import { Team } from './entities/team.entity';
+import { TeamMember } from './entities/team-member.entity';
+
+export interface TeamMemberSummary {
+  userId: string;
+  name: string;
+  email: string;
+  joinedAt: Date;
+}
+
+/** The part of a shared task needed to invalidate its caches */
+export interface TeamSharedTask {
+  id: string;
+  userId: string;
+}
+
+/** Reads only see teams of the given organization */
+export interface ITeamsRepository {
+  create(teamData: Partial<Team>): Promise<Team>;
+
+  findById(id: string, organizationId: string): Promise<Team | null>;
+
+  findByName(organizationId: string, name: string): Promise<Team | null>;
+
+  /** Ordered by name */
+  findByOrganizationId(organizationId: string): Promise<Team[]>;
+
+  /** Teams the user belongs to, ordered by name */
+  findByMemberId(userId: string, organizationId: string): Promise<Team[]>;
+
+  update(id: string, teamData: Partial<Team>): Promise<Team>;
+
+  delete(id: string): Promise<void>;
+
+  findMember(teamId: string, userId: string): Promise<TeamMember | null>;
+
+  findMembers(teamId: string): Promise<TeamMemberSummary[]>;
+
+  findMemberships(teamIds: string[]): Promise<Pick<TeamMember, 'teamId' | 'userId'>[]>;
+
+  addMember(teamId: string, userId: string): Promise<TeamMember>;
+
+  removeMember(teamId: string, userId: string): Promise<void>;
+
+  /** Trashed tasks included */
+  findSharedTasks(teamId: string): Promise<TeamSharedTask[]>;
+}
+
+export const TEAMS_REPOSITORY = Symbol('TEAMS_REPOSITORY');
@@ -0,0 +1,104 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Team } from './entities/team.entity';
+import { TeamMember } from './entities/team-member.entity';
+import { ITeamsRepository, TeamMemberSummary, TeamSharedTask } from './teams.repository.interface';
+
+@Injectable()
+export class TeamsRepository implements ITeamsRepository {
+  constructor(
+    @InjectRepository(Team)
+    private readonly teamsRepo: Repository<Team>,
+    @InjectRepository(TeamMember)
+    private readonly membersRepo: Repository<TeamMember>,
+  ) {}
+
+  async create(teamData: Partial<Team>): Promise<Team> {
+    const team = this.teamsRepo.create(teamData);
+    return this.teamsRepo.save(team);
+  }
+
+  async findById(id: string, organizationId: string): Promise<Team | null> {
+    return this.teamsRepo.findOne({ where: { id, organizationId } });
+  }
+
+  async findByName(organizationId: string, name: string): Promise<Team | null> {
+    return this.teamsRepo.findOne({ where: { organizationId, name } });
+  }
+
+  async findByOrganizationId(organizationId: string): Promise<Team[]> {
+    return this.teamsRepo.find({ where: { organizationId }, order: { name: 'ASC' } });
+  }
+
+  async findByMemberId(userId: string, organizationId: string): Promise<Team[]> {
+    return this.teamsRepo
+      .createQueryBuilder('team')
+      .innerJoin('team.members', 'member', 'member.userId = :userId', { userId })
+      .where('team.organizationId = :organizationId', { organizationId })
+      .orderBy('team.name', 'ASC')
+      .getMany();
+  }
+
+  async update(id: string, teamData: Partial<Team>): Promise<Team> {
+    return this.teamsRepo.manager.transaction(async transactionalEntityManager => {
+      await transactionalEntityManager.update(Team, id, teamData);
+
+      const updatedTeam = await transactionalEntityManager.findOne(Team, { where: { id } });
+
+      if (!updatedTeam) {
+        throw new Error(`Team with ID ${id} not found after update`);
+      }
+
+      return updatedTeam;
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.teamsRepo.delete(id);
+  }
+
+  async findMember(teamId: string, userId: string): Promise<TeamMember | null> {
+    return this.membersRepo.findOne({ where: { teamId, userId } });
+  }
+
+  async findMembers(teamId: string): Promise<TeamMemberSummary[]> {
+    return this.membersRepo
+      .createQueryBuilder('member')
+      .innerJoin('member.user', 'user')
+      .select('member.userId', 'userId')
+      .addSelect('user.name', 'name')
+      .addSelect('user.email', 'email')
+      .addSelect('member.createdAt', 'joinedAt')
+      .where('member.teamId = :teamId', { teamId })
+      .orderBy('member.createdAt', 'ASC')
+      .addOrderBy('member.userId', 'ASC')
+      .getRawMany<TeamMemberSummary>();
+  }
+
+  async findMemberships(teamIds: string[]): Promise<Pick<TeamMember, 'teamId' | 'userId'>[]> {
+    if (teamIds.length === 0) {
+      return [];
+    }
+
+    return this.membersRepo.find({
+      select: { teamId: true, userId: true },
+      where: { teamId: In(teamIds) },
+    });
+  }
+
+  async addMember(teamId: string, userId: string): Promise<TeamMember> {
+    const member = this.membersRepo.create({ teamId, userId });
+    return this.membersRepo.save(member);
+  }
+
+  async removeMember(teamId: string, userId: string): Promise<void> {
+    await this.membersRepo.delete({ teamId, userId });
+  }
+
+  async findSharedTasks(teamId: string): Promise<TeamSharedTask[]> {
+    return this.teamsRepo.query('SELECT id, user_id AS "userId" FROM tasks WHERE team_id = $1', [
+      teamId,
+    ]);
+  }
+}
@@ -0,0 +1,190 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Team } from './entities/team.entity';
+import { TeamMember } from './entities/team-member.entity';
+import { CreateTeamDto } from './dto/create-team.dto';
+import { UpdateTeamDto } from './dto/update-team.dto';
+import { AddTeamMemberDto } from './dto/team-member.dto';
+import type { ITeamsRepository, TeamMemberSummary } from './teams.repository.interface';
+import { TEAMS_REPOSITORY } from './teams.repository.interface';
+import { UsersService } from '../users/users.service';
+import { isAdminOrSuperAdmin } from '../users/utils/users.utils';
+import { CacheService } from '../../common/services/cache.service';
+import {
+  bumpCacheNamespace,
+  buildEntityCacheKey,
+  buildUserScope,
+} from '../../common/utils/cache.util';
+import { ErrorCode, conflict, forbid, notFound } from '../../common/errors';
+import type { AuthUser } from '../../common/types';
+
+@Injectable()
+export class TeamsService {
+  private readonly logger = new Logger(TeamsService.name);
+
+  constructor(
+    @Inject(TEAMS_REPOSITORY)
+    private readonly teamsRepository: ITeamsRepository,
+    private readonly usersService: UsersService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  async create(createTeamDto: CreateTeamDto, currentUser: AuthUser): Promise<Team> {
+    await this.assertNameAvailable(currentUser.organizationId, createTeamDto.name);
+
+    return this.teamsRepository.create({
+      ...createTeamDto,
+      organizationId: currentUser.organizationId,
+    });
+  }
+
+  /** Admins see every team of the organization, users the teams they belong to */
+  async findAllForUser(currentUser: AuthUser): Promise<Team[]> {
+    if (isAdminOrSuperAdmin(currentUser.role)) {
+      return this.teamsRepository.findByOrganizationId(currentUser.organizationId);
+    }
+
+    return this.teamsRepository.findByMemberId(currentUser.id, currentUser.organizationId);
+  }
+
+  async findOne(id: string, currentUser: AuthUser): Promise<Team> {
+    const team = await this.findInOrganization(id, currentUser.organizationId);
+
+    if (!isAdminOrSuperAdmin(currentUser.role) && !(await this.isMember(id, currentUser.id))) {
+      forbid(ErrorCode.TEAM_ACCESS_DENIED);
+    }
+
+    return team;
+  }
+
+  async update(id: string, updateTeamDto: UpdateTeamDto, currentUser: AuthUser): Promise<Team> {
+    const team = await this.findInOrganization(id, currentUser.organizationId);
+
+    if (updateTeamDto.name && updateTeamDto.name !== team.name) {
+      await this.assertNameAvailable(team.organizationId, updateTeamDto.name);
+    }
+
+    return this.teamsRepository.update(id, updateTeamDto);
+  }
+
+  /**
+   * Shared tasks stay with their owners; the FK unshares them, so their cached copies and
+   * the lists of everyone who could see them go stale
+   */
+  async remove(id: string, currentUser: AuthUser): Promise<void> {
+    const team = await this.findInOrganization(id, currentUser.organizationId);
+
+    // Collected before the delete, which cascades through team_members
+    const memberIds = (await this.findMemberIds([id])).get(id) ?? [];
+    const sharedTasks = await this.teamsRepository.findSharedTasks(id);
+
+    await this.teamsRepository.delete(id);
+
+    if (sharedTasks.length > 0) {
+      await this.cacheService.deleteMany(
+        sharedTasks.map(task => buildEntityCacheKey('task', task.id)),
+      );
+    }
+
+    const affectedUserIds = new Set([...memberIds, ...sharedTasks.map(task => task.userId)]);
+    await Promise.all(
+      [...affectedUserIds].map(userId =>
+        bumpCacheNamespace(this.cacheService, buildUserScope(team.organizationId, userId)),
+      ),
+    );
+
+    this.logger.log(
+      `Deleted team ${id} (${sharedTasks.length} tasks unshared) by user ${currentUser.id}`,
+    );
+  }
+
+  async findMembers(id: string, currentUser: AuthUser): Promise<TeamMemberSummary[]> {
+    await this.findOne(id, currentUser);
+
+    return this.teamsRepository.findMembers(id);
+  }
+
+  async addMember(
+    id: string,
+    addMemberDto: AddTeamMemberDto,
+    currentUser: AuthUser,
+  ): Promise<TeamMember> {
+    const team = await this.findInOrganization(id, currentUser.organizationId);
+
+    if (!(await this.usersService.exists(addMemberDto.userId, team.organizationId))) {
+      notFound(ErrorCode.USER_NOT_FOUND);
+    }
+
+    if (await this.isMember(id, addMemberDto.userId)) {
+      conflict(ErrorCode.TEAM_MEMBER_EXISTS);
+    }
+
+    const member = await this.teamsRepository.addMember(id, addMemberDto.userId);
+
+    // The team's tasks now show up in the new member's lists
+    await bumpCacheNamespace(
+      this.cacheService,
+      buildUserScope(team.organizationId, addMemberDto.userId),
+    );
+
+    return member;
+  }
+
+  /** Admins remove members; anyone may leave a team on their own */
+  async removeMember(id: string, userId: string, currentUser: AuthUser): Promise<void> {
+    const team =
+      userId === currentUser.id
+        ? await this.findOne(id, currentUser)
+        : await this.findInOrganization(id, currentUser.organizationId);
+
+    if (userId !== currentUser.id && !isAdminOrSuperAdmin(currentUser.role)) {
+      forbid(ErrorCode.TEAM_ACCESS_DENIED);
+    }
+
+    if (!(await this.isMember(id, userId))) {
+      notFound(ErrorCode.TEAM_MEMBER_NOT_FOUND);
+    }
+
+    await this.teamsRepository.removeMember(id, userId);
+
+    await bumpCacheNamespace(this.cacheService, buildUserScope(team.organizationId, userId));
+  }
+
+  /** Existence check for teams of an organization; access is the caller's job */
+  async exists(id: string, organizationId: string): Promise<boolean> {
+    return (await this.teamsRepository.findById(id, organizationId)) !== null;
+  }
+
+  async isMember(teamId: string, userId: string): Promise<boolean> {
+    return (await this.teamsRepository.findMember(teamId, userId)) !== null;
+  }
+
+  /** Member IDs per team; teams without members are missing from the map */
+  async findMemberIds(teamIds: string[]): Promise<Map<string, string[]>> {
+    const memberships = await this.teamsRepository.findMemberships([...new Set(teamIds)]);
+
+    const memberIds = new Map<string, string[]>();
+    for (const { teamId, userId } of memberships) {
+      memberIds.set(teamId, [...(memberIds.get(teamId) ?? []), userId]);
+    }
+
+    return memberIds;
+  }
+
+  private async findInOrganization(id: string, organizationId: string): Promise<Team> {
+    const team = await this.teamsRepository.findById(id, organizationId);
+
+    if (!team) {
+      notFound(ErrorCode.TEAM_NOT_FOUND);
+    }
+
+    return team;
+  }
+
+  private async assertNameAvailable(organizationId: string, name: string): Promise<void> {
+    const existing = await this.teamsRepository.findByName(organizationId, name);
+
+    if (existing) {
+      conflict(ErrorCode.TEAM_NAME_EXISTS, { name });
+    }
+  }
+}
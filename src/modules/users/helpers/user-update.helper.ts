@@ -24,6 +24,21 @@ export function validateUpdateAuthorization(
   if (currentUser.role === UserRole.ADMIN && updateDto.role === UserRole.SUPER_ADMIN) {
     forbid(ErrorCode.USER_ROLE_SUPER_ADMIN_FORBIDDEN);
   }
+
+  // Platform roles reach across organizations, so only super-admins change them
+  if (currentUser.role === UserRole.ADMIN && updateDto.role) {
+    forbid(ErrorCode.USER_PLATFORM_ROLE_FORBIDDEN);
+  }
+
+  // An account may belong to organizations the admin has no say in, so its sign-in details
+  // stay with its holder
+  if (
+    currentUser.role !== UserRole.SUPER_ADMIN &&
+    currentUser.id !== targetUserId &&
+    (updateDto.email || updateDto.password)
+  ) {
+    forbid(ErrorCode.USER_CREDENTIALS_SELF_ONLY);
+  }
 }
 
 export async function prepareUpdateData(updateDto: UpdateUserDto): Promise<Partial<User>> {
@@ -34,17 +34,17 @@ export class UsersController {
   @Post()
   @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
   @SanitizeInput()
-  @ApiOperation({ summary: 'Create user (Admin/Super-Admin only)' })
-  create(@Body() createUserDto: CreateUserDto) {
+  @ApiOperation({ summary: 'Create user in the active organization (Admin/Super-Admin only)' })
+  create(@Body() createUserDto: CreateUserDto, @CurrentUser() currentUser: AuthUser) {
     //TODO:invite user, sine we can create user from auth controller
-    return this.usersService.create(createUserDto);
+    return this.usersService.createInOrganization(createUserDto, currentUser);
   }
 
   @Get()
   @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
-  @ApiOperation({ summary: 'Get all users (Admin/Super-Admin only)' })
-  findAll() {
-    return this.usersService.findAll();
+  @ApiOperation({ summary: 'Get all users of the active organization (Admin/Super-Admin only)' })
+  findAll(@CurrentUser() currentUser: AuthUser) {
+    return this.usersService.findAll(currentUser);
   }
 
   @Get(':id')
@@ -69,7 +69,7 @@ export class UsersController {
   @Delete(':id')
   @Roles(UserRole.SUPER_ADMIN)
   @ApiOperation({ summary: 'Delete user (Super-Admin only)' })
-  remove(@Param('id', ParseUUIDPipe) id: string) {
-    return this.usersService.remove(id);
+  remove(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() currentUser: AuthUser) {
+    return this.usersService.remove(id, currentUser);
   }
 }
@@ -1,11 +1,23 @@
 import { User } from './entities/user.entity';
+import type { OrganizationRole } from '../organizations/enums/organization-role.enum';
 
+/** The organization a new user joins, and their role there */
+export interface UserMembership {
+  organizationId: string;
+  role: OrganizationRole;
+}
+
+/**
+ * Reads that take an `organizationId` only see members of that organization. Lookups by
+ * email and the unscoped `findById` serve login, uniqueness checks and the caller's own
+ * account, which exist across organizations.
+ */
 export interface IUsersRepository {
-  create(userData: Partial<User>): Promise<User>;
+  create(userData: Partial<User>, membership: UserMembership): Promise<User>;
 
-  findAll(): Promise<User[]>;
+  findAll(organizationId: string): Promise<User[]>;
 
-  findById(id: string): Promise<User | null>;
+  findById(id: string, organizationId?: string): Promise<User | null>;
 
   findByEmail(email: string): Promise<User | null>;
 
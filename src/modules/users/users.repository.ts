@@ -2,7 +2,8 @@ import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { User } from './entities/user.entity';
-import { IUsersRepository } from './users.repository.interface';
+import { OrganizationMember } from '../organizations/entities/organization-member.entity';
+import { IUsersRepository, UserMembership } from './users.repository.interface';
 
 @Injectable()
 export class UsersRepository implements IUsersRepository {
@@ -11,17 +12,37 @@ export class UsersRepository implements IUsersRepository {
     private readonly userRepo: Repository<User>,
   ) {}
 
-  async create(userData: Partial<User>): Promise<User> {
-    const user = this.userRepo.create(userData);
-    return this.userRepo.save(user);
-  }
+  async create(userData: Partial<User>, membership: UserMembership): Promise<User> {
+    return this.userRepo.manager.transaction(async transactionalEntityManager => {
+      const user = await transactionalEntityManager.save(
+        transactionalEntityManager.create(User, userData),
+      );
+
+      await transactionalEntityManager.insert(OrganizationMember, {
+        organizationId: membership.organizationId,
+        userId: user.id,
+        role: membership.role,
+      });
 
-  async findAll(): Promise<User[]> {
-    return this.userRepo.createQueryBuilder('user').orderBy('user.createdAt', 'DESC').getMany();
+      return user;
+    });
   }
 
-  async findById(id: string): Promise<User | null> {
+  async findAll(organizationId: string): Promise<User[]> {
     return this.userRepo
+      .createQueryBuilder('user')
+      .innerJoin(
+        OrganizationMember,
+        'member',
+        'member.userId = user.id AND member.organizationId = :organizationId',
+        { organizationId },
+      )
+      .orderBy('user.createdAt', 'DESC')
+      .getMany();
+  }
+
+  async findById(id: string, organizationId?: string): Promise<User | null> {
+    const query = this.userRepo
       .createQueryBuilder('user')
       .select([
         'user.id',
@@ -31,8 +52,18 @@ export class UsersRepository implements IUsersRepository {
         'user.createdAt',
         'user.updatedAt',
       ])
-      .where('user.id = :id', { id })
-      .getOne();
+      .where('user.id = :id', { id });
+
+    if (organizationId) {
+      query.innerJoin(
+        OrganizationMember,
+        'member',
+        'member.userId = user.id AND member.organizationId = :organizationId',
+        { organizationId },
+      );
+    }
+
+    return query.getOne();
   }
 
   async findByEmail(email: string): Promise<User | null> {
@@ -3,11 +3,12 @@ import { User } from './entities/user.entity';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import type { AuthUser } from '../../common/types';
-import type { IUsersRepository } from './users.repository.interface';
+import type { IUsersRepository, UserMembership } from './users.repository.interface';
 import { USERS_REPOSITORY } from './users.repository.interface';
 import { CacheService } from '../../common/services/cache.service';
 import * as bcrypt from 'bcrypt';
 import { UserRole } from './enum/user-role.enum';
+import { OrganizationRole } from '../organizations/enums/organization-role.enum';
 import type { PublicUser } from './types/user-public.type';
 import { toPublicUser } from './utils/users.utils';
 import { normalizeEmail } from '../../common/utils/normalizers.util';
@@ -29,7 +30,7 @@ export class UsersService {
     private readonly cacheService: CacheService,
   ) {}
 
-  async create(createUserDto: CreateUserDto): Promise<User> {
+  async create(createUserDto: CreateUserDto, membership: UserMembership): Promise<User> {
     const normalizedEmail = normalizeEmail(createUserDto.email);
 
     const existingUser = await this.usersRepository.findByEmail(normalizedEmail);
@@ -39,28 +40,47 @@ export class UsersService {
 
     const hashedPassword = await bcrypt.hash(createUserDto.password, 10);
 
-    const user = await this.usersRepository.create({
-      ...createUserDto,
-      email: normalizedEmail,
-      password: hashedPassword,
-    });
+    const user = await this.usersRepository.create(
+      {
+        ...createUserDto,
+        email: normalizedEmail,
+        password: hashedPassword,
+      },
+      membership,
+    );
 
     return user;
   }
 
-  async findAll(): Promise<User[]> {
-    return this.usersRepository.findAll();
+  /**
+   * Admins add users to their active organization. Platform roles reach across
+   * organizations, so only super-admins grant them
+   */
+  async createInOrganization(createUserDto: CreateUserDto, currentUser: AuthUser): Promise<User> {
+    if (currentUser.role !== UserRole.SUPER_ADMIN && createUserDto.role !== UserRole.USER) {
+      forbid(ErrorCode.USER_PLATFORM_ROLE_FORBIDDEN);
+    }
+
+    return this.create(createUserDto, {
+      organizationId: currentUser.organizationId,
+      role: createUserDto.role === UserRole.USER ? OrganizationRole.MEMBER : OrganizationRole.ADMIN,
+    });
+  }
+
+  async findAll(currentUser: AuthUser): Promise<User[]> {
+    return this.usersRepository.findAll(currentUser.organizationId);
   }
 
-  async findOne(id: string, currentUser: AuthUser): Promise<PublicUser> {
+  /**
+   * The caller's own account regardless of organization, for authentication. Returns null
+   * when the account no longer exists
+   */
+  async findAccount(id: string): Promise<PublicUser | null> {
     const cacheKey = `user:id:${id}`;
     const cachedUser = await this.cacheService.get<PublicUser>(cacheKey);
 
     if (cachedUser) {
       this.logger.debug(`Cache hit for user ID: ${id}`);
-      if (currentUser.role === UserRole.USER && currentUser.id !== id) {
-        forbid(ErrorCode.USER_SELF_VIEW_ONLY);
-      }
       return cachedUser;
     }
 
@@ -68,11 +88,7 @@ export class UsersService {
     const user = await this.usersRepository.findById(id);
 
     if (!user) {
-      notFound(ErrorCode.USER_NOT_FOUND);
-    }
-
-    if (currentUser.role === UserRole.USER && currentUser.id !== id) {
-      forbid(ErrorCode.USER_SELF_VIEW_ONLY);
+      return null;
     }
 
     const publicUser = toPublicUser(user);
@@ -81,6 +97,40 @@ export class UsersService {
     return publicUser;
   }
 
+  /** Other users are only visible to admins of an organization they belong to */
+  async findOne(id: string, currentUser: AuthUser): Promise<PublicUser> {
+    if (currentUser.id === id) {
+      const account = await this.findAccount(id);
+
+      if (!account) {
+        notFound(ErrorCode.USER_NOT_FOUND);
+      }
+
+      return account;
+    }
+
+    if (currentUser.role === UserRole.USER) {
+      forbid(ErrorCode.USER_SELF_VIEW_ONLY);
+    }
+
+    const user = await this.usersRepository.findById(id, currentUser.organizationId);
+
+    if (!user) {
+      notFound(ErrorCode.USER_NOT_FOUND);
+    }
+
+    return toPublicUser(user);
+  }
+
+  /**
+   * Existence check within an organization, without the self-view restriction, for
+   * features that reference other users
+   */
+  async exists(id: string, organizationId: string): Promise<boolean> {
+    const user = await this.usersRepository.findById(id, organizationId);
+    return user !== null;
+  }
+
   async findByEmail(email: string): Promise<User | null> {
     const normalizedEmail = normalizeEmail(email);
 
@@ -155,8 +205,8 @@ export class UsersService {
     await this.cacheService.set(`user:id:${userId}`, publicUser, this.USER_CACHE_TTL);
   }
 
-  async remove(id: string): Promise<void> {
-    const user = await this.usersRepository.findById(id);
+  async remove(id: string, currentUser: AuthUser): Promise<void> {
+    const user = await this.usersRepository.findById(id, currentUser.organizationId);
     if (!user) {
       notFound(ErrorCode.USER_NOT_FOUND);
     }
@@ -0,0 +1,46 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { TaskExportsService } from '../../modules/tasks/task-exports.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+@Injectable()
+export class ExportCleanupService {
+  private readonly logger = new Logger(ExportCleanupService.name);
+  private readonly EXPORT_RETENTION_HOURS = Number(process.env.TASK_EXPORT_RETENTION_HOURS ?? 24);
+  private isProcessing = false;
+
+  constructor(private readonly taskExportsService: TaskExportsService) {}
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeExpiredExports() {
+    if (this.isProcessing) {
+      this.logger.warn('Previous export cleanup still running, skipping this execution');
+      return;
+    }
+
+    this.isProcessing = true;
+    const startTime = Date.now();
+
+    try {
+      const cutoff = new Date(Date.now() - this.EXPORT_RETENTION_HOURS * HOUR_MS);
+      this.logger.log(`🗑️ Deleting exports finished before ${cutoff.toISOString()}...`);
+
+      const purged = await this.taskExportsService.purgeExpired(cutoff);
+
+      const duration = Date.now() - startTime;
+      this.logger.log(`✅ Export cleanup completed in ${duration}ms | Deleted: ${purged}`);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      this.logger.error(
+        `❌ Export cleanup failed after ${duration}ms: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+
+      if (error instanceof Error && error.stack) {
+        this.logger.debug(`Stack trace: ${error.stack}`);
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
@@ -5,7 +5,7 @@ import { Queue } from 'bullmq';
 import { InjectRepository } from '@nestjs/typeorm';
 import { LessThan, Repository, Not, In } from 'typeorm';
 import { Task } from '../../modules/tasks/entities/task.entity';
-import { TaskStatus } from '../../modules/tasks/enums/task-status.enum';
+import { CLOSED_TASK_STATUSES } from '../../modules/tasks/enums/task-status.enum';
 
 @Injectable()
 export class OverdueTasksService {
@@ -37,7 +37,7 @@ export class OverdueTasksService {
       const overdueTasks = await this.tasksRepository.find({
         where: {
           dueDate: LessThan(now),
-          status: Not(In([TaskStatus.COMPLETED])),
+          status: Not(In(CLOSED_TASK_STATUSES)),
         },
         relations: ['user'],
       });
@@ -133,7 +133,7 @@ export class OverdueTasksService {
         .where('task.dueDate > :now', { now })
         .andWhere('task.dueDate <= :tomorrow', { tomorrow })
         .andWhere('task.status NOT IN (:...excludeStatuses)', {
-          excludeStatuses: [TaskStatus.COMPLETED],
+          excludeStatuses: CLOSED_TASK_STATUSES,
         })
         .getMany();
 
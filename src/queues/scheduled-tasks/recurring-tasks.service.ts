@@ -0,0 +1,42 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { TaskSeriesService } from '../../modules/tasks/task-series.service';
+
+@Injectable()
+export class RecurringTasksService {
+  private readonly logger = new Logger(RecurringTasksService.name);
+  private isProcessing = false;
+
+  constructor(private readonly taskSeriesService: TaskSeriesService) {}
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async createDueOccurrences() {
+    if (this.isProcessing) {
+      this.logger.warn('Previous recurring tasks run still in progress, skipping this execution');
+      return;
+    }
+
+    this.isProcessing = true;
+    const startTime = Date.now();
+
+    try {
+      this.logger.log('🔁 Creating next occurrences of recurring tasks...');
+
+      const created = await this.taskSeriesService.spawnDueOccurrences(new Date());
+
+      const duration = Date.now() - startTime;
+      this.logger.log(`✅ Recurring tasks run completed in ${duration}ms | Created: ${created}`);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      this.logger.error(
+        `❌ Recurring tasks run failed after ${duration}ms: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+
+      if (error instanceof Error && error.stack) {
+        this.logger.debug(`Stack trace: ${error.stack}`);
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
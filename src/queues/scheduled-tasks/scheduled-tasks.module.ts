@@ -3,6 +3,9 @@ import { ScheduleModule } from '@nestjs/schedule';
 import { BullModule } from '@nestjs/bullmq';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { OverdueTasksService } from './overdue-tasks.service';
+import { RecurringTasksService } from './recurring-tasks.service';
+import { TrashPurgeService } from './trash-purge.service';
+import { ExportCleanupService } from './export-cleanup.service';
 import { TasksModule } from '../../modules/tasks/tasks.module';
 import { Task } from '../../modules/tasks/entities/task.entity';
 
@@ -15,7 +18,7 @@ import { Task } from '../../modules/tasks/entities/task.entity';
     TypeOrmModule.forFeature([Task]),
     TasksModule,
   ],
-  providers: [OverdueTasksService],
-  exports: [OverdueTasksService],
+  providers: [OverdueTasksService, RecurringTasksService, TrashPurgeService, ExportCleanupService],
+  exports: [OverdueTasksService, RecurringTasksService, TrashPurgeService, ExportCleanupService],
 })
 export class ScheduledTasksModule {}
@@ -0,0 +1,46 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { TasksService } from '../../modules/tasks/tasks.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class TrashPurgeService {
+  private readonly logger = new Logger(TrashPurgeService.name);
+  private readonly TRASH_RETENTION_DAYS = Number(process.env.TASK_TRASH_RETENTION_DAYS ?? 30);
+  private isProcessing = false;
+
+  constructor(private readonly tasksService: TasksService) {}
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async purgeExpiredTrash() {
+    if (this.isProcessing) {
+      this.logger.warn('Previous trash purge still running, skipping this execution');
+      return;
+    }
+
+    this.isProcessing = true;
+    const startTime = Date.now();
+
+    try {
+      const cutoff = new Date(Date.now() - this.TRASH_RETENTION_DAYS * DAY_MS);
+      this.logger.log(`🗑️ Purging tasks trashed before ${cutoff.toISOString()}...`);
+
+      const purged = await this.tasksService.purgeExpiredTrash(cutoff);
+
+      const duration = Date.now() - startTime;
+      this.logger.log(`✅ Trash purge completed in ${duration}ms | Purged: ${purged}`);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      this.logger.error(
+        `❌ Trash purge failed after ${duration}ms: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+
+      if (error instanceof Error && error.stack) {
+        this.logger.debug(`Stack trace: ${error.stack}`);
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
@@ -1,8 +1,14 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
-import { Job } from 'bullmq';
+import { HttpException, Injectable, Logger } from '@nestjs/common';
+import { InjectQueue, Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
+import { Job, Queue } from 'bullmq';
 import { TasksService } from '../../modules/tasks/tasks.service';
+import { TaskWatchersService } from '../../modules/tasks/task-watchers.service';
+import { TaskExportsService } from '../../modules/tasks/task-exports.service';
 import { TaskStatus } from '../../modules/tasks/enums/task-status.enum';
+import { TaskActivitySource } from '../../modules/tasks/enums/task-activity-source.enum';
+import type { BlockedTaskSummary } from '../../modules/tasks/task-dependencies.repository.interface';
+import { DEFAULT_ORGANIZATION_ID } from '../../modules/organizations/entities/organization.entity';
+import { ErrorCode, ErrorResponse } from '../../common/errors';
 
 @Injectable()
 @Processor('task-processing', {
@@ -16,7 +22,13 @@ import { TaskStatus } from '../../modules/tasks/enums/task-status.enum';
 export class TaskProcessorService extends WorkerHost {
   private readonly logger = new Logger(TaskProcessorService.name);
 
-  constructor(private readonly tasksService: TasksService) {
+  constructor(
+    private readonly tasksService: TasksService,
+    private readonly taskWatchersService: TaskWatchersService,
+    private readonly taskExportsService: TaskExportsService,
+    @InjectQueue('task-processing')
+    private readonly taskQueue: Queue,
+  ) {
     super();
   }
 
@@ -37,6 +49,10 @@ export class TaskProcessorService extends WorkerHost {
         case 'tasks-bulk-delete':
           result = await this.handleBulkDelete(job);
           break;
+
+        case 'tasks-bulk-update':
+          result = await this.handleBulkUpdate(job);
+          break;
         case 'task-status-update':
           result = await this.handleStatusUpdate(job);
           break;
@@ -49,6 +65,22 @@ export class TaskProcessorService extends WorkerHost {
           result = await this.handleTaskReminder(job);
           break;
 
+        case 'task-blockers-resolved':
+          result = await this.handleBlockersResolved(job);
+          break;
+
+        case 'task-assigned':
+          result = await this.handleTaskAssigned(job);
+          break;
+
+        case 'task-watcher-notification':
+          result = await this.handleWatcherNotification(job);
+          break;
+
+        case 'task-export':
+          result = await this.handleExport(job);
+          break;
+
         default:
           this.logger.warn(`[Job ${job.id}] Unknown job type: ${job.name}`);
           throw new Error(`Unknown job type: ${job.name}`);
@@ -77,7 +109,13 @@ export class TaskProcessorService extends WorkerHost {
   }
 
   private async handleBulkCreate(job: Job) {
-    const { tasks, userId, userRole = 'user' } = job.data;
+    const {
+      tasks,
+      userId,
+      userRole = 'user',
+      // Jobs queued before organizations existed belong to the default one
+      organizationId = DEFAULT_ORGANIZATION_ID,
+    } = job.data;
 
     if (!tasks || !Array.isArray(tasks)) {
       throw new Error('Invalid tasks: must be an array');
@@ -98,8 +136,12 @@ export class TaskProcessorService extends WorkerHost {
     this.logger.debug(`[Job ${job.id}] Bulk creating ${tasks.length} tasks for user ${userId}`);
 
     try {
-      const currentUser = { id: userId, role: userRole };
-      const result = await this.tasksService.batchCreate(tasks, currentUser);
+      const currentUser = { id: userId, role: userRole, organizationId };
+      const result = await this.tasksService.batchCreate(
+        tasks,
+        currentUser,
+        TaskActivitySource.QUEUE,
+      );
 
       return {
         success: true,
@@ -116,7 +158,13 @@ export class TaskProcessorService extends WorkerHost {
   }
 
   private async handleBulkDelete(job: Job) {
-    const { taskIds, userId, userRole = 'user' } = job.data;
+    const {
+      taskIds,
+      userId,
+      userRole = 'user',
+      // Jobs queued before organizations existed belong to the default one
+      organizationId = DEFAULT_ORGANIZATION_ID,
+    } = job.data;
 
     if (!taskIds || !Array.isArray(taskIds)) {
       throw new Error('Invalid taskIds: must be an array');
@@ -137,8 +185,12 @@ export class TaskProcessorService extends WorkerHost {
     this.logger.debug(`[Job ${job.id}] Bulk deleting ${taskIds.length} tasks for user ${userId}`);
 
     try {
-      const currentUser = { id: userId, role: userRole };
-      const deletedCount = await this.tasksService.batchDeleteForUser(taskIds, currentUser);
+      const currentUser = { id: userId, role: userRole, organizationId };
+      const deletedCount = await this.tasksService.batchDeleteForUser(
+        taskIds,
+        currentUser,
+        TaskActivitySource.QUEUE,
+      );
 
       return {
         success: true,
@@ -154,8 +206,68 @@ export class TaskProcessorService extends WorkerHost {
     }
   }
 
+  /** Tasks that fail a status check are reported in the result; they do not fail the job */
+  private async handleBulkUpdate(job: Job) {
+    const {
+      taskIds,
+      changes,
+      userId,
+      userRole = 'user',
+      organizationId = DEFAULT_ORGANIZATION_ID,
+    } = job.data;
+
+    if (!taskIds || !Array.isArray(taskIds)) {
+      throw new Error('Invalid taskIds: must be an array');
+    }
+
+    if (!changes || typeof changes !== 'object') {
+      throw new Error('Missing required field: changes');
+    }
+
+    if (!userId) {
+      throw new Error('Missing required field: userId');
+    }
+
+    if (taskIds.length === 0) {
+      throw new Error('TaskIds array cannot be empty');
+    }
+
+    if (taskIds.length > 1000) {
+      throw new Error('Cannot update more than 1000 tasks in a single batch');
+    }
+
+    this.logger.debug(`[Job ${job.id}] Bulk updating ${taskIds.length} tasks for user ${userId}`);
+
+    try {
+      const currentUser = { id: userId, role: userRole, organizationId };
+      const { results, updatedCount, failedCount } = await this.tasksService.batchUpdateForUser(
+        taskIds,
+        changes,
+        currentUser,
+        TaskActivitySource.QUEUE,
+      );
+
+      return {
+        success: true,
+        updatedCount,
+        failedCount,
+        results,
+        userId,
+      };
+    } catch (error) {
+      this.logger.error(
+        `[Job ${job.id}] Bulk update failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Applies a queued status and, for jobs queued by a task update, fans the change out to the
+   * task's watchers. Retries are safe: the status is only written once per version
+   */
   private async handleStatusUpdate(job: Job) {
-    const { taskId, status } = job.data;
+    const { taskId, status, changes, actorId, version } = job.data;
 
     if (!taskId) {
       throw new Error('Missing required field: taskId');
@@ -172,7 +284,14 @@ export class TaskProcessorService extends WorkerHost {
     this.logger.debug(`[Job ${job.id}] Updating task ${taskId} to status: ${status}`);
 
     try {
-      const task = await this.tasksService.updateStatus(taskId, status);
+      const task = await this.tasksService.updateStatus(taskId, status, {
+        expectedVersion: version,
+      });
+
+      const notifiedWatchers =
+        changes && Object.keys(changes).length > 0
+          ? await this.queueWatcherNotifications(taskId, changes, actorId, version)
+          : 0;
 
       return {
         success: true,
@@ -180,6 +299,7 @@ export class TaskProcessorService extends WorkerHost {
         previousStatus: job.data.previousStatus,
         newStatus: task.status,
         updatedAt: task.updatedAt,
+        notifiedWatchers,
       };
     } catch (error) {
       if (error instanceof Error && error.message.includes('not found')) {
@@ -193,6 +313,22 @@ export class TaskProcessorService extends WorkerHost {
         };
       }
 
+      // The workflow may have changed or the task moved on since the job was queued; retrying
+      // would fail the same way
+      if (
+        error instanceof HttpException &&
+        (error.getResponse() as ErrorResponse).code === ErrorCode.TASK_STATUS_TRANSITION_INVALID
+      ) {
+        this.logger.warn(`[Job ${job.id}] ${error.message} - marking job as completed`);
+
+        return {
+          success: false,
+          skipped: true,
+          reason: 'Status transition not allowed',
+          taskId,
+        };
+      }
+
       throw error;
     }
   }
@@ -249,6 +385,167 @@ export class TaskProcessorService extends WorkerHost {
     };
   }
 
+  private async handleBlockersResolved(job: Job) {
+    const { blockerIds, blockedTasks } = job.data;
+
+    if (!blockerIds || !Array.isArray(blockerIds)) {
+      throw new Error('Invalid blockerIds: must be an array');
+    }
+
+    if (!blockedTasks || !Array.isArray(blockedTasks)) {
+      throw new Error('Invalid blockedTasks: must be an array');
+    }
+
+    const tasksByOwner = new Map<string, BlockedTaskSummary[]>();
+    for (const task of blockedTasks as BlockedTaskSummary[]) {
+      const ownerTasks = tasksByOwner.get(task.userId) ?? [];
+      ownerTasks.push(task);
+      tasksByOwner.set(task.userId, ownerTasks);
+    }
+
+    const unblockedTaskIds: string[] = [];
+    for (const [userId, tasks] of tasksByOwner) {
+      const unblocked = tasks.filter(task => task.openBlockerCount === 0);
+      unblockedTaskIds.push(...unblocked.map(task => task.taskId));
+      this.logger.debug(
+        `[Job ${job.id}] Notifying user ${userId}: blockers completed for ${tasks.length} tasks (${unblocked.length} now unblocked)`,
+      );
+    }
+
+    return {
+      success: true,
+      blockerIds,
+      notifiedUsers: tasksByOwner.size,
+      unblockedTaskIds,
+    };
+  }
+
+  private async handleTaskAssigned(job: Job) {
+    const { taskId, assigneeId, previousAssigneeId } = job.data;
+
+    if (!taskId) {
+      throw new Error('Missing required field: taskId');
+    }
+
+    const notifiedUserIds: string[] = [];
+
+    if (assigneeId) {
+      this.logger.debug(`[Job ${job.id}] Notifying user ${assigneeId}: assigned to task ${taskId}`);
+      notifiedUserIds.push(assigneeId);
+    }
+
+    if (previousAssigneeId) {
+      this.logger.debug(
+        `[Job ${job.id}] Notifying user ${previousAssigneeId}: unassigned from task ${taskId}`,
+      );
+      notifiedUserIds.push(previousAssigneeId);
+    }
+
+    return {
+      success: true,
+      taskId,
+      notifiedUserIds,
+    };
+  }
+
+  /** Runs with the role the export was requested with, so it sees what the request would */
+  private async handleExport(job: Job) {
+    const { exportId, userId, userRole = 'user', organizationId } = job.data;
+
+    if (!exportId) {
+      throw new Error('Missing required field: exportId');
+    }
+
+    if (!userId || !organizationId) {
+      throw new Error('Missing required fields: userId and organizationId');
+    }
+
+    this.logger.debug(`[Job ${job.id}] Writing export ${exportId} for user ${userId}`);
+
+    const taskExport = await this.taskExportsService.run(exportId, {
+      id: userId,
+      role: userRole,
+      organizationId,
+    });
+
+    if (!taskExport) {
+      this.logger.warn(`[Job ${job.id}] Export ${exportId} not found - marking job as completed`);
+
+      return {
+        success: false,
+        skipped: true,
+        reason: 'Export not found',
+        exportId,
+      };
+    }
+
+    return {
+      success: true,
+      exportId,
+      rowCount: taskExport.rowCount,
+    };
+  }
+
+  private async handleWatcherNotification(job: Job) {
+    const { taskId, userId, changes } = job.data;
+
+    if (!taskId) {
+      throw new Error('Missing required field: taskId');
+    }
+
+    if (!userId) {
+      throw new Error('Missing required field: userId');
+    }
+
+    const changedFields = Object.keys(changes ?? {});
+
+    this.logger.debug(
+      `[Job ${job.id}] Notifying watcher ${userId}: task ${taskId} changed (${changedFields.join(', ')})`,
+    );
+
+    return {
+      success: true,
+      taskId,
+      userId,
+      changedFields,
+    };
+  }
+
+  /** One job per watcher, so a failed delivery is retried for that watcher only */
+  private async queueWatcherNotifications(
+    taskId: string,
+    changes: Record<string, unknown>,
+    actorId: string | null,
+    version: number | undefined,
+  ): Promise<number> {
+    const watcherIds = await this.taskWatchersService.findWatcherIdsToNotify(taskId, actorId);
+    if (watcherIds.length === 0) {
+      return 0;
+    }
+
+    const timestamp = new Date().toISOString();
+
+    await this.taskQueue.addBulk(
+      watcherIds.map(userId => ({
+        name: 'task-watcher-notification',
+        data: { taskId, userId, changes, actorId, timestamp },
+        opts: {
+          // A retried status job does not queue a second copy while the first is pending
+          ...(version !== undefined && { jobId: `task-watcher-${taskId}-v${version}-${userId}` }),
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 1000,
+          },
+          removeOnComplete: true,
+          removeOnFail: { count: 50 },
+        },
+      })),
+    );
+
+    return watcherIds.length;
+  }
+
   @OnWorkerEvent('completed')
   onCompleted(job: Job, result: any) {
     this.logger.log(
@@ -0,0 +1,200 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { DataSource } from 'typeorm';
+import { TaskStatus } from '../src/modules/tasks/enums/task-status.enum';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Calendar Feed E2E Tests', () => {
+  let app: INestApplication;
+  let dataSource: DataSource;
+  let accounts: Record<'alice' | 'bob', { id: string; token: string }>;
+  let taskIds: Record<'due' | 'completed' | 'undated', string>;
+  let feedToken: string;
+
+  beforeEach(async () => {
+    await delay(1000);
+  });
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+    await delay(1000);
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+
+    accounts = {
+      alice: await registerAndLogin('alice-calendar@teste2e.com', 'Initech (e2e calendar)'),
+      bob: await registerAndLogin('bob-calendar@teste2e.com', 'Globex (e2e calendar)'),
+    };
+
+    const dueDate = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+    const createTask = async (body: Record<string, unknown>) => {
+      const response = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${accounts.alice.token}`)
+        .send(body)
+        .expect(201);
+      return response.body.id as string;
+    };
+
+    taskIds = {
+      due: await createTask({ title: 'Quarterly report; draft, review', dueDate }),
+      completed: await createTask({ title: 'Already shipped', dueDate }),
+      undated: await createTask({ title: 'Someday maybe' }),
+    };
+
+    await request(app.getHttpServer())
+      .patch(`/tasks/${taskIds.completed}`)
+      .set('Authorization', `Bearer ${accounts.alice.token}`)
+      .send({ status: TaskStatus.COMPLETED })
+      .expect(200);
+  });
+
+  afterAll(async () => {
+    if (dataSource) {
+      await dataSource.query("DELETE FROM organizations WHERE name LIKE '% (e2e calendar)'");
+      await dataSource.query("DELETE FROM users WHERE email LIKE '%-calendar@teste2e.com'");
+    }
+    await app.close();
+  });
+
+  async function registerAndLogin(
+    email: string,
+    organizationName?: string,
+  ): Promise<{ id: string; token: string }> {
+    const password = 'Password123!';
+    const registerRes = await request(app.getHttpServer())
+      .post('/auth/register')
+      .send({ email, password, name: email, organizationName })
+      .expect(201);
+
+    const loginRes = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password })
+      .expect(201);
+
+    return { id: registerRes.body.user.id, token: loginRes.body.access_token };
+  }
+
+  it('should return 404 before a feed is issued', async () => {
+    await request(app.getHttpServer())
+      .get('/calendar/feed')
+      .set('Authorization', `Bearer ${accounts.alice.token}`)
+      .expect(404);
+  });
+
+  it('should issue a feed token with its subscription URL', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/calendar/feed')
+      .set('Authorization', `Bearer ${accounts.alice.token}`)
+      .expect(201);
+
+    expect(response.body.token).toEqual(expect.any(String));
+    expect(response.body.url).toMatch(new RegExp(`/calendar/${response.body.token}\\.ics$`));
+    feedToken = response.body.token;
+
+    const feed = await request(app.getHttpServer())
+      .get('/calendar/feed')
+      .set('Authorization', `Bearer ${accounts.alice.token}`)
+      .expect(200);
+
+    expect(feed.body).not.toHaveProperty('token');
+    expect(feed.body).not.toHaveProperty('tokenHash');
+  });
+
+  it('should serve open tasks with a due date as events without a bearer token', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/calendar/${feedToken}.ics`)
+      .expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^text\/calendar/);
+    expect(response.text).toMatch(/^BEGIN:VCALENDAR\r\n/);
+    expect(response.text).toMatch(/END:VCALENDAR\r\n$/);
+    expect(response.text).toContain('BEGIN:VEVENT');
+    expect(response.text).toContain(`UID:${taskIds.due}@taskflow`);
+    expect(response.text).toContain('SUMMARY:Quarterly report\\; draft\\, review');
+    expect(response.text).not.toContain(taskIds.completed);
+    expect(response.text).not.toContain(taskIds.undated);
+  });
+
+  it('should serve to-dos when asked for them', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/calendar/${feedToken}.ics?component=todo`)
+      .expect(200);
+
+    expect(response.text).toContain('BEGIN:VTODO');
+    expect(response.text).toContain('STATUS:NEEDS-ACTION');
+    expect(response.text).not.toContain('BEGIN:VEVENT');
+  });
+
+  it('should reflect task changes on the next request', async () => {
+    await request(app.getHttpServer())
+      .patch(`/tasks/${taskIds.due}`)
+      .set('Authorization', `Bearer ${accounts.alice.token}`)
+      .send({ title: 'Quarterly report final' })
+      .expect(200);
+
+    const response = await request(app.getHttpServer())
+      .get(`/calendar/${feedToken}.ics`)
+      .expect(200);
+
+    expect(response.text).toContain('SUMMARY:Quarterly report final');
+  });
+
+  it("should not list another user's tasks", async () => {
+    const issued = await request(app.getHttpServer())
+      .post('/calendar/feed')
+      .set('Authorization', `Bearer ${accounts.bob.token}`)
+      .expect(201);
+
+    const response = await request(app.getHttpServer())
+      .get(`/calendar/${issued.body.token}.ics`)
+      .expect(200);
+
+    expect(response.text).not.toContain('BEGIN:VEVENT');
+  });
+
+  it('should stop serving the previous token after rotation', async () => {
+    const rotated = await request(app.getHttpServer())
+      .post('/calendar/feed')
+      .set('Authorization', `Bearer ${accounts.alice.token}`)
+      .expect(201);
+
+    expect(rotated.body.token).not.toBe(feedToken);
+
+    await request(app.getHttpServer()).get(`/calendar/${feedToken}.ics`).expect(404);
+    await request(app.getHttpServer()).get(`/calendar/${rotated.body.token}.ics`).expect(200);
+
+    feedToken = rotated.body.token;
+  });
+
+  it('should revoke the feed', async () => {
+    await request(app.getHttpServer())
+      .delete('/calendar/feed')
+      .set('Authorization', `Bearer ${accounts.alice.token}`)
+      .expect(200);
+
+    await request(app.getHttpServer()).get(`/calendar/${feedToken}.ics`).expect(404);
+    await request(app.getHttpServer())
+      .delete('/calendar/feed')
+      .set('Authorization', `Bearer ${accounts.alice.token}`)
+      .expect(404);
+  });
+
+  it('should reject feed management without authentication', async () => {
+    await request(app.getHttpServer()).post('/calendar/feed').expect(401);
+  });
+});
@@ -0,0 +1,17 @@
+import { formatCsvRow, parseCsv } from '../src/common/utils/csv.util';
+
+describe('CSV utils', () => {
+  it('should prefix every formula trigger with a quote', () => {
+    for (const prefix of ['=', '+', '-', '@', '\t', '\r']) {
+      const [record] = parseCsv(formatCsvRow([`${prefix}1+2`])) as { fields: string[] }[];
+
+      expect(record.fields).toEqual([`'${prefix}1+2`]);
+    }
+  });
+
+  it('should leave other values and numbers alone', () => {
+    expect(formatCsvRow(['Ship it', 'a=b', -5, null, 'say "hi", then go'])).toBe(
+      'Ship it,a=b,-5,,"say ""hi"", then go"',
+    );
+  });
+});
@@ -0,0 +1,313 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { DataSource } from 'typeorm';
+import { UserRole } from '../src/modules/users/enum/user-role.enum';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Organizations E2E Tests', () => {
+  let app: INestApplication;
+  let dataSource: DataSource;
+  let accounts: Record<
+    'acmeOwner' | 'globexOwner' | 'acmeMember' | 'superAdmin',
+    { id: string; token: string }
+  >;
+  let acmeId: string;
+  let globexId: string;
+  let acmeTaskId: string;
+  let globexTaskId: string;
+
+  beforeEach(async () => {
+    await delay(1000);
+  });
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+    await delay(1000);
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+
+    accounts = {
+      acmeOwner: await registerAndLogin('acme-owner-orgs@teste2e.com', 'Acme (e2e orgs)'),
+      globexOwner: await registerAndLogin('globex-owner-orgs@teste2e.com', 'Globex (e2e orgs)'),
+      acmeMember: await registerAndLogin('acme-member-orgs@teste2e.com'),
+      superAdmin: await registerAndLogin('super-admin-orgs@teste2e.com'),
+    };
+    await dataSource.query('UPDATE users SET role = $1 WHERE id = $2', [
+      UserRole.SUPER_ADMIN,
+      accounts.superAdmin.id,
+    ]);
+  });
+
+  afterAll(async () => {
+    if (dataSource) {
+      await dataSource.query("DELETE FROM organizations WHERE name LIKE '% (e2e orgs)'");
+      await dataSource.query("DELETE FROM users WHERE email LIKE '%-orgs@teste2e.com'");
+    }
+    await app.close();
+  });
+
+  async function registerAndLogin(
+    email: string,
+    organizationName?: string,
+  ): Promise<{ id: string; token: string }> {
+    const password = 'Password123!';
+    const registerRes = await request(app.getHttpServer())
+      .post('/auth/register')
+      .send({ email, password, name: email, organizationName })
+      .expect(201);
+
+    const loginRes = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password })
+      .expect(201);
+
+    return { id: registerRes.body.user.id, token: loginRes.body.access_token };
+  }
+
+  it('should make the registering user the owner of a new organization', async () => {
+    const acmeRes = await request(app.getHttpServer())
+      .get('/organizations')
+      .set('Authorization', `Bearer ${accounts.acmeOwner.token}`)
+      .expect(200);
+
+    expect(acmeRes.body).toHaveLength(1);
+    expect(acmeRes.body[0].organizationName).toBe('Acme (e2e orgs)');
+    expect(acmeRes.body[0].role).toBe('owner');
+    acmeId = acmeRes.body[0].organizationId;
+
+    const globexRes = await request(app.getHttpServer())
+      .get('/organizations')
+      .set('Authorization', `Bearer ${accounts.globexOwner.token}`)
+      .expect(200);
+    globexId = globexRes.body[0].organizationId;
+  });
+
+  it('should let an owner invite an existing user who then accepts', async () => {
+    const invitation = await request(app.getHttpServer())
+      .post(`/organizations/${acmeId}/invitations`)
+      .set('Authorization', `Bearer ${accounts.acmeOwner.token}`)
+      .send({ email: 'acme-member-orgs@teste2e.com' })
+      .expect(201);
+    expect(invitation.body.role).toBe('member');
+    expect(invitation.body.organizationName).toBe('Acme (e2e orgs)');
+
+    const duplicate = await request(app.getHttpServer())
+      .post(`/organizations/${acmeId}/invitations`)
+      .set('Authorization', `Bearer ${accounts.acmeOwner.token}`)
+      .send({ email: 'acme-member-orgs@teste2e.com' })
+      .expect(409);
+    expect(duplicate.body.code).toBe('ORGANIZATION_INVITATION_EXISTS');
+
+    // Not a member until the invitation is accepted
+    await request(app.getHttpServer())
+      .get('/tasks')
+      .set('Authorization', `Bearer ${accounts.acmeMember.token}`)
+      .set('X-Organization-Id', acmeId)
+      .expect(403);
+
+    const stolen = await request(app.getHttpServer())
+      .post(`/organizations/invitations/${invitation.body.id}/accept`)
+      .set('Authorization', `Bearer ${accounts.globexOwner.token}`)
+      .expect(404);
+    expect(stolen.body.code).toBe('ORGANIZATION_INVITATION_NOT_FOUND');
+
+    const pending = await request(app.getHttpServer())
+      .get('/organizations/invitations')
+      .set('Authorization', `Bearer ${accounts.acmeMember.token}`)
+      .expect(200);
+    expect(pending.body.map((item: { id: string }) => item.id)).toEqual([invitation.body.id]);
+
+    const member = await request(app.getHttpServer())
+      .post(`/organizations/invitations/${invitation.body.id}/accept`)
+      .set('Authorization', `Bearer ${accounts.acmeMember.token}`)
+      .expect(200);
+    expect(member.body.role).toBe('member');
+
+    const again = await request(app.getHttpServer())
+      .post(`/organizations/${acmeId}/invitations`)
+      .set('Authorization', `Bearer ${accounts.acmeOwner.token}`)
+      .send({ email: 'acme-member-orgs@teste2e.com' })
+      .expect(409);
+    expect(again.body.code).toBe('ORGANIZATION_MEMBER_EXISTS');
+  });
+
+  it('should deny managing members to non-admins and outsiders', async () => {
+    const member = await request(app.getHttpServer())
+      .post(`/organizations/${acmeId}/invitations`)
+      .set('Authorization', `Bearer ${accounts.acmeMember.token}`)
+      .send({ email: 'globex-owner-orgs@teste2e.com' })
+      .expect(403);
+    expect(member.body.code).toBe('ORGANIZATION_ADMIN_REQUIRED');
+
+    const outsider = await request(app.getHttpServer())
+      .get(`/organizations/${acmeId}/members`)
+      .set('Authorization', `Bearer ${accounts.globexOwner.token}`)
+      .expect(403);
+    expect(outsider.body.code).toBe('ORGANIZATION_ACCESS_DENIED');
+  });
+
+  it("should keep an organization admin out of another organization's tasks", async () => {
+    const acmeTask = await request(app.getHttpServer())
+      .post('/tasks')
+      .set('Authorization', `Bearer ${accounts.acmeOwner.token}`)
+      .send({ title: 'Acme roadmap' })
+      .expect(201);
+    acmeTaskId = acmeTask.body.id;
+    expect(acmeTask.body.organizationId).toBe(acmeId);
+
+    const globexTask = await request(app.getHttpServer())
+      .post('/tasks')
+      .set('Authorization', `Bearer ${accounts.globexOwner.token}`)
+      .send({ title: 'Globex roadmap' })
+      .expect(201);
+    globexTaskId = globexTask.body.id;
+
+    const list = await request(app.getHttpServer())
+      .get('/tasks')
+      .set('Authorization', `Bearer ${accounts.acmeOwner.token}`)
+      .expect(200);
+    const listedIds = list.body.data.map((task: { id: string }) => task.id);
+    expect(listedIds).toContain(acmeTaskId);
+    expect(listedIds).not.toContain(globexTaskId);
+
+    const foreign = await request(app.getHttpServer())
+      .get(`/tasks/${globexTaskId}`)
+      .set('Authorization', `Bearer ${accounts.acmeOwner.token}`)
+      .expect(404);
+    expect(foreign.body.code).toBe('TASK_NOT_FOUND');
+
+    await request(app.getHttpServer())
+      .patch(`/tasks/${globexTaskId}`)
+      .set('Authorization', `Bearer ${accounts.acmeOwner.token}`)
+      .send({ title: 'Taken over' })
+      .expect(404);
+  });
+
+  it('should not turn organization owners into platform admins', async () => {
+    const acmeMember = await request(app.getHttpServer())
+      .get(`/tasks/${acmeTaskId}`)
+      .set('Authorization', `Bearer ${accounts.acmeMember.token}`)
+      .set('X-Organization-Id', acmeId)
+      .expect(403);
+    expect(acmeMember.body.code).toBe('TASK_NOT_OWNED');
+
+    const users = await request(app.getHttpServer())
+      .get('/users')
+      .set('Authorization', `Bearer ${accounts.acmeOwner.token}`)
+      .expect(403);
+    expect(users.body.code).toBe('FORBIDDEN_INSUFFICIENT_PERMISSIONS');
+
+    const takeover = await request(app.getHttpServer())
+      .patch(`/users/${accounts.acmeMember.id}`)
+      .set('Authorization', `Bearer ${accounts.acmeOwner.token}`)
+      .send({ email: 'taken-over-orgs@teste2e.com', password: 'Password123!' })
+      .expect(403);
+    expect(takeover.body.code).toBe('USER_SELF_VIEW_ONLY');
+  });
+
+  it('should switch organizations with the X-Organization-Id header', async () => {
+    const defaultOrgTask = await request(app.getHttpServer())
+      .post('/tasks')
+      .set('Authorization', `Bearer ${accounts.acmeMember.token}`)
+      .send({ title: 'Default organization task' })
+      .expect(201);
+
+    const acmeTask = await request(app.getHttpServer())
+      .post('/tasks')
+      .set('Authorization', `Bearer ${accounts.acmeMember.token}`)
+      .set('X-Organization-Id', acmeId)
+      .send({ title: 'Acme task' })
+      .expect(201);
+    expect(acmeTask.body.organizationId).toBe(acmeId);
+    expect(defaultOrgTask.body.organizationId).not.toBe(acmeId);
+
+    const acmeList = await request(app.getHttpServer())
+      .get('/tasks')
+      .set('Authorization', `Bearer ${accounts.acmeMember.token}`)
+      .set('X-Organization-Id', acmeId)
+      .expect(200);
+    expect(acmeList.body.data.map((task: { id: string }) => task.id)).toEqual([acmeTask.body.id]);
+
+    const defaultList = await request(app.getHttpServer())
+      .get('/tasks')
+      .set('Authorization', `Bearer ${accounts.acmeMember.token}`)
+      .expect(200);
+    expect(defaultList.body.data.map((task: { id: string }) => task.id)).toEqual([
+      defaultOrgTask.body.id,
+    ]);
+  });
+
+  it('should reject an organization the user does not belong to', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/tasks')
+      .set('Authorization', `Bearer ${accounts.acmeOwner.token}`)
+      .set('X-Organization-Id', globexId)
+      .expect(403);
+
+    expect(response.body.code).toBe('ORGANIZATION_ACCESS_DENIED');
+  });
+
+  it('should let super-admins enter any organization', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/tasks/${globexTaskId}`)
+      .set('Authorization', `Bearer ${accounts.superAdmin.token}`)
+      .set('X-Organization-Id', globexId)
+      .expect(200);
+
+    expect(response.body.title).toBe('Globex roadmap');
+
+    await request(app.getHttpServer())
+      .get(`/tasks/${globexTaskId}`)
+      .set('Authorization', `Bearer ${accounts.superAdmin.token}`)
+      .expect(404);
+  });
+
+  it('should not let an organization owner create accounts', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/users')
+      .set('Authorization', `Bearer ${accounts.acmeOwner.token}`)
+      .send({
+        email: 'escalated-orgs@teste2e.com',
+        password: 'Password123!',
+        name: 'Escalated',
+        role: UserRole.ADMIN,
+      })
+      .expect(403);
+
+    expect(response.body.code).toBe('FORBIDDEN_INSUFFICIENT_PERMISSIONS');
+  });
+
+  it('should keep the last owner from leaving', async () => {
+    const response = await request(app.getHttpServer())
+      .delete(`/organizations/${acmeId}/members/${accounts.acmeOwner.id}`)
+      .set('Authorization', `Bearer ${accounts.acmeOwner.token}`)
+      .expect(409);
+
+    expect(response.body.code).toBe('ORGANIZATION_LAST_OWNER');
+
+    await request(app.getHttpServer())
+      .delete(`/organizations/${acmeId}/members/${accounts.acmeMember.id}`)
+      .set('Authorization', `Bearer ${accounts.acmeMember.token}`)
+      .expect(200);
+
+    await request(app.getHttpServer())
+      .get('/tasks')
+      .set('Authorization', `Bearer ${accounts.acmeMember.token}`)
+      .set('X-Organization-Id', acmeId)
+      .expect(403);
+  });
+});
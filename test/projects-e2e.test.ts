@@ -0,0 +1,245 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { DataSource } from 'typeorm';
+import { UserRole } from '../src/modules/users/enum/user-role.enum';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Projects E2E Tests', () => {
+  let app: INestApplication;
+  let dataSource: DataSource;
+  let tokens: { admin: string; owner: string; other: string };
+  let websiteProjectId: string;
+  let mobileProjectId: string;
+  let websiteTaskIds: string[];
+
+  beforeEach(async () => {
+    await delay(1000);
+  });
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+    await delay(1000);
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+
+    tokens = {
+      admin: await registerAndLogin('admin-projects@teste2e.com', UserRole.ADMIN),
+      owner: await registerAndLogin('owner-projects@teste2e.com'),
+      other: await registerAndLogin('other-projects@teste2e.com'),
+    };
+  });
+
+  afterAll(async () => {
+    if (dataSource) {
+      await dataSource.query("DELETE FROM users WHERE email LIKE '%-projects@teste2e.com'");
+    }
+    await app.close();
+  });
+
+  async function registerAndLogin(email: string, role?: UserRole): Promise<string> {
+    const password = 'Password123!';
+    await request(app.getHttpServer())
+      .post('/auth/register')
+      .send({ email, password, name: email })
+      .expect(201);
+
+    if (role) {
+      await dataSource.query('UPDATE users SET role = $1 WHERE email = $2', [role, email]);
+    }
+
+    const loginRes = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password })
+      .expect(201);
+
+    return loginRes.body.access_token;
+  }
+
+  it('should create projects for the current user', async () => {
+    const websiteRes = await request(app.getHttpServer())
+      .post('/projects')
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .send({ name: 'Website', description: 'Marketing site relaunch' })
+      .expect(201);
+    websiteProjectId = websiteRes.body.id;
+
+    const mobileRes = await request(app.getHttpServer())
+      .post('/projects')
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .send({ name: 'Mobile' })
+      .expect(201);
+    mobileProjectId = mobileRes.body.id;
+
+    expect(websiteRes.body.archived).toBe(false);
+    expect(mobileRes.body.description).toBeNull();
+  });
+
+  it('should reject a duplicate project name for the same user', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/projects')
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .send({ name: 'Website' })
+      .expect(409);
+
+    expect(response.body.code).toBe('PROJECT_NAME_EXISTS');
+  });
+
+  it('should create tasks in a project and filter by it', async () => {
+    websiteTaskIds = [];
+    for (const title of ['Design landing page', 'Migrate blog posts']) {
+      const taskRes = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.owner}`)
+        .send({ title, projectId: websiteProjectId, priority: 'HIGH' })
+        .expect(201);
+      expect(taskRes.body.projectId).toBe(websiteProjectId);
+      websiteTaskIds.push(taskRes.body.id);
+    }
+
+    await request(app.getHttpServer())
+      .post('/tasks')
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .send({ title: 'Loose task' })
+      .expect(201);
+
+    const byProject = await request(app.getHttpServer())
+      .get(`/tasks?projectId=${websiteProjectId}`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .expect(200);
+    expect(byProject.body.total).toBe(2);
+
+    const withoutProject = await request(app.getHttpServer())
+      .get('/tasks?hasProject=false')
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .expect(200);
+    expect(withoutProject.body.total).toBe(1);
+  });
+
+  it("should reject adding a task to another user's project", async () => {
+    const response = await request(app.getHttpServer())
+      .post('/tasks')
+      .set('Authorization', `Bearer ${tokens.other}`)
+      .send({ title: 'Sneaky task', projectId: websiteProjectId })
+      .expect(400);
+
+    expect(response.body.code).toBe('PROJECT_OWNER_MISMATCH');
+  });
+
+  it('should return project stats in the task stats shape', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/projects/${websiteProjectId}/stats`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .expect(200);
+
+    expect(response.body).toMatchObject({ total: 2, pending: 2, highPriority: 2, overdue: 0 });
+  });
+
+  it("should prevent a user from reading another user's project", async () => {
+    await request(app.getHttpServer())
+      .get(`/projects/${websiteProjectId}`)
+      .set('Authorization', `Bearer ${tokens.other}`)
+      .expect(403);
+
+    await request(app.getHttpServer())
+      .get(`/projects/${websiteProjectId}`)
+      .set('Authorization', `Bearer ${tokens.admin}`)
+      .expect(200);
+  });
+
+  it('should hide archived projects and reject new tasks in them', async () => {
+    await request(app.getHttpServer())
+      .patch(`/projects/${mobileProjectId}`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .send({ archived: true })
+      .expect(200);
+
+    const listRes = await request(app.getHttpServer())
+      .get('/projects')
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .expect(200);
+    expect(listRes.body.map((project: { id: string }) => project.id)).toEqual([websiteProjectId]);
+
+    const allRes = await request(app.getHttpServer())
+      .get('/projects?includeArchived=true')
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .expect(200);
+    expect(allRes.body).toHaveLength(2);
+
+    const response = await request(app.getHttpServer())
+      .post('/tasks')
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .send({ title: 'Ship app', projectId: mobileProjectId })
+      .expect(409);
+    expect(response.body.code).toBe('PROJECT_ARCHIVED');
+  });
+
+  it('should require a choice for the tasks when deleting a project', async () => {
+    await request(app.getHttpServer())
+      .delete(`/projects/${websiteProjectId}`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .expect(400);
+
+    await request(app.getHttpServer())
+      .delete(`/projects/${websiteProjectId}?taskAction=move`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .expect(400);
+
+    const response = await request(app.getHttpServer())
+      .delete(`/projects/${websiteProjectId}?taskAction=move&targetProjectId=${mobileProjectId}`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .expect(409);
+    expect(response.body.code).toBe('PROJECT_ARCHIVED');
+  });
+
+  it('should move the tasks of a deleted project to the target project', async () => {
+    await request(app.getHttpServer())
+      .patch(`/projects/${mobileProjectId}`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .send({ archived: false })
+      .expect(200);
+
+    const response = await request(app.getHttpServer())
+      .delete(`/projects/${websiteProjectId}?taskAction=move&targetProjectId=${mobileProjectId}`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .expect(200);
+    expect(response.body).toMatchObject({ taskAction: 'move', taskCount: 2 });
+
+    await request(app.getHttpServer())
+      .get(`/projects/${websiteProjectId}`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .expect(404);
+
+    const taskRes = await request(app.getHttpServer())
+      .get(`/tasks/${websiteTaskIds[0]}`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .expect(200);
+    expect(taskRes.body.projectId).toBe(mobileProjectId);
+  });
+
+  it('should move the tasks to the trash when deleting with taskAction=delete', async () => {
+    const response = await request(app.getHttpServer())
+      .delete(`/projects/${mobileProjectId}?taskAction=delete`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .expect(200);
+    expect(response.body).toMatchObject({ taskAction: 'delete', taskCount: 2 });
+
+    await request(app.getHttpServer())
+      .get(`/tasks/${websiteTaskIds[1]}`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .expect(404);
+  });
+});
@@ -0,0 +1,224 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { DataSource } from 'typeorm';
+import { UserRole } from '../src/modules/users/enum/user-role.enum';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Saved Views E2E Tests', () => {
+  let app: INestApplication;
+  let dataSource: DataSource;
+  let accounts: Record<'admin' | 'alice' | 'bob', { id: string; token: string }>;
+  let organizationId: string;
+  let viewId: string;
+
+  beforeEach(async () => {
+    await delay(1000);
+  });
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+    await delay(1000);
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+
+    accounts = {
+      admin: await registerAndLogin('admin-views@teste2e.com', 'Initech (e2e views)'),
+      alice: await registerAndLogin('alice-views@teste2e.com'),
+      bob: await registerAndLogin('bob-views@teste2e.com'),
+    };
+
+    // Owning an organization does not make a platform admin; promote before the
+    // first authenticated request caches the account
+    await dataSource.query('UPDATE users SET role = $1 WHERE id = $2', [
+      UserRole.ADMIN,
+      accounts.admin.id,
+    ]);
+
+    const organizations = await request(app.getHttpServer())
+      .get('/organizations')
+      .set('Authorization', `Bearer ${accounts.admin.token}`)
+      .expect(200);
+    organizationId = organizations.body[0].organizationId;
+
+    for (const [email, account] of [
+      ['alice-views@teste2e.com', accounts.alice],
+      ['bob-views@teste2e.com', accounts.bob],
+    ] as const) {
+      const invitation = await request(app.getHttpServer())
+        .post(`/organizations/${organizationId}/invitations`)
+        .set('Authorization', `Bearer ${accounts.admin.token}`)
+        .send({ email })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .post(`/organizations/invitations/${invitation.body.id}/accept`)
+        .set('Authorization', `Bearer ${account.token}`)
+        .expect(200);
+    }
+
+    for (const [account, title, priority] of [
+      [accounts.alice, 'Alpha', 'HIGH'],
+      [accounts.alice, 'Bravo', 'HIGH'],
+      [accounts.alice, 'Charlie', 'LOW'],
+      [accounts.bob, 'Delta', 'HIGH'],
+    ] as const) {
+      await as(account).post('/tasks').send({ title, priority }).expect(201);
+    }
+  });
+
+  afterAll(async () => {
+    if (dataSource) {
+      await dataSource.query("DELETE FROM organizations WHERE name LIKE '% (e2e views)'");
+      await dataSource.query("DELETE FROM users WHERE email LIKE '%-views@teste2e.com'");
+    }
+    await app.close();
+  });
+
+  async function registerAndLogin(
+    email: string,
+    organizationName?: string,
+  ): Promise<{ id: string; token: string }> {
+    const password = 'Password123!';
+    const registerRes = await request(app.getHttpServer())
+      .post('/auth/register')
+      .send({ email, password, name: email, organizationName })
+      .expect(201);
+
+    const loginRes = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password })
+      .expect(201);
+
+    return { id: registerRes.body.user.id, token: loginRes.body.access_token };
+  }
+
+  function as(account: { token: string }) {
+    const server = app.getHttpServer();
+    const withHeaders = (req: request.Test) =>
+      req.set('Authorization', `Bearer ${account.token}`).set('X-Organization-Id', organizationId);
+
+    return {
+      get: (url: string) => withHeaders(request(server).get(url)),
+      post: (url: string) => withHeaders(request(server).post(url)),
+      patch: (url: string) => withHeaders(request(server).patch(url)),
+      delete: (url: string) => withHeaders(request(server).delete(url)),
+    };
+  }
+
+  it('should save a view with validated filters and unique names per user', async () => {
+    const response = await as(accounts.alice)
+      .post('/views')
+      .send({
+        name: 'Urgent',
+        filters: { priority: ['high'], sortBy: 'title', sortOrder: 'asc' },
+        pageSize: 1,
+      })
+      .expect(201);
+
+    expect(response.body.filters).toEqual({
+      priority: ['HIGH'],
+      sortBy: 'title',
+      sortOrder: 'asc',
+    });
+    expect(response.body.visibility).toBe('private');
+    expect(response.body.isDefault).toBe(false);
+    viewId = response.body.id;
+
+    const duplicate = await as(accounts.alice)
+      .post('/views')
+      .send({ name: 'Urgent', filters: {} })
+      .expect(409);
+    expect(duplicate.body.code).toBe('SAVED_VIEW_NAME_EXISTS');
+
+    // Another user may reuse the name
+    await as(accounts.bob).post('/views').send({ name: 'Urgent', filters: {} }).expect(201);
+
+    await as(accounts.alice)
+      .post('/views')
+      .send({ name: 'Broken', filters: { status: ['NOPE'] } })
+      .expect(400);
+
+    await as(accounts.alice)
+      .post('/views')
+      .send({ name: 'Paged', filters: { limit: 50 } })
+      .expect(400);
+  });
+
+  it('should run a view with its filters, sort and page size', async () => {
+    const firstPage = await as(accounts.alice).get(`/views/${viewId}/tasks`).expect(200);
+    expect(firstPage.body.total).toBe(2);
+    expect(firstPage.body.limit).toBe(1);
+    expect(firstPage.body.data.map((t: { title: string }) => t.title)).toEqual(['Alpha']);
+
+    const secondPage = await as(accounts.alice).get(`/views/${viewId}/tasks?page=2`).expect(200);
+    expect(secondPage.body.data.map((t: { title: string }) => t.title)).toEqual(['Bravo']);
+
+    await as(accounts.alice).get(`/views/${viewId}/tasks?limit=10`).expect(400);
+  });
+
+  it('should keep private views to their owner and admins', async () => {
+    const denied = await as(accounts.bob).get(`/views/${viewId}`).expect(403);
+    expect(denied.body.code).toBe('SAVED_VIEW_NOT_OWNED');
+
+    await as(accounts.bob).get(`/views/${viewId}/tasks`).expect(403);
+    await as(accounts.admin).get(`/views/${viewId}`).expect(200);
+
+    const list = await as(accounts.bob).get('/views').expect(200);
+    expect(list.body.map((view: { id: string }) => view.id)).not.toContain(viewId);
+  });
+
+  it("should run shared views with the caller's visibility", async () => {
+    await as(accounts.alice).patch(`/views/${viewId}`).send({ visibility: 'shared' }).expect(200);
+
+    const list = await as(accounts.bob).get('/views').expect(200);
+    expect(list.body.map((view: { id: string }) => view.id)).toContain(viewId);
+
+    const tasks = await as(accounts.bob).get(`/views/${viewId}/tasks`).expect(200);
+    expect(tasks.body.data.map((t: { title: string }) => t.title)).toEqual(['Delta']);
+
+    const edit = await as(accounts.bob)
+      .patch(`/views/${viewId}`)
+      .send({ name: 'Mine' })
+      .expect(403);
+    expect(edit.body.code).toBe('SAVED_VIEW_NOT_OWNED');
+    await as(accounts.bob).delete(`/views/${viewId}`).expect(403);
+  });
+
+  it('should keep a single default view per user', async () => {
+    const other = await as(accounts.alice)
+      .post('/views')
+      .send({ name: 'Everything', filters: {}, isDefault: true })
+      .expect(201);
+
+    await as(accounts.alice).patch(`/views/${viewId}`).send({ isDefault: true }).expect(200);
+
+    const list = await as(accounts.alice).get('/views').expect(200);
+    const defaults = list.body.filter((view: { isDefault: boolean }) => view.isDefault);
+    expect(defaults.map((view: { id: string }) => view.id)).toEqual([viewId]);
+    expect(list.body[0].id).toBe(viewId);
+
+    const previous = await as(accounts.alice).get(`/views/${other.body.id}`).expect(200);
+    expect(previous.body.isDefault).toBe(false);
+  });
+
+  it('should delete views', async () => {
+    await as(accounts.alice).delete(`/views/${viewId}`).expect(200);
+
+    const response = await as(accounts.alice).get(`/views/${viewId}`).expect(404);
+    expect(response.body.code).toBe('SAVED_VIEW_NOT_FOUND');
+  });
+});
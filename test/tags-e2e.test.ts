@@ -0,0 +1,212 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { DataSource } from 'typeorm';
+import { UserRole } from '../src/modules/users/enum/user-role.enum';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Tags E2E Tests', () => {
+  let app: INestApplication;
+  let dataSource: DataSource;
+  let tokens: { admin: string; owner: string; other: string };
+  let backendTaskId: string;
+  let urgentBackendTaskId: string;
+  let backendTagId: string;
+  let urgentTagId: string;
+
+  beforeEach(async () => {
+    await delay(1000);
+  });
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+    await delay(1000);
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+
+    tokens = {
+      admin: await registerAndLogin('admin-tags@teste2e.com', UserRole.ADMIN),
+      owner: await registerAndLogin('owner-tags@teste2e.com'),
+      other: await registerAndLogin('other-tags@teste2e.com'),
+    };
+
+    const backendTaskRes = await request(app.getHttpServer())
+      .post('/tasks')
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .send({ title: 'Refactor repository layer' })
+      .expect(201);
+    backendTaskId = backendTaskRes.body.id;
+
+    const urgentTaskRes = await request(app.getHttpServer())
+      .post('/tasks')
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .send({ title: 'Fix production outage' })
+      .expect(201);
+    urgentBackendTaskId = urgentTaskRes.body.id;
+  });
+
+  afterAll(async () => {
+    if (dataSource) {
+      await dataSource.query("DELETE FROM users WHERE email LIKE '%-tags@teste2e.com'");
+    }
+    await app.close();
+  });
+
+  async function registerAndLogin(email: string, role?: UserRole): Promise<string> {
+    const password = 'Password123!';
+    await request(app.getHttpServer())
+      .post('/auth/register')
+      .send({ email, password, name: email })
+      .expect(201);
+
+    if (role) {
+      await dataSource.query('UPDATE users SET role = $1 WHERE email = $2', [role, email]);
+    }
+
+    const loginRes = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password })
+      .expect(201);
+
+    return loginRes.body.access_token;
+  }
+
+  it('should create tags for the current user', async () => {
+    const backendRes = await request(app.getHttpServer())
+      .post('/tags')
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .send({ name: 'backend', color: '#1e90ff' })
+      .expect(201);
+    backendTagId = backendRes.body.id;
+
+    const urgentRes = await request(app.getHttpServer())
+      .post('/tags')
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .send({ name: 'urgent' })
+      .expect(201);
+    urgentTagId = urgentRes.body.id;
+
+    expect(urgentRes.body.color).toBeNull();
+  });
+
+  it('should reject a duplicate tag name for the same user', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/tags')
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .send({ name: 'backend' })
+      .expect(409);
+
+    expect(response.body.code).toBe('TAG_NAME_EXISTS');
+  });
+
+  it('should allow another user to reuse the same tag name', async () => {
+    await request(app.getHttpServer())
+      .post('/tags')
+      .set('Authorization', `Bearer ${tokens.other}`)
+      .send({ name: 'backend' })
+      .expect(201);
+  });
+
+  it('should assign tags to tasks', async () => {
+    await request(app.getHttpServer())
+      .put(`/tasks/${backendTaskId}/tags`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .send({ tagIds: [backendTagId] })
+      .expect(200);
+
+    const response = await request(app.getHttpServer())
+      .put(`/tasks/${urgentBackendTaskId}/tags`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .send({ tagIds: [backendTagId, urgentTagId] })
+      .expect(200);
+
+    expect(response.body).toHaveLength(2);
+  });
+
+  it("should reject tagging a task with another user's tag", async () => {
+    const foreignTag = await request(app.getHttpServer())
+      .post('/tags')
+      .set('Authorization', `Bearer ${tokens.admin}`)
+      .send({ name: 'admin-only' })
+      .expect(201);
+
+    const response = await request(app.getHttpServer())
+      .put(`/tasks/${backendTaskId}/tags`)
+      .set('Authorization', `Bearer ${tokens.admin}`)
+      .send({ tagIds: [foreignTag.body.id] })
+      .expect(400);
+
+    expect(response.body.code).toBe('TAG_OWNER_MISMATCH');
+  });
+
+  it('should filter tasks matching any of the tags', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/tasks?tags=${backendTagId},${urgentTagId}&tagMatch=any`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .expect(200);
+
+    expect(response.body.total).toBe(2);
+  });
+
+  it('should filter tasks matching all of the tags', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/tasks?tags=${backendTagId},${urgentTagId}&tagMatch=all`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .expect(200);
+
+    expect(response.body.total).toBe(1);
+    expect(response.body.data[0].id).toBe(urgentBackendTaskId);
+    expect(response.body.data[0].tags).toHaveLength(2);
+  });
+
+  it('should refresh cached task lists when a tag is renamed', async () => {
+    await request(app.getHttpServer())
+      .patch(`/tags/${urgentTagId}`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .send({ name: 'p0' })
+      .expect(200);
+
+    const response = await request(app.getHttpServer())
+      .get(`/tasks?tags=${backendTagId},${urgentTagId}&tagMatch=all`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .expect(200);
+
+    const tagNames = response.body.data[0].tags.map((tag: { name: string }) => tag.name);
+    expect(tagNames).toContain('p0');
+  });
+
+  it("should prevent a user from reading another user's tag", async () => {
+    await request(app.getHttpServer())
+      .get(`/tags/${backendTagId}`)
+      .set('Authorization', `Bearer ${tokens.other}`)
+      .expect(403);
+  });
+
+  it('should remove a deleted tag from its tasks', async () => {
+    await request(app.getHttpServer())
+      .delete(`/tags/${urgentTagId}`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .expect(200);
+
+    const response = await request(app.getHttpServer())
+      .get(`/tasks/${urgentBackendTaskId}/tags`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .expect(200);
+
+    expect(response.body).toHaveLength(1);
+    expect(response.body[0].id).toBe(backendTagId);
+  });
+});
@@ -0,0 +1,157 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { DataSource } from 'typeorm';
+import { UserRole } from '../src/modules/users/enum/user-role.enum';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Task Comments E2E Tests', () => {
+  let app: INestApplication;
+  let dataSource: DataSource;
+  let tokens: { admin: string; owner: string; other: string };
+  let taskId: string;
+  let commentId: string;
+
+  beforeEach(async () => {
+    await delay(1000);
+  });
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+    await delay(1000);
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+
+    tokens = {
+      admin: await registerAndLogin('admin-comments@teste2e.com', UserRole.ADMIN),
+      owner: await registerAndLogin('owner-comments@teste2e.com'),
+      other: await registerAndLogin('other-comments@teste2e.com'),
+    };
+
+    const taskRes = await request(app.getHttpServer())
+      .post('/tasks')
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .send({ title: 'Task with comments' })
+      .expect(201);
+    taskId = taskRes.body.id;
+  });
+
+  afterAll(async () => {
+    if (dataSource) {
+      await dataSource.query("DELETE FROM users WHERE email LIKE '%-comments@teste2e.com'");
+    }
+    await app.close();
+  });
+
+  async function registerAndLogin(email: string, role?: UserRole): Promise<string> {
+    const password = 'Password123!';
+    await request(app.getHttpServer())
+      .post('/auth/register')
+      .send({ email, password, name: email })
+      .expect(201);
+
+    if (role) {
+      await dataSource.query('UPDATE users SET role = $1 WHERE email = $2', [role, email]);
+    }
+
+    const loginRes = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password })
+      .expect(201);
+
+    return loginRes.body.access_token;
+  }
+
+  it('should allow the task owner to comment', async () => {
+    const response = await request(app.getHttpServer())
+      .post(`/tasks/${taskId}/comments`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .send({ body: 'First draft is ready' })
+      .expect(201);
+
+    expect(response.body.taskId).toBe(taskId);
+    expect(response.body.editedAt).toBeNull();
+    commentId = response.body.id;
+  });
+
+  it("should prevent a user from commenting on another user's task", async () => {
+    await request(app.getHttpServer())
+      .post(`/tasks/${taskId}/comments`)
+      .set('Authorization', `Bearer ${tokens.other}`)
+      .send({ body: 'Not my task' })
+      .expect(403);
+  });
+
+  it('should show the comment count in task lists', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/tasks')
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .expect(200);
+
+    const task = response.body.data.find((t: { id: string }) => t.id === taskId);
+    expect(task.commentCount).toBe(1);
+  });
+
+  it('should keep the previous body when a comment is edited', async () => {
+    const response = await request(app.getHttpServer())
+      .patch(`/tasks/${taskId}/comments/${commentId}`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .send({ body: 'Second draft is ready' })
+      .expect(200);
+
+    expect(response.body.editedAt).not.toBeNull();
+    expect(response.body.version).toBe(2);
+
+    const revisions = await request(app.getHttpServer())
+      .get(`/tasks/${taskId}/comments/${commentId}/revisions`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .expect(200);
+
+    expect(revisions.body).toHaveLength(1);
+    expect(revisions.body[0].body).toBe('First draft is ready');
+  });
+
+  it("should prevent an admin from editing someone else's comment", async () => {
+    await request(app.getHttpServer())
+      .patch(`/tasks/${taskId}/comments/${commentId}`)
+      .set('Authorization', `Bearer ${tokens.admin}`)
+      .send({ body: 'Rewritten by admin' })
+      .expect(403);
+  });
+
+  it('should list comments with pagination', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/tasks/${taskId}/comments?page=1&limit=10`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .expect(200);
+
+    expect(response.body.total).toBe(1);
+    expect(response.body.data[0].body).toBe('Second draft is ready');
+  });
+
+  it('should allow an admin to delete any comment', async () => {
+    await request(app.getHttpServer())
+      .delete(`/tasks/${taskId}/comments/${commentId}`)
+      .set('Authorization', `Bearer ${tokens.admin}`)
+      .expect(200);
+
+    await request(app.getHttpServer())
+      .patch(`/tasks/${taskId}/comments/${commentId}`)
+      .set('Authorization', `Bearer ${tokens.owner}`)
+      .send({ body: 'Too late' })
+      .expect(404);
+  });
+});
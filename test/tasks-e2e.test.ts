@@ -6,6 +6,7 @@ import { DataSource } from 'typeorm';
 import { UserRole } from '../src/modules/users/enum/user-role.enum';
 import { TaskStatus } from '../src/modules/tasks/enums/task-status.enum';
 import { TaskPriority } from '../src/modules/tasks/enums/task-priority.enum';
+import { DEFAULT_TASK_STATUS_TRANSITIONS } from '../src/modules/tasks/task-workflow.service';
 
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
@@ -504,227 +505,2022 @@ describe('Tasks E2E Tests (RBAC)', () => {
     });
   });
 
-  describe('DELETE /tasks/:id - Delete Task', () => {
-    it('should allow user to delete their own task', async () => {
-      // Create a new task to delete
-      const createRes = await request(app.getHttpServer())
+  describe('Subtasks - Task Hierarchy', () => {
+    let parentId: string;
+    let childId: string;
+
+    beforeAll(async () => {
+      const parentRes = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ title: 'Parent Task', status: TaskStatus.PENDING })
+        .expect(201);
+      parentId = parentRes.body.id;
+
+      const childRes = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ title: 'Child Task', status: TaskStatus.PENDING, parentId })
+        .expect(201);
+      childId = childRes.body.id;
+    });
+
+    it('should list children with roll-up fields', async () => {
+      const response = await request(app.getHttpServer())
+        .get(`/tasks/${parentId}/children`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].id).toBe(childId);
+      expect(response.body[0].childCount).toBe(0);
+    });
+
+    it('should reject a parent owned by another user', async () => {
+      await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .send({ title: 'Foreign Child', parentId })
+        .expect(400);
+    });
+
+    it('should reject moving a task under its own subtask', async () => {
+      await request(app.getHttpServer())
+        .patch(`/tasks/${parentId}/parent`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ parentId: childId })
+        .expect(400);
+    });
+
+    it('should refuse to complete a parent with open subtasks', async () => {
+      const response = await request(app.getHttpServer())
+        .patch(`/tasks/${parentId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ status: TaskStatus.COMPLETED })
+        .expect(409);
+
+      expect(response.body.code).toBe('TASK_HAS_OPEN_SUBTASKS');
+    });
+
+    it('should complete the whole subtree with cascade=true', async () => {
+      await request(app.getHttpServer())
+        .patch(`/tasks/${parentId}?cascade=true`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ status: TaskStatus.COMPLETED })
+        .expect(200);
+
+      const response = await request(app.getHttpServer())
+        .get(`/tasks/${parentId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(response.body.childCount).toBe(1);
+      expect(response.body.completionPercentage).toBe(100);
+    });
+
+    it('should make a task top-level when parentId is null', async () => {
+      const response = await request(app.getHttpServer())
+        .patch(`/tasks/${childId}/parent`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ parentId: null })
+        .expect(200);
+
+      expect(response.body.parentId).toBeNull();
+    });
+  });
+
+  describe('Task Dependencies - Blocked By', () => {
+    let blockerId: string;
+    let blockedId: string;
+
+    beforeAll(async () => {
+      const blockerRes = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ title: 'Blocker Task', status: TaskStatus.PENDING })
+        .expect(201);
+      blockerId = blockerRes.body.id;
+
+      const blockedRes = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ title: 'Blocked Task', status: TaskStatus.PENDING })
+        .expect(201);
+      blockedId = blockedRes.body.id;
+    });
+
+    it('should mark a task as blocked by another task', async () => {
+      await request(app.getHttpServer())
+        .post(`/tasks/${blockedId}/dependencies`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ blockedById: blockerId })
+        .expect(201);
+
+      const response = await request(app.getHttpServer())
+        .get(`/tasks/${blockerId}/dependencies`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(response.body.blocking).toHaveLength(1);
+      expect(response.body.blocking[0].id).toBe(blockedId);
+    });
+
+    it('should reject a dependency that would create a cycle', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/tasks/${blockerId}/dependencies`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ blockedById: blockedId })
+        .expect(400);
+
+      expect(response.body.code).toBe('TASK_DEPENDENCY_CYCLE');
+    });
+
+    it('should reject a blocker owned by another user', async () => {
+      await request(app.getHttpServer())
+        .post(`/tasks/${blockedId}/dependencies`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ blockedById: taskIds.user2Task1 })
+        .expect(403);
+    });
+
+    it('should refuse to start a task with open blockers', async () => {
+      const response = await request(app.getHttpServer())
+        .patch(`/tasks/${blockedId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ status: TaskStatus.IN_PROGRESS })
+        .expect(409);
+
+      expect(response.body.code).toBe('TASK_BLOCKED');
+    });
+
+    it('should unblock the task once the blocker is completed', async () => {
+      await request(app.getHttpServer())
+        .patch(`/tasks/${blockerId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ status: TaskStatus.COMPLETED })
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .patch(`/tasks/${blockedId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ status: TaskStatus.IN_PROGRESS })
+        .expect(200);
+    });
+
+    it('should remove a dependency', async () => {
+      await request(app.getHttpServer())
+        .delete(`/tasks/${blockedId}/dependencies/${blockerId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .delete(`/tasks/${blockedId}/dependencies/${blockerId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(404);
+    });
+  });
+
+  describe('Recurring Tasks - RRULE Series', () => {
+    const firstDueDate = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000);
+    let seriesId: string;
+    let firstOccurrenceId: string;
+    let nextOccurrenceId: string;
+
+    it('should require a due date for a recurring task', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ title: 'Weekly checklist', recurrence: 'FREQ=WEEKLY' })
+        .expect(400);
+
+      expect(response.body.code).toBe('TASK_RECURRENCE_REQUIRES_DUE_DATE');
+    });
+
+    it('should reject an unsupported RRULE', async () => {
+      await request(app.getHttpServer())
         .post('/tasks')
         .set('Authorization', `Bearer ${tokens.user1}`)
         .send({
-          title: 'Task to Delete',
-          description: 'Will be deleted',
-          status: TaskStatus.PENDING,
+          title: 'Hourly checklist',
+          dueDate: firstDueDate.toISOString(),
+          recurrence: 'FREQ=HOURLY',
+        })
+        .expect(400);
+    });
+
+    it('should start a series with the task as its first occurrence', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({
+          title: 'Weekly checklist',
+          dueDate: firstDueDate.toISOString(),
+          recurrence: 'FREQ=WEEKLY',
+        })
+        .expect(201);
+
+      expect(response.body.seriesId).toBeDefined();
+      seriesId = response.body.seriesId;
+      firstOccurrenceId = response.body.id;
+
+      const seriesRes = await request(app.getHttpServer())
+        .get(`/task-series/${seriesId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(seriesRes.body.active).toBe(true);
+      expect(seriesRes.body.occurrenceCount).toBe(1);
+    });
+
+    it('should prevent other users from reading the series', async () => {
+      await request(app.getHttpServer())
+        .get(`/task-series/${seriesId}`)
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .expect(403);
+    });
+
+    it('should create the next occurrence when the latest one is completed', async () => {
+      await request(app.getHttpServer())
+        .patch(`/tasks/${firstOccurrenceId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ status: TaskStatus.COMPLETED })
+        .expect(200);
+
+      const seriesRes = await request(app.getHttpServer())
+        .get(`/task-series/${seriesId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      const expectedDueDate = new Date(firstDueDate.getTime() + 7 * 24 * 60 * 60 * 1000);
+      expect(seriesRes.body.occurrenceCount).toBe(2);
+      expect(new Date(seriesRes.body.lastOccurrenceAt).getTime()).toBe(expectedDueDate.getTime());
+
+      const occurrences = await dataSource.query(
+        'SELECT id FROM tasks WHERE series_id = $1 AND status = $2',
+        [seriesId, TaskStatus.PENDING],
+      );
+      expect(occurrences).toHaveLength(1);
+      nextOccurrenceId = occurrences[0].id;
+    });
+
+    it('should apply series edits to pending future occurrences', async () => {
+      await request(app.getHttpServer())
+        .patch(`/task-series/${seriesId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ title: 'Weekly ops checklist' })
+        .expect(200);
+
+      const response = await request(app.getHttpServer())
+        .get(`/tasks/${nextOccurrenceId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(response.body.title).toBe('Weekly ops checklist');
+    });
+
+    it('should stop the series and remove pending future occurrences', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/task-series/${seriesId}/stop`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(response.body.removedCount).toBe(1);
+
+      await request(app.getHttpServer())
+        .get(`/tasks/${nextOccurrenceId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(404);
+
+      await request(app.getHttpServer())
+        .patch(`/task-series/${seriesId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ title: 'Too late' })
+        .expect(409);
+    });
+  });
+
+  describe('Full-Text Search - GET /tasks?q=', () => {
+    let titleMatchId: string;
+    let descriptionMatchId: string;
+
+    beforeAll(async () => {
+      const titleRes = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({
+          title: 'Reconcile quarterly invoices',
+          description: 'Match payments against the ledger',
+          priority: TaskPriority.HIGH,
+        })
+        .expect(201);
+      titleMatchId = titleRes.body.id;
+
+      const descriptionRes = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({
+          title: 'Finance follow-up',
+          description: 'Email the vendor about two missing invoices',
           priority: TaskPriority.LOW,
-          dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
         })
         .expect(201);
+      descriptionMatchId = descriptionRes.body.id;
+    });
+
+    it('should rank title matches above description matches', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/tasks?q=invoice')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      const ids = response.body.data.map((t: { id: string }) => t.id);
+      expect(ids.indexOf(titleMatchId)).toBeLessThan(ids.indexOf(descriptionMatchId));
+      expect(response.body.data[0].highlight.title).toContain('<mark>');
+      expect(response.body.data[0].searchRank).toBeGreaterThan(0);
+    });
+
+    it('should combine search with the priority filter', async () => {
+      const response = await request(app.getHttpServer())
+        .get(`/tasks?q=invoice&priority=${TaskPriority.LOW}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(response.body.total).toBe(1);
+      expect(response.body.data[0].id).toBe(descriptionMatchId);
+    });
+
+    it("should not return other users' tasks", async () => {
+      const response = await request(app.getHttpServer())
+        .get('/tasks?q=invoice')
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .expect(200);
+
+      expect(response.body.total).toBe(0);
+    });
+  });
+
+  describe('Sorting and Range Filters - GET /tasks', () => {
+    const rangeStart = '2031-01-01T00:00:00.000Z';
+    const rangeEnd = '2031-12-31T23:59:59.000Z';
+    let lowSoonId: string;
+    let highLaterId: string;
+    let mediumLatestId: string;
+
+    beforeAll(async () => {
+      const createTask = async (title: string, priority: TaskPriority, dueDate: string) => {
+        const res = await request(app.getHttpServer())
+          .post('/tasks')
+          .set('Authorization', `Bearer ${tokens.user1}`)
+          .send({ title, priority, dueDate })
+          .expect(201);
+        return res.body.id as string;
+      };
+
+      lowSoonId = await createTask('Range low soon', TaskPriority.LOW, '2031-02-01T09:00:00.000Z');
+      highLaterId = await createTask(
+        'Range high later',
+        TaskPriority.HIGH,
+        '2031-06-01T09:00:00.000Z',
+      );
+      mediumLatestId = await createTask(
+        'Range medium latest',
+        TaskPriority.MEDIUM,
+        '2031-10-01T09:00:00.000Z',
+      );
+    });
+
+    it('should filter by due date range and sort by due date ascending', async () => {
+      const response = await request(app.getHttpServer())
+        .get(`/tasks?dueAfter=${rangeStart}&dueBefore=${rangeEnd}&sortBy=dueDate`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(response.body.data.map((t: { id: string }) => t.id)).toEqual([
+        lowSoonId,
+        highLaterId,
+        mediumLatestId,
+      ]);
+    });
+
+    it('should sort by priority rank rather than alphabetically', async () => {
+      const response = await request(app.getHttpServer())
+        .get(`/tasks?dueAfter=${rangeStart}&dueBefore=${rangeEnd}&sortBy=priority&sortOrder=desc`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(response.body.data.map((t: { id: string }) => t.id)).toEqual([
+        highLaterId,
+        mediumLatestId,
+        lowSoonId,
+      ]);
+    });
+
+    it('should accept multiple priorities', async () => {
+      const response = await request(app.getHttpServer())
+        .get(`/tasks?dueAfter=${rangeStart}&dueBefore=${rangeEnd}&priority=low,HIGH`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(response.body.total).toBe(2);
+      response.body.data.forEach((task: { priority: TaskPriority }) => {
+        expect([TaskPriority.LOW, TaskPriority.HIGH]).toContain(task.priority);
+      });
+    });
+
+    it('should exclude tasks without a due date when hasDueDate=true', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/tasks?hasDueDate=true&limit=100')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      response.body.data.forEach((task: { dueDate: string | null }) => {
+        expect(task.dueDate).not.toBeNull();
+      });
+    });
+
+    it('should not report future tasks as overdue', async () => {
+      const response = await request(app.getHttpServer())
+        .get(`/tasks?overdue=true&dueAfter=${rangeStart}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(response.body.total).toBe(0);
+    });
+
+    it('should reject an inverted date range', async () => {
+      await request(app.getHttpServer())
+        .get(`/tasks?dueAfter=${rangeEnd}&dueBefore=${rangeStart}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(400);
+    });
+
+    it('should reject unknown sort fields and non-boolean flags', async () => {
+      await request(app.getHttpServer())
+        .get('/tasks?sortBy=userId')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(400);
+
+      await request(app.getHttpServer())
+        .get('/tasks?overdue=maybe')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(400);
+    });
+  });
+
+  describe('Cursor Pagination - GET /tasks?pagination=cursor', () => {
+    it('should walk the list without overlapping pages', async () => {
+      const first = await request(app.getHttpServer())
+        .get('/tasks?pagination=cursor&limit=2')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(first.body.data).toHaveLength(2);
+      expect(first.body.hasMore).toBe(true);
+      expect(typeof first.body.nextCursor).toBe('string');
+      expect(first.body.total).toBeGreaterThan(2);
+
+      const second = await request(app.getHttpServer())
+        .get(`/tasks?cursor=${first.body.nextCursor}&limit=2`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      const firstIds = first.body.data.map((t: { id: string }) => t.id);
+      const secondIds = second.body.data.map((t: { id: string }) => t.id);
+      expect(secondIds.some((id: string) => firstIds.includes(id))).toBe(false);
+      expect(new Date(second.body.data[0].createdAt).getTime()).toBeLessThanOrEqual(
+        new Date(first.body.data[1].createdAt).getTime(),
+      );
+    });
+
+    it('should omit the total when includeTotal=false', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/tasks?pagination=cursor&includeTotal=false')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(response.body.total).toBeUndefined();
+      expect(response.body).toHaveProperty('nextCursor');
+    });
+
+    it('should reject a malformed cursor', async () => {
+      await request(app.getHttpServer())
+        .get('/tasks?cursor=not-a-cursor')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(400);
+    });
+
+    it('should reject combining cursor pagination with search', async () => {
+      await request(app.getHttpServer())
+        .get('/tasks?pagination=cursor&q=invoice')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(400);
+    });
+  });
+
+  describe('Task Activity - GET /tasks/:id/activity', () => {
+    let activityTaskId: string;
+
+    beforeAll(async () => {
+      const createRes = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ title: 'Task with history', priority: TaskPriority.MEDIUM })
+        .expect(201);
+      activityTaskId = createRes.body.id;
+
+      await request(app.getHttpServer())
+        .patch(`/tasks/${activityTaskId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ priority: TaskPriority.HIGH })
+        .expect(200);
+    });
+
+    it('should record creation and field changes, newest first', async () => {
+      const response = await request(app.getHttpServer())
+        .get(`/tasks/${activityTaskId}/activity`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      const [latest, created] = response.body.data;
+      expect(latest.action).toBe('updated');
+      expect(latest.source).toBe('http');
+      expect(latest.actorId).toBe(userIds.user1);
+      expect(latest.changes).toEqual({
+        priority: { from: TaskPriority.MEDIUM, to: TaskPriority.HIGH },
+      });
+
+      expect(created.action).toBe('created');
+      expect(created.changes.title).toEqual({ from: null, to: 'Task with history' });
+    });
+
+    it('should not record an update that changes nothing', async () => {
+      await request(app.getHttpServer())
+        .patch(`/tasks/${activityTaskId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ priority: TaskPriority.HIGH })
+        .expect(200);
+
+      const response = await request(app.getHttpServer())
+        .get(`/tasks/${activityTaskId}/activity`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(response.body.total).toBe(2);
+    });
+
+    it("should prevent reading another user's task history", async () => {
+      await request(app.getHttpServer())
+        .get(`/tasks/${activityTaskId}/activity`)
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .expect(403);
+    });
+
+    it('should let admins read any task history', async () => {
+      await request(app.getHttpServer())
+        .get(`/tasks/${activityTaskId}/activity`)
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .expect(200);
+    });
+  });
+
+  describe('Trash - Soft Delete, Restore and Purge', () => {
+    let trashedTaskId: string;
+
+    beforeAll(async () => {
+      const createRes = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ title: 'Task for the trash', priority: TaskPriority.LOW })
+        .expect(201);
+      trashedTaskId = createRes.body.id;
+
+      await request(app.getHttpServer())
+        .delete(`/tasks/${trashedTaskId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+    });
+
+    it('should list the deleted task in the owner trash only', async () => {
+      const ownTrash = await request(app.getHttpServer())
+        .get('/tasks/trash')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      const trashed = ownTrash.body.data.find((t: { id: string }) => t.id === trashedTaskId);
+      expect(trashed).toBeDefined();
+      expect(trashed.deletedAt).not.toBeNull();
+
+      const otherTrash = await request(app.getHttpServer())
+        .get('/tasks/trash')
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .expect(200);
+
+      expect(otherTrash.body.data.some((t: { id: string }) => t.id === trashedTaskId)).toBe(false);
+    });
+
+    it('should hide the deleted task from the task list', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/tasks?limit=100')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(response.body.data.some((t: { id: string }) => t.id === trashedTaskId)).toBe(false);
+    });
+
+    it("should prevent restoring another user's trashed task", async () => {
+      await request(app.getHttpServer())
+        .post(`/tasks/${trashedTaskId}/restore`)
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .expect(403);
+    });
+
+    it('should restore the task', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/tasks/${trashedTaskId}/restore`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(response.body.deletedAt).toBeNull();
+
+      await request(app.getHttpServer())
+        .get(`/tasks/${trashedTaskId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+    });
+
+    it('should only purge tasks that are in the trash', async () => {
+      await request(app.getHttpServer())
+        .delete(`/tasks/${trashedTaskId}/purge`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(404);
+
+      await request(app.getHttpServer())
+        .delete(`/tasks/${trashedTaskId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .delete(`/tasks/${trashedTaskId}/purge`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .post(`/tasks/${trashedTaskId}/restore`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(404);
+    });
+  });
+
+  describe('Task Workflow - Status Transitions', () => {
+    let workflowTaskId: string;
+
+    const toTransitionList = (transitions: Record<string, string[]>) =>
+      Object.entries(transitions).flatMap(([from, toStatuses]) =>
+        toStatuses.map(to => ({ from, to })),
+      );
+
+    beforeAll(async () => {
+      const createRes = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ title: 'Workflow task', status: TaskStatus.PENDING })
+        .expect(201);
+      workflowTaskId = createRes.body.id;
+    });
+
+    afterAll(async () => {
+      await request(app.getHttpServer())
+        .put('/task-workflow')
+        .set('Authorization', `Bearer ${tokens.superAdmin}`)
+        .send({ transitions: toTransitionList(DEFAULT_TASK_STATUS_TRANSITIONS) })
+        .expect(200);
+    });
+
+    it('should expose the workflow to every user', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/task-workflow')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(response.body.statuses).toEqual(Object.values(TaskStatus));
+      expect(response.body.transitions[TaskStatus.CANCELLED]).toEqual([TaskStatus.PENDING]);
+    });
+
+    it('should reject a transition the workflow does not allow', async () => {
+      await request(app.getHttpServer())
+        .patch(`/tasks/${workflowTaskId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ status: TaskStatus.CANCELLED })
+        .expect(200);
+
+      const response = await request(app.getHttpServer())
+        .patch(`/tasks/${workflowTaskId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ status: TaskStatus.COMPLETED })
+        .expect(409);
+
+      expect(response.body.code).toBe('TASK_STATUS_TRANSITION_INVALID');
+      expect(response.body.message).toContain('Allowed next statuses: PENDING');
+    });
+
+    it('should allow keeping the current status', async () => {
+      await request(app.getHttpServer())
+        .patch(`/tasks/${workflowTaskId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ status: TaskStatus.CANCELLED, title: 'Cancelled workflow task' })
+        .expect(200);
+    });
+
+    it('should prevent regular users and admins from changing the workflow', async () => {
+      await request(app.getHttpServer())
+        .put('/task-workflow')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ transitions: [{ from: TaskStatus.PENDING, to: TaskStatus.COMPLETED }] })
+        .expect(403);
+
+      // The workflow is shared by every organization
+      await request(app.getHttpServer())
+        .put('/task-workflow')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .send({ transitions: [{ from: TaskStatus.PENDING, to: TaskStatus.COMPLETED }] })
+        .expect(403);
+    });
+
+    it('should reject a transition to the same status', async () => {
+      const response = await request(app.getHttpServer())
+        .put('/task-workflow')
+        .set('Authorization', `Bearer ${tokens.superAdmin}`)
+        .send({ transitions: [{ from: TaskStatus.PENDING, to: TaskStatus.PENDING }] })
+        .expect(400);
+
+      expect(response.body.code).toBe('TASK_STATUS_TRANSITION_SELF');
+    });
+
+    it('should enforce a workflow saved by a super-admin', async () => {
+      const response = await request(app.getHttpServer())
+        .put('/task-workflow')
+        .set('Authorization', `Bearer ${tokens.superAdmin}`)
+        .send({
+          transitions: [
+            ...toTransitionList(DEFAULT_TASK_STATUS_TRANSITIONS),
+            { from: TaskStatus.CANCELLED, to: TaskStatus.COMPLETED },
+          ],
+        })
+        .expect(200);
+
+      expect(response.body.transitions[TaskStatus.CANCELLED]).toEqual([
+        TaskStatus.PENDING,
+        TaskStatus.COMPLETED,
+      ]);
+
+      await request(app.getHttpServer())
+        .patch(`/tasks/${workflowTaskId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ status: TaskStatus.COMPLETED })
+        .expect(200);
+    });
+  });
+
+  describe('Task Assignment - POST /tasks/:id/assign', () => {
+    let assignedTaskId: string;
+
+    beforeAll(async () => {
+      const createRes = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ title: 'Task for user2', status: TaskStatus.PENDING })
+        .expect(201);
+      assignedTaskId = createRes.body.id;
+    });
+
+    it('should let the owner assign the task to another user', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/tasks/${assignedTaskId}/assign`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ assigneeId: userIds.user2 })
+        .expect(200);
+
+      expect(response.body.assigneeId).toBe(userIds.user2);
+      expect(response.body.userId).toBe(userIds.user1);
+    });
+
+    it('should list the task for the assignee with assignee=me', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/tasks?assignee=me')
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .expect(200);
+
+      expect(response.body.data.map((task: { id: string }) => task.id)).toContain(assignedTaskId);
+    });
+
+    it('should let the assignee read the task and change its status', async () => {
+      await request(app.getHttpServer())
+        .get(`/tasks/${assignedTaskId}`)
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .expect(200);
+
+      const response = await request(app.getHttpServer())
+        .patch(`/tasks/${assignedTaskId}`)
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .send({ status: TaskStatus.IN_PROGRESS })
+        .expect(200);
+
+      expect(response.body.status).toBe(TaskStatus.IN_PROGRESS);
+    });
+
+    it('should prevent the assignee from editing other fields', async () => {
+      const response = await request(app.getHttpServer())
+        .patch(`/tasks/${assignedTaskId}`)
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .send({ title: 'Renamed by assignee' })
+        .expect(403);
+
+      expect(response.body.code).toBe('TASK_ASSIGNEE_STATUS_ONLY');
+    });
+
+    it('should prevent the assignee from reassigning or deleting the task', async () => {
+      await request(app.getHttpServer())
+        .post(`/tasks/${assignedTaskId}/assign`)
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .send({ assigneeId: null })
+        .expect(403);
+
+      const response = await request(app.getHttpServer())
+        .delete('/tasks/batch')
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .send({ taskIds: [assignedTaskId] })
+        .expect(403);
+
+      expect(response.body.code).toBe('TASKS_DELETE_ASSIGNEE_DENIED');
+    });
+
+    it('should return 404 for an unknown assignee', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/tasks/${assignedTaskId}/assign`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ assigneeId: '123e4567-e89b-42d3-a456-426614174000' })
+        .expect(404);
+
+      expect(response.body.code).toBe('TASK_ASSIGNEE_NOT_FOUND');
+    });
+
+    it('should remove access once the task is unassigned', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/tasks/${assignedTaskId}/assign`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ assigneeId: null })
+        .expect(200);
+
+      expect(response.body.assigneeId).toBeNull();
+
+      await request(app.getHttpServer())
+        .get(`/tasks/${assignedTaskId}`)
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .expect(403);
+    });
+  });
+
+  describe('Task Watchers - /tasks/:taskId/watchers', () => {
+    let watchedTaskId: string;
+
+    beforeAll(async () => {
+      const createRes = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ title: 'Task to watch', status: TaskStatus.PENDING })
+        .expect(201);
+      watchedTaskId = createRes.body.id;
+    });
+
+    it('should let a user watch a task they can read', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/tasks/${watchedTaskId}/watchers`)
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .expect(201);
+
+      expect(response.body.taskId).toBe(watchedTaskId);
+      expect(response.body.userId).toBe(userIds.admin);
+    });
+
+    it('should reject watching the same task twice', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/tasks/${watchedTaskId}/watchers`)
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .expect(409);
+
+      expect(response.body.code).toBe('TASK_WATCHER_EXISTS');
+    });
+
+    it('should prevent watching a task the user cannot read', async () => {
+      await request(app.getHttpServer())
+        .post(`/tasks/${watchedTaskId}/watchers`)
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .expect(403);
+    });
+
+    it('should list watched tasks for the watcher', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/tasks/watched')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .expect(200);
+
+      expect(response.body.data.map((task: { id: string }) => task.id)).toContain(watchedTaskId);
+    });
+
+    it('should keep updates working while the task is watched', async () => {
+      const response = await request(app.getHttpServer())
+        .patch(`/tasks/${watchedTaskId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ status: TaskStatus.IN_PROGRESS, priority: TaskPriority.HIGH })
+        .expect(200);
+
+      expect(response.body.status).toBe(TaskStatus.IN_PROGRESS);
+      expect(response.body.priority).toBe(TaskPriority.HIGH);
+    });
+
+    it('should stop watching a task', async () => {
+      await request(app.getHttpServer())
+        .delete(`/tasks/${watchedTaskId}/watchers`)
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .expect(200);
+
+      const response = await request(app.getHttpServer())
+        .get('/tasks/watched')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .expect(200);
+
+      expect(response.body.data.map((task: { id: string }) => task.id)).not.toContain(
+        watchedTaskId,
+      );
+    });
+
+    it('should return 404 when the user is not watching the task', async () => {
+      const response = await request(app.getHttpServer())
+        .delete(`/tasks/${watchedTaskId}/watchers`)
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .expect(404);
+
+      expect(response.body.code).toBe('TASK_WATCHER_NOT_FOUND');
+    });
+  });
+
+  describe('Task Attachments - /tasks/:taskId/attachments', () => {
+    let attachmentTaskId: string;
+    let attachmentId: string;
+
+    beforeAll(async () => {
+      const createRes = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ title: 'Task with attachments', status: TaskStatus.PENDING })
+        .expect(201);
+      attachmentTaskId = createRes.body.id;
+    });
+
+    it('should upload a file and record its checksum', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/tasks/${attachmentTaskId}/attachments`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .attach('file', Buffer.from('meeting notes'), {
+          filename: 'notes.txt',
+          contentType: 'text/plain',
+        })
+        .expect(201);
+
+      expect(response.body.fileName).toBe('notes.txt');
+      expect(response.body.mimeType).toBe('text/plain');
+      expect(response.body.size).toBe(13);
+      expect(response.body.checksum).toMatch(/^[0-9a-f]{64}$/);
+      expect(response.body.storageKey).toBeUndefined();
+      attachmentId = response.body.id;
+    });
+
+    it('should reject files with a MIME type that is not allowed', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/tasks/${attachmentTaskId}/attachments`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .attach('file', Buffer.from('#!/bin/sh'), {
+          filename: 'script.sh',
+          contentType: 'application/x-sh',
+        })
+        .expect(400);
+
+      expect(response.body.code).toBe('ATTACHMENT_TYPE_NOT_ALLOWED');
+    });
+
+    it('should reject an upload without a file', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/tasks/${attachmentTaskId}/attachments`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(400);
+
+      expect(response.body.code).toBe('ATTACHMENT_FILE_REQUIRED');
+    });
+
+    it('should list and download attachments with content headers', async () => {
+      const listRes = await request(app.getHttpServer())
+        .get(`/tasks/${attachmentTaskId}/attachments`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(listRes.body.map((attachment: { id: string }) => attachment.id)).toContain(
+        attachmentId,
+      );
+
+      const response = await request(app.getHttpServer())
+        .get(`/tasks/${attachmentTaskId}/attachments/${attachmentId}/download`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks)));
+        })
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/plain');
+      expect(response.headers['content-disposition']).toContain('filename="notes.txt"');
+      expect(response.body.toString()).toBe('meeting notes');
+    });
+
+    it("should prevent access to another user's task attachments", async () => {
+      await request(app.getHttpServer())
+        .get(`/tasks/${attachmentTaskId}/attachments`)
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .expect(403);
+    });
+
+    it('should remove attachments when the task is deleted', async () => {
+      await request(app.getHttpServer())
+        .delete(`/tasks/${attachmentTaskId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .post(`/tasks/${attachmentTaskId}/restore`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      const response = await request(app.getHttpServer())
+        .get(`/tasks/${attachmentTaskId}/attachments`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(response.body).toHaveLength(0);
+    });
+  });
+
+  describe('Time Tracking - Timers and Worklogs', () => {
+    let timerTaskId: string;
+    let otherTaskId: string;
+
+    beforeAll(async () => {
+      const timerRes = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ title: 'Billable task', status: TaskStatus.IN_PROGRESS })
+        .expect(201);
+      timerTaskId = timerRes.body.id;
+
+      const otherRes = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ title: 'Another billable task', status: TaskStatus.PENDING })
+        .expect(201);
+      otherTaskId = otherRes.body.id;
+    });
+
+    it('should start a timer', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/tasks/${timerTaskId}/timer/start`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ description: 'Implementation' })
+        .expect(201);
+
+      expect(response.body.taskId).toBe(timerTaskId);
+      expect(response.body.source).toBe('timer');
+      expect(response.body.endedAt).toBeNull();
+      expect(response.body.durationSeconds).toBeNull();
+    });
+
+    it('should allow only one running timer per user', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/tasks/${otherTaskId}/timer/start`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({})
+        .expect(409);
+
+      expect(response.body.code).toBe('TIMER_ALREADY_RUNNING');
+    });
+
+    it('should not stop a timer running on a different task', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/tasks/${otherTaskId}/timer/stop`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(404);
+
+      expect(response.body.code).toBe('TIMER_NOT_RUNNING');
+    });
+
+    it('should stop the running timer when the task is completed', async () => {
+      await request(app.getHttpServer())
+        .patch(`/tasks/${timerTaskId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ status: TaskStatus.COMPLETED })
+        .expect(200);
+
+      const response = await request(app.getHttpServer())
+        .get(`/tasks/${timerTaskId}/worklogs`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(response.body.total).toBe(1);
+      expect(response.body.data[0].endedAt).not.toBeNull();
+      expect(response.body.data[0].durationSeconds).toBeGreaterThanOrEqual(0);
+      expect(response.body.data[0].user.id).toBe(userIds.user1);
+
+      await request(app.getHttpServer())
+        .post(`/tasks/${timerTaskId}/timer/stop`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(404);
+    });
+
+    it('should start and stop a timer explicitly', async () => {
+      await request(app.getHttpServer())
+        .post(`/tasks/${otherTaskId}/timer/start`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({})
+        .expect(201);
+
+      const response = await request(app.getHttpServer())
+        .post(`/tasks/${otherTaskId}/timer/stop`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(response.body.endedAt).not.toBeNull();
+      expect(response.body.durationSeconds).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should add a manual worklog entry', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/tasks/${otherTaskId}/worklogs`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ startedAt: '2025-03-10T09:00:00.000Z', durationMinutes: 90 })
+        .expect(201);
+
+      expect(response.body.source).toBe('manual');
+      expect(response.body.durationSeconds).toBe(5400);
+    });
+
+    it('should reject manual entries ending in the future', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/tasks/${otherTaskId}/worklogs`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ startedAt: new Date().toISOString(), durationMinutes: 60 })
+        .expect(400);
+
+      expect(response.body.code).toBe('WORKLOG_IN_FUTURE');
+    });
+
+    it("should prevent tracking time on another user's task", async () => {
+      await request(app.getHttpServer())
+        .post(`/tasks/${otherTaskId}/timer/start`)
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .send({})
+        .expect(403);
+    });
+
+    it('should report the timesheet grouped by day and task', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/timesheet')
+        .query({ from: '2025-03-01', to: '2025-03-31' })
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(response.body.userId).toBe(userIds.user1);
+      expect(response.body.totalSeconds).toBe(5400);
+      expect(response.body.days).toEqual([
+        {
+          date: '2025-03-10',
+          totalSeconds: 5400,
+          tasks: [
+            {
+              taskId: otherTaskId,
+              title: 'Another billable task',
+              totalSeconds: 5400,
+              entryCount: 1,
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should reject timesheet ranges longer than 92 days', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/timesheet')
+        .query({ from: '2025-01-01', to: '2025-12-31' })
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(400);
+
+      expect(response.body.code).toBe('TIMESHEET_RANGE_TOO_LARGE');
+    });
+
+    it("should only let admins view other users' timesheets", async () => {
+      const forbidden = await request(app.getHttpServer())
+        .get('/timesheet')
+        .query({ from: '2025-03-01', to: '2025-03-31', userId: userIds.user1 })
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .expect(403);
+
+      expect(forbidden.body.code).toBe('TIMESHEET_FORBIDDEN');
+
+      const response = await request(app.getHttpServer())
+        .get('/timesheet')
+        .query({ from: '2025-03-01', to: '2025-03-31', userId: userIds.user1 })
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .expect(200);
+
+      expect(response.body.totalSeconds).toBe(5400);
+    });
+  });
+
+  describe('DELETE /tasks/:id - Delete Task', () => {
+    it('should allow user to delete their own task', async () => {
+      // Create a new task to delete
+      const createRes = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({
+          title: 'Task to Delete',
+          description: 'Will be deleted',
+          status: TaskStatus.PENDING,
+          priority: TaskPriority.LOW,
+          dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+        })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .delete(`/tasks/${createRes.body.id}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      // Verify deletion
+      await request(app.getHttpServer())
+        .get(`/tasks/${createRes.body.id}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(404);
+    });
+
+    it("should prevent user from deleting another user's task", async () => {
+      await request(app.getHttpServer())
+        .delete(`/tasks/${taskIds.user2Task1}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(403);
+    });
+
+    it('should allow admin to delete any task', async () => {
+      // Create a new task to delete
+      const createRes = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .send({
+          title: 'Task to Delete by Admin',
+          description: 'Will be deleted by admin',
+          status: TaskStatus.PENDING,
+          priority: TaskPriority.LOW,
+          //  dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+        })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .delete(`/tasks/${createRes.body.id}`)
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .expect(200);
+    });
+
+    it('should allow super-admin to delete any task', async () => {
+      // Create a new task to delete
+      const createRes = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .send({
+          title: 'Task to Delete by Super Admin',
+          description: 'Will be deleted by super admin',
+          status: TaskStatus.PENDING,
+          priority: TaskPriority.LOW,
+          dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+        })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .delete(`/tasks/${createRes.body.id}`)
+        .set('Authorization', `Bearer ${tokens.superAdmin}`)
+        .expect(200);
+    });
+  });
+
+  describe('POST /tasks/batch - Batch Create Tasks', () => {
+    it('should allow user to batch create their own tasks', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/tasks/batch')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({
+          tasks: [
+            {
+              title: 'Batch Task 1',
+              description: 'First batch task',
+              status: TaskStatus.PENDING,
+              priority: TaskPriority.HIGH,
+              dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+            },
+            {
+              title: 'Batch Task 2',
+              description: 'Second batch task',
+              status: TaskStatus.PENDING,
+              priority: TaskPriority.MEDIUM,
+              dueDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString(),
+            },
+          ],
+        })
+        .expect(201);
+
+      expect(response.body).toHaveProperty('message');
+      expect(response.body).toHaveProperty('createdCount', 2);
+      expect(response.body).toHaveProperty('tasks');
+      expect(response.body.tasks.length).toBe(2);
+      response.body.tasks.forEach((task: any) => {
+        expect(task.userId).toBe(userIds.user1);
+      });
+    });
+
+    it('should fail with invalid task data', async () => {
+      await request(app.getHttpServer())
+        .post('/tasks/batch')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({
+          tasks: [
+            {
+              title: '',
+              description: 'Invalid task',
+              status: 'INVALID',
+              priority: TaskPriority.HIGH,
+            },
+          ],
+        })
+        .expect(400);
+    });
+  });
+
+  describe('DELETE /tasks/batch - Batch Delete Tasks', () => {
+    it('should allow user to batch delete their own tasks', async () => {
+      // Create tasks to delete
+      const createRes = await request(app.getHttpServer())
+        .post('/tasks/batch')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({
+          tasks: [
+            {
+              title: 'Delete Task 1',
+              description: 'To be deleted',
+              status: TaskStatus.PENDING,
+              priority: TaskPriority.LOW,
+              dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+            },
+            {
+              title: 'Delete Task 2',
+              description: 'To be deleted',
+              status: TaskStatus.PENDING,
+              priority: TaskPriority.LOW,
+              dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+            },
+          ],
+        })
+        .expect(201);
+
+      const taskIdsToDelete = createRes.body.tasks.map((task: any) => task.id);
+
+      const response = await request(app.getHttpServer())
+        .delete('/tasks/batch')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ taskIds: taskIdsToDelete })
+        .expect(200);
+
+      expect(response.body).toHaveProperty('message');
+      expect(response.body).toHaveProperty('deletedCount', 2);
+    });
+
+    it("should prevent user from deleting another user's tasks", async () => {
+      await request(app.getHttpServer())
+        .delete('/tasks/batch')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ taskIds: [taskIds.user2Task1] })
+        .expect(403);
+    });
+
+    it('should allow admin to batch delete any tasks', async () => {
+      // Create tasks to delete
+      const createRes = await request(app.getHttpServer())
+        .post('/tasks/batch')
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .send({
+          tasks: [
+            {
+              title: 'Admin Delete Task 1',
+              description: 'To be deleted by admin',
+              status: TaskStatus.PENDING,
+              priority: TaskPriority.LOW,
+              dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+            },
+          ],
+        })
+        .expect(201);
+
+      const taskIdsToDelete = createRes.body.tasks.map((task: any) => task.id);
+
+      await request(app.getHttpServer())
+        .delete('/tasks/batch')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .send({ taskIds: taskIdsToDelete })
+        .expect(200);
+    });
+  });
+
+  describe('POST /tasks/batch/async - Async Batch Create', () => {
+    it('should queue tasks for async creation', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/tasks/batch/async')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({
+          tasks: [
+            {
+              title: 'Async Task 1',
+              description: 'First async task',
+              status: TaskStatus.PENDING,
+              priority: TaskPriority.HIGH,
+              dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+            },
+          ],
+        })
+        .expect(202);
+
+      expect(response.body).toHaveProperty('message');
+      expect(response.body).toHaveProperty('jobId');
+    });
+  });
+
+  describe('POST /tasks/import - Import Tasks', () => {
+    const inAWeek = () => new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+
+    it('should create valid CSV rows and report the failing ones per field', async () => {
+      const csv = [
+        'title,priority,dueDate,storyPoints',
+        `Imported task,HIGH,${inAWeek()},3`,
+        '"Quoted, title",LOW,,',
+        ',MEDIUM,2020-01-01T00:00:00.000Z,',
+        'Bad points,LOW,,-1',
+      ].join('\n');
+
+      const response = await request(app.getHttpServer())
+        .post('/tasks/import')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .attach('file', Buffer.from(csv), { filename: 'tasks.csv', contentType: 'text/csv' })
+        .expect(201);
+
+      expect(response.headers['content-disposition']).toContain('task-import-report.json');
+      expect(response.body).toMatchObject({ totalRows: 4, created: 2, queued: 0, failed: 2 });
+      expect(response.body.rows.map((row: any) => [row.row, row.status])).toEqual([
+        [2, 'created'],
+        [3, 'created'],
+        [4, 'failed'],
+        [5, 'failed'],
+      ]);
+
+      const fields = response.body.rows[2].errors.map((error: any) => error.field).sort();
+      expect(fields).toEqual(['dueDate', 'title']);
+      expect(response.body.rows[3].errors[0].field).toBe('storyPoints');
+
+      const task = await request(app.getHttpServer())
+        .get(`/tasks/${response.body.rows[1].taskId}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+      expect(task.body.title).toBe('Quoted, title');
+      expect(task.body.userId).toBe(userIds.user1);
+    });
+
+    it('should report unreadable rows and parents the user cannot use', async () => {
+      const lines = [
+        JSON.stringify({ title: 'Fine', priority: TaskPriority.LOW }),
+        'not json',
+        JSON.stringify({ title: 'Foreign parent', parentId: taskIds.user2Task1 }),
+      ];
+
+      const response = await request(app.getHttpServer())
+        .post('/tasks/import')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .attach('file', Buffer.from(lines.join('\n')), { filename: 'tasks.jsonl' })
+        .expect(201);
+
+      expect(response.body).toMatchObject({ created: 1, failed: 2 });
+      expect(response.body.rows[1].errors[0].field).toBeNull();
+      expect(response.body.rows[2].errors[0].field).toBe('parentId');
+    });
+
+    it('should queue large imports in chunks', async () => {
+      const lines = Array.from({ length: 150 }, (_, i) =>
+        JSON.stringify({ title: `Bulk import ${i}`, dueDate: inAWeek() }),
+      );
+
+      const response = await request(app.getHttpServer())
+        .post('/tasks/import')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .attach('file', Buffer.from(lines.join('\n')), { filename: 'tasks.ndjson' })
+        .expect(201);
+
+      expect(response.body).toMatchObject({ totalRows: 150, created: 0, queued: 150, failed: 0 });
+      expect(response.body.rows[0].jobId).toBeDefined();
+    });
+
+    it('should return the report as CSV on request', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/tasks/import?report=csv')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .attach('file', Buffer.from('title,status\nCSV report,NOPE\n'), { filename: 'tasks.csv' })
+        .expect(201);
+
+      expect(response.headers['content-type']).toContain('text/csv');
+      const [header, row] = response.text.trim().split('\r\n');
+      expect(header).toBe('row,status,taskId,jobId,errors');
+      expect(row).toMatch(/^2,failed,,,"?status: /);
+    });
+
+    it('should reject unknown CSV columns and unsupported files', async () => {
+      const columns = await request(app.getHttpServer())
+        .post('/tasks/import')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .attach('file', Buffer.from('title,owner\nTask,someone\n'), { filename: 'tasks.csv' })
+        .expect(400);
+      expect(columns.body.code).toBe('TASK_IMPORT_UNKNOWN_COLUMNS');
+
+      const format = await request(app.getHttpServer())
+        .post('/tasks/import')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .attach('file', Buffer.from('<tasks />'), {
+          filename: 'tasks.xml',
+          contentType: 'application/xml',
+        })
+        .expect(400);
+      expect(format.body.code).toBe('TASK_IMPORT_FORMAT_UNSUPPORTED');
+
+      const missing = await request(app.getHttpServer())
+        .post('/tasks/import')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(400);
+      expect(missing.body.code).toBe('TASK_IMPORT_FILE_REQUIRED');
+    });
+  });
+
+  describe('GET /tasks/export - Export Tasks', () => {
+    it('should stream the visible tasks as CSV by default', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/tasks/export')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['content-disposition']).toContain('tasks.csv');
+
+      const [header, ...rows] = response.text.trim().split('\r\n');
+      expect(header.split(',')).toEqual(
+        expect.arrayContaining(['id', 'title', 'status', 'userId', 'tagIds', 'createdAt']),
+      );
+
+      const exportedIds = rows.map(row => row.split(',')[0]);
+      expect(exportedIds).toContain(taskIds.user1Task2);
+      expect(exportedIds).not.toContain(taskIds.user2Task1);
+    });
+
+    it('should keep spreadsheets from evaluating cells as formulas', async () => {
+      const task = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ title: '=1+2 formula export' })
+        .expect(201);
+
+      const response = await request(app.getHttpServer())
+        .get('/tasks/export')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      const row = response.text.split('\r\n').find(line => line.startsWith(task.body.id));
+      expect(row?.split(',')[1]).toBe("'=1+2 formula export");
+
+      await dataSource.query('DELETE FROM tasks WHERE id = $1', [task.body.id]);
+    });
+
+    it('should apply the list filters and write JSON Lines', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/tasks/export?format=ndjson&priority=HIGH&sortBy=title')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .buffer(true)
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('application/x-ndjson');
+
+      const tasks = response.text
+        .trim()
+        .split('\n')
+        .map(line => JSON.parse(line));
+      expect(tasks.length).toBeGreaterThan(0);
+      expect(tasks.every((task: any) => task.priority === TaskPriority.HIGH)).toBe(true);
+      expect(Array.isArray(tasks[0].tagIds)).toBe(true);
+    });
+
+    it('should let admins export tasks of every user', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/tasks/export?format=jsonl')
+        .set('Authorization', `Bearer ${tokens.admin}`)
+        .buffer(true)
+        .expect(200);
+
+      const ids = response.text
+        .trim()
+        .split('\n')
+        .map(line => JSON.parse(line).id);
+      expect(ids).toEqual(expect.arrayContaining([taskIds.user2Task1, taskIds.user1Task2]));
+    });
+
+    it('should reject unknown formats and paging parameters', async () => {
+      await request(app.getHttpServer())
+        .get('/tasks/export?format=xml')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(400);
+
+      await request(app.getHttpServer())
+        .get('/tasks/export?page=2')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(400);
+    });
+
+    it('should only hand out completed exports to their owner', async () => {
+      const [queued] = await dataSource.query(
+        `INSERT INTO task_exports (organization_id, user_id, format)
+         SELECT organization_id, user_id, 'csv' FROM tasks WHERE id = $1
+         RETURNING id`,
+        [taskIds.user1Task2],
+      );
+
+      const status = await request(app.getHttpServer())
+        .get(`/tasks/exports/${queued.id}`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+      expect(status.body).toMatchObject({ status: 'queued', rowCount: null });
+      expect(status.body.storageKey).toBeUndefined();
+
+      const notReady = await request(app.getHttpServer())
+        .get(`/tasks/exports/${queued.id}/download`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(409);
+      expect(notReady.body.code).toBe('TASK_EXPORT_NOT_READY');
+
+      const foreign = await request(app.getHttpServer())
+        .get(`/tasks/exports/${queued.id}`)
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .expect(403);
+      expect(foreign.body.code).toBe('TASK_EXPORT_NOT_OWNED');
+
+      const missing = await request(app.getHttpServer())
+        .get('/tasks/exports/00000000-0000-4000-8000-000000000000')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(404);
+      expect(missing.body.code).toBe('TASK_EXPORT_NOT_FOUND');
+    });
+  });
+
+  describe('PATCH /tasks/:id/move - Board Positions', () => {
+    let boardIds: { a: string; b: string; c: string };
+
+    const columnOrder = async (status: TaskStatus) => {
+      const response = await request(app.getHttpServer())
+        .get(`/tasks/board?status=${status}&limit=200`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(response.body.columns).toHaveLength(1);
+      expect(response.body.columns[0].status).toBe(status);
+
+      const ids: string[] = response.body.columns[0].tasks.map((task: any) => task.id);
+      return Object.values(boardIds)
+        .filter(id => ids.includes(id))
+        .sort((x, y) => ids.indexOf(x) - ids.indexOf(y));
+    };
+
+    const move = (id: string, body: Record<string, unknown>) =>
+      request(app.getHttpServer())
+        .patch(`/tasks/${id}/move`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send(body);
+
+    beforeAll(async () => {
+      const response = await request(app.getHttpServer())
+        .post('/tasks/batch')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .send({ tasks: [{ title: 'Board A' }, { title: 'Board B' }, { title: 'Board C' }] })
+        .expect(201);
+
+      const [a, b, c] = response.body.tasks.map((task: any) => task.id);
+      boardIds = { a, b, c };
+    });
+
+    it('should list every status as a column with new tasks at the bottom', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/tasks/board')
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(response.body.columns.map((column: any) => column.status)).toEqual(
+        Object.values(TaskStatus),
+      );
+      const pending = response.body.columns.find(
+        (column: any) => column.status === TaskStatus.PENDING,
+      );
+      expect(pending.total).toBeGreaterThanOrEqual(3);
+
+      expect(await columnOrder(TaskStatus.PENDING)).toEqual([boardIds.a, boardIds.b, boardIds.c]);
+    });
 
-      await request(app.getHttpServer())
-        .delete(`/tasks/${createRes.body.id}`)
-        .set('Authorization', `Bearer ${tokens.user1}`)
-        .expect(200);
+    it('should place a task between its neighbours', async () => {
+      const response = await move(boardIds.c, { beforeId: boardIds.a, afterId: boardIds.b }).expect(
+        200,
+      );
 
-      // Verify deletion
-      await request(app.getHttpServer())
-        .get(`/tasks/${createRes.body.id}`)
-        .set('Authorization', `Bearer ${tokens.user1}`)
-        .expect(404);
+      expect(response.body.status).toBe(TaskStatus.PENDING);
+      expect(await columnOrder(TaskStatus.PENDING)).toEqual([boardIds.a, boardIds.c, boardIds.b]);
     });
 
-    it("should prevent user from deleting another user's task", async () => {
-      await request(app.getHttpServer())
-        .delete(`/tasks/${taskIds.user2Task1}`)
+    it('should give concurrent moves into the same gap distinct ranks', async () => {
+      await Promise.all([
+        move(boardIds.b, { beforeId: boardIds.a }).expect(200),
+        move(boardIds.c, { beforeId: boardIds.a }).expect(200),
+      ]);
+
+      const [, ...others] = await columnOrder(TaskStatus.PENDING);
+      expect(others.sort()).toEqual([boardIds.b, boardIds.c].sort());
+
+      const ranks = await dataSource.query('SELECT rank FROM tasks WHERE id = ANY($1)', [
+        Object.values(boardIds),
+      ]);
+      expect(new Set(ranks.map((row: any) => row.rank)).size).toBe(3);
+    });
+
+    it('should rebalance the column when neighbours are too close to split', async () => {
+      await dataSource.query('UPDATE tasks SET rank = 10 WHERE id = $1', [boardIds.a]);
+      await dataSource.query('UPDATE tasks SET rank = 10.0000001 WHERE id = $1', [boardIds.c]);
+      await dataSource.query('UPDATE tasks SET rank = 20 WHERE id = $1', [boardIds.b]);
+
+      const response = await move(boardIds.b, { beforeId: boardIds.a }).expect(200);
+
+      expect(await columnOrder(TaskStatus.PENDING)).toEqual([boardIds.a, boardIds.b, boardIds.c]);
+
+      const [a] = await dataSource.query('SELECT rank FROM tasks WHERE id = $1', [boardIds.a]);
+      expect(response.body.rank - a.rank).toBeGreaterThanOrEqual(0.5);
+    });
+
+    it('should reject neighbours outside the target column', async () => {
+      const response = await move(boardIds.a, {
+        status: TaskStatus.IN_PROGRESS,
+        beforeId: boardIds.b,
+      }).expect(400);
+      expect(response.body.code).toBe('TASK_MOVE_NEIGHBOUR_INVALID');
+
+      await move(boardIds.a, { beforeId: boardIds.a }).expect(400);
+      await move(boardIds.a, { afterId: 'not-a-uuid' }).expect(400);
+    });
+
+    it('should reject neighbours given in the wrong order', async () => {
+      const response = await move(boardIds.a, {
+        beforeId: boardIds.c,
+        afterId: boardIds.b,
+      }).expect(409);
+      expect(response.body.code).toBe('TASK_MOVE_NEIGHBOURS_CHANGED');
+    });
+
+    it('should reject neighbours that are no longer next to each other', async () => {
+      const [pending, inProgress] = await Promise.all(
+        [TaskStatus.PENDING, TaskStatus.IN_PROGRESS].map(status =>
+          request(app.getHttpServer())
+            .post('/tasks')
+            .set('Authorization', `Bearer ${tokens.user1}`)
+            .send({ title: `Board ${status}`, status })
+            .expect(201),
+        ),
+      );
+
+      const sameColumn = await move(pending.body.id, {
+        beforeId: boardIds.a,
+        afterId: boardIds.c,
+      }).expect(409);
+      expect(sameColumn.body.code).toBe('TASK_MOVE_NEIGHBOURS_CHANGED');
+
+      // A rejected move to another column leaves the status alone
+      const otherColumn = await move(inProgress.body.id, {
+        status: TaskStatus.PENDING,
+        beforeId: boardIds.a,
+        afterId: boardIds.c,
+      }).expect(409);
+      expect(otherColumn.body.code).toBe('TASK_MOVE_NEIGHBOURS_CHANGED');
+
+      const unchanged = await request(app.getHttpServer())
+        .get(`/tasks/${inProgress.body.id}`)
         .set('Authorization', `Bearer ${tokens.user1}`)
-        .expect(403);
+        .expect(200);
+      expect(unchanged.body.status).toBe(TaskStatus.IN_PROGRESS);
+
+      await dataSource.query('DELETE FROM tasks WHERE id = ANY($1)', [
+        [pending.body.id, inProgress.body.id],
+      ]);
     });
 
-    it('should allow admin to delete any task', async () => {
-      // Create a new task to delete
-      const createRes = await request(app.getHttpServer())
-        .post('/tasks')
-        .set('Authorization', `Bearer ${tokens.user2}`)
-        .send({
-          title: 'Task to Delete by Admin',
-          description: 'Will be deleted by admin',
-          status: TaskStatus.PENDING,
-          priority: TaskPriority.LOW,
-          //  dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-        })
-        .expect(201);
+    it('should change the status when moving to another column', async () => {
+      const response = await move(boardIds.c, { status: TaskStatus.IN_PROGRESS }).expect(200);
 
-      await request(app.getHttpServer())
-        .delete(`/tasks/${createRes.body.id}`)
-        .set('Authorization', `Bearer ${tokens.admin}`)
+      expect(response.body.status).toBe(TaskStatus.IN_PROGRESS);
+      expect(await columnOrder(TaskStatus.IN_PROGRESS)).toEqual([boardIds.c]);
+      expect(await columnOrder(TaskStatus.PENDING)).toEqual([boardIds.a, boardIds.b]);
+
+      const activity = await request(app.getHttpServer())
+        .get(`/tasks/${boardIds.c}/activity`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
         .expect(200);
+      expect(
+        activity.body.data.some(
+          (entry: any) => entry.changes?.status?.to === TaskStatus.IN_PROGRESS,
+        ),
+      ).toBe(true);
     });
 
-    it('should allow super-admin to delete any task', async () => {
-      // Create a new task to delete
-      const createRes = await request(app.getHttpServer())
-        .post('/tasks')
-        .set('Authorization', `Bearer ${tokens.user2}`)
-        .send({
-          title: 'Task to Delete by Super Admin',
-          description: 'Will be deleted by super admin',
-          status: TaskStatus.PENDING,
-          priority: TaskPriority.LOW,
-          dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-        })
-        .expect(201);
+    it('should apply the workflow to moves across columns', async () => {
+      await move(boardIds.a, { status: TaskStatus.COMPLETED }).expect(200);
+
+      const response = await move(boardIds.a, { status: TaskStatus.IN_REVIEW }).expect(409);
+      expect(response.body.code).toBe('TASK_STATUS_TRANSITION_INVALID');
+    });
 
+    it("should not move another user's task", async () => {
       await request(app.getHttpServer())
-        .delete(`/tasks/${createRes.body.id}`)
-        .set('Authorization', `Bearer ${tokens.superAdmin}`)
-        .expect(200);
+        .patch(`/tasks/${boardIds.b}/move`)
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .send({})
+        .expect(403);
     });
   });
 
-  describe('POST /tasks/batch - Batch Create Tasks', () => {
-    it('should allow user to batch create their own tasks', async () => {
+  describe('PATCH /tasks/batch - Batch Update Tasks', () => {
+    let batchIds: { first: string; second: string; blocked: string };
+
+    const batchUpdate = (token: string, body: Record<string, unknown>) =>
+      request(app.getHttpServer())
+        .patch('/tasks/batch')
+        .set('Authorization', `Bearer ${token}`)
+        .send(body);
+
+    beforeAll(async () => {
       const response = await request(app.getHttpServer())
         .post('/tasks/batch')
         .set('Authorization', `Bearer ${tokens.user1}`)
         .send({
-          tasks: [
-            {
-              title: 'Batch Task 1',
-              description: 'First batch task',
-              status: TaskStatus.PENDING,
-              priority: TaskPriority.HIGH,
-              dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-            },
-            {
-              title: 'Batch Task 2',
-              description: 'Second batch task',
-              status: TaskStatus.PENDING,
-              priority: TaskPriority.MEDIUM,
-              dueDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString(),
-            },
-          ],
+          tasks: [{ title: 'Triage 1' }, { title: 'Triage 2' }, { title: 'Triage blocked' }],
         })
         .expect(201);
 
-      expect(response.body).toHaveProperty('message');
-      expect(response.body).toHaveProperty('createdCount', 2);
-      expect(response.body).toHaveProperty('tasks');
-      expect(response.body.tasks.length).toBe(2);
-      response.body.tasks.forEach((task: any) => {
-        expect(task.userId).toBe(userIds.user1);
-      });
-    });
+      const [first, second, blocked] = response.body.tasks.map((task: any) => task.id);
+      batchIds = { first, second, blocked };
 
-    it('should fail with invalid task data', async () => {
       await request(app.getHttpServer())
-        .post('/tasks/batch')
+        .post(`/tasks/${blocked}/dependencies`)
         .set('Authorization', `Bearer ${tokens.user1}`)
-        .send({
-          tasks: [
-            {
-              title: '',
-              description: 'Invalid task',
-              status: 'INVALID',
-              priority: TaskPriority.HIGH,
-            },
-          ],
-        })
-        .expect(400);
+        .send({ blockedById: first })
+        .expect(201);
     });
-  });
 
-  describe('DELETE /tasks/batch - Batch Delete Tasks', () => {
-    it('should allow user to batch delete their own tasks', async () => {
-      // Create tasks to delete
-      const createRes = await request(app.getHttpServer())
-        .post('/tasks/batch')
+    it('should update every task and report a result per ID', async () => {
+      const response = await batchUpdate(tokens.user1, {
+        taskIds: [batchIds.first, batchIds.second],
+        priority: TaskPriority.HIGH,
+        assigneeId: userIds.user2,
+      }).expect(200);
+
+      expect(response.body.updatedCount).toBe(2);
+      expect(response.body.failedCount).toBe(0);
+      expect(response.body.results).toEqual([
+        { taskId: batchIds.first, result: 'updated' },
+        { taskId: batchIds.second, result: 'updated' },
+      ]);
+
+      const task = await request(app.getHttpServer())
+        .get(`/tasks/${batchIds.second}`)
         .set('Authorization', `Bearer ${tokens.user1}`)
-        .send({
-          tasks: [
-            {
-              title: 'Delete Task 1',
-              description: 'To be deleted',
-              status: TaskStatus.PENDING,
-              priority: TaskPriority.LOW,
-              dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-            },
-            {
-              title: 'Delete Task 2',
-              description: 'To be deleted',
-              status: TaskStatus.PENDING,
-              priority: TaskPriority.LOW,
-              dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-            },
-          ],
-        })
-        .expect(201);
+        .expect(200);
+      expect(task.body.priority).toBe(TaskPriority.HIGH);
+      expect(task.body.assigneeId).toBe(userIds.user2);
 
-      const taskIdsToDelete = createRes.body.tasks.map((task: any) => task.id);
+      const activity = await request(app.getHttpServer())
+        .get(`/tasks/${batchIds.second}/activity`)
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+      expect(
+        activity.body.data.some((entry: any) => entry.changes?.priority?.to === TaskPriority.HIGH),
+      ).toBe(true);
+    });
 
-      const response = await request(app.getHttpServer())
-        .delete('/tasks/batch')
+    it('should report tasks that fail a status check and update the others', async () => {
+      const response = await batchUpdate(tokens.user1, {
+        taskIds: [batchIds.blocked, batchIds.second],
+        status: TaskStatus.IN_PROGRESS,
+      }).expect(200);
+
+      expect(response.body.updatedCount).toBe(1);
+      expect(response.body.results).toEqual([
+        {
+          taskId: batchIds.blocked,
+          result: 'failed',
+          code: 'TASK_BLOCKED',
+          message: expect.any(String),
+        },
+        { taskId: batchIds.second, result: 'updated' },
+      ]);
+
+      const blocked = await request(app.getHttpServer())
+        .get(`/tasks/${batchIds.blocked}`)
         .set('Authorization', `Bearer ${tokens.user1}`)
-        .send({ taskIds: taskIdsToDelete })
         .expect(200);
+      expect(blocked.body.status).toBe(TaskStatus.PENDING);
+    });
 
-      expect(response.body).toHaveProperty('message');
-      expect(response.body).toHaveProperty('deletedCount', 2);
+    it('should report tasks that already have the values as unchanged', async () => {
+      const response = await batchUpdate(tokens.user1, {
+        taskIds: [batchIds.second],
+        status: TaskStatus.IN_PROGRESS,
+      }).expect(200);
+
+      expect(response.body.results).toEqual([{ taskId: batchIds.second, result: 'unchanged' }]);
     });
 
-    it("should prevent user from deleting another user's tasks", async () => {
-      await request(app.getHttpServer())
-        .delete('/tasks/batch')
-        .set('Authorization', `Bearer ${tokens.user1}`)
-        .send({ taskIds: [taskIds.user2Task1] })
-        .expect(403);
+    it('should let assignees change only the status of tasks they do not own', async () => {
+      await batchUpdate(tokens.user2, {
+        taskIds: [batchIds.first],
+        status: TaskStatus.IN_PROGRESS,
+      }).expect(200);
+
+      const response = await batchUpdate(tokens.user2, {
+        taskIds: [batchIds.first],
+        priority: TaskPriority.LOW,
+      }).expect(403);
+      expect(response.body.code).toBe('TASKS_UPDATE_ASSIGNEE_DENIED');
     });
 
-    it('should allow admin to batch delete any tasks', async () => {
-      // Create tasks to delete
-      const createRes = await request(app.getHttpServer())
-        .post('/tasks/batch')
-        .set('Authorization', `Bearer ${tokens.user2}`)
-        .send({
-          tasks: [
-            {
-              title: 'Admin Delete Task 1',
-              description: 'To be deleted by admin',
-              status: TaskStatus.PENDING,
-              priority: TaskPriority.LOW,
-              dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-            },
-          ],
-        })
-        .expect(201);
+    it("should reject the whole batch when it contains another user's task", async () => {
+      const response = await batchUpdate(tokens.user1, {
+        taskIds: [batchIds.blocked, taskIds.user2Task1],
+        priority: TaskPriority.LOW,
+      }).expect(403);
+      expect(response.body.code).toBe('TASKS_UPDATE_PERMISSION_DENIED');
+    });
 
-      const taskIdsToDelete = createRes.body.tasks.map((task: any) => task.id);
+    it('should reject missing tasks, unknown assignees and empty changes', async () => {
+      await batchUpdate(tokens.user1, {
+        taskIds: [batchIds.blocked, '123e4567-e89b-42d3-a456-426614174000'],
+        priority: TaskPriority.LOW,
+      }).expect(404);
 
-      await request(app.getHttpServer())
-        .delete('/tasks/batch')
-        .set('Authorization', `Bearer ${tokens.admin}`)
-        .send({ taskIds: taskIdsToDelete })
-        .expect(200);
+      const assignee = await batchUpdate(tokens.user1, {
+        taskIds: [batchIds.blocked],
+        assigneeId: '123e4567-e89b-42d3-a456-426614174000',
+      }).expect(404);
+      expect(assignee.body.code).toBe('TASK_ASSIGNEE_NOT_FOUND');
+
+      const empty = await batchUpdate(tokens.user1, { taskIds: [batchIds.blocked] }).expect(400);
+      expect(empty.body.code).toBe('TASKS_UPDATE_EMPTY');
+
+      await batchUpdate(tokens.user1, { taskIds: [], priority: TaskPriority.LOW }).expect(400);
     });
-  });
 
-  describe('POST /tasks/batch/async - Async Batch Create', () => {
-    it('should queue tasks for async creation', async () => {
+    it('should allow admin to batch update any tasks', async () => {
+      await batchUpdate(tokens.admin, {
+        taskIds: [batchIds.blocked, taskIds.user2Task1],
+        priority: TaskPriority.MEDIUM,
+      }).expect(200);
+    });
+
+    it('should queue tasks for async update', async () => {
       const response = await request(app.getHttpServer())
-        .post('/tasks/batch/async')
+        .patch('/tasks/batch/async')
         .set('Authorization', `Bearer ${tokens.user1}`)
-        .send({
-          tasks: [
-            {
-              title: 'Async Task 1',
-              description: 'First async task',
-              status: TaskStatus.PENDING,
-              priority: TaskPriority.HIGH,
-              dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-            },
-          ],
-        })
+        .send({ taskIds: [batchIds.blocked], priority: TaskPriority.HIGH })
         .expect(202);
 
       expect(response.body).toHaveProperty('message');
       expect(response.body).toHaveProperty('jobId');
+      expect(response.body.taskCount).toBe(1);
     });
   });
 
@@ -752,6 +2548,9 @@ describe('Tasks E2E Tests (RBAC)', () => {
       expect(response.body).toHaveProperty('completed');
       expect(response.body).toHaveProperty('inProgress');
       expect(response.body).toHaveProperty('pending');
+      expect(response.body).toHaveProperty('blocked');
+      expect(response.body).toHaveProperty('inReview');
+      expect(response.body).toHaveProperty('cancelled');
       expect(response.body).toHaveProperty('highPriority');
       expect(typeof response.body.total).toBe('number');
     });
@@ -776,4 +2575,96 @@ describe('Tasks E2E Tests (RBAC)', () => {
       expect(response.body.total).toBeGreaterThanOrEqual(4);
     });
   });
+
+  describe('GET /tasks/stats/estimates - Estimate Report', () => {
+    let estimatedTaskId: string;
+    let reportStart: string;
+
+    beforeAll(async () => {
+      reportStart = new Date(Date.now() - 1000).toISOString();
+
+      const createRes = await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .send({
+          title: 'Estimated task',
+          priority: TaskPriority.LOW,
+          estimateMinutes: 120,
+          storyPoints: 3,
+        })
+        .expect(201);
+      estimatedTaskId = createRes.body.id;
+
+      for (const status of [TaskStatus.IN_PROGRESS, TaskStatus.COMPLETED]) {
+        await request(app.getHttpServer())
+          .patch(`/tasks/${estimatedTaskId}`)
+          .set('Authorization', `Bearer ${tokens.user2}`)
+          .send({ status })
+          .expect(200);
+      }
+    });
+
+    it('should store estimates on the task', async () => {
+      const response = await request(app.getHttpServer())
+        .get(`/tasks/${estimatedTaskId}`)
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .expect(200);
+
+      expect(response.body.estimateMinutes).toBe(120);
+      expect(response.body.storyPoints).toBe(3);
+    });
+
+    it('should reject non-positive estimates', async () => {
+      await request(app.getHttpServer())
+        .post('/tasks')
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .send({ title: 'Invalid estimate', estimateMinutes: 0 })
+        .expect(400);
+    });
+
+    it('should compare the estimate with the elapsed time', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/tasks/stats/estimates')
+        .query({ completedAfter: reportStart, priority: 'low' })
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .expect(200);
+
+      expect(response.body.measureFrom).toBe('started');
+      expect(response.body.summary.taskCount).toBe(1);
+      expect(response.body.summary.totalEstimateMinutes).toBe(120);
+      expect(response.body.summary.overestimatedCount).toBe(1);
+      expect(response.body.byPriority).toHaveLength(1);
+      expect(response.body.byPriority[0].priority).toBe(TaskPriority.LOW);
+      expect(response.body.data[0]).toMatchObject({
+        taskId: estimatedTaskId,
+        estimateMinutes: 120,
+        storyPoints: 3,
+        actualMinutes: 0,
+        ratio: 0,
+      });
+    });
+
+    it('should only include tasks of the current user', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/tasks/stats/estimates')
+        .query({ completedAfter: reportStart })
+        .set('Authorization', `Bearer ${tokens.user1}`)
+        .expect(200);
+
+      expect(
+        response.body.data.map((comparison: { taskId: string }) => comparison.taskId),
+      ).not.toContain(estimatedTaskId);
+    });
+
+    it('should reject an inverted completion range', async () => {
+      await request(app.getHttpServer())
+        .get('/tasks/stats/estimates')
+        .query({
+          completedAfter: '2025-02-01T00:00:00.000Z',
+          completedBefore: '2025-01-01T00:00:00.000Z',
+        })
+        .set('Authorization', `Bearer ${tokens.user2}`)
+        .expect(400);
+    });
+  });
 });
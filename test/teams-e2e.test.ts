@@ -0,0 +1,227 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { AppModule } from '../src/app.module';
+import { DataSource } from 'typeorm';
+import { UserRole } from '../src/modules/users/enum/user-role.enum';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Teams E2E Tests', () => {
+  let app: INestApplication;
+  let dataSource: DataSource;
+  let accounts: Record<'admin' | 'alice' | 'bob' | 'carol', { id: string; token: string }>;
+  let organizationId: string;
+  let teamId: string;
+  let sharedTaskId: string;
+
+  beforeEach(async () => {
+    await delay(1000);
+  });
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+    await delay(1000);
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+
+    accounts = {
+      admin: await registerAndLogin('admin-teams@teste2e.com', 'Initech (e2e teams)'),
+      alice: await registerAndLogin('alice-teams@teste2e.com'),
+      bob: await registerAndLogin('bob-teams@teste2e.com'),
+      carol: await registerAndLogin('carol-teams@teste2e.com'),
+    };
+
+    // Owning an organization does not make a platform admin; promote before the
+    // first authenticated request caches the account
+    await dataSource.query('UPDATE users SET role = $1 WHERE id = $2', [
+      UserRole.ADMIN,
+      accounts.admin.id,
+    ]);
+
+    const organizations = await request(app.getHttpServer())
+      .get('/organizations')
+      .set('Authorization', `Bearer ${accounts.admin.token}`)
+      .expect(200);
+    organizationId = organizations.body[0].organizationId;
+
+    for (const [email, account] of [
+      ['alice-teams@teste2e.com', accounts.alice],
+      ['bob-teams@teste2e.com', accounts.bob],
+    ] as const) {
+      const invitation = await request(app.getHttpServer())
+        .post(`/organizations/${organizationId}/invitations`)
+        .set('Authorization', `Bearer ${accounts.admin.token}`)
+        .send({ email })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .post(`/organizations/invitations/${invitation.body.id}/accept`)
+        .set('Authorization', `Bearer ${account.token}`)
+        .expect(200);
+    }
+  });
+
+  afterAll(async () => {
+    if (dataSource) {
+      await dataSource.query("DELETE FROM organizations WHERE name LIKE '% (e2e teams)'");
+      await dataSource.query("DELETE FROM users WHERE email LIKE '%-teams@teste2e.com'");
+    }
+    await app.close();
+  });
+
+  async function registerAndLogin(
+    email: string,
+    organizationName?: string,
+  ): Promise<{ id: string; token: string }> {
+    const password = 'Password123!';
+    const registerRes = await request(app.getHttpServer())
+      .post('/auth/register')
+      .send({ email, password, name: email, organizationName })
+      .expect(201);
+
+    const loginRes = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password })
+      .expect(201);
+
+    return { id: registerRes.body.user.id, token: loginRes.body.access_token };
+  }
+
+  function as(account: { token: string }) {
+    const server = app.getHttpServer();
+    const withHeaders = (req: request.Test) =>
+      req.set('Authorization', `Bearer ${account.token}`).set('X-Organization-Id', organizationId);
+
+    return {
+      get: (url: string) => withHeaders(request(server).get(url)),
+      post: (url: string) => withHeaders(request(server).post(url)),
+      patch: (url: string) => withHeaders(request(server).patch(url)),
+      delete: (url: string) => withHeaders(request(server).delete(url)),
+    };
+  }
+
+  it('should let admins create teams with unique names', async () => {
+    const response = await as(accounts.admin)
+      .post('/teams')
+      .send({ name: 'Platform', description: 'API and workers' })
+      .expect(201);
+
+    expect(response.body.organizationId).toBe(organizationId);
+    teamId = response.body.id;
+
+    const duplicate = await as(accounts.admin)
+      .post('/teams')
+      .send({ name: 'Platform' })
+      .expect(409);
+    expect(duplicate.body.code).toBe('TEAM_NAME_EXISTS');
+
+    await as(accounts.alice).post('/teams').send({ name: 'Rogue' }).expect(403);
+  });
+
+  it('should only add members of the organization', async () => {
+    for (const account of [accounts.alice, accounts.bob]) {
+      await as(accounts.admin)
+        .post(`/teams/${teamId}/members`)
+        .send({ userId: account.id })
+        .expect(201);
+    }
+
+    const duplicate = await as(accounts.admin)
+      .post(`/teams/${teamId}/members`)
+      .send({ userId: accounts.bob.id })
+      .expect(409);
+    expect(duplicate.body.code).toBe('TEAM_MEMBER_EXISTS');
+
+    const outsider = await as(accounts.admin)
+      .post(`/teams/${teamId}/members`)
+      .send({ userId: accounts.carol.id })
+      .expect(404);
+    expect(outsider.body.code).toBe('USER_NOT_FOUND');
+
+    const members = await as(accounts.bob).get(`/teams/${teamId}/members`).expect(200);
+    expect(members.body.map((member: { userId: string }) => member.userId).sort()).toEqual(
+      [accounts.alice.id, accounts.bob.id].sort(),
+    );
+
+    const teams = await as(accounts.bob).get('/teams').expect(200);
+    expect(teams.body.map((team: { id: string }) => team.id)).toEqual([teamId]);
+  });
+
+  it("should show a task in a team member's list once it is shared", async () => {
+    const task = await as(accounts.alice).post('/tasks').send({ title: 'Rotate keys' }).expect(201);
+    sharedTaskId = task.body.id;
+
+    // Warm bob's cached list before the task is shared
+    const before = await as(accounts.bob).get('/tasks').expect(200);
+    expect(before.body.data.map((t: { id: string }) => t.id)).not.toContain(sharedTaskId);
+
+    const shared = await as(accounts.alice)
+      .patch(`/tasks/${sharedTaskId}`)
+      .send({ teamId })
+      .expect(200);
+    expect(shared.body.teamId).toBe(teamId);
+
+    const after = await as(accounts.bob).get('/tasks').expect(200);
+    expect(after.body.data.map((t: { id: string }) => t.id)).toContain(sharedTaskId);
+  });
+
+  it('should let team members change the status but nothing else', async () => {
+    await as(accounts.bob).get(`/tasks/${sharedTaskId}`).expect(200);
+
+    const moved = await as(accounts.bob)
+      .patch(`/tasks/${sharedTaskId}`)
+      .send({ status: 'IN_PROGRESS' })
+      .expect(200);
+    expect(moved.body.status).toBe('IN_PROGRESS');
+
+    const renamed = await as(accounts.bob)
+      .patch(`/tasks/${sharedTaskId}`)
+      .send({ title: 'Taken over' })
+      .expect(403);
+    expect(renamed.body.code).toBe('TASK_ASSIGNEE_STATUS_ONLY');
+
+    const deleted = await as(accounts.bob).delete(`/tasks/${sharedTaskId}`).expect(403);
+    expect(deleted.body.code).toBe('TASK_NOT_OWNED');
+  });
+
+  it('should reject sharing with a team the owner is not in', async () => {
+    const otherTeam = await as(accounts.admin).post('/teams').send({ name: 'Design' }).expect(201);
+
+    const response = await as(accounts.alice)
+      .post('/tasks')
+      .send({ title: 'Mockups', teamId: otherTeam.body.id })
+      .expect(400);
+    expect(response.body.code).toBe('TEAM_OWNER_NOT_MEMBER');
+  });
+
+  it('should hide shared tasks from members who leave the team', async () => {
+    await as(accounts.bob).delete(`/teams/${teamId}/members/${accounts.bob.id}`).expect(200);
+
+    await as(accounts.bob).get(`/tasks/${sharedTaskId}`).expect(403);
+
+    const list = await as(accounts.bob).get('/tasks').expect(200);
+    expect(list.body.data.map((t: { id: string }) => t.id)).not.toContain(sharedTaskId);
+
+    const teams = await as(accounts.bob).get('/teams').expect(200);
+    expect(teams.body).toEqual([]);
+  });
+
+  it('should unshare tasks when their team is deleted', async () => {
+    await as(accounts.admin).delete(`/teams/${teamId}`).expect(200);
+
+    const task = await as(accounts.alice).get(`/tasks/${sharedTaskId}`).expect(200);
+    expect(task.body.teamId).toBeNull();
+  });
+});
@@ -302,6 +302,18 @@ describe('Users E2E Tests (RBAC)', () => {
       expect(response.body.name).toBe('Updated Name by Admin');
     });
 
+    it("should deny admin from changing another user's email or password", async () => {
+      const response = await request(app.getHttpServer())
+        .patch(`/users/${userId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          password: 'TakenOver123!',
+        })
+        .expect(403);
+
+      expect(response.body.code).toBe('USER_CREDENTIALS_SELF_ONLY');
+    });
+
     it('should allow user to update their own profile', async () => {
       const response = await request(app.getHttpServer())
         .patch(`/users/${userId}`)